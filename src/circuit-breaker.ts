@@ -0,0 +1,298 @@
+import { CircuitOpenError, NetworkError, PassageError, TimeoutError } from './errors';
+import type { PassageMiddleware } from './middleware';
+
+/**
+ * Circuit state: `closed` sends requests, `open` fails them fast and
+ * `half-open` lets trial requests through to probe for recovery
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A circuit changed state
+ */
+export interface CircuitStateChange {
+  /** Operation group (e.g. 'applications') */
+  group: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Failure rate in the window when the circuit opened */
+  failureRate?: number;
+}
+
+/**
+ * Circuit breaker settings
+ *
+ * @example
+ * ```typescript
+ * const passage = new Passage({
+ *   apiKey,
+ *   circuitBreaker: { failureRateThreshold: 0.5, minimumRequests: 20, cooldownMs: 15000 },
+ * });
+ * ```
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * Failure rate (0-1) in the window at which the circuit opens
+   * @default 0.5
+   */
+  failureRateThreshold?: number;
+  /**
+   * Requests needed in the window before the failure rate is considered
+   * @default 10
+   */
+  minimumRequests?: number;
+  /**
+   * Sliding window over which the failure rate is measured, in milliseconds
+   * @default 60000
+   */
+  windowMs?: number;
+  /**
+   * How long an open circuit fails fast before letting trial requests
+   * through, in milliseconds
+   * @default 30000
+   */
+  cooldownMs?: number;
+  /**
+   * Trial requests allowed at once while half-open; the circuit closes
+   * once they all succeed and reopens on any failure
+   * @default 1
+   */
+  halfOpenRequests?: number;
+  /**
+   * Group an operation belongs to; each group has its own circuit
+   * @default the resource name ('applications.create' → 'applications')
+   */
+  groupBy?: (operation: string) => string;
+  /**
+   * Whether an error counts as a failure
+   * @default network errors, timeouts and 5xx responses
+   */
+  isFailure?: (error: unknown) => boolean;
+  /**
+   * Called whenever a circuit changes state
+   */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+interface Circuit {
+  state: CircuitState;
+  /** Outcomes in the window, oldest first */
+  outcomes: Array<{ at: number; failed: boolean }>;
+  openedAt: number;
+  trials: number;
+  trialSuccesses: number;
+  /** Bumped on every transition, so late outcomes from an earlier state are ignored */
+  generation: number;
+}
+
+function defaultGroup(operation: string): string {
+  return operation.split('.')[0];
+}
+
+function isOutage(error: unknown): boolean {
+  return (
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    (error instanceof PassageError && error.isServerError)
+  );
+}
+
+/**
+ * Circuit breaker failing calls fast while the Passage API is failing
+ *
+ * Each operation group has its own closed/open/half-open circuit. Pass the
+ * same instance to several clients to share circuits between them.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ cooldownMs: 10000 });
+ * breaker.onStateChange(({ group, to }) => metrics.gauge(`passage.circuit.${group}`, to === 'open' ? 1 : 0));
+ *
+ * const passage = new Passage({ apiKey, circuitBreaker: breaker });
+ *
+ * try {
+ *   await passage.offers.getPrequalified(applicationId);
+ * } catch (error) {
+ *   if (error instanceof CircuitOpenError) {
+ *     return showDegradedCheckout();
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly failureRateThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowMs: number;
+  private readonly cooldownMs: number;
+  private readonly halfOpenRequests: number;
+  private readonly groupBy: (operation: string) => string;
+  private readonly isFailure: (error: unknown) => boolean;
+
+  private readonly circuits = new Map<string, Circuit>();
+  private readonly listeners = new Set<(change: CircuitStateChange) => void>();
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.failureRateThreshold = config.failureRateThreshold ?? 0.5;
+    this.minimumRequests = config.minimumRequests ?? 10;
+    this.windowMs = config.windowMs ?? 60000;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+    this.halfOpenRequests = config.halfOpenRequests ?? 1;
+    this.groupBy = config.groupBy ?? defaultGroup;
+    this.isFailure = config.isFailure ?? isOutage;
+    if (config.onStateChange) {
+      this.listeners.add(config.onStateChange);
+    }
+    if (!(this.failureRateThreshold > 0 && this.failureRateThreshold <= 1)) {
+      throw new Error('CircuitBreaker: failureRateThreshold must be between 0 and 1');
+    }
+  }
+
+  /**
+   * Run `fn` through the circuit of `operation`'s group
+   *
+   * @throws CircuitOpenError if the circuit is open
+   */
+  async execute<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    const group = this.groupBy(operation);
+    const circuit = this.circuit(group);
+    const generation = this.enter(group, circuit);
+
+    try {
+      const result = await fn();
+      this.record(group, circuit, generation, false);
+      return result;
+    } catch (error) {
+      this.record(group, circuit, generation, this.isFailure(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Current state of a group's circuit
+   */
+  state(group: string): CircuitState {
+    const circuit = this.circuits.get(group);
+    if (!circuit) {
+      return 'closed';
+    }
+    if (circuit.state === 'open' && Date.now() >= circuit.openedAt + this.cooldownMs) {
+      this.transition(group, circuit, 'half-open');
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Close a group's circuit (or every circuit) and forget its history
+   */
+  reset(group?: string): void {
+    const groups = group === undefined ? [...this.circuits.keys()] : [group];
+    for (const name of groups) {
+      const circuit = this.circuits.get(name);
+      if (circuit) {
+        circuit.outcomes = [];
+        this.transition(name, circuit, 'closed');
+      }
+    }
+  }
+
+  /**
+   * Listen for state changes
+   *
+   * @returns A function removing the listener
+   */
+  onStateChange(listener: (change: CircuitStateChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Middleware sending every HTTP request through its operation's circuit
+   */
+  readonly middleware: PassageMiddleware = (request, next) =>
+    this.execute(request.operation ?? 'default', () => next(request));
+
+  private circuit(group: string): Circuit {
+    let circuit = this.circuits.get(group);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openedAt: 0, trials: 0, trialSuccesses: 0, generation: 0 };
+      this.circuits.set(group, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Admit a request or throw if the circuit is open
+   *
+   * @returns The circuit generation the request was admitted under
+   */
+  private enter(group: string, circuit: Circuit): number {
+    const state = this.state(group);
+    if (state === 'closed') {
+      return circuit.generation;
+    }
+    if (state === 'half-open' && circuit.trials < this.halfOpenRequests) {
+      circuit.trials++;
+      return circuit.generation;
+    }
+    // Half-open with all trial slots taken fails fast until the trials report back
+    throw new CircuitOpenError(group, Math.max(circuit.openedAt + this.cooldownMs, Date.now()));
+  }
+
+  private record(group: string, circuit: Circuit, generation: number, failed: boolean): void {
+    if (generation !== circuit.generation) {
+      // Admitted before the last transition, e.g. while closed and finishing
+      // after the circuit opened or went half-open
+      return;
+    }
+    if (circuit.state === 'half-open') {
+      if (failed) {
+        this.open(group, circuit);
+      } else if (++circuit.trialSuccesses >= this.halfOpenRequests) {
+        circuit.outcomes = [];
+        this.transition(group, circuit, 'closed');
+      }
+      return;
+    }
+
+    const now = Date.now();
+    circuit.outcomes.push({ at: now, failed });
+    while (circuit.outcomes.length > 0 && circuit.outcomes[0].at <= now - this.windowMs) {
+      circuit.outcomes.shift();
+    }
+
+    if (failed && circuit.outcomes.length >= this.minimumRequests) {
+      const failures = circuit.outcomes.filter((outcome) => outcome.failed).length;
+      const failureRate = failures / circuit.outcomes.length;
+      if (failureRate >= this.failureRateThreshold) {
+        this.open(group, circuit, failureRate);
+      }
+    }
+  }
+
+  private open(group: string, circuit: Circuit, failureRate?: number): void {
+    circuit.openedAt = Date.now();
+    circuit.outcomes = [];
+    this.transition(group, circuit, 'open', failureRate);
+  }
+
+  private transition(group: string, circuit: Circuit, to: CircuitState, failureRate?: number): void {
+    const from = circuit.state;
+    circuit.state = to;
+    circuit.trials = 0;
+    circuit.trialSuccesses = 0;
+    circuit.generation++;
+    if (from === to) {
+      return;
+    }
+    for (const listener of this.listeners) {
+      try {
+        listener({ group, from, to, failureRate });
+      } catch {
+        // A failing listener must not break API calls
+      }
+    }
+  }
+}
@@ -21,6 +21,10 @@ import { AccountResource } from './resources/account';
 import { SigningResource } from './resources/signing';
 import { SDXResource } from './resources/sdx';
 import { WalletsResource } from './resources/wallets';
+import { createHttpClient, type PassageMiddleware } from './middleware';
+import { captureResponses, type ResponseMeta, type WithResponse } from './response';
+import { PassageError } from './errors';
+import type { RateLimiterStats } from './rate-limiter';
 
 /**
  * Main Passage SDK client
@@ -49,6 +53,7 @@ import { WalletsResource } from './resources/wallets';
 export class Passage {
   private readonly config: ResolvedConfig;
   private readonly sdkConfig: Configuration;
+  private latestResponse?: ResponseMeta;
 
   /** Applications resource - create, list, and manage loan applications */
   public readonly applications: ApplicationsResource;
@@ -94,7 +99,14 @@ export class Passage {
       config.environment ??
       (config.apiKey.startsWith('nb_test_') ? 'sandbox' : 'production');
 
-    this.config = resolveConfig({ ...config, environment });
+    this.config = resolveConfig({
+      ...config,
+      environment,
+      onResponse: (response, operation) => {
+        this.latestResponse = response;
+        config.onResponse?.(response, operation);
+      },
+    });
 
     // Initialize underlying SDK configuration
     this.sdkConfig = new Configuration({
@@ -108,15 +120,19 @@ export class Passage {
       },
     });
 
+    // All requests share one axios instance that runs the middleware chain
+    // and sends through the configured transport
+    const http = createHttpClient(this.config.middleware, this.config.transport);
+
     // Initialize API clients
-    const applicationsApi = new ApplicationsApi(this.sdkConfig);
-    const offersApi = new OffersApi(this.sdkConfig);
-    const loansApi = new LoansApi(this.sdkConfig);
-    const entityDiscoveryApi = new EntityDiscoveryApi(this.sdkConfig);
-    const selfServiceApi = new NeobankSelfServiceApi(this.sdkConfig);
-    const signingApi = new SigningApi(this.sdkConfig);
-    const sdxApi = new SDXApi(this.sdkConfig);
-    const walletsApi = new WalletsApi(this.sdkConfig);
+    const applicationsApi = new ApplicationsApi(this.sdkConfig, undefined, http);
+    const offersApi = new OffersApi(this.sdkConfig, undefined, http);
+    const loansApi = new LoansApi(this.sdkConfig, undefined, http);
+    const entityDiscoveryApi = new EntityDiscoveryApi(this.sdkConfig, undefined, http);
+    const selfServiceApi = new NeobankSelfServiceApi(this.sdkConfig, undefined, http);
+    const signingApi = new SigningApi(this.sdkConfig, undefined, http);
+    const sdxApi = new SDXApi(this.sdkConfig, undefined, http);
+    const walletsApi = new WalletsApi(this.sdkConfig, undefined, http);
 
     // Initialize resource clients
     this.applications = new ApplicationsResource(applicationsApi, this.config);
@@ -125,15 +141,81 @@ export class Passage {
     this.lenders = new LendersResource(entityDiscoveryApi, this.config);
     this.account = new AccountResource(selfServiceApi, this.config);
     this.signing = new SigningResource(signingApi, this.config);
-    this.sdx = new SDXResource(sdxApi, this.config);
+    this.sdx = new SDXResource(sdxApi, this.config, http);
     this.wallets = new WalletsResource(walletsApi, this.config);
 
-    if (this.config.debug) {
-      console.log('[Passage] Initialized client', {
-        environment: this.config.environment,
-        baseUrl: this.config.baseUrl,
-      });
+    this.config.logger.debug('Initialized client', {
+      environment: this.config.environment,
+      baseUrl: this.config.baseUrl,
+    });
+  }
+
+  /**
+   * Add request/response middleware
+   *
+   * Runs inside middleware added earlier, for every subsequent request.
+   *
+   * @example
+   * ```typescript
+   * passage.use(async (request, next) => {
+   *   request.headers['traceparent'] = currentTraceparent();
+   *   const response = await next(request);
+   *   logger.info(`${request.operation} #${request.attempt} -> ${response.status}`);
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: PassageMiddleware): this {
+    this.config.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Call a resource method and return its result with the response's
+   * request ID, status, headers and rate limit state
+   *
+   * For methods making several requests (e.g. `listAll()`), the metadata
+   * is that of the last response.
+   *
+   * @example
+   * ```typescript
+   * const { data: application, requestId, rateLimit } = await passage.withResponse(
+   *   (client) => client.applications.get('app_123')
+   * );
+   *
+   * if (rateLimit?.remaining === 0) {
+   *   console.log('Rate limited until', new Date(rateLimit.reset! * 1000));
+   * }
+   * ```
+   */
+  async withResponse<T>(call: (client: this) => Promise<T>): Promise<WithResponse<T>> {
+    let meta: ResponseMeta | undefined;
+    const data = await captureResponses(
+      (response) => {
+        meta = response;
+      },
+      () => call(this)
+    );
+
+    if (!meta) {
+      throw new PassageError('No API response was received', { errorCode: 'NO_RESPONSE' });
     }
+    return { ...meta, data };
+  }
+
+  /**
+   * Metadata of the most recent successful API response made by this client
+   */
+  get lastResponse(): ResponseMeta | undefined {
+    return this.latestResponse;
+  }
+
+  /**
+   * Queue depth, concurrency and bucket state of the client-side rate
+   * limiter, when `rateLimit` is configured
+   */
+  get rateLimit(): RateLimiterStats | undefined {
+    return this.config.rateLimiter?.stats();
   }
 
   /**
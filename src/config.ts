@@ -1,3 +1,12 @@
+import { resolveRetryPolicy, type RetryPolicy, type ResolvedRetryPolicy } from './retry';
+import type { PassageMiddleware } from './middleware';
+import { axiosTransport, type PassageTransport } from './transport';
+import { PassageTelemetry, type TelemetryConfig } from './telemetry';
+import { Logger, consoleLogger, type LogLevel, type PassageLogger } from './logger';
+import type { ResponseMeta } from './response';
+import { RateLimiter, type RateLimiterConfig } from './rate-limiter';
+import { CircuitBreaker, type CircuitBreakerConfig } from './circuit-breaker';
+
 /**
  * Configuration for the Passage SDK client
  */
@@ -32,18 +41,101 @@ export interface PassageClientConfig {
   maxRetries?: number;
 
   /**
-   * Enable debug logging
+   * Backoff, jitter and per-status retry rules
+   *
+   * @example
+   * ```typescript
+   * retry: {
+   *   baseDelay: 500,
+   *   maxDelay: 30000,
+   *   jitter: 'decorrelated',
+   *   maxElapsedTime: 120000,
+   *   statusRules: { 503: { maxRetries: 6 }, 500: false },
+   * }
+   * ```
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Request/response middleware, applied to every HTTP request in order
+   * (the first is outermost). Add more later with `passage.use()`.
+   */
+  middleware?: PassageMiddleware[];
+
+  /**
+   * Sends requests over the network, after all middleware. Use
+   * `fetchTransport()` where axios can't run or `MockTransport` in tests.
+   * @default axiosTransport()
+   */
+  transport?: PassageTransport;
+
+  /**
+   * OpenTelemetry tracer and/or meter provider; instrumentation is off
+   * unless one is given
+   */
+  telemetry?: TelemetryConfig;
+
+  /**
+   * Enable debug logging (to the console unless `logger` is set)
    * @default false
    */
   debug?: boolean;
+
+  /**
+   * Structured logger (winston-compatible; wrap pino with `pinoLogger()`).
+   * Fields are redacted of PII, credentials and ciphertext before they
+   * reach it.
+   */
+  logger?: PassageLogger;
+
+  /**
+   * Minimum level to log
+   * @default 'debug' if `debug` is set, 'info' if `logger` is set, otherwise 'silent'
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Additional field names to redact from logs (e.g. `['externalId']`)
+   */
+  redactKeys?: string[];
+
+  /**
+   * Called with the metadata (request ID, headers, rate limit state) of
+   * every successful API response
+   */
+  onResponse?: (response: ResponseMeta, operation: string) => void;
+
+  /**
+   * Client-side rate limit and max concurrency, shared by all resources.
+   * Pass a `RateLimiter` instance to share it between clients.
+   */
+  rateLimit?: RateLimiterConfig | RateLimiter;
+
+  /**
+   * Fail calls fast with `CircuitOpenError` while the API is failing,
+   * per operation group. Pass a `CircuitBreaker` instance to share it
+   * between clients.
+   */
+  circuitBreaker?: CircuitBreakerConfig | CircuitBreaker;
 }
 
 /**
  * Internal resolved configuration with all defaults applied
  */
 export interface ResolvedConfig
-  extends Required<Omit<PassageClientConfig, 'baseUrl'>> {
+  extends Required<
+    Omit<
+      PassageClientConfig,
+      'baseUrl' | 'retry' | 'middleware' | 'telemetry' | 'logger' | 'logLevel' | 'redactKeys' | 'rateLimit' | 'circuitBreaker'
+    >
+  > {
   baseUrl: string;
+  retry: ResolvedRetryPolicy;
+  middleware: PassageMiddleware[];
+  telemetry?: PassageTelemetry;
+  logger: Logger;
+  rateLimiter?: RateLimiter;
+  circuitBreaker?: CircuitBreaker;
 }
 
 /**
@@ -73,12 +165,55 @@ export function resolveBaseUrl(config: PassageClientConfig): string {
  * Resolve configuration with defaults
  */
 export function resolveConfig(config: PassageClientConfig): ResolvedConfig {
+  const telemetry = config.telemetry && new PassageTelemetry(config.telemetry);
+  const debug = config.debug ?? false;
+  const logger = new Logger(
+    config.logger ?? consoleLogger,
+    config.logLevel ?? (debug ? 'debug' : config.logger ? 'info' : 'silent'),
+    config.redactKeys
+  );
+
+  const rateLimiter =
+    config.rateLimit instanceof RateLimiter
+      ? config.rateLimit
+      : config.rateLimit && new RateLimiter(config.rateLimit);
+  const circuitBreaker =
+    config.circuitBreaker instanceof CircuitBreaker
+      ? config.circuitBreaker
+      : config.circuitBreaker && new CircuitBreaker(config.circuitBreaker);
+
+  const middleware = [...(config.middleware ?? [])];
+  // The limiter wraps only the user's middleware so logged and traced
+  // durations include time spent queued
+  if (rateLimiter) {
+    middleware.unshift(rateLimiter.middleware);
+  }
+  // An open circuit fails fast without waiting in the limiter's queue
+  if (circuitBreaker) {
+    middleware.unshift(circuitBreaker.middleware);
+  }
+  if (logger.isEnabled('debug')) {
+    middleware.unshift(logger.middleware);
+  }
+  // Telemetry runs outermost so its spans cover all other middleware
+  if (telemetry) {
+    middleware.unshift(telemetry.middleware);
+  }
+
   return {
     apiKey: config.apiKey,
     environment: config.environment ?? 'production',
     baseUrl: resolveBaseUrl(config),
     timeout: config.timeout ?? 30000,
     maxRetries: config.maxRetries ?? 3,
-    debug: config.debug ?? false,
+    retry: resolveRetryPolicy(config.retry),
+    middleware,
+    transport: config.transport ?? axiosTransport(),
+    telemetry,
+    debug,
+    logger,
+    rateLimiter,
+    circuitBreaker,
+    onResponse: config.onResponse ?? (() => {}),
   };
 }
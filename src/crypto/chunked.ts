@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+
+/**
+ * Chunked SDX envelope format (version 2)
+ *
+ * ```
+ * [4-byte magic "SDX\x02"][4-byte big-endian metadata length][metadata JSON]
+ * [frame 0][frame 1]...[final frame]
+ *
+ * frame = [1-byte flags][4-byte big-endian ciphertext length][ciphertext][16-byte GCM tag]
+ * ```
+ *
+ * Every frame is sealed separately with AES-256-GCM under one key. The
+ * nonce is the envelope's 8-byte nonce prefix followed by the frame's
+ * 4-byte big-endian index, so frames can't be reordered, and the flags
+ * byte is authenticated data, so the final frame can't be dropped or
+ * faked. The magic can't be mistaken for a single-part envelope, whose
+ * first 4 bytes are a metadata length of a few hundred bytes.
+ */
+
+/** First bytes of a chunked envelope */
+export const CHUNKED_MAGIC = Buffer.from([0x53, 0x44, 0x58, 0x02]);
+
+/** Flag set on the last frame of an envelope */
+export const FINAL_FRAME = 0x01;
+
+/** Flags byte plus ciphertext length */
+export const FRAME_HEADER_LENGTH = 5;
+
+export const TAG_LENGTH = 16;
+
+export const NONCE_PREFIX_LENGTH = 8;
+
+/** Plaintext bytes per frame unless configured otherwise */
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/** Largest chunk size accepted, bounding the memory a frame can take */
+export const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+/** Largest metadata header accepted when reading a stream */
+export const MAX_METADATA_LENGTH = 64 * 1024;
+
+/**
+ * Metadata header of a chunked envelope (base64 fields)
+ */
+export interface ChunkedMetadata {
+  version: 2;
+  /** Base64-encoded RSA-OAEP encrypted AES key */
+  encryptedKey: string;
+  /** Base64-encoded 8-byte nonce prefix */
+  noncePrefix: string;
+  /** Plaintext bytes per frame; only the final frame may be shorter */
+  chunkSize: number;
+}
+
+/**
+ * Whether `buffer` starts like a chunked envelope
+ */
+export function isChunkedEnvelope(buffer: Buffer): boolean {
+  return buffer.length >= CHUNKED_MAGIC.length && buffer.subarray(0, CHUNKED_MAGIC.length).equals(CHUNKED_MAGIC);
+}
+
+/**
+ * Nonce of the frame at `index`
+ */
+export function frameNonce(noncePrefix: Buffer, index: number): Buffer {
+  const nonce = Buffer.alloc(NONCE_PREFIX_LENGTH + 4);
+  noncePrefix.copy(nonce, 0);
+  nonce.writeUInt32BE(index, NONCE_PREFIX_LENGTH);
+  return nonce;
+}
+
+/**
+ * Encrypt one chunk into a frame
+ */
+export function sealFrame(key: Buffer, noncePrefix: Buffer, index: number, final: boolean, chunk: Buffer): Buffer {
+  const flags = final ? FINAL_FRAME : 0;
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, frameNonce(noncePrefix, index));
+  cipher.setAAD(Buffer.from([flags]));
+  const ciphertext = Buffer.concat([cipher.update(chunk), cipher.final()]);
+
+  const header = Buffer.alloc(FRAME_HEADER_LENGTH);
+  header.writeUInt8(flags, 0);
+  header.writeUInt32BE(ciphertext.length, 1);
+  return Buffer.concat([header, ciphertext, cipher.getAuthTag()]);
+}
@@ -1,16 +1,33 @@
 import crypto from 'crypto';
+import { PassageError } from '../errors';
 import type {
   HybridEncryptedPayload,
   DecryptedOfferDetails,
   DecryptionResult,
   OfferFees,
+  SDXEnvelope,
+  SDXEnvelopeMetadata,
 } from './types';
+import {
+  CHUNKED_MAGIC,
+  FINAL_FRAME,
+  FRAME_HEADER_LENGTH,
+  MAX_CHUNK_SIZE,
+  MAX_METADATA_LENGTH,
+  NONCE_PREFIX_LENGTH,
+  TAG_LENGTH,
+  frameNonce,
+  isChunkedEnvelope,
+} from './chunked';
+import { isKeyProvider, rsaOaepUnwrap, type KeyProvider } from './key-provider';
+import { unwrapWithKeyId } from './keyring';
 
 /**
  * Decrypt data encrypted with hybrid encryption (AES-256-GCM + RSA-OAEP)
  *
  * @param encryptedPayloadJson - JSON string containing the HybridEncryptedPayload
- * @param privateKeyPem - Your neobank's private key in PEM format
+ * @param privateKeyPem - Your neobank's private key in PEM format, or a
+ *   `KeyProvider` such as a `Keyring` (the result is then a Promise)
  * @returns Decrypted string data
  *
  * @example
@@ -25,10 +42,30 @@ import type {
  * console.log(offerDetails.apr); // '12.99%'
  * ```
  */
+export function hybridDecrypt(encryptedPayloadJson: string, privateKeyPem: string): string;
+export function hybridDecrypt(encryptedPayloadJson: string, keyProvider: KeyProvider): Promise<string>;
 export function hybridDecrypt(
   encryptedPayloadJson: string,
-  privateKeyPem: string
-): string {
+  key: string | KeyProvider
+): string | Promise<string> {
+  if (isKeyProvider(key)) {
+    return openWithProvider(encryptedPayloadJson, key).then(({ decrypted }) => decrypted);
+  }
+
+  const payload = parseHybridPayload(encryptedPayloadJson);
+  // Decrypt AES key with RSA-OAEP
+  return openHybridPayload(payload, rsaOaepUnwrap(key, payload.encryptedKey));
+}
+
+interface HybridPayloadParts {
+  encryptedKey: Buffer;
+  iv: Buffer;
+  authTag: Buffer;
+  encryptedData: Buffer;
+  keyId?: string;
+}
+
+function parseHybridPayload(encryptedPayloadJson: string): HybridPayloadParts {
   // Parse and validate the encrypted payload
   let payload: HybridEncryptedPayload;
   try {
@@ -50,27 +87,34 @@ export function hybridDecrypt(
   }
 
   // Decode base64 components
-  const encryptedKey = Buffer.from(payload.encryptedKey, 'base64');
-  const iv = Buffer.from(payload.iv, 'base64');
-  const authTag = Buffer.from(payload.authTag, 'base64');
-  const encryptedData = Buffer.from(payload.encryptedData, 'base64');
+  return {
+    encryptedKey: Buffer.from(payload.encryptedKey, 'base64'),
+    iv: Buffer.from(payload.iv, 'base64'),
+    authTag: Buffer.from(payload.authTag, 'base64'),
+    encryptedData: Buffer.from(payload.encryptedData, 'base64'),
+    keyId: typeof payload.keyId === 'string' ? payload.keyId : undefined,
+  };
+}
 
-  // Decrypt AES key with RSA-OAEP
-  const aesKey = crypto.privateDecrypt(
-    {
-      key: privateKeyPem,
-      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
-      oaepHash: 'sha256',
-    },
-    encryptedKey
-  );
+/**
+ * Decrypt a hybrid payload with a key provider, reporting the key used
+ */
+async function openWithProvider(
+  encryptedPayloadJson: string,
+  keyProvider: KeyProvider
+): Promise<{ decrypted: string; keyId?: string }> {
+  const payload = parseHybridPayload(encryptedPayloadJson);
+  const { key: aesKey, keyId } = await unwrapWithKeyId(keyProvider, payload.encryptedKey, payload.keyId);
+  return { decrypted: openHybridPayload(payload, aesKey), keyId };
+}
 
+function openHybridPayload(payload: HybridPayloadParts, aesKey: Buffer): string {
   // Decrypt data with AES-256-GCM
-  const decipher = crypto.createDecipheriv('aes-256-gcm', aesKey, iv);
-  decipher.setAuthTag(authTag);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', aesKey, payload.iv);
+  decipher.setAuthTag(payload.authTag);
 
   const decrypted = Buffer.concat([
-    decipher.update(encryptedData),
+    decipher.update(payload.encryptedData),
     decipher.final(),
   ]);
 
@@ -84,8 +128,10 @@ export function hybridDecrypt(
  *
  * @param encryptedPayload - The encrypted payload from offer.encryptedOfferDetailsNeobank
  * @param expectedChecksum - The checksum from offer.checksumSha256
- * @param privateKeyPem - Your neobank's private key in PEM format
- * @returns DecryptionResult with data, checksum, and verification status
+ * @param privateKeyPem - Your neobank's private key in PEM format, or a
+ *   `KeyProvider` such as a `Keyring` (the result is then a Promise)
+ * @returns DecryptionResult with data, checksum, verification status and,
+ *   with a key provider, the `keyId` that decrypted it
  *
  * @example
  * ```typescript
@@ -131,7 +177,17 @@ export function decryptOfferDetails(
   encryptedPayload: string,
   expectedChecksum: string,
   privateKeyPem: string
-): DecryptionResult<DecryptedOfferDetails> {
+): DecryptionResult<DecryptedOfferDetails>;
+export function decryptOfferDetails(
+  encryptedPayload: string,
+  expectedChecksum: string,
+  keyProvider: KeyProvider
+): Promise<DecryptionResult<DecryptedOfferDetails>>;
+export function decryptOfferDetails(
+  encryptedPayload: string,
+  expectedChecksum: string,
+  key: string | KeyProvider
+): DecryptionResult<DecryptedOfferDetails> | Promise<DecryptionResult<DecryptedOfferDetails>> {
   // Calculate checksum of the ENCRYPTED payload (before decryption)
   // This matches how lenders compute checksums when submitting offers:
   // - Lender encrypts offer details with neobank's public key
@@ -142,7 +198,20 @@ export function decryptOfferDetails(
     .update(encryptedPayload, 'utf8')
     .digest('hex');
 
-  const decrypted = hybridDecrypt(encryptedPayload, privateKeyPem);
+  if (isKeyProvider(key)) {
+    return openWithProvider(encryptedPayload, key).then(({ decrypted, keyId }) =>
+      toOfferDetailsResult(decrypted, checksum, expectedChecksum, keyId)
+    );
+  }
+  return toOfferDetailsResult(hybridDecrypt(encryptedPayload, key), checksum, expectedChecksum);
+}
+
+function toOfferDetailsResult(
+  decrypted: string,
+  checksum: string,
+  expectedChecksum: string,
+  keyId?: string
+): DecryptionResult<DecryptedOfferDetails> {
   const rawData = JSON.parse(decrypted) as Record<string, unknown>;
 
   // Separate known fields from lender-specific additional fields
@@ -182,6 +251,7 @@ export function decryptOfferDetails(
     data,
     checksum,
     verified: checksum === expectedChecksum,
+    ...(keyId !== undefined && { keyId }),
   };
 }
 
@@ -193,9 +263,11 @@ export type BatchDecryptResult<T> =
       offer: T;
       details: DecryptedOfferDetails;
       verified: boolean;
+      /** Key that decrypted the offer, see `DecryptionResult.keyId` */
+      keyId?: string;
       error?: undefined;
     }
-  | { offer: T; details: null; verified: false; error: string };
+  | { offer: T; details: null; verified: false; keyId?: undefined; error: string };
 
 /**
  * Batch decrypt multiple offers
@@ -203,7 +275,8 @@ export type BatchDecryptResult<T> =
  * Convenience function to decrypt all offers at once.
  *
  * @param offers - Array of offers with encryptedOfferDetailsNeobank and checksumSha256
- * @param privateKeyPem - Your neobank's private key in PEM format
+ * @param privateKeyPem - Your neobank's private key in PEM format, or a
+ *   `KeyProvider` such as a `Keyring` (the result is then a Promise)
  * @returns Array of decryption results with original offer reference
  *
  * @example
@@ -230,28 +303,433 @@ export type BatchDecryptResult<T> =
  */
 export function decryptOffers<
   T extends { encryptedOfferDetailsNeobank: string; checksumSha256: string },
->(offers: T[], privateKeyPem: string): Array<BatchDecryptResult<T>> {
+>(offers: T[], privateKeyPem: string): Array<BatchDecryptResult<T>>;
+export function decryptOffers<
+  T extends { encryptedOfferDetailsNeobank: string; checksumSha256: string },
+>(offers: T[], keyProvider: KeyProvider): Promise<Array<BatchDecryptResult<T>>>;
+export function decryptOffers<
+  T extends { encryptedOfferDetailsNeobank: string; checksumSha256: string },
+>(
+  offers: T[],
+  key: string | KeyProvider
+): Array<BatchDecryptResult<T>> | Promise<Array<BatchDecryptResult<T>>> {
+  if (isKeyProvider(key)) {
+    return Promise.all(
+      offers.map(async (offer) => {
+        try {
+          const result = await decryptOfferDetails(
+            offer.encryptedOfferDetailsNeobank,
+            offer.checksumSha256,
+            key
+          );
+          return toBatchResult(offer, result);
+        } catch (error) {
+          return toBatchError(offer, error);
+        }
+      })
+    );
+  }
+
   return offers.map((offer) => {
     try {
       const result = decryptOfferDetails(
         offer.encryptedOfferDetailsNeobank,
         offer.checksumSha256,
-        privateKeyPem
+        key
       );
-      return {
-        offer,
-        details: result.data,
-        verified: result.verified,
-      };
+      return toBatchResult(offer, result);
     } catch (error) {
-      // Return null details with error message on decryption failure
-      return {
-        offer,
-        details: null,
-        verified: false as const,
-        error:
-          error instanceof Error ? error.message : 'Unknown decryption error',
-      };
+      return toBatchError(offer, error);
     }
   });
 }
+
+function toBatchResult<T>(offer: T, result: DecryptionResult<DecryptedOfferDetails>): BatchDecryptResult<T> {
+  return {
+    offer,
+    details: result.data,
+    verified: result.verified,
+    ...(result.keyId !== undefined && { keyId: result.keyId }),
+  };
+}
+
+function toBatchError<T>(offer: T, error: unknown): BatchDecryptResult<T> {
+  // Return null details with error message on decryption failure
+  return {
+    offer,
+    details: null,
+    verified: false as const,
+    error:
+      error instanceof Error ? error.message : 'Unknown decryption error',
+  };
+}
+
+/**
+ * Why an SDX document could not be decrypted
+ *
+ * - `INVALID_HEADER`: the envelope or one of its frames has an invalid length header
+ * - `INVALID_METADATA`: the metadata is not JSON or lacks a valid key, IV or tag
+ * - `KEY_DECRYPTION_FAILED`: the AES key can't be decrypted (wrong private key)
+ * - `AUTHENTICATION_FAILED`: the GCM tag doesn't match (tampered or corrupted)
+ * - `TRUNCATED`: a chunked envelope ends before its final frame
+ */
+export type SDXDecryptionFailure =
+  | 'INVALID_HEADER'
+  | 'INVALID_METADATA'
+  | 'KEY_DECRYPTION_FAILED'
+  | 'AUTHENTICATION_FAILED'
+  | 'TRUNCATED';
+
+/**
+ * Error thrown when an SDX document envelope is malformed or fails to decrypt
+ */
+export class SDXDecryptionError extends PassageError {
+  /** What went wrong */
+  readonly reason: SDXDecryptionFailure;
+
+  constructor(reason: SDXDecryptionFailure, message: string, cause?: Error) {
+    super(message, {
+      errorCode: `SDX_${reason}`,
+      cause,
+    });
+    this.name = 'SDXDecryptionError';
+    this.reason = reason;
+  }
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Parse an SDX document envelope without decrypting it
+ *
+ * Reads the `[4-byte big-endian length][metadata JSON][ciphertext]` layout
+ * written by `encryptDocumentForSDX()`. Chunked envelopes written by
+ * `encryptStreamForSDX()` have no single ciphertext and are rejected.
+ *
+ * @param blob - Encrypted document as downloaded from SDX
+ * @returns The metadata and the decoded key, IV, tag and ciphertext
+ * @throws SDXDecryptionError with reason `INVALID_HEADER` or `INVALID_METADATA`
+ *
+ * @example
+ * ```typescript
+ * import { parseSDXEnvelope } from '@portola/passage-neobank/crypto';
+ *
+ * const envelope = parseSDXEnvelope(encryptedDoc);
+ * console.log('Ciphertext bytes:', envelope.ciphertext.length);
+ * ```
+ */
+export function parseSDXEnvelope(blob: Buffer | Uint8Array | ArrayBuffer): SDXEnvelope {
+  const buffer = toBuffer(blob);
+
+  if (isChunkedEnvelope(buffer)) {
+    throw new SDXDecryptionError(
+      'INVALID_HEADER',
+      'SDX envelope is chunked; decrypt it with decryptDocumentFromSDX() or decryptStreamFromSDX()'
+    );
+  }
+  if (buffer.length < 4) {
+    throw new SDXDecryptionError(
+      'INVALID_HEADER',
+      `SDX envelope is ${buffer.length} bytes, too short for its metadata length header`
+    );
+  }
+
+  const metadataLength = buffer.readUInt32BE(0);
+  if (metadataLength === 0 || 4 + metadataLength > buffer.length) {
+    throw new SDXDecryptionError(
+      'INVALID_HEADER',
+      `SDX envelope metadata length ${metadataLength} does not fit in ${buffer.length} bytes`
+    );
+  }
+
+  return {
+    ...decodeSDXMetadata(buffer.subarray(4, 4 + metadataLength)),
+    metadataLength,
+    ciphertext: buffer.subarray(4 + metadataLength),
+  };
+}
+
+/**
+ * Decode the metadata JSON of a single-part envelope
+ */
+export function decodeSDXMetadata(
+  json: Buffer
+): Pick<SDXEnvelope, 'metadata' | 'encryptedKey' | 'iv' | 'authTag'> {
+  const metadata = parseMetadataObject(json) as SDXEnvelopeMetadata;
+  return {
+    metadata,
+    encryptedKey: base64Field(metadata, 'encryptedKey'),
+    iv: base64Field(metadata, 'iv', 12),
+    authTag: base64Field(metadata, 'authTag', TAG_LENGTH),
+  };
+}
+
+/**
+ * Key and framing of a chunked envelope
+ */
+export interface ChunkedEnvelopeKey {
+  key: Buffer;
+  noncePrefix: Buffer;
+  chunkSize: number;
+}
+
+/**
+ * Decode the metadata JSON of a chunked envelope
+ */
+export function decodeChunkedMetadata(json: Buffer): Omit<ChunkedEnvelopeKey, 'key'> & { encryptedKey: Buffer } {
+  const metadata = parseMetadataObject(json);
+  if (metadata.version !== 2) {
+    throw new SDXDecryptionError('INVALID_METADATA', `Unsupported chunked SDX envelope version ${String(metadata.version)}`);
+  }
+  const chunkSize = metadata.chunkSize;
+  if (typeof chunkSize !== 'number' || !Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new SDXDecryptionError('INVALID_METADATA', 'SDX envelope metadata.chunkSize is missing or out of range');
+  }
+  return {
+    encryptedKey: base64Field(metadata, 'encryptedKey'),
+    noncePrefix: base64Field(metadata, 'noncePrefix', NONCE_PREFIX_LENGTH),
+    chunkSize,
+  };
+}
+
+/**
+ * Decrypt and authenticate the frame at `index` of a chunked envelope
+ */
+export function openSDXFrame(
+  envelopeKey: ChunkedEnvelopeKey,
+  index: number,
+  flags: number,
+  ciphertext: Buffer,
+  tag: Buffer
+): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', envelopeKey.key, frameNonce(envelopeKey.noncePrefix, index));
+  decipher.setAAD(Buffer.from([flags]));
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch (error) {
+    throw new SDXDecryptionError(
+      'AUTHENTICATION_FAILED',
+      `SDX document frame ${index} failed authentication: it was corrupted, reordered or tampered with`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Decrypt the AES key of an envelope with the recipient's private key
+ */
+export function unwrapSDXKey(encryptedKey: Buffer, privateKeyPem: string): Buffer {
+  let aesKey: Buffer;
+  try {
+    aesKey = rsaOaepUnwrap(privateKeyPem, encryptedKey);
+  } catch (error) {
+    throw keyDecryptionFailed(error);
+  }
+  return checkSDXKey(aesKey);
+}
+
+/**
+ * Decrypt the AES key of an envelope with a private key or key provider
+ */
+export async function resolveSDXKey(encryptedKey: Buffer, key: string | KeyProvider): Promise<Buffer> {
+  if (!isKeyProvider(key)) {
+    return unwrapSDXKey(encryptedKey, key);
+  }
+  let aesKey: Buffer;
+  try {
+    aesKey = await key.unwrapKey(encryptedKey);
+  } catch (error) {
+    throw keyDecryptionFailed(error);
+  }
+  return checkSDXKey(aesKey);
+}
+
+function keyDecryptionFailed(error: unknown): SDXDecryptionError {
+  return new SDXDecryptionError(
+    'KEY_DECRYPTION_FAILED',
+    'Could not decrypt the SDX document key; was it encrypted for a different public key?',
+    error instanceof Error ? error : undefined
+  );
+}
+
+function checkSDXKey(aesKey: Buffer): Buffer {
+  if (aesKey.length !== 32) {
+    throw new SDXDecryptionError(
+      'KEY_DECRYPTION_FAILED',
+      `SDX document key is ${aesKey.length} bytes, expected 32`
+    );
+  }
+  return aesKey;
+}
+
+/**
+ * Decrypt a document downloaded from SDX
+ *
+ * Counterpart to `encryptDocumentForSDX()` and `encryptStreamForSDX()`:
+ * unwraps the AES key with your RSA private key and decrypts the document
+ * with AES-256-GCM, checking its auth tags. To decrypt large documents
+ * without holding them in memory, use `decryptStreamFromSDX()`.
+ *
+ * @param blob - Encrypted document as downloaded from SDX
+ * @param privateKeyPem - Your neobank's private key in PEM format, or a
+ *   `KeyProvider` (the result is then a Promise)
+ * @returns The decrypted document
+ * @throws SDXDecryptionError if the envelope is malformed, the key doesn't
+ *   match or the document was tampered with
+ *
+ * @example
+ * ```typescript
+ * import { decryptDocumentFromSDX } from '@portola/passage-neobank/crypto';
+ *
+ * const session = await passage.signing.getStatus(sessionId);
+ * const encryptedDoc = await passage.sdx.downloadDocument({
+ *   applicationId,
+ *   documentHandle: session.documentHandle!,
+ * });
+ *
+ * const agreement = decryptDocumentFromSDX(encryptedDoc, process.env.NEOBANK_PRIVATE_KEY!);
+ * fs.writeFileSync('./loan_agreement.pdf', agreement);
+ * ```
+ */
+export function decryptDocumentFromSDX(blob: Buffer | Uint8Array | ArrayBuffer, privateKeyPem: string): Buffer;
+export function decryptDocumentFromSDX(
+  blob: Buffer | Uint8Array | ArrayBuffer,
+  keyProvider: KeyProvider
+): Promise<Buffer>;
+export function decryptDocumentFromSDX(
+  blob: Buffer | Uint8Array | ArrayBuffer,
+  key: string | KeyProvider
+): Buffer | Promise<Buffer> {
+  if (isKeyProvider(key)) {
+    return (async () => {
+      const sealed = parseSealedDocument(toBuffer(blob));
+      return sealed.open(await resolveSDXKey(sealed.encryptedKey, key));
+    })();
+  }
+
+  const sealed = parseSealedDocument(toBuffer(blob));
+  return sealed.open(unwrapSDXKey(sealed.encryptedKey, key));
+}
+
+/**
+ * A parsed envelope awaiting its AES key
+ */
+interface SealedDocument {
+  encryptedKey: Buffer;
+  open: (aesKey: Buffer) => Buffer;
+}
+
+function parseSealedDocument(buffer: Buffer): SealedDocument {
+  if (isChunkedEnvelope(buffer)) {
+    return parseChunkedEnvelope(buffer);
+  }
+
+  const envelope = parseSDXEnvelope(buffer);
+  return {
+    encryptedKey: envelope.encryptedKey,
+    open: (aesKey) => {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', aesKey, envelope.iv);
+      decipher.setAuthTag(envelope.authTag);
+      try {
+        return Buffer.concat([decipher.update(envelope.ciphertext), decipher.final()]);
+      } catch (error) {
+        throw new SDXDecryptionError(
+          'AUTHENTICATION_FAILED',
+          'SDX document failed authentication: it was corrupted or tampered with',
+          error instanceof Error ? error : undefined
+        );
+      }
+    },
+  };
+}
+
+function parseChunkedEnvelope(buffer: Buffer): SealedDocument {
+  let offset = CHUNKED_MAGIC.length;
+  const take = (length: number, what: string): Buffer => {
+    if (offset + length > buffer.length) {
+      throw new SDXDecryptionError('TRUNCATED', `SDX envelope ends inside ${what}`);
+    }
+    const bytes = buffer.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+
+  const metadataLength = take(4, 'its metadata length header').readUInt32BE(0);
+  if (metadataLength === 0 || metadataLength > MAX_METADATA_LENGTH) {
+    throw new SDXDecryptionError('INVALID_HEADER', `SDX envelope metadata length ${metadataLength} is out of range`);
+  }
+  const { encryptedKey, ...framing } = decodeChunkedMetadata(take(metadataLength, 'its metadata'));
+
+  return {
+    encryptedKey,
+    open: (aesKey) => {
+      const envelopeKey = { ...framing, key: aesKey };
+      const chunks: Buffer[] = [];
+      for (let index = 0; ; index++) {
+        const header = take(FRAME_HEADER_LENGTH, `frame ${index}`);
+        const { flags, length } = readFrameHeader(header, envelopeKey, index);
+        chunks.push(openSDXFrame(envelopeKey, index, flags, take(length, `frame ${index}`), take(TAG_LENGTH, `frame ${index}`)));
+        if (flags & FINAL_FRAME) {
+          break;
+        }
+      }
+      if (offset !== buffer.length) {
+        throw new SDXDecryptionError('INVALID_HEADER', 'SDX envelope has data after its final frame');
+      }
+      return Buffer.concat(chunks);
+    },
+  };
+}
+
+/**
+ * Validate a frame's flags and ciphertext length
+ */
+export function readFrameHeader(
+  header: Buffer,
+  envelopeKey: ChunkedEnvelopeKey,
+  index: number
+): { flags: number; length: number } {
+  const flags = header.readUInt8(0);
+  const length = header.readUInt32BE(1);
+  if ((flags & ~FINAL_FRAME) !== 0 || length > envelopeKey.chunkSize) {
+    throw new SDXDecryptionError('INVALID_HEADER', `SDX envelope frame ${index} has an invalid header`);
+  }
+  return { flags, length };
+}
+
+function parseMetadataObject(json: Buffer): Record<string, unknown> {
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(json.toString('utf-8'));
+  } catch {
+    throw new SDXDecryptionError('INVALID_METADATA', 'SDX envelope metadata is not valid JSON');
+  }
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    throw new SDXDecryptionError('INVALID_METADATA', 'SDX envelope metadata is not an object');
+  }
+  return metadata as Record<string, unknown>;
+}
+
+function base64Field(metadata: Record<string, unknown>, name: string, expectedLength?: number): Buffer {
+  const value = metadata[name];
+  if (typeof value !== 'string' || value === '' || !BASE64_PATTERN.test(value)) {
+    throw new SDXDecryptionError('INVALID_METADATA', `SDX envelope metadata.${name} is missing or not base64`);
+  }
+  const decoded = Buffer.from(value, 'base64');
+  if (expectedLength !== undefined && decoded.length !== expectedLength) {
+    throw new SDXDecryptionError(
+      'INVALID_METADATA',
+      `SDX envelope metadata.${name} is ${decoded.length} bytes, expected ${expectedLength}`
+    );
+  }
+  return decoded;
+}
+
+function toBuffer(blob: Buffer | Uint8Array | ArrayBuffer): Buffer {
+  return Buffer.isBuffer(blob)
+    ? blob
+    : blob instanceof ArrayBuffer
+      ? Buffer.from(blob)
+      : Buffer.from(blob.buffer, blob.byteOffset, blob.byteLength);
+}
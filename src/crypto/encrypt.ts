@@ -1,16 +1,19 @@
 import crypto from 'crypto';
 import type { HybridEncryptedPayload, EncryptedPIIPayload } from './types';
+import { validatePublicKey, type LenderKeyPins } from './lender-keys';
 
 /**
  * Encrypt data using hybrid encryption (AES-256-GCM + RSA-OAEP)
  *
  * @param data - Data to encrypt (string or Buffer)
  * @param publicKeyPem - RSA public key in PEM format
+ * @param options.keyId - Identifier of the recipient's key to embed in the payload
  * @returns HybridEncryptedPayload with base64-encoded components
  */
 export function hybridEncrypt(
   data: string | Buffer,
-  publicKeyPem: string
+  publicKeyPem: string,
+  options: { keyId?: string } = {}
 ): HybridEncryptedPayload {
   const dataBuffer =
     typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
@@ -42,6 +45,7 @@ export function hybridEncrypt(
     encryptedKey: encryptedKey.toString('base64'),
     iv: iv.toString('base64'),
     authTag: authTag.toString('base64'),
+    ...(options.keyId !== undefined && { keyId: options.keyId }),
   };
 }
 
@@ -56,13 +60,25 @@ export function checksum(data: string | Buffer): string {
   return crypto.createHash('sha256').update(buffer).digest('hex');
 }
 
+/**
+ * Options for PII encryption
+ */
+export interface EncryptPIIOptions {
+  /** Smallest RSA modulus to accept for lender keys, in bits (default: 2048) */
+  minModulusLength?: number;
+}
+
 /**
  * Create encrypted PII payload for a single lender
  *
+ * The lender's key is validated first: it must be an RSA public key in
+ * PEM (SPKI) format of at least `minModulusLength` bits.
+ *
  * @param lenderId - The lender's ID
  * @param lenderPublicKey - The lender's RSA public key in PEM format
  * @param piiData - The PII data to encrypt
  * @returns EncryptedPIIPayload ready for API submission
+ * @throws InvalidPublicKeyError if the lender's key is malformed, not RSA or too short
  *
  * @example
  * ```typescript
@@ -89,8 +105,10 @@ export function checksum(data: string | Buffer): string {
 export function encryptPII(
   lenderId: string,
   lenderPublicKey: string,
-  piiData: Record<string, unknown>
+  piiData: Record<string, unknown>,
+  options: EncryptPIIOptions = {}
 ): EncryptedPIIPayload {
+  validatePublicKey(lenderPublicKey, { lenderId, minModulusLength: options.minModulusLength });
   const payload = hybridEncrypt(JSON.stringify(piiData), lenderPublicKey);
 
   return {
@@ -106,10 +124,16 @@ export function encryptPII(
  * Encrypt PII for multiple lenders at once
  *
  * Convenience function to encrypt the same PII data for multiple lenders.
+ * Every lender key is validated before anything is encrypted. With
+ * `options.pins`, keys are also checked against their pinned fingerprints
+ * and the result is a Promise.
  *
  * @param lenders - Array of lender info with IDs and public keys
  * @param piiData - The PII data to encrypt
+ * @param options.pins - Lender key pins to check keys against
  * @returns Array of EncryptedPIIPayload, one per lender
+ * @throws InvalidPublicKeyError if a lender's key is malformed, not RSA or too short
+ * @throws LenderKeyChangedError if a lender's key doesn't match its pin
  *
  * @example
  * ```typescript
@@ -130,10 +154,41 @@ export function encryptPII(
  */
 export function encryptPIIForLenders(
   lenders: Array<{ lenderId: string; publicKey: string }>,
-  piiData: Record<string, unknown>
+  piiData: Record<string, unknown>,
+  options: { pins: LenderKeyPins }
+): Promise<EncryptedPIIPayload[]>;
+export function encryptPIIForLenders(
+  lenders: Array<{ lenderId: string; publicKey: string }>,
+  piiData: Record<string, unknown>,
+  options?: EncryptPIIOptions
+): EncryptedPIIPayload[];
+export function encryptPIIForLenders(
+  lenders: Array<{ lenderId: string; publicKey: string }>,
+  piiData: Record<string, unknown>,
+  options: EncryptPIIOptions & { pins?: LenderKeyPins } = {}
+): EncryptedPIIPayload[] | Promise<EncryptedPIIPayload[]> {
+  const { pins } = options;
+  if (pins) {
+    return (async () => {
+      for (const lender of lenders) {
+        await pins.verify(lender.lenderId, lender.publicKey);
+      }
+      return encryptForAll(lenders, piiData, { minModulusLength: pins.minModulusLength });
+    })();
+  }
+  return encryptForAll(lenders, piiData, options);
+}
+
+function encryptForAll(
+  lenders: Array<{ lenderId: string; publicKey: string }>,
+  piiData: Record<string, unknown>,
+  options: EncryptPIIOptions
 ): EncryptedPIIPayload[] {
+  for (const lender of lenders) {
+    validatePublicKey(lender.publicKey, { lenderId: lender.lenderId, minModulusLength: options.minModulusLength });
+  }
   return lenders.map((lender) =>
-    encryptPII(lender.lenderId, lender.publicKey, piiData)
+    encryptPII(lender.lenderId, lender.publicKey, piiData, options)
   );
 }
 
@@ -145,6 +200,7 @@ export function encryptPIIForLenders(
  * @param document - The document buffer to encrypt
  * @param publicKey - RSA public key in PEM format
  * @returns Buffer ready for SDX upload
+ * @throws InvalidPublicKeyError if the key is malformed, not RSA or too short
  *
  * @example
  * ```typescript
@@ -165,6 +221,7 @@ export function encryptDocumentForSDX(
   document: Buffer,
   publicKey: string
 ): Buffer {
+  validatePublicKey(publicKey);
   const aesKey = crypto.randomBytes(32);
   const iv = crypto.randomBytes(12);
 
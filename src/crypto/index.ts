@@ -13,6 +13,8 @@ export type {
   DecryptedOfferDetails,
   DecryptionResult,
   OfferFees,
+  SDXEnvelope,
+  SDXEnvelopeMetadata,
 } from './types';
 
 export {
@@ -22,6 +24,48 @@ export {
   encryptPIIForLenders,
   encryptDocumentForSDX,
 } from './encrypt';
+export type { EncryptPIIOptions } from './encrypt';
 
-export { hybridDecrypt, decryptOfferDetails, decryptOffers } from './decrypt';
-export type { BatchDecryptResult } from './decrypt';
+export {
+  hybridDecrypt,
+  decryptOfferDetails,
+  decryptOffers,
+  parseSDXEnvelope,
+  decryptDocumentFromSDX,
+  SDXDecryptionError,
+} from './decrypt';
+export type { BatchDecryptResult, SDXDecryptionFailure } from './decrypt';
+
+export { encryptStreamForSDX, decryptStreamFromSDX } from './stream';
+export type { SDXStreamEncryptOptions } from './stream';
+export { downloadAndDecrypt, downloadAndDecryptTo } from './sdx';
+export type { SDXDecryptParams } from './sdx';
+export type { ByteSource, ByteStream } from '../streams';
+
+export {
+  PemKeyProvider,
+  FileKeyProvider,
+  KmsKeyProvider,
+  LocalKms,
+  keyFingerprint,
+} from './key-provider';
+export type { KeyProvider } from './key-provider';
+export { Keyring } from './keyring';
+export type { KeyringConfig, KeyringKey, KeyringUnwrapResult } from './keyring';
+
+export {
+  validatePublicKey,
+  LenderKeyPins,
+  InMemoryLenderKeyPinStore,
+  InvalidPublicKeyError,
+  LenderKeyChangedError,
+  MIN_RSA_MODULUS_LENGTH,
+} from './lender-keys';
+export type {
+  InvalidPublicKeyReason,
+  PublicKeyInfo,
+  PublicKeyValidationOptions,
+  LenderKeyPinStore,
+  LenderKeyPinsConfig,
+  LenderKeyChange,
+} from './lender-keys';
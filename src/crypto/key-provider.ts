@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import { readFile } from 'fs/promises';
+import { promisify } from 'util';
+
+/**
+ * Holds your neobank's RSA private key and decrypts the AES keys wrapped
+ * for it, so decryption never needs the key itself
+ *
+ * Every decrypt function in this module accepts a provider in place of a
+ * PEM string and then returns a Promise. Implement it to delegate the RSA
+ * step to a KMS or HSM.
+ *
+ * @example
+ * ```typescript
+ * const keyProvider = new KmsKeyProvider({
+ *   keyId: process.env.NEOBANK_KMS_KEY_ARN!,
+ *   decrypt: async (ciphertext) => {
+ *     const { Plaintext } = await kms.send(
+ *       new DecryptCommand({
+ *         KeyId: process.env.NEOBANK_KMS_KEY_ARN!,
+ *         CiphertextBlob: ciphertext,
+ *         EncryptionAlgorithm: 'RSAES_OAEP_SHA_256',
+ *       })
+ *     );
+ *     return Buffer.from(Plaintext!);
+ *   },
+ * });
+ *
+ * const details = await decryptOfferDetails(offer.encryptedOfferDetailsNeobank, offer.checksumSha256, keyProvider);
+ * ```
+ */
+export interface KeyProvider {
+  /** Identifies the key, e.g. a KMS key ARN */
+  readonly keyId?: string;
+  /**
+   * Decrypt an AES key wrapped with RSA-OAEP (SHA-256) for this key
+   *
+   * @param keyId - Key named by the encrypted payload, if any
+   */
+  unwrapKey(encryptedKey: Buffer, keyId?: string): Promise<Buffer>;
+}
+
+/**
+ * Whether `value` is a `KeyProvider` rather than a PEM string
+ */
+export function isKeyProvider(value: unknown): value is KeyProvider {
+  return typeof value === 'object' && value !== null && typeof (value as KeyProvider).unwrapKey === 'function';
+}
+
+/**
+ * Decrypt an AES key wrapped with RSA-OAEP (SHA-256)
+ */
+export function rsaOaepUnwrap(privateKey: crypto.KeyLike, encryptedKey: Buffer): Buffer {
+  return crypto.privateDecrypt(
+    {
+      key: privateKey,
+      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: 'sha256',
+    },
+    encryptedKey
+  );
+}
+
+/**
+ * SHA-256 fingerprint of an RSA key: hex digest of its public key in DER
+ * (SPKI) form
+ *
+ * Private and public keys of a pair share a fingerprint, so it works as a
+ * `keyId` on both sides.
+ *
+ * @param key - Public or private key in PEM format, or a `KeyObject`
+ */
+export function keyFingerprint(key: string | crypto.KeyObject): string {
+  const publicKey = typeof key !== 'string' && key.type === 'public' ? key : crypto.createPublicKey(key);
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex');
+}
+
+/**
+ * Key provider for a private key held in memory
+ *
+ * Parses the PEM once, so a malformed key fails at startup rather than on
+ * the first offer.
+ *
+ * @example
+ * ```typescript
+ * const keyProvider = new PemKeyProvider(process.env.NEOBANK_PRIVATE_KEY!);
+ * ```
+ */
+export class PemKeyProvider implements KeyProvider {
+  readonly keyId?: string;
+  private readonly privateKey: crypto.KeyObject;
+
+  /**
+   * @param privateKeyPem - Private key in PEM format
+   * @param options.passphrase - Passphrase if the PEM is encrypted
+   * @param options.keyId - Identifier for the key
+   */
+  constructor(privateKeyPem: string, options: { passphrase?: string; keyId?: string } = {}) {
+    this.keyId = options.keyId;
+    this.privateKey = loadPrivateKey(privateKeyPem, options.passphrase, 'PemKeyProvider');
+  }
+
+  async unwrapKey(encryptedKey: Buffer): Promise<Buffer> {
+    return rsaOaepUnwrap(this.privateKey, encryptedKey);
+  }
+}
+
+/**
+ * Key provider reading an encrypted PEM file
+ *
+ * The file is read and decrypted on first use and the key kept in memory
+ * after that. The passphrase can be fetched lazily, e.g. from a secrets
+ * manager, so it never has to sit in the environment.
+ *
+ * @example
+ * ```typescript
+ * const keyProvider = new FileKeyProvider({
+ *   path: '/etc/neobank/private_key.pem',
+ *   passphrase: () => secrets.get('neobank-key-passphrase'),
+ * });
+ * ```
+ */
+export class FileKeyProvider implements KeyProvider {
+  readonly keyId?: string;
+  private readonly path: string;
+  private readonly passphrase?: string | (() => Promise<string>);
+  private privateKey?: Promise<crypto.KeyObject>;
+
+  constructor(options: {
+    /** Path to the PEM file */
+    path: string;
+    /** Passphrase of the PEM, or a function fetching it */
+    passphrase?: string | (() => Promise<string>);
+    /** Identifier for the key */
+    keyId?: string;
+  }) {
+    this.path = options.path;
+    this.passphrase = options.passphrase;
+    this.keyId = options.keyId;
+  }
+
+  async unwrapKey(encryptedKey: Buffer): Promise<Buffer> {
+    return rsaOaepUnwrap(await this.load(), encryptedKey);
+  }
+
+  private load(): Promise<crypto.KeyObject> {
+    if (!this.privateKey) {
+      this.privateKey = (async () => {
+        const pem = await readFile(this.path, 'utf-8');
+        const passphrase = typeof this.passphrase === 'function' ? await this.passphrase() : this.passphrase;
+        return loadPrivateKey(pem, passphrase, `FileKeyProvider(${this.path})`);
+      })();
+      // Try again on the next call rather than caching a failure
+      this.privateKey.catch(() => {
+        this.privateKey = undefined;
+      });
+    }
+    return this.privateKey;
+  }
+}
+
+/**
+ * Key provider delegating decryption to a KMS or HSM
+ *
+ * `decrypt` receives the RSA-OAEP (SHA-256) ciphertext and returns the
+ * plaintext AES key; the private key never leaves the KMS. For AWS KMS
+ * that is `Decrypt` with `EncryptionAlgorithm: 'RSAES_OAEP_SHA_256'`.
+ */
+export class KmsKeyProvider implements KeyProvider {
+  readonly keyId?: string;
+  private readonly decrypt: (ciphertext: Buffer) => Promise<Buffer | Uint8Array>;
+
+  constructor(options: {
+    /** Identifier for the key, e.g. its ARN */
+    keyId?: string;
+    /** Decrypt RSA-OAEP (SHA-256) ciphertext with the KMS key */
+    decrypt: (ciphertext: Buffer) => Promise<Buffer | Uint8Array>;
+  }) {
+    this.keyId = options.keyId;
+    this.decrypt = options.decrypt;
+  }
+
+  async unwrapKey(encryptedKey: Buffer): Promise<Buffer> {
+    const plaintext = await this.decrypt(encryptedKey);
+    return Buffer.isBuffer(plaintext)
+      ? plaintext
+      : Buffer.from(plaintext.buffer, plaintext.byteOffset, plaintext.byteLength);
+  }
+}
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+/**
+ * In-process stand-in for a KMS or HSM, for development and tests
+ *
+ * Keys are created or imported under an ID and only their public halves
+ * can be read back; decryption goes through `keyProvider(keyId)` exactly
+ * as it would with a real KMS, so swapping one in is a one-line change.
+ * Keys live in memory and are lost when the process exits.
+ *
+ * @example
+ * ```typescript
+ * const kms = new LocalKms();
+ * const publicKey = await kms.createKey('neobank-2024');
+ * // Register publicKey with Passage
+ *
+ * const offers = await decryptOffers(allOffers, kms.keyProvider('neobank-2024'));
+ * ```
+ */
+export class LocalKms {
+  private readonly keys = new Map<string, crypto.KeyObject>();
+
+  /**
+   * Generate an RSA key pair under `keyId`
+   *
+   * @returns The public key in PEM (SPKI) format
+   */
+  async createKey(keyId: string, options: { modulusLength?: number } = {}): Promise<string> {
+    this.assertNew(keyId);
+    const { privateKey } = await generateKeyPair('rsa', { modulusLength: options.modulusLength ?? 2048 });
+    this.keys.set(keyId, privateKey);
+    return this.getPublicKey(keyId);
+  }
+
+  /**
+   * Import an existing private key under `keyId`
+   */
+  importKey(keyId: string, privateKeyPem: string, passphrase?: string): void {
+    this.assertNew(keyId);
+    this.keys.set(keyId, loadPrivateKey(privateKeyPem, passphrase, 'LocalKms'));
+  }
+
+  /**
+   * Public key of `keyId` in PEM (SPKI) format
+   */
+  async getPublicKey(keyId: string): Promise<string> {
+    return crypto.createPublicKey(this.key(keyId)).export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  /**
+   * Decrypt RSA-OAEP (SHA-256) ciphertext with `keyId`
+   */
+  async decrypt(keyId: string, ciphertext: Buffer): Promise<Buffer> {
+    return rsaOaepUnwrap(this.key(keyId), ciphertext);
+  }
+
+  /**
+   * Key provider decrypting with `keyId`
+   */
+  keyProvider(keyId: string): KeyProvider {
+    this.key(keyId);
+    return new KmsKeyProvider({ keyId, decrypt: (ciphertext) => this.decrypt(keyId, ciphertext) });
+  }
+
+  private key(keyId: string): crypto.KeyObject {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`LocalKms: no key ${keyId}`);
+    }
+    return key;
+  }
+
+  private assertNew(keyId: string): void {
+    if (this.keys.has(keyId)) {
+      throw new Error(`LocalKms: key ${keyId} already exists`);
+    }
+  }
+}
+
+function loadPrivateKey(pem: string, passphrase: string | undefined, owner: string): crypto.KeyObject {
+  let key: crypto.KeyObject;
+  try {
+    key = crypto.createPrivateKey({ key: pem, format: 'pem', passphrase });
+  } catch (error) {
+    throw new Error(
+      `${owner}: could not load the private key${passphrase === undefined ? '' : ' (wrong passphrase?)'}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  if (key.asymmetricKeyType !== 'rsa') {
+    throw new Error(`${owner}: expected an RSA private key, got ${key.asymmetricKeyType}`);
+  }
+  return key;
+}
@@ -0,0 +1,194 @@
+import type { PassageLogger } from '../logger';
+import { PemKeyProvider, keyFingerprint, type KeyProvider } from './key-provider';
+
+/**
+ * A private key in a `Keyring`
+ */
+export interface KeyringKey {
+  /**
+   * Identifies the key in encrypted payloads
+   * @default the provider's `keyId`, or the SHA-256 fingerprint of a PEM key
+   */
+  keyId?: string;
+  /** Private key in PEM format, or a `KeyProvider` */
+  privateKey: string | KeyProvider;
+  /**
+   * Retired keys still decrypt, but every use is reported to
+   * `onRetiredKeyUsed` so you know when it is safe to delete them
+   */
+  retired?: boolean;
+}
+
+/**
+ * Keyring settings
+ */
+export interface KeyringConfig {
+  /** Keys to decrypt with, current key first */
+  keys: KeyringKey[];
+  /** Called whenever a retired key decrypts something */
+  onRetiredKeyUsed?: (use: { keyId: string }) => void;
+  /** Logger warned the first time each retired key decrypts something */
+  logger?: PassageLogger;
+}
+
+/**
+ * Key that unwrapped an AES key
+ */
+export interface KeyringUnwrapResult {
+  key: Buffer;
+  keyId: string;
+  retired: boolean;
+}
+
+interface KeyringEntry {
+  keyId: string;
+  provider: KeyProvider;
+  retired: boolean;
+}
+
+/**
+ * Several private keys used as one `KeyProvider`, so rotating your neobank
+ * key pair doesn't break offers lenders encrypted for the old public key
+ *
+ * When a payload names its key (`HybridEncryptedPayload.keyId`), that key
+ * is tried first; otherwise active keys are tried in order, then retired
+ * ones. Decryption results report the `keyId` that succeeded.
+ *
+ * @example
+ * ```typescript
+ * import { Keyring, decryptOffers } from '@portola/passage-neobank/crypto';
+ *
+ * const keyring = new Keyring({
+ *   keys: [
+ *     { keyId: 'neobank-2025', privateKey: process.env.NEOBANK_PRIVATE_KEY! },
+ *     { keyId: 'neobank-2024', privateKey: process.env.NEOBANK_PRIVATE_KEY_2024!, retired: true },
+ *   ],
+ *   onRetiredKeyUsed: ({ keyId }) => metrics.increment('neobank.retired_key_used', { keyId }),
+ * });
+ *
+ * const results = await decryptOffers(allOffers, keyring);
+ * results.forEach((result) => console.log(result.offer.offerId, 'decrypted with', result.keyId));
+ * ```
+ */
+export class Keyring implements KeyProvider {
+  /** The current key: the first one that isn't retired */
+  readonly keyId: string;
+  private readonly entries: KeyringEntry[];
+  private readonly onRetiredKeyUsed?: (use: { keyId: string }) => void;
+  private readonly logger?: PassageLogger;
+  private readonly warned = new Set<string>();
+
+  constructor(config: KeyringConfig) {
+    if (config.keys.length === 0) {
+      throw new Error('Keyring: at least one key is required');
+    }
+
+    this.entries = config.keys.map((entry, index) => {
+      const provider =
+        typeof entry.privateKey === 'string' ? new PemKeyProvider(entry.privateKey) : entry.privateKey;
+      const keyId =
+        entry.keyId ??
+        provider.keyId ??
+        (typeof entry.privateKey === 'string' ? keyFingerprint(entry.privateKey) : undefined);
+      if (!keyId) {
+        throw new Error(`Keyring: keys[${index}] needs a keyId`);
+      }
+      return { keyId, provider, retired: entry.retired ?? false };
+    });
+
+    const ids = new Set<string>();
+    for (const { keyId } of this.entries) {
+      if (ids.has(keyId)) {
+        throw new Error(`Keyring: duplicate keyId ${keyId}`);
+      }
+      ids.add(keyId);
+    }
+
+    const current = this.entries.find((entry) => !entry.retired);
+    if (!current) {
+      throw new Error('Keyring: every key is retired');
+    }
+    this.keyId = current.keyId;
+    this.onRetiredKeyUsed = config.onRetiredKeyUsed;
+    this.logger = config.logger;
+  }
+
+  /**
+   * IDs of the keys, in the order they are tried
+   */
+  get keyIds(): string[] {
+    return this.ordered().map((entry) => entry.keyId);
+  }
+
+  async unwrapKey(encryptedKey: Buffer, keyId?: string): Promise<Buffer> {
+    return (await this.unwrap(encryptedKey, keyId)).key;
+  }
+
+  /**
+   * Unwrap an AES key and report which key did it
+   *
+   * @param keyId - Key named by the payload, tried first
+   * @throws Error if no key can unwrap it
+   */
+  async unwrap(encryptedKey: Buffer, keyId?: string): Promise<KeyringUnwrapResult> {
+    const candidates = this.ordered(keyId);
+    let lastError: unknown;
+    for (const entry of candidates) {
+      let key: Buffer;
+      try {
+        key = await entry.provider.unwrapKey(encryptedKey);
+      } catch (error) {
+        lastError = error;
+        continue;
+      }
+      if (entry.retired) {
+        this.report(entry.keyId);
+      }
+      return { key, keyId: entry.keyId, retired: entry.retired };
+    }
+
+    const reason = lastError instanceof Error ? `: ${lastError.message}` : '';
+    throw new Error(
+      `Keyring: no key could decrypt (tried ${candidates.map((entry) => entry.keyId).join(', ')})${reason}`
+    );
+  }
+
+  /**
+   * Keys in the order to try them: the named key, active keys, retired keys
+   */
+  private ordered(keyId?: string): KeyringEntry[] {
+    const active = this.entries.filter((entry) => !entry.retired);
+    const retired = this.entries.filter((entry) => entry.retired);
+    const named = this.entries.find((entry) => entry.keyId === keyId);
+    return named ? [named, ...[...active, ...retired].filter((entry) => entry !== named)] : [...active, ...retired];
+  }
+
+  private report(keyId: string): void {
+    try {
+      if (this.logger && !this.warned.has(keyId)) {
+        this.warned.add(keyId);
+        this.logger.warn(`Retired key ${keyId} is still decrypting data; keep it until it stops being used`, {
+          keyId,
+        });
+      }
+      this.onRetiredKeyUsed?.({ keyId });
+    } catch {
+      // A failing listener must not break decryption
+    }
+  }
+}
+
+/**
+ * Unwrap an AES key with a provider, reporting the key used
+ */
+export async function unwrapWithKeyId(
+  provider: KeyProvider,
+  encryptedKey: Buffer,
+  keyId?: string
+): Promise<{ key: Buffer; keyId?: string }> {
+  if (provider instanceof Keyring) {
+    const { key, keyId: used } = await provider.unwrap(encryptedKey, keyId);
+    return { key, keyId: used };
+  }
+  return { key: await provider.unwrapKey(encryptedKey, keyId), keyId: provider.keyId };
+}
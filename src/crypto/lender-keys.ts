@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import { PassageError } from '../errors';
+import { keyFingerprint } from './key-provider';
+
+/** Smallest RSA modulus accepted for a lender key, in bits */
+export const MIN_RSA_MODULUS_LENGTH = 2048;
+
+const SPKI_PEM_PATTERN = /^-----BEGIN PUBLIC KEY-----\r?\n(?:[A-Za-z0-9+/=]+\r?\n)+-----END PUBLIC KEY-----$/;
+
+/**
+ * Why a public key was rejected
+ *
+ * - `MALFORMED`: not a PEM-encoded SPKI public key (`-----BEGIN PUBLIC KEY-----`)
+ * - `NOT_RSA`: a valid key of another type
+ * - `TOO_SHORT`: an RSA key below the minimum modulus length
+ */
+export type InvalidPublicKeyReason = 'MALFORMED' | 'NOT_RSA' | 'TOO_SHORT';
+
+/**
+ * Error thrown when a public key is unfit to encrypt borrower data for
+ */
+export class InvalidPublicKeyError extends PassageError {
+  /** What is wrong with the key */
+  readonly reason: InvalidPublicKeyReason;
+  /** Lender the key belongs to, if known */
+  readonly lenderId?: string;
+
+  constructor(reason: InvalidPublicKeyReason, message: string, options: { lenderId?: string; cause?: Error } = {}) {
+    super(message, {
+      errorCode: `PUBLIC_KEY_${reason}`,
+      cause: options.cause,
+    });
+    this.name = 'InvalidPublicKeyError';
+    this.reason = reason;
+    this.lenderId = options.lenderId;
+  }
+}
+
+/**
+ * Error thrown when a lender's public key doesn't match its pinned
+ * fingerprint
+ *
+ * Either the lender rotated its key or the key was swapped in transit or
+ * at the source. Confirm the new fingerprint with the lender out of band,
+ * then `approve()` it.
+ */
+export class LenderKeyChangedError extends PassageError {
+  readonly lenderId: string;
+  /** Fingerprint on record, or undefined if the lender was never pinned */
+  readonly pinnedFingerprint?: string;
+  /** Fingerprint of the key just received */
+  readonly fingerprint: string;
+
+  constructor(lenderId: string, pinnedFingerprint: string | undefined, fingerprint: string) {
+    super(
+      pinnedFingerprint
+        ? `Public key of lender ${lenderId} changed from ${pinnedFingerprint} to ${fingerprint}`
+        : `Public key of lender ${lenderId} (${fingerprint}) is not pinned`,
+      { errorCode: 'LENDER_KEY_CHANGED' }
+    );
+    this.name = 'LenderKeyChangedError';
+    this.lenderId = lenderId;
+    this.pinnedFingerprint = pinnedFingerprint;
+    this.fingerprint = fingerprint;
+  }
+}
+
+/**
+ * A validated public key
+ */
+export interface PublicKeyInfo {
+  /** SHA-256 fingerprint of the key, see `keyFingerprint()` */
+  fingerprint: string;
+  /** RSA modulus length in bits */
+  modulusLength: number;
+}
+
+/**
+ * Options for public key validation
+ */
+export interface PublicKeyValidationOptions {
+  /** Smallest RSA modulus to accept, in bits (default: 2048; 3072 is stricter) */
+  minModulusLength?: number;
+  /** Lender the key belongs to, for error messages */
+  lenderId?: string;
+}
+
+/**
+ * Check that a public key is a well-formed RSA SPKI PEM of sufficient
+ * size before encrypting borrower data for it
+ *
+ * @returns The key's fingerprint and size
+ * @throws InvalidPublicKeyError if the key is malformed, not RSA or too short
+ *
+ * @example
+ * ```typescript
+ * import { validatePublicKey } from '@portola/passage-neobank/crypto';
+ *
+ * const { fingerprint } = validatePublicKey(lender.publicKey, { lenderId: lender.lenderId, minModulusLength: 3072 });
+ * ```
+ */
+export function validatePublicKey(publicKeyPem: string, options: PublicKeyValidationOptions = {}): PublicKeyInfo {
+  const { lenderId, minModulusLength = MIN_RSA_MODULUS_LENGTH } = options;
+  const owner = lenderId ? `Public key of lender ${lenderId}` : 'Public key';
+
+  if (typeof publicKeyPem !== 'string' || !SPKI_PEM_PATTERN.test(publicKeyPem.trim())) {
+    throw new InvalidPublicKeyError('MALFORMED', `${owner} is not a PEM-encoded SPKI public key`, { lenderId });
+  }
+
+  let key: crypto.KeyObject;
+  try {
+    key = crypto.createPublicKey({ key: publicKeyPem, format: 'pem' });
+  } catch (error) {
+    throw new InvalidPublicKeyError('MALFORMED', `${owner} could not be parsed`, {
+      lenderId,
+      cause: error instanceof Error ? error : undefined,
+    });
+  }
+
+  if (key.asymmetricKeyType !== 'rsa') {
+    throw new InvalidPublicKeyError('NOT_RSA', `${owner} is ${key.asymmetricKeyType}, expected RSA`, { lenderId });
+  }
+  const modulusLength = key.asymmetricKeyDetails?.modulusLength ?? 0;
+  if (modulusLength < minModulusLength) {
+    throw new InvalidPublicKeyError(
+      'TOO_SHORT',
+      `${owner} is ${modulusLength} bits, at least ${minModulusLength} required`,
+      { lenderId }
+    );
+  }
+
+  return { fingerprint: keyFingerprint(key), modulusLength };
+}
+
+/**
+ * Storage for pinned lender key fingerprints
+ *
+ * Implement this to keep pins in your database, so a key swap is caught
+ * across restarts and instances.
+ */
+export interface LenderKeyPinStore {
+  /** Pinned fingerprint of a lender's key, or undefined if not pinned */
+  get(lenderId: string): string | undefined | Promise<string | undefined>;
+  /** Pin a fingerprint, replacing any previous one */
+  set(lenderId: string, fingerprint: string): void | Promise<void>;
+}
+
+/**
+ * In-memory pin store
+ *
+ * Pins are lost when the process exits; use a persistent store in
+ * production.
+ */
+export class InMemoryLenderKeyPinStore implements LenderKeyPinStore {
+  private readonly pins = new Map<string, string>();
+
+  get(lenderId: string): string | undefined {
+    return this.pins.get(lenderId);
+  }
+
+  set(lenderId: string, fingerprint: string): void {
+    this.pins.set(lenderId, fingerprint);
+  }
+}
+
+/**
+ * A lender key that differs from its pin
+ */
+export interface LenderKeyChange {
+  lenderId: string;
+  /** Fingerprint on record, or undefined if the lender was never pinned */
+  pinnedFingerprint?: string;
+  /** Fingerprint of the key just received */
+  fingerprint: string;
+}
+
+/**
+ * Lender key pinning settings
+ */
+export interface LenderKeyPinsConfig {
+  /** Where pins are kept (default: in-memory) */
+  store?: LenderKeyPinStore;
+  /**
+   * Pin a lender's key the first time it is seen (default: true). When
+   * false, only lenders pinned with `approve()` are accepted.
+   */
+  trustOnFirstUse?: boolean;
+  /**
+   * Decide on a changed or unpinned key; return true to pin the new key
+   * and carry on. Without it, every change throws `LenderKeyChangedError`.
+   */
+  onKeyChange?: (change: LenderKeyChange) => boolean | Promise<boolean>;
+  /** Smallest RSA modulus to accept, in bits (default: 2048) */
+  minModulusLength?: number;
+}
+
+/**
+ * Pins each lender's public key fingerprint so a swapped key is caught
+ * before borrower PII is encrypted for it
+ *
+ * @example
+ * ```typescript
+ * import { LenderKeyPins, encryptPIIForLenders } from '@portola/passage-neobank/crypto';
+ *
+ * const pins = new LenderKeyPins({ store: databasePinStore, minModulusLength: 3072 });
+ *
+ * // Throws LenderKeyChangedError if a lender's key no longer matches its pin
+ * const encryptedPayloads = await encryptPIIForLenders(lenders, borrowerPII, { pins });
+ *
+ * // After confirming a rotation with the lender
+ * await pins.approve('lender_123', 'b5bb9d8014a0f9b1d61e21e796d78dccdf1352f23cd32812f4850b878ae4944c');
+ * ```
+ */
+export class LenderKeyPins {
+  readonly minModulusLength: number;
+  private readonly store: LenderKeyPinStore;
+  private readonly trustOnFirstUse: boolean;
+  private readonly onKeyChange?: (change: LenderKeyChange) => boolean | Promise<boolean>;
+
+  constructor(config: LenderKeyPinsConfig = {}) {
+    this.store = config.store ?? new InMemoryLenderKeyPinStore();
+    this.trustOnFirstUse = config.trustOnFirstUse ?? true;
+    this.onKeyChange = config.onKeyChange;
+    this.minModulusLength = config.minModulusLength ?? MIN_RSA_MODULUS_LENGTH;
+  }
+
+  /**
+   * Validate a lender's key and check it against the pin
+   *
+   * @returns The key's fingerprint and size
+   * @throws InvalidPublicKeyError if the key is unfit for encryption
+   * @throws LenderKeyChangedError if the key doesn't match the pin and the change isn't approved
+   */
+  async verify(lenderId: string, publicKeyPem: string): Promise<PublicKeyInfo> {
+    const info = validatePublicKey(publicKeyPem, { lenderId, minModulusLength: this.minModulusLength });
+    const pinnedFingerprint = await this.store.get(lenderId);
+    if (pinnedFingerprint === info.fingerprint) {
+      return info;
+    }
+
+    if (pinnedFingerprint === undefined && this.trustOnFirstUse) {
+      await this.store.set(lenderId, info.fingerprint);
+      return info;
+    }
+    if (this.onKeyChange && (await this.onKeyChange({ lenderId, pinnedFingerprint, fingerprint: info.fingerprint }))) {
+      await this.store.set(lenderId, info.fingerprint);
+      return info;
+    }
+    throw new LenderKeyChangedError(lenderId, pinnedFingerprint, info.fingerprint);
+  }
+
+  /**
+   * Pin a lender's key fingerprint, e.g. to approve a rotation confirmed
+   * with the lender or to pin lenders ahead of time
+   *
+   * @param fingerprint - SHA-256 fingerprint in hex, with or without colons
+   */
+  async approve(lenderId: string, fingerprint: string): Promise<void> {
+    const normalized = fingerprint.replace(/:/g, '').toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(normalized)) {
+      throw new Error(`LenderKeyPins: ${fingerprint} is not a SHA-256 fingerprint`);
+    }
+    await this.store.set(lenderId, normalized);
+  }
+}
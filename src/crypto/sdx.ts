@@ -0,0 +1,103 @@
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { SDXResource } from '../resources/sdx';
+import type { RequestOptions } from '../types';
+import { decryptDocumentFromSDX } from './decrypt';
+import { decryptStreamFromSDX } from './stream';
+import { isKeyProvider, type KeyProvider } from './key-provider';
+
+/**
+ * A document Passage shared with you over SDX
+ */
+export interface SDXDecryptParams {
+  applicationId: string;
+  documentHandle: string;
+  /** Your neobank's RSA private key in PEM format, or a `KeyProvider` */
+  privateKey: string | KeyProvider;
+}
+
+/**
+ * Get a download token, then download and decrypt a document in one call
+ *
+ * @throws SDXDecryptionError if the document is malformed, was encrypted
+ *   for a different key or fails authentication
+ *
+ * @example
+ * ```typescript
+ * import { downloadAndDecrypt } from '@portola/passage-neobank/crypto';
+ *
+ * // Read the signed loan agreement
+ * const session = await passage.signing.getStatus(sessionId);
+ *
+ * const agreement = await downloadAndDecrypt(passage.sdx, {
+ *   applicationId: 'app_123',
+ *   documentHandle: session.documentHandle!,
+ *   privateKey: process.env.NEOBANK_PRIVATE_KEY!,
+ * });
+ *
+ * fs.writeFileSync('./loan_agreement.pdf', agreement);
+ * ```
+ */
+export async function downloadAndDecrypt(
+  sdx: SDXResource,
+  params: SDXDecryptParams,
+  options?: RequestOptions
+): Promise<Buffer> {
+  const encryptedDoc = await sdx.downloadDocument({
+    applicationId: params.applicationId,
+    documentHandle: params.documentHandle,
+  }, options);
+
+  // One call per overload: a key provider makes decryption async
+  return isKeyProvider(params.privateKey)
+    ? decryptDocumentFromSDX(encryptedDoc, params.privateKey)
+    : decryptDocumentFromSDX(encryptedDoc, params.privateKey);
+}
+
+/**
+ * Get a download token, then download and decrypt a document straight into
+ * `destination`
+ *
+ * Decrypts as the download arrives, so memory use stays constant for
+ * large documents. Resolves once everything has been written.
+ *
+ * @throws SDXDecryptionError if the document is malformed, truncated, was
+ *   encrypted for a different key or fails authentication; `destination`
+ *   may have received part of the document by then
+ *
+ * @example
+ * ```typescript
+ * import { downloadAndDecryptTo } from '@portola/passage-neobank/crypto';
+ *
+ * await downloadAndDecryptTo(
+ *   passage.sdx,
+ *   {
+ *     applicationId: 'app_123',
+ *     documentHandle: 'sdx_tok_abc123...',
+ *     privateKey: process.env.NEOBANK_PRIVATE_KEY!,
+ *   },
+ *   fs.createWriteStream('./bank_statement.pdf')
+ * );
+ * ```
+ */
+export async function downloadAndDecryptTo(
+  sdx: SDXResource,
+  params: SDXDecryptParams,
+  destination: NodeJS.WritableStream | WritableStream<Uint8Array>,
+  options?: RequestOptions
+): Promise<void> {
+  const token = await sdx.getToken({
+    applicationId: params.applicationId,
+    action: 'download',
+  }, options);
+
+  const encrypted = await sdx.downloadStream({
+    token,
+    documentHandle: params.documentHandle,
+  }, options);
+
+  await pipeline(
+    decryptStreamFromSDX(encrypted, params.privateKey),
+    'getWriter' in destination ? Writable.fromWeb(destination) : destination
+  );
+}
@@ -0,0 +1,282 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { readChunks, type ByteSource } from '../streams';
+import {
+  CHUNKED_MAGIC,
+  DEFAULT_CHUNK_SIZE,
+  FINAL_FRAME,
+  FRAME_HEADER_LENGTH,
+  MAX_CHUNK_SIZE,
+  MAX_METADATA_LENGTH,
+  NONCE_PREFIX_LENGTH,
+  TAG_LENGTH,
+  sealFrame,
+  type ChunkedMetadata,
+} from './chunked';
+import {
+  SDXDecryptionError,
+  decodeSDXMetadata,
+  openSDXFrame,
+  decodeChunkedMetadata,
+  readFrameHeader,
+  resolveSDXKey,
+} from './decrypt';
+import type { KeyProvider } from './key-provider';
+import { validatePublicKey } from './lender-keys';
+
+/**
+ * Options for `encryptStreamForSDX()`
+ */
+export interface SDXStreamEncryptOptions {
+  /**
+   * Plaintext bytes per encrypted frame
+   * @default 65536
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Encrypt a document for SDX upload as it is read
+ *
+ * Writes a chunked envelope: the document is split into frames that are
+ * each sealed with AES-256-GCM, so memory use stays constant however large
+ * the document is, and a truncated or reordered upload fails to decrypt.
+ * Decrypt with `decryptStreamFromSDX()` or `decryptDocumentFromSDX()`.
+ *
+ * @param source - Document as a Node.js `Readable`, web `ReadableStream`,
+ *   async iterable or Buffer
+ * @param publicKey - Recipient's RSA public key in PEM format
+ * @returns Stream of the encrypted envelope
+ * @throws InvalidPublicKeyError if the key is malformed, not RSA or too short
+ *
+ * @example
+ * ```typescript
+ * import { encryptStreamForSDX } from '@portola/passage-neobank/crypto';
+ * import fs from 'fs';
+ *
+ * const encrypted = encryptStreamForSDX(fs.createReadStream('./bank_statement.pdf'), lender.publicKey);
+ *
+ * const result = await passage.sdx.uploadStream({
+ *   token: uploadToken,
+ *   encryptedDocument: encrypted,
+ *   documentType: 'kyc',
+ * });
+ * ```
+ */
+export function encryptStreamForSDX(
+  source: ByteSource,
+  publicKey: string,
+  options: SDXStreamEncryptOptions = {}
+): Readable {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`encryptStreamForSDX: chunkSize must be an integer between 1 and ${MAX_CHUNK_SIZE}`);
+  }
+  validatePublicKey(publicKey);
+  // Encrypt the key up front so a bad public key throws here, not mid-stream
+  const aesKey = crypto.randomBytes(32);
+  const noncePrefix = crypto.randomBytes(NONCE_PREFIX_LENGTH);
+  const encryptedKey = crypto.publicEncrypt(
+    {
+      key: publicKey,
+      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: 'sha256',
+    },
+    aesKey
+  );
+  const metadata: ChunkedMetadata = {
+    version: 2,
+    encryptedKey: encryptedKey.toString('base64'),
+    noncePrefix: noncePrefix.toString('base64'),
+    chunkSize,
+  };
+
+  return Readable.from(sealChunks(source, aesKey, noncePrefix, metadata), { objectMode: false });
+}
+
+async function* sealChunks(
+  source: ByteSource,
+  key: Buffer,
+  noncePrefix: Buffer,
+  metadata: ChunkedMetadata
+): AsyncGenerator<Buffer> {
+  const metadataBuffer = Buffer.from(JSON.stringify(metadata), 'utf-8');
+  const header = Buffer.alloc(CHUNKED_MAGIC.length + 4);
+  CHUNKED_MAGIC.copy(header, 0);
+  header.writeUInt32BE(metadataBuffer.length, CHUNKED_MAGIC.length);
+  yield Buffer.concat([header, metadataBuffer]);
+
+  // Hold back up to one chunk: the last frame is only known at the end
+  let pending: Buffer = Buffer.alloc(0);
+  let index = 0;
+  for await (const chunk of readChunks(source)) {
+    pending = pending.length === 0 ? chunk : Buffer.concat([pending, chunk]);
+    while (pending.length > metadata.chunkSize) {
+      yield sealFrame(key, noncePrefix, nextIndex(index++), false, pending.subarray(0, metadata.chunkSize));
+      pending = pending.subarray(metadata.chunkSize);
+    }
+  }
+  yield sealFrame(key, noncePrefix, nextIndex(index), true, pending);
+}
+
+function nextIndex(index: number): number {
+  if (index > 0xffffffff) {
+    throw new Error('encryptStreamForSDX: document exceeds the maximum number of frames');
+  }
+  return index;
+}
+
+/**
+ * Decrypt an SDX document as it is read
+ *
+ * Reads chunked envelopes from `encryptStreamForSDX()` frame by frame,
+ * releasing each frame only once it has been authenticated. Single-part
+ * envelopes from `encryptDocumentForSDX()` are decrypted as they stream
+ * too, but their one auth tag is only checked at the end: if the stream
+ * errors, discard everything it produced.
+ *
+ * @param source - Encrypted document as a Node.js `Readable`, web
+ *   `ReadableStream`, async iterable or Buffer
+ * @param privateKeyPem - Your neobank's private key in PEM format, or a
+ *   `KeyProvider`
+ * @returns Stream of the decrypted document; it errors with
+ *   `SDXDecryptionError` if the envelope is malformed, truncated, encrypted
+ *   for a different key or tampered with
+ *
+ * @example
+ * ```typescript
+ * import { decryptStreamFromSDX } from '@portola/passage-neobank/crypto';
+ * import { pipeline } from 'stream/promises';
+ * import fs from 'fs';
+ *
+ * await pipeline(
+ *   decryptStreamFromSDX(fs.createReadStream('./statement.sdx'), process.env.NEOBANK_PRIVATE_KEY!),
+ *   fs.createWriteStream('./statement.pdf')
+ * );
+ * ```
+ */
+export function decryptStreamFromSDX(source: ByteSource, privateKeyPem: string | KeyProvider): Readable {
+  return Readable.from(openChunks(source, privateKeyPem), { objectMode: false });
+}
+
+async function* openChunks(source: ByteSource, privateKeyPem: string | KeyProvider): AsyncGenerator<Buffer> {
+  const reader = new ByteReader(readChunks(source));
+  const first = await reader.read(4);
+  if (!first) {
+    throw new SDXDecryptionError('INVALID_HEADER', 'SDX envelope is too short for its metadata length header');
+  }
+
+  if (first.equals(CHUNKED_MAGIC)) {
+    const metadataLength = (await reader.read(4))?.readUInt32BE(0);
+    if (metadataLength === undefined) {
+      throw new SDXDecryptionError('TRUNCATED', 'SDX envelope ends inside its metadata length header');
+    }
+    const metadata = await readMetadata(reader, metadataLength);
+    if (!metadata) {
+      throw new SDXDecryptionError('TRUNCATED', 'SDX envelope ends inside its metadata');
+    }
+    const { encryptedKey, ...framing } = decodeChunkedMetadata(metadata);
+    const envelopeKey = { ...framing, key: await resolveSDXKey(encryptedKey, privateKeyPem) };
+
+    for (let index = 0; ; index++) {
+      const header = await reader.read(FRAME_HEADER_LENGTH);
+      if (!header) {
+        throw new SDXDecryptionError('TRUNCATED', `SDX envelope ends before its final frame (after ${index} frames)`);
+      }
+      const { flags, length } = readFrameHeader(header, envelopeKey, index);
+      const frame = await reader.read(length + TAG_LENGTH);
+      if (!frame) {
+        throw new SDXDecryptionError('TRUNCATED', `SDX envelope ends inside frame ${index}`);
+      }
+      const plaintext = openSDXFrame(envelopeKey, index, flags, frame.subarray(0, length), frame.subarray(length));
+      if (flags & FINAL_FRAME) {
+        if (await reader.read(1)) {
+          throw new SDXDecryptionError('INVALID_HEADER', 'SDX envelope has data after its final frame');
+        }
+        yield plaintext;
+        return;
+      }
+      yield plaintext;
+    }
+  }
+
+  // Single-part envelope: [4-byte metadata length][metadata JSON][ciphertext]
+  const metadata = await readMetadata(reader, first.readUInt32BE(0));
+  if (!metadata) {
+    throw new SDXDecryptionError('INVALID_HEADER', 'SDX envelope ends inside its metadata');
+  }
+  const envelope = decodeSDXMetadata(metadata);
+  const aesKey = await resolveSDXKey(envelope.encryptedKey, privateKeyPem);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', aesKey, envelope.iv);
+  decipher.setAuthTag(envelope.authTag);
+  for await (const chunk of reader.rest()) {
+    yield decipher.update(chunk);
+  }
+  let last: Buffer;
+  try {
+    last = decipher.final();
+  } catch (error) {
+    throw new SDXDecryptionError(
+      'AUTHENTICATION_FAILED',
+      'SDX document failed authentication: it was corrupted or tampered with',
+      error instanceof Error ? error : undefined
+    );
+  }
+  yield last;
+}
+
+async function readMetadata(reader: ByteReader, length: number): Promise<Buffer | undefined> {
+  if (length === 0 || length > MAX_METADATA_LENGTH) {
+    throw new SDXDecryptionError('INVALID_HEADER', `SDX envelope metadata length ${length} is out of range`);
+  }
+  return reader.read(length);
+}
+
+/**
+ * Reads exact byte counts from a stream of arbitrarily sized chunks
+ */
+class ByteReader {
+  private readonly chunks: AsyncIterator<Buffer>;
+  private buffered: Buffer[] = [];
+  private length = 0;
+
+  constructor(chunks: AsyncIterator<Buffer>) {
+    this.chunks = chunks;
+  }
+
+  /**
+   * Read exactly `count` bytes, or `undefined` if the stream ends first
+   */
+  async read(count: number): Promise<Buffer | undefined> {
+    while (this.length < count) {
+      const { done, value } = await this.chunks.next();
+      if (done) {
+        return undefined;
+      }
+      this.buffered.push(value);
+      this.length += value.length;
+    }
+
+    const all = this.buffered.length === 1 ? this.buffered[0] : Buffer.concat(this.buffered);
+    const rest = all.subarray(count);
+    this.buffered = rest.length > 0 ? [rest] : [];
+    this.length = rest.length;
+    return all.subarray(0, count);
+  }
+
+  /**
+   * Everything not read yet
+   */
+  async *rest(): AsyncGenerator<Buffer> {
+    yield* this.buffered;
+    this.buffered = [];
+    this.length = 0;
+    for (;;) {
+      const { done, value } = await this.chunks.next();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  }
+}
@@ -10,6 +10,8 @@ export interface HybridEncryptedPayload {
   iv: string;
   /** Base64-encoded 16-byte GCM auth tag */
   authTag: string;
+  /** Identifier of the recipient's key, so a `Keyring` can pick it */
+  keyId?: string;
 }
 
 /**
@@ -96,4 +98,38 @@ export interface DecryptionResult<T = unknown> {
   checksum: string;
   /** Whether checksum matches expected value */
   verified: boolean;
+  /** Key that decrypted the data, when decrypting with a `Keyring` or a key provider with a `keyId` */
+  keyId?: string;
+}
+
+/**
+ * Metadata header of an SDX document envelope (base64 fields)
+ */
+export interface SDXEnvelopeMetadata {
+  /** Base64-encoded RSA-OAEP encrypted AES key */
+  encryptedKey: string;
+  /** Base64-encoded 12-byte IV */
+  iv: string;
+  /** Base64-encoded 16-byte GCM auth tag */
+  authTag: string;
+  /** Any additional metadata fields */
+  [field: string]: unknown;
+}
+
+/**
+ * Parsed SDX document envelope: `[4-byte length][metadata JSON][ciphertext]`
+ */
+export interface SDXEnvelope {
+  /** Metadata header as sent */
+  metadata: SDXEnvelopeMetadata;
+  /** Length of the metadata JSON in bytes */
+  metadataLength: number;
+  /** RSA-OAEP encrypted AES key */
+  encryptedKey: Buffer;
+  /** AES-GCM IV */
+  iv: Buffer;
+  /** AES-GCM auth tag */
+  authTag: Buffer;
+  /** AES-256-GCM encrypted document */
+  ciphertext: Buffer;
 }
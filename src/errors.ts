@@ -177,7 +177,7 @@ export class NotFoundError extends PassageError {
  * Rate limit exceeded error
  */
 export class RateLimitError extends PassageError {
-  /** When the rate limit resets (Unix timestamp) */
+  /** When the rate limit resets (Unix timestamp in seconds) */
   readonly retryAfter?: number;
 
   constructor(
@@ -193,6 +193,14 @@ export class RateLimitError extends PassageError {
     this.name = 'RateLimitError';
     this.retryAfter = retryAfter;
   }
+
+  /**
+   * Milliseconds until the rate limit resets, if known
+   */
+  get retryAfterMs(): number | undefined {
+    if (this.retryAfter === undefined) return undefined;
+    return Math.max(this.retryAfter * 1000 - Date.now(), 0);
+  }
 }
 
 /**
@@ -209,6 +217,37 @@ export class ConflictError extends PassageError {
   }
 }
 
+/**
+ * Invalid application status transition, detected before the request is sent
+ *
+ * The API reports the same condition as a `ConflictError`.
+ */
+export class InvalidTransitionError extends PassageError {
+  /** Current status, if known */
+  readonly from?: string;
+  /** Requested status */
+  readonly to: string;
+  /** Statuses `from` can move to */
+  readonly allowed: string[];
+
+  constructor(from: string | undefined, to: string, allowed: string[]) {
+    const message = from === undefined
+      ? `No application status can transition to ${to}`
+      : allowed.length === 0
+        ? `Cannot transition application from ${from} to ${to}: ${from} is terminal`
+        : `Cannot transition application from ${from} to ${to} (allowed: ${allowed.join(', ')})`;
+
+    super(message, {
+      statusCode: 409,
+      errorCode: 'INVALID_TRANSITION',
+    });
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+    this.allowed = allowed;
+  }
+}
+
 /**
  * Network or connection error
  */
@@ -235,6 +274,40 @@ export class TimeoutError extends PassageError {
   }
 }
 
+/**
+ * A circuit breaker is open for the operation's group, so the request was
+ * not sent
+ */
+export class CircuitOpenError extends PassageError {
+  /** Operation group whose circuit is open (e.g. 'applications') */
+  readonly group: string;
+  /** Unix time in ms when the circuit lets a trial request through */
+  readonly retryAt: number;
+
+  constructor(group: string, retryAt: number) {
+    super(`Circuit open for ${group}: Passage API calls are failing, not sending request`, {
+      errorCode: 'CIRCUIT_OPEN',
+    });
+    this.name = 'CircuitOpenError';
+    this.group = group;
+    this.retryAt = retryAt;
+  }
+
+  /**
+   * Milliseconds until the circuit lets a trial request through
+   */
+  get retryAfterMs(): number {
+    return Math.max(this.retryAt - Date.now(), 0);
+  }
+
+  /**
+   * Never retried: the point is to fail fast
+   */
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
 /**
  * Create appropriate error from API response
  *
@@ -246,6 +319,8 @@ export class TimeoutError extends PassageError {
  *   requestId: 'req_...',
  *   details?: [{field: 'fieldName', message: 'error'}]  // For validation errors
  * }
+ *
+ * Pass the response headers to read `Retry-After` into `RateLimitError.retryAfter`.
  */
 export function createErrorFromResponse(
   statusCode: number,
@@ -259,7 +334,8 @@ export function createErrorFromResponse(
     details?: Array<{ field: string; message: string }>;
     // Legacy SDK format: Record<string, string[]>
     fields?: Record<string, string[]>;
-  }
+  },
+  headers?: Record<string, unknown>
 ): PassageError {
   const message = body.message || body.error || 'Unknown error';
   const requestId = body.requestId;
@@ -307,7 +383,7 @@ export function createErrorFromResponse(
       return new ConflictError(message, requestId);
 
     case 429:
-      return new RateLimitError(message, undefined, requestId);
+      return new RateLimitError(message, parseRetryAfter(headers), requestId);
 
     default:
       return new PassageError(message, {
@@ -318,3 +394,105 @@ export function createErrorFromResponse(
       });
   }
 }
+
+/**
+ * Convert any error thrown while making a request to a PassageError
+ *
+ * Axios errors with a response become the matching status error; errors
+ * without one become `TimeoutError` or `NetworkError`.
+ */
+export function toPassageError(error: unknown, operationName: string): PassageError {
+  // Already a PassageError
+  if (error instanceof PassageError) {
+    return error;
+  }
+
+  // Axios error with response
+  if (isAxiosError(error)) {
+    if (error.response) {
+      const { status, data, headers } = error.response;
+      return createErrorFromResponse(status, data || {}, headers);
+    }
+
+    // Network error (no response)
+    if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
+      return new TimeoutError(`${operationName} timed out`, error as Error);
+    }
+
+    return new NetworkError(`${operationName} failed: ${error.message}`, error as Error);
+  }
+
+  // Generic error
+  if (error instanceof Error) {
+    return new PassageError(`${operationName} failed: ${error.message}`, {
+      cause: error,
+    });
+  }
+
+  // Unknown error type
+  return new PassageError(`${operationName} failed with unknown error`);
+}
+
+/**
+ * Type guard for axios errors
+ */
+function isAxiosError(error: unknown): error is {
+  response?: { status: number; data: unknown; headers?: Record<string, unknown> };
+  code?: string;
+  message?: string;
+} {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    ('response' in error || 'code' in error || 'isAxiosError' in error)
+  );
+}
+
+/**
+ * Parse rate limit response headers into a Unix timestamp (seconds)
+ *
+ * Reads `Retry-After` (delay in seconds or an HTTP date), then
+ * `RateLimit-Reset` and `X-RateLimit-Reset` (delay in seconds, or a Unix
+ * timestamp for large values).
+ */
+export function parseRetryAfter(
+  headers: Record<string, unknown> | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const retryAfter = header(headers, 'retry-after');
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (retryAfter.trim() !== '' && Number.isFinite(seconds)) {
+      return Math.ceil(now / 1000 + Math.max(seconds, 0));
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.ceil(Math.max(date, now) / 1000);
+    }
+  }
+
+  for (const name of ['ratelimit-reset', 'x-ratelimit-reset']) {
+    const raw = header(headers, name);
+    const value = Number(raw);
+    if (raw !== undefined && raw.trim() !== '' && Number.isFinite(value) && value >= 0) {
+      // Large values are Unix timestamps, small ones are delays
+      return value > 1_000_000_000 ? Math.ceil(value) : Math.ceil(now / 1000 + value);
+    }
+  }
+
+  return undefined;
+}
+
+function header(headers: Record<string, unknown>, name: string): string | undefined {
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === name) {
+      const value = headers[key];
+      return Array.isArray(value) ? String(value[0]) : value == null ? undefined : String(value);
+    }
+  }
+  return undefined;
+}
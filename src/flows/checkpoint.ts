@@ -0,0 +1,103 @@
+/**
+ * Steps of the borrowing flow, in order
+ */
+export const LOAN_FLOW_STEPS = [
+  'lenders',
+  'application',
+  'prequalOffers',
+  'acceptPrequal',
+  'finalOffers',
+  'acceptFinal',
+  'signing',
+  'signingCompleted',
+  'loan',
+] as const;
+
+/**
+ * A step of the borrowing flow
+ */
+export type LoanFlowStep = (typeof LOAN_FLOW_STEPS)[number];
+
+/**
+ * Resumable state of a borrowing flow, saved after each step
+ *
+ * Contains only IDs, never borrower PII or decrypted offer details.
+ */
+export interface LoanFlowCheckpoint {
+  /** Flow identifier (e.g. your user or session ID) */
+  flowId: string;
+  /**
+   * Random ID of this run of the flow, part of every idempotency key so a
+   * flow started over after `reset()` doesn't replay the previous run
+   */
+  runId?: string;
+  /** Steps completed so far, in order */
+  completedSteps: LoanFlowStep[];
+  /** Lenders the application was encrypted for */
+  lenderIds?: string[];
+  /** Created application */
+  applicationId?: string;
+  /** Selected prequalified offer */
+  prequalOfferId?: string;
+  /** Selected final offer */
+  finalOfferId?: string;
+  /** Signing session */
+  signingSessionId?: string;
+  /** URL where the borrower signs the loan documents */
+  signingUrl?: string;
+  /** Funded loan */
+  loanId?: string;
+  /** ISO 8601 timestamp of the last update */
+  updatedAt: string;
+}
+
+/**
+ * Storage backend for borrowing flow checkpoints
+ *
+ * @example Redis (ioredis)
+ * ```typescript
+ * const redisStore: LoanFlowCheckpointStore = {
+ *   async load(flowId) {
+ *     const json = await redis.get(`passage:flow:${flowId}`);
+ *     return json ? JSON.parse(json) : undefined;
+ *   },
+ *   async save(checkpoint) {
+ *     await redis.set(`passage:flow:${checkpoint.flowId}`, JSON.stringify(checkpoint), 'EX', 30 * 86400);
+ *   },
+ *   async delete(flowId) {
+ *     await redis.del(`passage:flow:${flowId}`);
+ *   },
+ * };
+ * ```
+ */
+export interface LoanFlowCheckpointStore {
+  /** Load a checkpoint, or undefined if the flow hasn't started */
+  load(flowId: string): LoanFlowCheckpoint | undefined | Promise<LoanFlowCheckpoint | undefined>;
+  /** Save a checkpoint, replacing any previous one for the flow */
+  save(checkpoint: LoanFlowCheckpoint): void | Promise<void>;
+  /** Delete a checkpoint */
+  delete(flowId: string): void | Promise<void>;
+}
+
+/**
+ * In-memory checkpoint store
+ *
+ * Checkpoints are lost when the process exits; use a persistent store
+ * to resume flows across restarts.
+ */
+export class InMemoryCheckpointStore implements LoanFlowCheckpointStore {
+  private readonly checkpoints = new Map<string, LoanFlowCheckpoint>();
+
+  load(flowId: string): LoanFlowCheckpoint | undefined {
+    const checkpoint = this.checkpoints.get(flowId);
+    return checkpoint && structuredClone(checkpoint);
+  }
+
+  save(checkpoint: LoanFlowCheckpoint): void {
+    this.checkpoints.set(checkpoint.flowId, structuredClone(checkpoint));
+  }
+
+  delete(flowId: string): void {
+    this.checkpoints.delete(flowId);
+  }
+}
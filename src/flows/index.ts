@@ -0,0 +1,23 @@
+/**
+ * Borrowing flow orchestration for the Passage SDK
+ *
+ * @module flows
+ */
+
+export {
+  LoanFlow,
+  type LoanFlowClient,
+  type LoanFlowConfig,
+  type LoanFlowInput,
+  type LoanFlowResult,
+  type LoanFlowOfferCandidate,
+  type LoanFlowProgressEvent,
+} from './loan-flow';
+
+export {
+  InMemoryCheckpointStore,
+  LOAN_FLOW_STEPS,
+  type LoanFlowStep,
+  type LoanFlowCheckpoint,
+  type LoanFlowCheckpointStore,
+} from './checkpoint';
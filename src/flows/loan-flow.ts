@@ -0,0 +1,497 @@
+import { randomUUID } from 'crypto';
+import type { Passage } from '../client';
+import type { WebhookEvent, WebhookEventType } from '../webhooks/types';
+import type {
+  BorrowerWallet,
+  HardPullConsent,
+  IdempotentRequestOptions,
+  Lender,
+  LenderOffers,
+  Offer,
+  ProductType,
+} from '../types';
+import type { DecryptedOfferDetails } from '../crypto/types';
+import { encryptPIIForLenders } from '../crypto/encrypt';
+import { decryptOffers, type BatchDecryptResult } from '../crypto/decrypt';
+import { isKeyProvider, type KeyProvider } from '../crypto/key-provider';
+import type { LenderKeyPins } from '../crypto/lender-keys';
+import { PassageError, TimeoutError } from '../errors';
+import { poll } from '../poll';
+import type { LoanFlowCheckpoint, LoanFlowCheckpointStore, LoanFlowStep } from './checkpoint';
+import { InMemoryCheckpointStore, LOAN_FLOW_STEPS } from './checkpoint';
+
+/**
+ * Resources the flow calls; a `Passage` client satisfies this
+ */
+export type LoanFlowClient = Pick<Passage, 'lenders' | 'applications' | 'offers' | 'signing' | 'loans'>;
+
+/**
+ * A decrypted, checksum-verified offer the borrower can choose
+ */
+export interface LoanFlowOfferCandidate {
+  /** Offer ID */
+  offerId: string;
+  /** Lender that made the offer */
+  lenderId: string;
+  /** Lender display name */
+  lenderName?: string;
+  /** Decrypted offer terms */
+  details: DecryptedOfferDetails;
+  /** Encrypted offer as returned by the API */
+  offer: Offer;
+}
+
+/**
+ * Progress events emitted by the flow
+ */
+export type LoanFlowProgressEvent =
+  | { type: 'step_started'; step: LoanFlowStep; checkpoint: LoanFlowCheckpoint }
+  | { type: 'step_completed'; step: LoanFlowStep; checkpoint: LoanFlowCheckpoint }
+  | { type: 'step_skipped'; step: LoanFlowStep; checkpoint: LoanFlowCheckpoint }
+  | { type: 'waiting'; step: LoanFlowStep; attempt: number };
+
+/**
+ * Configuration for a borrowing flow
+ */
+export interface LoanFlowConfig {
+  /** Identifies the flow in the checkpoint store (e.g. your user or session ID) */
+  flowId: string;
+  /** Your neobank's private key in PEM format, or a `KeyProvider`, for decrypting offers */
+  privateKey: string | KeyProvider;
+  /** Where checkpoints are saved (default: in-memory) */
+  store?: LoanFlowCheckpointStore;
+  /** Check lender keys against pinned fingerprints before encrypting PII */
+  lenderKeyPins?: LenderKeyPins;
+  /** Poll interval while waiting for offers, signing and funding, in ms (default: 5000) */
+  pollInterval?: number;
+  /** Max time to wait for each of offers, signing and funding, in ms (default: 1800000 = 30 minutes) */
+  timeout?: number;
+  /**
+   * Choose an offer; return its offer ID
+   *
+   * Default: lowest APR (falling back to interest rate).
+   */
+  selectOffer?: (
+    offers: LoanFlowOfferCandidate[],
+    stage: 'prequal' | 'final'
+  ) => string | Promise<string>;
+  /** Called as the flow progresses */
+  onProgress?: (event: LoanFlowProgressEvent) => void;
+}
+
+/**
+ * Borrower data for a flow
+ */
+export interface LoanFlowInput {
+  /** Loan product */
+  productType: ProductType;
+  /** Borrower's state, for lender discovery */
+  stateCode?: string;
+  /**
+   * Borrower PII, encrypted for each lender. Only needed until the
+   * application is created; never saved in checkpoints.
+   */
+  pii?: Record<string, unknown>;
+  /** Borrower contact details for signing */
+  borrower: { email: string; name: string };
+  /** Hard pull consent, sent when accepting the prequalified offer */
+  hardPullConsent: HardPullConsent;
+  /** Wallet for disbursement (legacy; prefer walletId) */
+  borrowerWallet?: BorrowerWallet;
+  /** Verified wallet for disbursement */
+  walletId?: string;
+  /** Your external reference ID */
+  externalId?: string;
+  /** Application metadata */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Result of a completed flow
+ */
+export interface LoanFlowResult {
+  /** Final checkpoint */
+  checkpoint: LoanFlowCheckpoint;
+  /** The funded loan */
+  loan: import('@portola/passage').Loan;
+}
+
+const DEFAULT_POLL_INTERVAL = 5000;
+const DEFAULT_TIMEOUT = 1800000;
+
+/**
+ * End-to-end borrowing flow orchestrator
+ *
+ * Drives an application from borrower PII to a funded loan: discovers
+ * lenders, encrypts PII, creates the application, waits for and selects
+ * offers, accepts them, creates a signing session, waits for signing and
+ * funding. A checkpoint is saved after each step, so calling `run()` again
+ * with the same `flowId` resumes where the flow stopped.
+ *
+ * Waiting steps poll the API. Pass webhook events to `handleWebhook()`
+ * to wake them as soon as Passage reports progress.
+ *
+ * @example
+ * ```typescript
+ * import { Passage, LoanFlow } from '@portola/passage-neobank';
+ *
+ * const flow = new LoanFlow(passage, {
+ *   flowId: user.id,
+ *   privateKey: process.env.NEOBANK_PRIVATE_KEY!,
+ *   store: redisCheckpointStore,
+ *   onProgress: (event) => {
+ *     if (event.type === 'step_completed' && event.step === 'signing') {
+ *       notifyBorrower(event.checkpoint.signingUrl);
+ *     }
+ *   },
+ * });
+ *
+ * // Wake waiting steps from your webhook endpoint
+ * router.on('*', (event) => flow.handleWebhook(event));
+ *
+ * const { loan } = await flow.run({
+ *   productType: 'personal',
+ *   stateCode: 'CA',
+ *   pii: borrowerPII,
+ *   borrower: { email: 'borrower@example.com', name: 'Jane Doe' },
+ *   hardPullConsent,
+ * });
+ * ```
+ */
+export class LoanFlow {
+  private client: LoanFlowClient;
+  private config: LoanFlowConfig;
+  private store: LoanFlowCheckpointStore;
+  private state?: LoanFlowCheckpoint;
+  private lenders?: Lender[];
+  private loan?: LoanFlowResult['loan'];
+  private running = false;
+  private waiter?: { events: readonly WebhookEventType[]; wake: () => void };
+
+  constructor(client: LoanFlowClient, config: LoanFlowConfig) {
+    if (!config.flowId) {
+      throw new Error('LoanFlow: flowId is required');
+    }
+    if (!config.privateKey) {
+      throw new Error('LoanFlow: privateKey is required');
+    }
+
+    this.client = client;
+    this.config = config;
+    this.store = config.store ?? new InMemoryCheckpointStore();
+  }
+
+  /**
+   * Current checkpoint, if the flow has been loaded or started
+   */
+  get checkpoint(): LoanFlowCheckpoint | undefined {
+    return this.state;
+  }
+
+  /**
+   * Run the flow to completion, resuming from the saved checkpoint
+   *
+   * @param input - Borrower data
+   * @returns The checkpoint and funded loan
+   * @throws TimeoutError if offers, signing or funding take longer than `timeout`
+   * @throws PassageError if no lenders or verified offers are available, or signing fails
+   */
+  async run(input: LoanFlowInput): Promise<LoanFlowResult> {
+    if (this.running) {
+      throw new Error('LoanFlow: run() is already in progress');
+    }
+    this.running = true;
+
+    try {
+      this.state = (await this.store.load(this.config.flowId)) ?? {
+        flowId: this.config.flowId,
+        runId: randomUUID(),
+        completedSteps: [],
+        updatedAt: new Date().toISOString(),
+      };
+
+      for (const step of LOAN_FLOW_STEPS) {
+        if (this.state.completedSteps.includes(step)) {
+          this.emit({ type: 'step_skipped', step, checkpoint: this.state });
+          continue;
+        }
+
+        this.emit({ type: 'step_started', step, checkpoint: this.state });
+        const update = await this.runStep(step, input, this.state);
+        await this.complete(step, update);
+      }
+
+      const loan = this.loan ?? (await this.client.loans.get(this.state.loanId!));
+      return { checkpoint: this.state, loan };
+    } finally {
+      this.running = false;
+      this.waiter = undefined;
+    }
+  }
+
+  /**
+   * Wake a waiting step when a relevant webhook arrives
+   *
+   * Events for other applications are ignored.
+   */
+  handleWebhook(event: Pick<WebhookEvent, 'event' | 'data'>): void {
+    if (!this.waiter || !this.waiter.events.includes(event.event)) {
+      return;
+    }
+
+    const applicationId = (event.data as { applicationId?: unknown } | null)?.applicationId;
+    if (applicationId === undefined || applicationId === this.state?.applicationId) {
+      this.waiter.wake();
+    }
+  }
+
+  /**
+   * Delete the saved checkpoint so the next `run()` starts over
+   */
+  async reset(): Promise<void> {
+    await this.store.delete(this.config.flowId);
+    this.state = undefined;
+    this.lenders = undefined;
+    this.loan = undefined;
+  }
+
+  /**
+   * Execute a single step, returning the checkpoint fields it produced
+   */
+  private async runStep(
+    step: LoanFlowStep,
+    input: LoanFlowInput,
+    state: LoanFlowCheckpoint
+  ): Promise<Partial<LoanFlowCheckpoint>> {
+    const { client } = this;
+
+    switch (step) {
+      case 'lenders': {
+        const lenders = await client.lenders.list({
+          productType: input.productType,
+          stateCode: input.stateCode,
+        });
+        if (lenders.length === 0) {
+          throw new PassageError('No lenders available for this product and state', {
+            errorCode: 'NO_LENDERS',
+          });
+        }
+        this.lenders = lenders;
+        return { lenderIds: lenders.map((l) => l.lenderId) };
+      }
+
+      case 'application': {
+        if (!input.pii) {
+          throw new Error('LoanFlow: pii is required to create the application');
+        }
+        const lenders = this.lenders ?? (await client.lenders.list({
+          productType: input.productType,
+          stateCode: input.stateCode,
+        })).filter((l) => state.lenderIds?.includes(l.lenderId));
+
+        const lenderKeys = lenders.map((l) => ({ lenderId: l.lenderId, publicKey: l.publicKey }));
+        const pins = this.config.lenderKeyPins;
+        const encryptedPayloads = pins
+          ? await encryptPIIForLenders(lenderKeys, input.pii, { pins })
+          : encryptPIIForLenders(lenderKeys, input.pii);
+        const application = await client.applications.create({
+          productType: input.productType,
+          encryptedPayloads,
+          externalId: input.externalId,
+          metadata: input.metadata,
+          walletId: input.walletId,
+        }, this.idempotent(state, step));
+        return { applicationId: application.id };
+      }
+
+      case 'prequalOffers': {
+        const offerId = await this.selectOffer('prequal', step, () =>
+          client.offers.getPrequalified(state.applicationId!)
+        );
+        return { prequalOfferId: offerId };
+      }
+
+      case 'acceptPrequal':
+        await client.offers.acceptPrequal(state.prequalOfferId!, {
+          hardPullConsent: input.hardPullConsent,
+          borrowerWallet: input.borrowerWallet,
+          borrowerEmail: input.borrower.email,
+          borrowerName: input.borrower.name,
+        }, this.idempotent(state, step));
+        return {};
+
+      case 'finalOffers': {
+        const offerId = await this.selectOffer('final', step, () =>
+          client.offers.getFinal(state.applicationId!)
+        );
+        return { finalOfferId: offerId };
+      }
+
+      case 'acceptFinal':
+        await client.offers.acceptFinal(state.finalOfferId!, {
+          borrowerEmail: input.borrower.email,
+          borrowerName: input.borrower.name,
+          borrowerWallet: input.borrowerWallet,
+        }, this.idempotent(state, step));
+        return {};
+
+      case 'signing': {
+        const session = await client.signing.create(state.applicationId!, {
+          borrowerEmail: input.borrower.email,
+          borrowerName: input.borrower.name,
+        }, this.idempotent(state, step));
+        return { signingSessionId: session.sessionId, signingUrl: session.signingUrl };
+      }
+
+      case 'signingCompleted':
+        await this.waitFor(step, ['signing.completed', 'esign.completed'], async () => {
+          const session = await client.signing.getStatus(state.signingSessionId!);
+          if (session.status === 'COMPLETED') {
+            return session;
+          }
+          if (session.status === 'FAILED' || session.status === 'EXPIRED' || session.status === 'CANCELLED') {
+            throw new PassageError(`Signing session ${session.status.toLowerCase()}`, {
+              errorCode: 'SIGNING_FAILED',
+            });
+          }
+          return undefined;
+        });
+        return {};
+
+      case 'loan': {
+        const loan = await this.waitFor(step, ['loan.created', 'funding.disbursed'], async () =>
+          (await client.loans.getByApplication(state.applicationId!)) ?? undefined
+        );
+        this.loan = loan;
+        return { loanId: loan.id };
+      }
+    }
+  }
+
+  /**
+   * Wait for offers, decrypt them and let the selector choose one
+   */
+  private async selectOffer(
+    stage: 'prequal' | 'final',
+    step: LoanFlowStep,
+    fetchOffers: () => ReturnType<LoanFlowClient['offers']['getPrequalified']>
+  ): Promise<string> {
+    const events: WebhookEventType[] = stage === 'prequal'
+      ? ['prequal_offer.received', 'offer.received']
+      : ['final_offer.received'];
+
+    const candidates = await this.waitFor<LoanFlowOfferCandidate[]>(step, events, async () => {
+      const response = await fetchOffers();
+      const groups: LenderOffers[] = response.lenders ?? [];
+      if (!groups.some((group: LenderOffers) => group.offers.length > 0)) {
+        return undefined;
+      }
+
+      const decrypted = await Promise.all(
+        groups.map(async (group: LenderOffers) => ({ group, results: await this.decryptOffers(group.offers) }))
+      );
+      const verified = decrypted.flatMap(({ group, results }) =>
+        results
+          .filter((result) => result.details !== null && result.verified)
+          .map((result): LoanFlowOfferCandidate => ({
+            offerId: result.offer.offerId,
+            lenderId: group.lenderId,
+            lenderName: group.lenderName,
+            details: result.details!,
+            offer: result.offer,
+          }))
+      );
+      if (verified.length === 0) {
+        throw new PassageError(`No ${stage} offers could be decrypted and verified`, {
+          errorCode: 'NO_VERIFIED_OFFERS',
+        });
+      }
+      return verified;
+    });
+
+    const selected = this.config.selectOffer
+      ? await this.config.selectOffer(candidates, stage)
+      : lowestRate(candidates).offerId;
+
+    if (!candidates.some((candidate) => candidate.offerId === selected)) {
+      throw new Error(`LoanFlow: selected offer ${selected} is not one of the ${stage} offers`);
+    }
+    return selected;
+  }
+
+  private async decryptOffers(offers: Offer[]): Promise<Array<BatchDecryptResult<Offer>>> {
+    const key = this.config.privateKey;
+    // One call per overload: a key provider makes decryption async
+    return isKeyProvider(key) ? decryptOffers<Offer>(offers, key) : decryptOffers<Offer>(offers, key);
+  }
+
+  /**
+   * Poll until `check` returns a value, waking early on matching webhooks
+   */
+  private async waitFor<T>(
+    step: LoanFlowStep,
+    events: readonly WebhookEventType[],
+    check: () => Promise<T | undefined>
+  ): Promise<T> {
+    let attempts = 0;
+    try {
+      const result = await poll(check, (value) => value !== undefined, {
+        timeout: this.config.timeout ?? DEFAULT_TIMEOUT,
+        interval: this.config.pollInterval ?? DEFAULT_POLL_INTERVAL,
+        backoff: 1,
+        onPoll: (_, attempt) => {
+          attempts = attempt;
+        },
+        onWait: (wake) => {
+          this.emit({ type: 'waiting', step, attempt: attempts });
+          this.waiter = { events, wake };
+        },
+      });
+      return result!;
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        throw new TimeoutError(`Timed out waiting for ${step}`, error);
+      }
+      throw error;
+    } finally {
+      this.waiter = undefined;
+    }
+  }
+
+  /**
+   * Request options with an idempotency key stable across resumes, so a
+   * step repeated after a crash before its checkpoint was saved doesn't
+   * create a second application or signing session
+   */
+  private idempotent(state: LoanFlowCheckpoint, step: LoanFlowStep): IdempotentRequestOptions {
+    const run = state.runId ? `${state.flowId}:${state.runId}` : state.flowId;
+    return { idempotencyKey: `loan-flow:${run}:${step}` };
+  }
+
+  /**
+   * Record a completed step and save the checkpoint
+   */
+  private async complete(step: LoanFlowStep, update: Partial<LoanFlowCheckpoint>): Promise<void> {
+    this.state = {
+      ...this.state!,
+      ...update,
+      completedSteps: [...this.state!.completedSteps, step],
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.save(this.state);
+    this.emit({ type: 'step_completed', step, checkpoint: this.state });
+  }
+
+  private emit(event: LoanFlowProgressEvent): void {
+    this.config.onProgress?.(event);
+  }
+}
+
+/**
+ * Offer with the lowest APR, falling back to interest rate
+ */
+function lowestRate(candidates: LoanFlowOfferCandidate[]): LoanFlowOfferCandidate {
+  const rate = (c: LoanFlowOfferCandidate) =>
+    parseFloat(c.details.apr ?? c.details.interestRate) || Infinity;
+  return candidates.reduce((best, candidate) => (rate(candidate) < rate(best) ? candidate : best));
+}
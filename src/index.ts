@@ -64,6 +64,36 @@ export { Passage, Passage as default } from './client';
 
 // Configuration
 export type { PassageClientConfig } from './config';
+export type { RetryPolicy, RetryJitter, RetryStatusRule } from './retry';
+export type { PassageMiddleware, PassageRequest, PassageResponse } from './middleware';
+export {
+  axiosTransport,
+  fetchTransport,
+  MockTransport,
+  RecordingTransport,
+  STREAM_BODY_PLACEHOLDER,
+  type PassageTransport,
+  type MockReply,
+  type RecordedExchange,
+} from './transport';
+export type {
+  TelemetryConfig,
+  TracerProviderLike,
+  TracerLike,
+  SpanLike,
+  MeterProviderLike,
+  MeterLike,
+} from './telemetry';
+export { pinoLogger, redact, type PassageLogger, type PinoLike, type LogLevel, type LogFields } from './logger';
+export type { ResponseMeta, RateLimitInfo, WithResponse } from './response';
+export type { ByteSource, ByteStream } from './streams';
+export { RateLimiter, type RateLimiterConfig, type RateLimiterStats, type RequestPriority } from './rate-limiter';
+export {
+  CircuitBreaker,
+  type CircuitBreakerConfig,
+  type CircuitState,
+  type CircuitStateChange,
+} from './circuit-breaker';
 
 // Errors
 export {
@@ -76,14 +106,35 @@ export {
   ConflictError,
   NetworkError,
   TimeoutError,
+  InvalidTransitionError,
+  CircuitOpenError,
 } from './errors';
 
+// Application lifecycle
+export {
+  ApplicationStateMachine,
+  APPLICATION_TRANSITIONS,
+  APPLICATION_EVENT_STATUS,
+  type ApplicationLifecycleStatus,
+} from './state-machine';
+
+// Polling
+export { poll, type PollOptions } from './poll';
+
+// Pagination
+export { paginate, collect, type PaginateOptions, type Page } from './pagination';
+
 // Types
 export type {
   // Pagination
   Pagination,
   PaginationParams,
 
+  // Request options
+  IdempotencyOptions,
+  RequestOptions,
+  IdempotentRequestOptions,
+
   // Applications
   Application,
   ApplicationListParams,
@@ -140,6 +191,7 @@ export type {
   SDXDocumentType,
   SDXTokenParams,
   SDXUploadParams,
+  SDXStreamUploadParams,
   SDXDownloadParams,
   StoreKYCHandleParams,
 } from './resources/sdx';
@@ -0,0 +1,300 @@
+import type { PassageMiddleware } from './middleware';
+
+/**
+ * Log severity, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured log fields
+ *
+ * Common fields: `operation`, `attempt`, `requestId`, `durationMs`.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger interface accepted by `PassageClientConfig.logger`
+ *
+ * Matches winston (and console-style) loggers directly; wrap pino
+ * loggers with `pinoLogger()`.
+ */
+export interface PassageLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Pino-style logger, taking fields before the message
+ */
+export interface PinoLike {
+  debug(fields: LogFields, message?: string): void;
+  info(fields: LogFields, message?: string): void;
+  warn(fields: LogFields, message?: string): void;
+  error(fields: LogFields, message?: string): void;
+}
+
+/**
+ * Adapt a pino logger (or a pino child logger) to `PassageLogger`
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * const passage = new Passage({
+ *   apiKey,
+ *   logger: pinoLogger(pino().child({ component: 'passage' })),
+ *   logLevel: 'info',
+ * });
+ * ```
+ */
+export function pinoLogger(logger: PinoLike): PassageLogger {
+  return {
+    debug: (message, fields) => logger.debug(fields ?? {}, message),
+    info: (message, fields) => logger.info(fields ?? {}, message),
+    warn: (message, fields) => logger.warn(fields ?? {}, message),
+    error: (message, fields) => logger.error(fields ?? {}, message),
+  };
+}
+
+/**
+ * Logger writing `[Passage] message` lines to the console (used for `debug: true`)
+ */
+export const consoleLogger: PassageLogger = {
+  debug: (message, fields) => log(console.log, message, fields),
+  info: (message, fields) => log(console.log, message, fields),
+  warn: (message, fields) => log(console.warn, message, fields),
+  error: (message, fields) => log(console.error, message, fields),
+};
+
+function log(write: (...args: unknown[]) => void, message: string, fields?: LogFields): void {
+  if (fields && Object.keys(fields).length > 0) {
+    write(`[Passage] ${message}`, fields);
+  } else {
+    write(`[Passage] ${message}`);
+  }
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * Field names whose values are always masked, compared case-insensitively
+ * with `_` and `-` removed
+ */
+const SENSITIVE_KEYS = new Set([
+  'ssn',
+  'socialsecuritynumber',
+  'taxid',
+  'email',
+  'emailaddress',
+  'phone',
+  'phonenumber',
+  'dateofbirth',
+  'dob',
+  'firstname',
+  'lastname',
+  'fullname',
+  'legalname',
+  'address',
+  'streetaddress',
+  'walletaddress',
+  'apikey',
+  'authorization',
+  'password',
+  'secret',
+  'privatekey',
+  'token',
+  'sdxtoken',
+  'accesstoken',
+  'signature',
+]);
+
+/** Field names holding ciphertext (e.g. `encryptedPayloads`, `encryptedDocument`) */
+const ENCRYPTED_KEY = /^(encrypted|ciphertext)/i;
+
+/** Patterns masked inside any string value */
+const SENSITIVE_PATTERNS: Array<[RegExp, string]> = [
+  [/\bnb_(test|live)_[A-Za-z0-9_]+/g, 'nb_$1_[REDACTED]'],
+  [/\bBearer\s+[A-Za-z0-9._~+/=-]+/gi, 'Bearer [REDACTED]'],
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, '[REDACTED:email]'],
+  [/\b\d{3}-\d{2}-\d{4}\b/g, '[REDACTED:ssn]'],
+  [/\b0x[0-9a-fA-F]{40}\b/g, '[REDACTED:wallet]'],
+  // Base64 or hex blobs long enough to be ciphertext, keys or tokens
+  [/(?=[A-Za-z0-9+/_-]*\d)(?=[A-Za-z0-9+/_-]*[A-Z])(?=[A-Za-z0-9+/_-]*[a-z])[A-Za-z0-9+/_-]{64,}={0,2}/g, '[REDACTED:encrypted]'],
+  [/\b[0-9a-fA-F]{64,}\b/g, '[REDACTED:encrypted]'],
+];
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 8;
+
+/**
+ * Mask PII, credentials and encrypted blobs in log fields
+ *
+ * Values under sensitive field names (`ssn`, `email`, `address`, `apiKey`,
+ * `encrypted*`, ...) are replaced whole; other strings have emails, SSNs,
+ * EVM wallet addresses, API keys, bearer tokens and long base64/hex blobs
+ * masked in place.
+ *
+ * @param extraKeys - Additional field names to mask
+ *
+ * @example
+ * ```typescript
+ * redact({ email: 'jane@example.com', note: 'wallet 0xabc...' });
+ * // { email: '[REDACTED]', note: 'wallet [REDACTED:wallet]' }
+ * ```
+ */
+export function redact<T>(value: T, extraKeys: readonly string[] = []): T {
+  const keys = extraKeys.length > 0 ? new Set([...SENSITIVE_KEYS, ...extraKeys.map(normalizeKey)]) : SENSITIVE_KEYS;
+  return redactValue(value, keys, 0, new WeakSet()) as T;
+}
+
+function normalizeKey(key: string): string {
+  return key.replace(/[_-]/g, '').toLowerCase();
+}
+
+function redactValue(value: unknown, keys: Set<string>, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    return `[REDACTED:binary ${value.byteLength} bytes]`;
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, keys, depth + 1, seen));
+  }
+
+  const source: Record<string, unknown> = value instanceof Error ? serializeError(value) : (value as Record<string, unknown>);
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(source)) {
+    if (item === undefined) {
+      continue;
+    }
+    if (ENCRYPTED_KEY.test(key)) {
+      result[key] = '[REDACTED:encrypted]';
+    } else if (keys.has(normalizeKey(key))) {
+      result[key] = REDACTED;
+    } else {
+      result[key] = redactValue(item, keys, depth + 1, seen);
+    }
+  }
+  return result;
+}
+
+function redactString(value: string): string {
+  let result = value;
+  for (const [pattern, replacement] of SENSITIVE_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  const { errorCode, statusCode, requestId } = error as Error & {
+    errorCode?: string;
+    statusCode?: number;
+    requestId?: string;
+  };
+  return { name: error.name, message: error.message, errorCode, statusCode, requestId };
+}
+
+/**
+ * Level-filtered, redacting logger used throughout the SDK
+ */
+export class Logger {
+  private readonly sink: PassageLogger;
+  private readonly threshold: number;
+  private readonly redactKeys: readonly string[];
+
+  constructor(sink: PassageLogger, level: LogLevel, redactKeys: readonly string[] = []) {
+    this.sink = sink;
+    this.threshold = LEVELS[level];
+    this.redactKeys = redactKeys;
+  }
+
+  /** Whether messages at `level` are written */
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LEVELS[level] >= this.threshold;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * Middleware logging each HTTP attempt at debug level
+   */
+  readonly middleware: PassageMiddleware = async (request, next) => {
+    const started = Date.now();
+    const fields = {
+      operation: request.operation,
+      attempt: request.attempt,
+      method: request.method,
+      url: request.url,
+    };
+    try {
+      const response = await next(request);
+      this.debug('HTTP request completed', {
+        ...fields,
+        status: response.status,
+        requestId: response.headers['x-request-id'],
+        durationMs: Date.now() - started,
+      });
+      return response;
+    } catch (error) {
+      const { statusCode, errorCode, requestId } = error as {
+        statusCode?: number;
+        errorCode?: string;
+        requestId?: string;
+      };
+      this.debug('HTTP request failed', {
+        ...fields,
+        status: statusCode,
+        errorCode,
+        requestId,
+        durationMs: Date.now() - started,
+      });
+      throw error;
+    }
+  };
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+    try {
+      this.sink[level](redactString(message), fields && redact(fields, this.redactKeys));
+    } catch {
+      // A failing logger must not fail the request
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import axios, {
+  AxiosHeaders,
+  type AxiosInstance,
+  type AxiosRequestHeaders,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { createErrorFromResponse, toPassageError } from './errors';
+import type { RequestPriority } from './rate-limiter';
+import { createAsyncContext } from './runtime';
+import { isByteStream, readAll } from './streams';
+import { axiosTransport, toHeaderRecord, type PassageTransport } from './transport';
+
+/**
+ * An outgoing HTTP request, as seen by middleware
+ */
+export interface PassageRequest {
+  /** HTTP method (uppercase) */
+  method: string;
+  /** Absolute URL, including the query string */
+  url: string;
+  /** Request headers; middleware may add or change them */
+  headers: Record<string, string>;
+  /** Serialized body (JSON string for API calls, binary or a stream for SDX uploads) */
+  body?: unknown;
+  /** SDK operation making the request (e.g. 'applications.create') */
+  operation?: string;
+  /** 1-based attempt number; above 1 when the request is a retry */
+  attempt: number;
+  /** Queue lane for client-side rate limiting */
+  priority: RequestPriority;
+  /** Aborts the call (from `RequestOptions.signal`) */
+  signal?: AbortSignal;
+  /** Timeout for this attempt in milliseconds */
+  timeout?: number;
+  /** How the transport should read the body: as text (default), binary or a stream */
+  responseType?: 'text' | 'arraybuffer' | 'stream';
+}
+
+/**
+ * A received HTTP response, as seen by middleware
+ */
+export interface PassageResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Raw body (JSON string for API calls, binary or a stream for SDX downloads) */
+  body: unknown;
+}
+
+/**
+ * Request/response middleware
+ *
+ * Call `next(request)` to continue the chain; the first middleware
+ * registered is the outermost. Failed requests reject with a
+ * `PassageError` (e.g. `RateLimitError`, `NetworkError`).
+ *
+ * @example
+ * ```typescript
+ * const timing: PassageMiddleware = async (request, next) => {
+ *   const started = Date.now();
+ *   try {
+ *     return await next(request);
+ *   } finally {
+ *     metrics.timing('passage.request', Date.now() - started, { operation: request.operation });
+ *   }
+ * };
+ * ```
+ */
+export type PassageMiddleware = (
+  request: PassageRequest,
+  next: (request: PassageRequest) => Promise<PassageResponse>
+) => Promise<PassageResponse>;
+
+/**
+ * Operation and attempt of the SDK call in progress
+ */
+interface RequestContext {
+  operation: string;
+  attempt: number;
+  priority?: RequestPriority;
+}
+
+const requestContext = createAsyncContext<RequestContext>();
+
+/**
+ * Run `fn` with the operation and attempt visible to middleware
+ */
+export function runInRequestContext<T>(context: RequestContext, fn: () => Promise<T>): Promise<T> {
+  return requestContext.run(context, fn);
+}
+
+/**
+ * Create an axios instance that sends every request through `middleware`,
+ * then `transport`
+ *
+ * The array is read per request, so middleware added later applies to
+ * subsequent requests.
+ */
+export function createHttpClient(
+  middleware: readonly PassageMiddleware[],
+  transport: PassageTransport = axiosTransport()
+): AxiosInstance {
+  const http = axios.create({ transformRequest: [serializeBody] });
+
+  http.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const context = requestContext.getStore();
+    const request: PassageRequest = {
+      method: (config.method ?? 'get').toUpperCase(),
+      url: http.getUri(config),
+      headers: toHeaderRecord(config.headers),
+      body: config.data,
+      operation: context?.operation,
+      attempt: context?.attempt ?? 1,
+      priority: context?.priority ?? 'interactive',
+      signal: config.signal as AbortSignal | undefined,
+      timeout: config.timeout || undefined,
+      responseType:
+        config.responseType === 'arraybuffer' || config.responseType === 'stream' ? config.responseType : 'text',
+    };
+
+    const dispatch = (index: number, current: PassageRequest): Promise<PassageResponse> => {
+      if (index < middleware.length) {
+        return middleware[index](current, (next) => dispatch(index + 1, next));
+      }
+      return transmit(current);
+    };
+
+    const transmit = async (current: PassageRequest): Promise<PassageResponse> => {
+      let response: PassageResponse;
+      try {
+        response = await transport(current);
+      } catch (error) {
+        throw toPassageError(error, current.operation ?? `${current.method} ${current.url}`);
+      }
+      // Status errors are converted here so every transport fails the same way
+      if (response.status < 200 || response.status >= 300) {
+        const body = isByteStream(response.body) ? await readAll(response.body) : response.body;
+        throw createErrorFromResponse(response.status, parseErrorBody(body), response.headers);
+      }
+      return response;
+    };
+
+    const response = await dispatch(0, request);
+    return {
+      data: response.body,
+      status: response.status,
+      statusText: '',
+      headers: AxiosHeaders.from(response.headers),
+      config,
+    };
+  };
+
+  return http;
+}
+
+/**
+ * Serialize a request body for the transport
+ *
+ * Replaces axios' default, which JSON-serializes async iterables and would
+ * lose a streamed document. Strings, bytes and streams pass through as is.
+ */
+function serializeBody(data: unknown, headers: AxiosRequestHeaders): unknown {
+  if (
+    data === undefined ||
+    data === null ||
+    typeof data === 'string' ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data) ||
+    isByteStream(data)
+  ) {
+    return data;
+  }
+  if (data instanceof URLSearchParams) {
+    headers.setContentType('application/x-www-form-urlencoded;charset=utf-8', false);
+    return data.toString();
+  }
+  headers.setContentType('application/json', false);
+  return JSON.stringify(data);
+}
+
+/**
+ * Read an error response body (JSON text, binary or already parsed)
+ */
+function parseErrorBody(body: unknown): Parameters<typeof createErrorFromResponse>[1] {
+  if (body instanceof ArrayBuffer) {
+    return parseErrorBody(new TextDecoder().decode(new Uint8Array(body)));
+  }
+  if (ArrayBuffer.isView(body)) {
+    return parseErrorBody(new TextDecoder().decode(new Uint8Array(body.buffer, body.byteOffset, body.byteLength)));
+  }
+  if (typeof body === 'string') {
+    try {
+      return parseErrorBody(JSON.parse(body));
+    } catch {
+      return body.trim() ? { message: body.trim() } : {};
+    }
+  }
+  return body && typeof body === 'object' ? body : {};
+}
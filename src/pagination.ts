@@ -0,0 +1,118 @@
+import { throwIfAborted } from './poll';
+
+/**
+ * Options for auto-pagination (`iterate()` and `listAll()` methods)
+ */
+export interface PaginateOptions {
+  /** Stop after this many items (default: no limit) */
+  maxItems?: number;
+  /** Max page requests in flight; values above 1 prefetch ahead of the consumer (default: 1) */
+  concurrency?: number;
+  /** Stop iterating; the iterator rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * A page of results from a list endpoint
+ */
+export interface Page<T> {
+  items: T[];
+  /** Whether later pages may contain more items */
+  hasMore: boolean;
+}
+
+/**
+ * Iterate every item of a paginated list endpoint
+ *
+ * Pages are requested by index (0, 1, 2, ...) so endpoints can translate
+ * them to offsets or page numbers. Iteration ends at the first page that
+ * is empty or reports `hasMore: false`; pages prefetched beyond it are
+ * discarded.
+ *
+ * @param fetchPage - Fetches the page at an index
+ * @param options - Item cap, prefetch concurrency and cancellation
+ *
+ * @example
+ * ```typescript
+ * const pageSize = 100;
+ * for await (const loan of paginate(async (index) => {
+ *   const { loans, pagination } = await passage.loans.list({ limit: pageSize, offset: index * pageSize });
+ *   return { items: loans, hasMore: pagination.hasMore };
+ * })) {
+ *   reconcile(loan);
+ * }
+ * ```
+ */
+export async function* paginate<T>(
+  fetchPage: (index: number) => Promise<Page<T>>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const { maxItems = Infinity, concurrency = 1, signal } = options;
+  if (!(concurrency >= 1)) {
+    throw new Error('concurrency must be at least 1');
+  }
+
+  const inFlight: Array<Promise<Page<T>>> = [];
+  let nextIndex = 0;
+  let yielded = 0;
+
+  const fill = () => {
+    while (inFlight.length < concurrency) {
+      const page = fetchPage(nextIndex++);
+      // Prefetched pages may be discarded; don't report their failures as unhandled
+      page.catch(() => undefined);
+      inFlight.push(page);
+    }
+  };
+
+  try {
+    while (yielded < maxItems) {
+      throwIfAborted(signal);
+      fill();
+
+      const page = await inFlight.shift()!;
+
+      for (const item of page.items) {
+        if (yielded >= maxItems) {
+          return;
+        }
+        throwIfAborted(signal);
+        yield item;
+        yielded++;
+      }
+
+      if (!page.hasMore || page.items.length === 0) {
+        return;
+      }
+    }
+  } finally {
+    inFlight.length = 0;
+  }
+}
+
+/**
+ * Collect every item of an async iterable into an array
+ */
+export async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Whether more pages follow, from a list endpoint's pagination metadata
+ *
+ * Prefers `hasMore`; falls back to comparing against `total`.
+ */
+export function hasMorePages(
+  pagination: { hasMore?: boolean; total?: number } | undefined,
+  offset: number,
+  count: number
+): boolean {
+  if (pagination?.hasMore !== undefined) {
+    return pagination.hasMore;
+  }
+  return pagination?.total !== undefined && offset + count < pagination.total;
+}
@@ -0,0 +1,133 @@
+import { TimeoutError } from './errors';
+
+/**
+ * Options for polling helpers (`waitFor*` methods)
+ */
+export interface PollOptions<T> {
+  /** Max time to wait in ms (default: 600000 = 10 minutes) */
+  timeout?: number;
+  /** Delay before the second poll in ms (default: 2000) */
+  interval?: number;
+  /** Upper bound for the delay between polls in ms (default: 30000) */
+  maxInterval?: number;
+  /** Factor the delay grows by after each poll; 1 for a fixed interval (default: 1.5) */
+  backoff?: number;
+  /** Random spread applied to each delay, as a fraction (default: 0.2 = ±20%) */
+  jitter?: number;
+  /** Abort waiting; the promise rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Called with each polled value (e.g. to show progress) */
+  onPoll?: (value: T, attempt: number) => void;
+  /**
+   * Called before each wait with a function that ends the wait early,
+   * e.g. when a webhook reports progress
+   */
+  onWait?: (wake: () => void) => void;
+}
+
+/**
+ * Poll until a condition is met
+ *
+ * Calls `fetch`, then waits with jittered exponential backoff until
+ * `isDone` returns true for a fetched value.
+ *
+ * @param fetch - Fetches the current value
+ * @param isDone - Whether polling can stop
+ * @param options - Timing, cancellation and callbacks
+ * @returns The first value for which `isDone` returned true
+ * @throws TimeoutError if the condition isn't met within `timeout`
+ * @throws The signal's reason if `signal` is aborted
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const loan = await poll(
+ *   () => passage.loans.getByApplication(applicationId),
+ *   (loan) => loan !== null,
+ *   { timeout: 60000, signal: controller.signal }
+ * );
+ * ```
+ */
+export async function poll<T>(
+  fetch: () => Promise<T>,
+  isDone: (value: T) => boolean,
+  options: PollOptions<T> = {}
+): Promise<T> {
+  const {
+    timeout = 600000,
+    interval = 2000,
+    maxInterval = 30000,
+    backoff = 1.5,
+    jitter = 0.2,
+    signal,
+    onPoll,
+    onWait,
+  } = options;
+  const deadline = Date.now() + timeout;
+  let delay = interval;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+
+    const value = await fetch();
+    onPoll?.(value, attempt);
+    if (isDone(value)) {
+      return value;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new TimeoutError(`Condition not met within ${timeout}ms`);
+    }
+
+    const spread = delay * jitter * (Math.random() * 2 - 1);
+    await sleep(Math.min(delay + spread, remaining), signal, onWait);
+    delay = Math.min(delay * backoff, maxInterval);
+  }
+}
+
+/**
+ * Wait for `ms`, ending early when woken or aborted
+ */
+function sleep(
+  ms: number,
+  signal?: AbortSignal,
+  onWait?: (wake: () => void) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    };
+    const wake = () => {
+      done();
+      resolve();
+    };
+    const abort = () => {
+      done();
+      reject(abortReason(signal!));
+    };
+
+    const timer = setTimeout(wake, Math.max(ms, 0));
+    signal?.addEventListener('abort', abort, { once: true });
+    onWait?.(wake);
+  });
+}
+
+/**
+ * Throw the signal's reason if it has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) {
+    return signal.reason;
+  }
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
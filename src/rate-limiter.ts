@@ -0,0 +1,277 @@
+import { RateLimitError } from './errors';
+import type { PassageMiddleware } from './middleware';
+import { throwIfAborted } from './poll';
+import { parseRateLimit } from './response';
+
+/**
+ * Queue lane for a request; interactive requests are always sent before
+ * queued batch requests
+ */
+export type RequestPriority = 'interactive' | 'batch';
+
+/**
+ * Client-side rate limit and concurrency settings
+ *
+ * @example
+ * ```typescript
+ * const passage = new Passage({
+ *   apiKey,
+ *   rateLimit: { requestsPerSecond: 20, burst: 40, maxConcurrency: 8 },
+ * });
+ * ```
+ */
+export interface RateLimiterConfig {
+  /**
+   * Sustained request rate (token bucket refill rate)
+   * @default Infinity (no rate limit)
+   */
+  requestsPerSecond?: number;
+  /**
+   * Bucket size: requests that may be sent at once after an idle period
+   * @default requestsPerSecond (at least 1)
+   */
+  burst?: number;
+  /**
+   * Max HTTP requests in flight
+   * @default Infinity
+   */
+  maxConcurrency?: number;
+  /**
+   * Slow down when the API rate limits: halve the rate on each 429 (recovering
+   * gradually on success) and pause until `Retry-After` or an exhausted
+   * `RateLimit-Reset` window
+   * @default true
+   */
+  adaptive?: boolean;
+}
+
+/**
+ * Snapshot of the limiter's queue and bucket
+ */
+export interface RateLimiterStats {
+  /** Requests waiting to be sent */
+  queued: number;
+  /** Waiting requests per lane */
+  queuedByPriority: Record<RequestPriority, number>;
+  /** Requests in flight */
+  active: number;
+  /** Tokens currently in the bucket */
+  tokens: number;
+  /** Current refill rate in requests per second (lowered after 429s) */
+  requestsPerSecond: number;
+  /** Unix time in ms until which sending is paused, if paused */
+  pausedUntil?: number;
+}
+
+/** Rate floor after repeated 429s, as a fraction of the configured rate */
+const MIN_RATE_FACTOR = 0.1;
+/** Rate regained per successful request, as a fraction of the configured rate */
+const RECOVERY_FACTOR = 0.05;
+
+/**
+ * Token-bucket rate limiter with a max-concurrency queue and priority lanes
+ *
+ * One limiter is shared by every resource of a client; pass the same
+ * instance to several clients to share a budget between them.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerSecond: 10, maxConcurrency: 4 });
+ * const passage = new Passage({ apiKey, rateLimit: limiter });
+ *
+ * // Batch work yields to interactive requests
+ * await Promise.all(ids.map((id) => passage.applications.get(id, { priority: 'batch' })));
+ *
+ * console.log(limiter.stats().queued);
+ * ```
+ */
+export class RateLimiter {
+  private readonly baseRate: number;
+  private readonly burst: number;
+  private readonly maxConcurrency: number;
+  private readonly adaptive: boolean;
+
+  private rate: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private readonly queues: Record<RequestPriority, Array<() => void>> = { interactive: [], batch: [] };
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(config: RateLimiterConfig = {}) {
+    this.baseRate = config.requestsPerSecond ?? Infinity;
+    this.burst = Number.isFinite(this.baseRate) ? config.burst ?? Math.max(1, this.baseRate) : Infinity;
+    this.maxConcurrency = config.maxConcurrency ?? Infinity;
+    this.adaptive = config.adaptive ?? true;
+    if (!(this.baseRate > 0) || !(this.burst >= 1) || !(this.maxConcurrency >= 1)) {
+      throw new Error('RateLimiter: requestsPerSecond must be positive, burst and maxConcurrency at least 1');
+    }
+    this.rate = this.baseRate;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Run `fn` once a token and a concurrency slot are available
+   *
+   * @throws the signal's reason if `signal` aborts while queued
+   */
+  async schedule<T>(
+    fn: () => Promise<T>,
+    options: { priority?: RequestPriority; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    const { priority = 'interactive', signal } = options;
+    throwIfAborted(signal);
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const queue = this.queues[priority];
+        queue.splice(queue.indexOf(start), 1);
+        try {
+          throwIfAborted(signal);
+        } catch (reason) {
+          reject(reason);
+        }
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queues[priority].push(start);
+      this.drain();
+    });
+
+    try {
+      return await fn();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Current queue depth, concurrency and bucket state
+   */
+  stats(): RateLimiterStats {
+    this.refill();
+    const { interactive, batch } = this.queues;
+    return {
+      queued: interactive.length + batch.length,
+      queuedByPriority: { interactive: interactive.length, batch: batch.length },
+      active: this.active,
+      tokens: Number.isFinite(this.tokens) ? Math.floor(this.tokens) : this.tokens,
+      requestsPerSecond: this.rate,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : undefined,
+    };
+  }
+
+  /**
+   * Middleware sending every HTTP request through the limiter
+   */
+  readonly middleware: PassageMiddleware = (request, next) =>
+    this.schedule(
+      async () => {
+        try {
+          const response = await next(request);
+          this.onSuccess(response.headers);
+          return response;
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            this.onRateLimited(error);
+          }
+          throw error;
+        }
+      },
+      { priority: request.priority, signal: request.signal }
+    );
+
+  /**
+   * Slow down after the API rejected a request with 429
+   */
+  onRateLimited(error: RateLimitError): void {
+    if (!this.adaptive) {
+      return;
+    }
+    if (Number.isFinite(this.baseRate)) {
+      this.rate = Math.max(this.baseRate * MIN_RATE_FACTOR, this.rate / 2);
+      this.tokens = Math.min(this.tokens, 0);
+    }
+    if (error.retryAfterMs !== undefined) {
+      this.pause(Date.now() + error.retryAfterMs);
+    }
+  }
+
+  private onSuccess(headers: Record<string, string>): void {
+    if (!this.adaptive) {
+      return;
+    }
+    this.rate = Math.min(this.baseRate, this.rate + this.baseRate * RECOVERY_FACTOR);
+
+    const lowercase: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      lowercase[name.toLowerCase()] = value;
+    }
+    const rateLimit = parseRateLimit(lowercase);
+    if (rateLimit?.remaining === 0 && rateLimit.reset !== undefined) {
+      this.pause(rateLimit.reset * 1000);
+    }
+  }
+
+  private pause(until: number): void {
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      this.drain();
+    }
+  }
+
+  private refill(): void {
+    if (!Number.isFinite(this.rate)) {
+      this.tokens = Infinity;
+      return;
+    }
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Start as many queued requests as tokens and slots allow, then wake up
+   * when the next one can start
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.active < this.maxConcurrency) {
+      const queue = this.queues.interactive.length > 0 ? this.queues.interactive : this.queues.batch;
+      if (queue.length === 0) {
+        return;
+      }
+
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.wakeIn(this.pausedUntil - now);
+        return;
+      }
+      this.refill();
+      if (this.tokens < 1) {
+        this.wakeIn(((1 - this.tokens) / this.rate) * 1000);
+        return;
+      }
+
+      this.tokens -= 1;
+      this.active++;
+      queue.shift()!();
+    }
+  }
+
+  private wakeIn(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.max(1, Math.ceil(ms)));
+  }
+}
@@ -11,6 +11,7 @@ import type {
 import type { ResolvedConfig } from '../config';
 import type {
   AccountInfo,
+  RequestOptions,
   WebhookConfig,
 } from '../types';
 import { BaseResource, unwrapResponse } from './base';
@@ -36,15 +37,15 @@ export class AccountResource extends BaseResource {
    * console.log(info.environment); // 'sandbox' or 'production'
    * ```
    */
-  async getInfo(): Promise<AccountInfo> {
-    return this.execute(async () => {
+  async getInfo(options?: RequestOptions): Promise<AccountInfo> {
+    return this.execute(async (request) => {
       this.debug('account.getInfo');
 
-      const response = await this.api.getAccountInfo();
+      const response = await this.api.getAccountInfo(request);
       // Response is AxiosResponse<NeobankAccountResponse>
       // NeobankAccountResponse = { success: boolean, data: NeobankAccountResponseData }
       return unwrapResponse(response);
-    }, 'account.getInfo');
+    }, 'account.getInfo', options);
   }
 
   /**
@@ -61,14 +62,14 @@ export class AccountResource extends BaseResource {
    * console.log(`Unique borrowers: ${stats.borrowers.total}`);
    * ```
    */
-  async getStats(): Promise<AccountStatsData> {
-    return this.execute(async () => {
+  async getStats(options?: RequestOptions): Promise<AccountStatsData> {
+    return this.execute(async (request) => {
       this.debug('account.getStats');
 
-      const response = await this.api.getAccountStats();
+      const response = await this.api.getAccountStats(request);
       // Response is AxiosResponse<AccountStatsResponse>
       return unwrapResponse(response);
-    }, 'account.getStats');
+    }, 'account.getStats', options);
   }
 
   /**
@@ -82,14 +83,14 @@ export class AccountResource extends BaseResource {
    * }
    * ```
    */
-  async getWebhook(): Promise<WebhookConfig> {
-    return this.execute(async () => {
+  async getWebhook(options?: RequestOptions): Promise<WebhookConfig> {
+    return this.execute(async (request) => {
       this.debug('account.getWebhook');
 
-      const response = await this.api.getWebhookConfig();
+      const response = await this.api.getWebhookConfig(request);
       // Response is AxiosResponse<WebhookConfigResponse>
       return unwrapResponse(response);
-    }, 'account.getWebhook');
+    }, 'account.getWebhook', options);
   }
 
   /**
@@ -105,16 +106,16 @@ export class AccountResource extends BaseResource {
    * console.log(result.message); // 'Webhook URL updated successfully'
    * ```
    */
-  async updateWebhook(params: { url: string }): Promise<{
+  async updateWebhook(params: { url: string }, options?: RequestOptions): Promise<{
     webhookUrl: string | null | undefined;
     message: string;
   }> {
-    return this.execute(async () => {
-      this.debug('account.updateWebhook', params.url);
+    return this.execute(async (request) => {
+      this.debug('account.updateWebhook', { url: params.url });
 
       const response = await this.api.updateWebhookUrl({
         webhookUrlUpdateRequest: { webhookUrl: params.url },
-      });
+      }, request);
 
       // Response is AxiosResponse<WebhookUrlUpdateResponse>
       const data = unwrapResponse(response);
@@ -122,7 +123,7 @@ export class AccountResource extends BaseResource {
         webhookUrl: data.webhookUrl,
         message: data.message,
       };
-    }, 'account.updateWebhook');
+    }, 'account.updateWebhook', options);
   }
 
   /**
@@ -138,14 +139,14 @@ export class AccountResource extends BaseResource {
    * }
    * ```
    */
-  async testWebhook(): Promise<WebhookTestData> {
-    return this.execute(async () => {
+  async testWebhook(options?: RequestOptions): Promise<WebhookTestData> {
+    return this.execute(async (request) => {
       this.debug('account.testWebhook');
 
-      const response = await this.api.testWebhook();
+      const response = await this.api.testWebhook(request);
       // Response is AxiosResponse<WebhookTestResponse>
       return unwrapResponse(response);
-    }, 'account.testWebhook');
+    }, 'account.testWebhook', options);
   }
 
   /**
@@ -160,13 +161,13 @@ export class AccountResource extends BaseResource {
    * await saveToSecretManager(result.webhookSecret);
    * ```
    */
-  async rotateWebhookSecret(): Promise<WebhookSecretRotateData> {
-    return this.execute(async () => {
+  async rotateWebhookSecret(options?: RequestOptions): Promise<WebhookSecretRotateData> {
+    return this.execute(async (request) => {
       this.debug('account.rotateWebhookSecret');
 
-      const response = await this.api.rotateWebhookSecret();
+      const response = await this.api.rotateWebhookSecret(request);
       // Response is AxiosResponse<WebhookSecretRotateResponse>
       return unwrapResponse(response);
-    }, 'account.rotateWebhookSecret');
+    }, 'account.rotateWebhookSecret', options);
   }
 }
@@ -14,14 +14,21 @@ import type {
   ApplicationListParams,
   ApplicationCreateParams,
   Pagination,
+  RequestOptions,
+  IdempotentRequestOptions,
 } from '../types';
 import { BaseResource, unwrapResponse } from './base';
+import { ApplicationStateMachine } from '../state-machine';
+import { PassageError, NotFoundError } from '../errors';
+import { poll, type PollOptions } from '../poll';
+import { paginate, collect, hasMorePages, type PaginateOptions } from '../pagination';
 
 /**
  * Resource for managing loan applications
  */
 export class ApplicationsResource extends BaseResource {
   private api: ApplicationsApi;
+  private stateMachine = new ApplicationStateMachine();
 
   constructor(api: ApplicationsApi, config: ResolvedConfig) {
     super(config);
@@ -49,12 +56,12 @@ export class ApplicationsResource extends BaseResource {
    * const fullApp = await passage.applications.get(applications[0].id);
    * ```
    */
-  async list(params?: ApplicationListParams): Promise<{
+  async list(params?: ApplicationListParams, options?: RequestOptions): Promise<{
     applications: ApplicationListItem[];
     pagination: Pagination;
   }> {
-    return this.execute(async () => {
-      this.debug('applications.list', params);
+    return this.execute(async (request) => {
+      this.debug('applications.list', { ...params });
 
       const response = await this.api.listApplications({
         limit: params?.limit,
@@ -65,7 +72,7 @@ export class ApplicationsResource extends BaseResource {
         productType: params?.productType,
         externalId: params?.externalId,
         borrowerWalletAddress: params?.borrowerWalletAddress,
-      });
+      }, request);
 
       // Response is AxiosResponse<ListApplications200Response>
       // ListApplications200Response = { success: boolean, data: { applications: ApplicationListItem[] } }
@@ -81,7 +88,63 @@ export class ApplicationsResource extends BaseResource {
           hasMore: false,
         },
       };
-    }, 'applications.list');
+    }, 'applications.list', options);
+  }
+
+  /**
+   * Iterate over every application matching the filters
+   *
+   * Requests pages of `params.limit` (default 20) as needed, starting at
+   * `params.offset`.
+   *
+   * @example
+   * ```typescript
+   * for await (const application of passage.applications.iterate({ status: 'OFFERS_READY' })) {
+   *   console.log(application.id);
+   * }
+   *
+   * // Stop early
+   * const controller = new AbortController();
+   * for await (const application of passage.applications.iterate({}, { signal: controller.signal })) {
+   *   if (done(application)) controller.abort();
+   * }
+   * ```
+   */
+  iterate(
+    params: ApplicationListParams = {},
+    options?: PaginateOptions & RequestOptions
+  ): AsyncIterableIterator<ApplicationListItem> {
+    const limit = params.limit ?? 20;
+    const start = params.offset ?? 0;
+    // The API pages by page number: start at the page containing `offset`
+    // and skip ahead within it
+    const skip = start % limit;
+
+    return paginate(async (index) => {
+      const offset = start - skip + index * limit;
+      const { applications, pagination } = await this.list({ ...params, limit, offset }, options);
+      return {
+        items: index === 0 ? applications.slice(skip) : applications,
+        hasMore: hasMorePages(pagination, offset, applications.length),
+      };
+    }, options);
+  }
+
+  /**
+   * List every application matching the filters
+   *
+   * Collects `iterate()` into an array; pass `maxItems` to cap its size.
+   *
+   * @example
+   * ```typescript
+   * const drafts = await passage.applications.listAll({ status: 'DRAFT' }, { maxItems: 1000 });
+   * ```
+   */
+  async listAll(
+    params?: ApplicationListParams,
+    options?: PaginateOptions & RequestOptions
+  ): Promise<ApplicationListItem[]> {
+    return collect(this.iterate(params, options));
   }
 
   /**
@@ -93,15 +156,15 @@ export class ApplicationsResource extends BaseResource {
    * console.log(application.status); // 'OFFERS_READY'
    * ```
    */
-  async get(applicationId: string): Promise<Application> {
-    return this.execute(async () => {
-      this.debug('applications.get', applicationId);
+  async get(applicationId: string, options?: RequestOptions): Promise<Application> {
+    return this.execute(async (request) => {
+      this.debug('applications.get', { applicationId });
 
-      const response = await this.api.getApplication({ applicationId });
+      const response = await this.api.getApplication({ applicationId }, request);
       // Response is AxiosResponse<ApplicationResponse>
       // ApplicationResponse = { success: boolean, data: ApplicationResponseData }
       return unwrapResponse(response);
-    }, 'applications.get');
+    }, 'applications.get', options);
   }
 
   /**
@@ -126,10 +189,19 @@ export class ApplicationsResource extends BaseResource {
    *   encryptedPayloads,
    *   metadata: { requestedAmount: 10000 },
    * });
+   *
+   * // Retries of this call reuse one Idempotency-Key; pass your own to
+   * // deduplicate across processes too
+   * await passage.applications.create(params, { idempotencyKey: `app-${order.id}` });
    * ```
    */
-  async create(params: ApplicationCreateParams): Promise<ApplicationSubmitResponseData> {
-    return this.execute(async () => {
+  async create(
+    params: ApplicationCreateParams,
+    options?: IdempotentRequestOptions
+  ): Promise<ApplicationSubmitResponseData> {
+    const requestOptions = await this.idempotent(options);
+
+    return this.execute(async (request) => {
       this.debug('applications.create', { productType: params.productType, externalId: params.externalId });
 
       const response = await this.api.submitApplication({
@@ -145,12 +217,12 @@ export class ApplicationsResource extends BaseResource {
           kycAttestation: params.kycAttestation,
           kycDocumentHandle: params.kycDocumentHandle,
         },
-      });
+      }, request);
 
       // Response is AxiosResponse<ApplicationSubmitResponse>
       // ApplicationSubmitResponse = { success: boolean, data: ApplicationSubmitResponseData }
       return unwrapResponse(response);
-    }, 'applications.create');
+    }, 'applications.create', requestOptions);
   }
 
   /**
@@ -169,51 +241,63 @@ export class ApplicationsResource extends BaseResource {
     applicationId: string,
     params?: {
       perLenderKycHandles?: Array<{ lenderId: string; handle: string }>;
-    }
+    },
+    options?: RequestOptions
   ): Promise<ApplicationSubmitResponseData> {
-    return this.execute(async () => {
-      this.debug('applications.submitDraft', applicationId);
+    return this.execute(async (request) => {
+      this.debug('applications.submitDraft', { applicationId });
 
       const response = await this.api.submitDraftApplication({
         applicationId,
         applicationSubmitRequest: {
           perLenderKycHandles: params?.perLenderKycHandles,
         },
-      });
+      }, request);
 
       // Response is AxiosResponse<DraftSubmitResponse>
       return unwrapResponse(response);
-    }, 'applications.submitDraft');
+    }, 'applications.submitDraft', options);
   }
 
   /**
    * Update an application's status
    *
-   * Note: Not all status transitions are valid. The API will return an error
-   * for invalid transitions (e.g., cannot move from FUNDED back to PENDING).
+   * Not all status transitions are valid (e.g., cannot move from FUNDED back
+   * to PENDING). Pass `currentStatus` to check the transition against
+   * `ApplicationStateMachine` before the request is sent; otherwise only
+   * statuses that can never be set are rejected locally and the API decides.
+   *
+   * @throws InvalidTransitionError if the transition is known to be invalid
    *
    * @example
    * ```typescript
+   * const application = await passage.applications.get('app_123');
+   *
    * // Cancel an application
-   * const updated = await passage.applications.updateStatus('app_123', 'CANCELLED');
+   * const updated = await passage.applications.updateStatus('app_123', 'CANCELLED', {
+   *   currentStatus: application.status,
+   * });
    * console.log(updated.status); // 'CANCELLED'
    * ```
    */
   async updateStatus(
     applicationId: string,
-    status: ApplicationStatus
+    status: ApplicationStatus,
+    options?: RequestOptions & { currentStatus?: ApplicationStatus }
   ): Promise<ApplicationStatusUpdateResponseData> {
-    return this.execute(async () => {
+    this.stateMachine.assertTransition(options?.currentStatus, status);
+
+    return this.execute(async (request) => {
       this.debug('applications.updateStatus', { applicationId, status });
 
       const response = await this.api.updateApplicationStatus({
         applicationId,
         applicationStatusUpdateRequest: { status },
-      });
+      }, request);
 
       // Response is AxiosResponse<ApplicationStatusUpdateResponse>
       return unwrapResponse(response);
-    }, 'applications.updateStatus');
+    }, 'applications.updateStatus', options);
   }
 
   /**
@@ -222,6 +306,8 @@ export class ApplicationsResource extends BaseResource {
    * Convenience method that calls updateStatus with 'CANCELLED'.
    * This is typically used when a borrower abandons the application flow.
    *
+   * @throws InvalidTransitionError if `currentStatus` is terminal
+   *
    * @example
    * ```typescript
    * // User clicked "Cancel Application"
@@ -229,8 +315,11 @@ export class ApplicationsResource extends BaseResource {
    * console.log(cancelled.status); // 'CANCELLED'
    * ```
    */
-  async cancel(applicationId: string): Promise<ApplicationStatusUpdateResponseData> {
-    return this.updateStatus(applicationId, 'CANCELLED');
+  async cancel(
+    applicationId: string,
+    options?: RequestOptions & { currentStatus?: ApplicationStatus }
+  ): Promise<ApplicationStatusUpdateResponseData> {
+    return this.updateStatus(applicationId, 'CANCELLED', options);
   }
 
   /**
@@ -250,20 +339,72 @@ export class ApplicationsResource extends BaseResource {
    * }
    * ```
    */
-  async getLoan(applicationId: string): Promise<import('@portola/passage').Loan | null> {
-    return this.execute(async () => {
-      this.debug('applications.getLoan', applicationId);
+  async getLoan(
+    applicationId: string,
+    options?: RequestOptions
+  ): Promise<import('@portola/passage').Loan | null> {
+    return this.execute(async (request) => {
+      this.debug('applications.getLoan', { applicationId });
 
       try {
-        const response = await this.api.getLoanByApplication({ applicationId });
+        const response = await this.api.getLoanByApplication({ applicationId }, request);
         return unwrapResponse(response);
       } catch (error: any) {
         // Return null for 404 (no loan yet) instead of throwing
-        if (error?.response?.status === 404) {
+        if (error instanceof NotFoundError || error?.response?.status === 404) {
           return null;
         }
         throw error;
       }
-    }, 'applications.getLoan');
+    }, 'applications.getLoan', options);
+  }
+
+  /**
+   * Poll until an application reaches one of the given statuses
+   *
+   * Useful where webhooks can't be received (e.g. batch jobs). Fails fast
+   * if the application reaches a terminal status that isn't one of `statuses`.
+   *
+   * @param applicationId - The application to watch
+   * @param statuses - Status or statuses to wait for
+   * @param options - Polling options (timeout, backoff, `signal`, `onPoll`)
+   * @throws TimeoutError if no matching status is reached within `timeout`
+   * @throws PassageError with errorCode STATUS_UNREACHABLE if the application
+   *   ends in another terminal status
+   *
+   * @example
+   * ```typescript
+   * const application = await passage.applications.waitForStatus(
+   *   'app_123',
+   *   ['OFFERS_READY', 'DECLINED'],
+   *   { timeout: 300000, onPoll: (app) => console.log(app.status) }
+   * );
+   * ```
+   */
+  async waitForStatus(
+    applicationId: string,
+    statuses: ApplicationStatus | ApplicationStatus[],
+    options?: PollOptions<Application>
+  ): Promise<Application> {
+    const targets: string[] = Array.isArray(statuses) ? statuses : [statuses];
+    this.debug('applications.waitForStatus', { applicationId, statuses: targets });
+
+    return poll(
+      () => this.get(applicationId, { signal: options?.signal }),
+      (application) => {
+        if (targets.includes(application.status)) {
+          return true;
+        }
+        if (this.stateMachine.isTerminal(application.status)) {
+          throw new PassageError(
+            `Application ${applicationId} is ${application.status}, which is terminal; ` +
+              `expected ${targets.join(' or ')}`,
+            { errorCode: 'STATUS_UNREACHABLE' }
+          );
+        }
+        return false;
+      },
+      options
+    );
   }
 }
@@ -1,12 +1,13 @@
-import type { AxiosResponse } from 'axios';
+import type { AxiosResponse, RawAxiosRequestConfig } from 'axios';
 import type { ResolvedConfig } from '../config';
-import type { Pagination } from '../types';
-import {
-  PassageError,
-  NetworkError,
-  TimeoutError,
-  createErrorFromResponse,
-} from '../errors';
+import type { IdempotentRequestOptions, Pagination, RequestOptions } from '../types';
+import { PassageError, toPassageError } from '../errors';
+import { getRetryDelay } from '../retry';
+import { runInRequestContext } from '../middleware';
+import { throwIfAborted } from '../poll';
+import type { LogFields } from '../logger';
+import { captureOperationResponses, recordResponse } from '../response';
+import { randomUUID } from '../runtime';
 
 /**
  * Standard API response envelope structure
@@ -51,6 +52,7 @@ export function unwrapResponse<TResponse extends { success: boolean; data: unkno
       requestId: errorEnvelope.requestId,
     });
   }
+  recordResponse(response);
 
   return envelope.data as ExtractData<TResponse>;
 }
@@ -73,6 +75,7 @@ export function unwrapPaginatedResponse<TResponse extends { success: boolean; da
       requestId: errorEnvelope.requestId,
     });
   }
+  recordResponse(response);
 
   // Pagination is inside data per OpenAPI spec
   const data = envelope.data as ExtractData<TResponse> & { pagination?: Pagination };
@@ -95,114 +98,166 @@ export abstract class BaseResource {
 
   /**
    * Execute an API call with retry logic and error handling
+   *
+   * Retries follow `config.retry`; rate-limited calls wait at least until
+   * the API's `Retry-After`. Traced as one span when telemetry is enabled,
+   * and responses are reported to `config.onResponse` (only by the
+   * innermost `execute()` when one operation calls others).
+   *
+   * `operation` receives the axios request config (signal, timeout and
+   * headers) built from `options`, to pass to the API call.
    */
   protected async execute<T>(
+    operation: (request: RawAxiosRequestConfig) => Promise<T>,
+    operationName: string,
+    options?: RequestOptions
+  ): Promise<T> {
+    const request = this.requestConfig(options);
+    const run = () => operation(request);
+
+    return captureOperationResponses(
+      (meta) => this.config.onResponse(meta, operationName),
+      () => this.executeTraced(run, operationName, options)
+    );
+  }
+
+  private async executeTraced<T>(
     operation: () => Promise<T>,
-    operationName: string
+    operationName: string,
+    options?: RequestOptions
   ): Promise<T> {
-    let lastError: Error | undefined;
-    const maxRetries = this.config.maxRetries;
+    const telemetry = this.config.telemetry;
+    if (telemetry) {
+      return telemetry.traceOperation(operationName, (onRetry) =>
+        this.executeWithRetries(operation, operationName, options, onRetry)
+      );
+    }
+    return this.executeWithRetries(operation, operationName, options);
+  }
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  private async executeWithRetries<T>(
+    operation: () => Promise<T>,
+    operationName: string,
+    options?: RequestOptions,
+    onRetry?: (error: PassageError, attempt: number, delay: number) => void
+  ): Promise<T> {
+    const policy = this.config.retry;
+    const signal = options?.signal;
+    const logger = this.config.logger;
+    const startTime = Date.now();
+    let delay = 0;
+
+    for (let attempt = 0; ; attempt++) {
+      throwIfAborted(signal);
       try {
-        return await operation();
+        const result = await runInRequestContext(
+          { operation: operationName, attempt: attempt + 1, priority: options?.priority },
+          operation
+        );
+        logger.debug('Operation completed', {
+          operation: operationName,
+          attempts: attempt + 1,
+          durationMs: Date.now() - startTime,
+        });
+        return result;
       } catch (error) {
-        lastError = error as Error;
+        // A cancelled call fails with the signal's reason, never retried
+        throwIfAborted(signal);
 
         // Convert axios errors to PassageErrors
-        const passageError = this.convertError(error, operationName);
+        const passageError = toPassageError(error, operationName);
+        const fields = {
+          operation: operationName,
+          attempt: attempt + 1,
+          errorCode: passageError.errorCode,
+          statusCode: passageError.statusCode,
+          requestId: passageError.requestId,
+          error: passageError.message,
+        };
 
-        // Don't retry client errors (4xx except 429)
-        if (passageError.isClientError && passageError.statusCode !== 429) {
-          throw passageError;
+        let nextDelay = getRetryDelay(
+          policy,
+          passageError,
+          attempt,
+          this.config.maxRetries,
+          delay,
+          options?.maxRetries
+        );
+        // Don't retry past the elapsed time budget
+        if (nextDelay !== undefined && Date.now() - startTime + nextDelay > policy.maxElapsedTime) {
+          nextDelay = undefined;
         }
-
-        // Don't retry on last attempt
-        if (attempt === maxRetries) {
+        if (nextDelay === undefined) {
+          logger.debug('Operation failed', { ...fields, durationMs: Date.now() - startTime });
           throw passageError;
         }
 
-        // Log retry in debug mode
-        if (this.config.debug) {
-          console.log(
-            `[Passage] ${operationName} failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying...`,
-            passageError.message
-          );
-        }
+        delay = nextDelay;
+        onRetry?.(passageError, attempt + 1, delay);
+        logger.info('Retrying operation', { ...fields, delayMs: Math.round(delay) });
 
-        // Exponential backoff: 100ms, 200ms, 400ms, ...
-        const delay = Math.min(100 * Math.pow(2, attempt), 10000);
-        await this.sleep(delay);
+        await this.sleep(delay, signal);
       }
     }
-
-    // Should never reach here, but TypeScript needs this
-    throw lastError || new PassageError('Unknown error');
   }
 
   /**
-   * Convert various error types to PassageError
+   * Axios request config for a call's options
    */
-  private convertError(error: unknown, operationName: string): PassageError {
-    // Already a PassageError
-    if (error instanceof PassageError) {
-      return error;
+  private requestConfig(options?: RequestOptions): RawAxiosRequestConfig {
+    const request: RawAxiosRequestConfig = {};
+    if (options?.signal) {
+      request.signal = options.signal;
     }
-
-    // Axios error with response
-    if (this.isAxiosError(error)) {
-      if (error.response) {
-        const { status, data } = error.response;
-        return createErrorFromResponse(status, data || {});
-      }
-
-      // Network error (no response)
-      if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
-        return new TimeoutError(`${operationName} timed out`, error as Error);
-      }
-
-      return new NetworkError(`${operationName} failed: ${error.message}`, error as Error);
+    if (options?.timeout !== undefined) {
+      request.timeout = options.timeout;
     }
-
-    // Generic error
-    if (error instanceof Error) {
-      return new PassageError(`${operationName} failed: ${error.message}`, {
-        cause: error,
-      });
+    if (options?.headers) {
+      request.headers = { ...options.headers };
     }
-
-    // Unknown error type
-    return new PassageError(`${operationName} failed with unknown error`);
+    return request;
   }
 
   /**
-   * Type guard for axios errors
+   * Request options carrying an `Idempotency-Key` header
+   *
+   * Call once per logical operation, outside `execute()`, so every retry
+   * sends the same key and the API can drop duplicates.
    */
-  private isAxiosError(error: unknown): error is {
-    response?: { status: number; data: unknown };
-    code?: string;
-    message?: string;
-  } {
-    return (
-      typeof error === 'object' &&
-      error !== null &&
-      ('response' in error || 'code' in error || 'isAxiosError' in error)
-    );
+  protected async idempotent(
+    options?: IdempotentRequestOptions
+  ): Promise<RequestOptions & { headers: Record<string, string> }> {
+    return {
+      ...options,
+      headers: { ...options?.headers, 'Idempotency-Key': options?.idempotencyKey ?? (await randomUUID()) },
+    };
   }
 
   /**
-   * Sleep for a specified duration
+   * Sleep for a specified duration, waking early if `signal` aborts
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        try {
+          throwIfAborted(signal);
+        } catch (reason) {
+          reject(reason);
+        }
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
-   * Log debug message if debug mode is enabled
+   * Log a debug message; fields are redacted before reaching the logger
    */
-  protected debug(message: string, ...args: unknown[]): void {
-    if (this.config.debug) {
-      console.log(`[Passage] ${message}`, ...args);
-    }
+  protected debug(message: string, fields?: LogFields): void {
+    this.config.logger.debug(message, fields);
   }
 }
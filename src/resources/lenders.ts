@@ -1,7 +1,7 @@
 import type { EntityDiscoveryApi } from '@portola/passage';
 import type { LenderListResponse } from '@portola/passage';
 import type { ResolvedConfig } from '../config';
-import type { Lender, LenderListParams } from '../types';
+import type { Lender, LenderListParams, RequestOptions } from '../types';
 import { BaseResource, unwrapResponse } from './base';
 
 /**
@@ -35,19 +35,19 @@ export class LendersResource extends BaseResource {
    * }
    * ```
    */
-  async list(params?: LenderListParams): Promise<Lender[]> {
-    return this.execute(async () => {
-      this.debug('lenders.list', params);
+  async list(params?: LenderListParams, options?: RequestOptions): Promise<Lender[]> {
+    return this.execute(async (request) => {
+      this.debug('lenders.list', { ...params });
 
       const response = await this.api.listLenders({
         productType: params?.productType,
         stateCode: params?.stateCode,
-      });
+      }, request);
 
       // Response is AxiosResponse<LenderListResponse>
       // LenderListResponse = { success: boolean, data: { lenders: LenderListItem[], total: number, ... } }
       const data = unwrapResponse(response);
       return data.lenders;
-    }, 'lenders.list');
+    }, 'lenders.list', options);
   }
 }
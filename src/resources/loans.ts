@@ -5,8 +5,11 @@ import type {
   Loan,
 } from '@portola/passage';
 import type { ResolvedConfig } from '../config';
-import type { PaymentScheduleItem, LoanListParams, Pagination, Repayment } from '../types';
+import type { PaymentScheduleItem, LoanListParams, Pagination, Repayment, RequestOptions } from '../types';
 import { BaseResource, unwrapResponse } from './base';
+import { NotFoundError } from '../errors';
+import { poll, type PollOptions } from '../poll';
+import { paginate, collect, hasMorePages, type PaginateOptions } from '../pagination';
 
 /**
  * Resource for managing loans
@@ -41,12 +44,12 @@ export class LoansResource extends BaseResource {
    * const { loans } = await passage.loans.list({ status: 'active' });
    * ```
    */
-  async list(params?: LoanListParams): Promise<{
+  async list(params?: LoanListParams, options?: RequestOptions): Promise<{
     loans: Loan[];
     pagination: Pagination;
   }> {
-    return this.execute(async () => {
-      this.debug('loans.list', params);
+    return this.execute(async (request) => {
+      this.debug('loans.list', { ...params });
 
       const response = await this.api.listLoans({
         status: params?.status as LoanStatus,
@@ -54,7 +57,7 @@ export class LoansResource extends BaseResource {
         borrowerAddress: params?.borrowerAddress,
         limit: params?.limit,
         offset: params?.offset,
-      });
+      }, request);
 
       // Pagination is inside data per OpenAPI spec
       const data = unwrapResponse(response);
@@ -68,7 +71,47 @@ export class LoansResource extends BaseResource {
           hasMore: false,
         },
       };
-    }, 'loans.list');
+    }, 'loans.list', options);
+  }
+
+  /**
+   * Iterate over every loan matching the filters
+   *
+   * Requests pages of `params.limit` (default 50) as needed, starting at
+   * `params.offset`.
+   *
+   * @example
+   * ```typescript
+   * // Nightly reconciliation: keep up to 4 page requests in flight
+   * for await (const loan of passage.loans.iterate({ limit: 200 }, { concurrency: 4 })) {
+   *   await reconcile(loan);
+   * }
+   * ```
+   */
+  iterate(
+    params: LoanListParams = {},
+    options?: PaginateOptions & RequestOptions
+  ): AsyncIterableIterator<Loan> {
+    const limit = params.limit ?? 50;
+    const start = params.offset ?? 0;
+
+    return paginate(async (index) => {
+      const offset = start + index * limit;
+      const { loans, pagination } = await this.list({ ...params, limit, offset }, options);
+      return { items: loans, hasMore: hasMorePages(pagination, offset, loans.length) };
+    }, options);
+  }
+
+  /**
+   * List every loan matching the filters
+   *
+   * @example
+   * ```typescript
+   * const loans = await passage.loans.listAll({ externalId: 'user_123' });
+   * ```
+   */
+  async listAll(params?: LoanListParams, options?: PaginateOptions & RequestOptions): Promise<Loan[]> {
+    return collect(this.iterate(params, options));
   }
 
   /**
@@ -85,9 +128,10 @@ export class LoansResource extends BaseResource {
    */
   async getRepayments(
     loanId: string,
-    params?: { limit?: number; offset?: number; status?: RepaymentStatus }
+    params?: { limit?: number; offset?: number; status?: RepaymentStatus },
+    options?: RequestOptions
   ): Promise<{ repayments: Repayment[]; pagination: Pagination }> {
-    return this.execute(async () => {
+    return this.execute(async (request) => {
       this.debug('loans.getRepayments', { loanId, ...params });
 
       const response = await this.api.listLoanRepayments({
@@ -95,7 +139,7 @@ export class LoansResource extends BaseResource {
         limit: params?.limit,
         offset: params?.offset,
         status: params?.status,
-      });
+      }, request);
 
       // Pagination is inside data per OpenAPI spec
       const data = unwrapResponse(response) as typeof response.data.data & { pagination?: Pagination };
@@ -109,7 +153,48 @@ export class LoansResource extends BaseResource {
           hasMore: false,
         },
       };
-    }, 'loans.getRepayments');
+    }, 'loans.getRepayments', options);
+  }
+
+  /**
+   * Iterate over every repayment for a loan
+   *
+   * @example
+   * ```typescript
+   * for await (const repayment of passage.loans.iterateRepayments('loan_123')) {
+   *   console.log(`Received ${repayment.amount} on ${repayment.receivedAt}`);
+   * }
+   * ```
+   */
+  iterateRepayments(
+    loanId: string,
+    params: { limit?: number; offset?: number; status?: RepaymentStatus } = {},
+    options?: PaginateOptions & RequestOptions
+  ): AsyncIterableIterator<Repayment> {
+    const limit = params.limit ?? 50;
+    const start = params.offset ?? 0;
+
+    return paginate(async (index) => {
+      const offset = start + index * limit;
+      const { repayments, pagination } = await this.getRepayments(loanId, { ...params, limit, offset }, options);
+      return { items: repayments, hasMore: hasMorePages(pagination, offset, repayments.length) };
+    }, options);
+  }
+
+  /**
+   * List every repayment for a loan
+   *
+   * @example
+   * ```typescript
+   * const repayments = await passage.loans.listAllRepayments('loan_123');
+   * ```
+   */
+  async listAllRepayments(
+    loanId: string,
+    params?: { limit?: number; offset?: number; status?: RepaymentStatus },
+    options?: PaginateOptions & RequestOptions
+  ): Promise<Repayment[]> {
+    return collect(this.iterateRepayments(loanId, params, options));
   }
 
   /**
@@ -121,15 +206,15 @@ export class LoansResource extends BaseResource {
    * console.log(`Outstanding: ${loan.outstandingBalance}`);
    * ```
    */
-  async get(loanId: string): Promise<Loan> {
-    return this.execute(async () => {
-      this.debug('loans.get', loanId);
+  async get(loanId: string, options?: RequestOptions): Promise<Loan> {
+    return this.execute(async (request) => {
+      this.debug('loans.get', { loanId });
 
-      const response = await this.api.getLoan({ loanId });
+      const response = await this.api.getLoan({ loanId }, request);
       // Response is AxiosResponse<LoanResponse>
       // LoanResponse = { success: boolean, data: Loan }
       return unwrapResponse(response);
-    }, 'loans.get');
+    }, 'loans.get', options);
   }
 
   /**
@@ -144,17 +229,17 @@ export class LoansResource extends BaseResource {
    * }
    * ```
    */
-  async getPaymentSchedule(loanId: string): Promise<PaymentScheduleItem[]> {
-    return this.execute(async () => {
-      this.debug('loans.getPaymentSchedule', loanId);
+  async getPaymentSchedule(loanId: string, options?: RequestOptions): Promise<PaymentScheduleItem[]> {
+    return this.execute(async (request) => {
+      this.debug('loans.getPaymentSchedule', { loanId });
 
-      const response = await this.api.getPaymentSchedule({ loanId });
+      const response = await this.api.getPaymentSchedule({ loanId }, request);
       // Response is AxiosResponse<PaymentScheduleResponse>
       // PaymentScheduleResponse = { success: boolean, data: PaymentScheduleResponseData }
       const data = unwrapResponse(response);
 
       return data.projectedSchedule;
-    }, 'loans.getPaymentSchedule');
+    }, 'loans.getPaymentSchedule', options);
   }
 
   /**
@@ -174,20 +259,47 @@ export class LoansResource extends BaseResource {
    *
    * @see applications.getLoan() - Equivalent method on the applications resource
    */
-  async getByApplication(applicationId: string): Promise<Loan | null> {
-    return this.execute(async () => {
-      this.debug('loans.getByApplication', applicationId);
+  async getByApplication(applicationId: string, options?: RequestOptions): Promise<Loan | null> {
+    return this.execute(async (request) => {
+      this.debug('loans.getByApplication', { applicationId });
 
       try {
-        const response = await this.applicationsApi.getLoanByApplication({ applicationId });
+        const response = await this.applicationsApi.getLoanByApplication({ applicationId }, request);
         return unwrapResponse(response);
       } catch (error: any) {
         // Return null for 404 (no loan yet) instead of throwing
-        if (error?.response?.status === 404) {
+        if (error instanceof NotFoundError || error?.response?.status === 404) {
           return null;
         }
         throw error;
       }
-    }, 'loans.getByApplication');
+    }, 'loans.getByApplication', options);
+  }
+
+  /**
+   * Poll until an application's loan is created
+   *
+   * @param applicationId - The funded (or soon to be funded) application
+   * @param options - Polling options (timeout, backoff, `signal`, `onPoll`)
+   * @throws TimeoutError if no loan exists after `timeout`
+   *
+   * @example
+   * ```typescript
+   * const loan = await passage.loans.waitForLoan('app_123', { timeout: 3600000 });
+   * console.log(`Loan ${loan.id} funded`);
+   * ```
+   */
+  async waitForLoan(
+    applicationId: string,
+    options?: PollOptions<Loan | null>
+  ): Promise<Loan> {
+    this.debug('loans.waitForLoan', { applicationId });
+
+    const loan = await poll(
+      () => this.getByApplication(applicationId, { signal: options?.signal }),
+      (loan) => loan !== null,
+      options
+    );
+    return loan!;
   }
 }
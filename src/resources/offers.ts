@@ -9,8 +9,12 @@ import type {
   PrequalAcceptParams,
   FinalOfferAcceptParams,
   OfferAcceptanceResponseData,
+  LenderOffers,
+  RequestOptions,
+  IdempotentRequestOptions,
 } from '../types';
 import { BaseResource, unwrapResponse } from './base';
+import { poll, type PollOptions } from '../poll';
 
 /**
  * Resource for managing loan offers
@@ -47,15 +51,15 @@ export class OffersResource extends BaseResource {
    * }
    * ```
    */
-  async getPrequalified(applicationId: string): Promise<OffersResponse> {
-    return this.execute(async () => {
-      this.debug('offers.getPrequalified', applicationId);
+  async getPrequalified(applicationId: string, options?: RequestOptions): Promise<OffersResponse> {
+    return this.execute(async (request) => {
+      this.debug('offers.getPrequalified', { applicationId });
 
-      const response = await this.api.getPrequalOffers({ applicationId });
+      const response = await this.api.getPrequalOffers({ applicationId }, request);
       // Response is AxiosResponse<EncryptedOffersResponse>
       // EncryptedOffersResponse = { success: boolean, data: EncryptedOffersResponseData }
       return unwrapResponse(response);
-    }, 'offers.getPrequalified');
+    }, 'offers.getPrequalified', options);
   }
 
   /**
@@ -84,10 +88,13 @@ export class OffersResource extends BaseResource {
    */
   async acceptPrequal(
     offerId: string,
-    params: PrequalAcceptParams
+    params: PrequalAcceptParams,
+    options?: IdempotentRequestOptions
   ): Promise<OfferAcceptanceResponseData> {
-    return this.execute(async () => {
-      this.debug('offers.acceptPrequal', offerId);
+    const requestOptions = await this.idempotent(options);
+
+    return this.execute(async (request) => {
+      this.debug('offers.acceptPrequal', { offerId });
 
       const response = await this.api.acceptPrequalOffer({
         offerId,
@@ -99,11 +106,11 @@ export class OffersResource extends BaseResource {
           borrowerName: params.borrowerName,
           requestedDisbursement: params.requestedDisbursement,
         },
-      });
+      }, request);
 
       // Response is AxiosResponse<OfferAcceptanceResponse>
       return unwrapResponse(response);
-    }, 'offers.acceptPrequal');
+    }, 'offers.acceptPrequal', requestOptions);
   }
 
   /**
@@ -114,14 +121,14 @@ export class OffersResource extends BaseResource {
    * const finalOffers = await passage.offers.getFinal(applicationId);
    * ```
    */
-  async getFinal(applicationId: string): Promise<OffersResponse> {
-    return this.execute(async () => {
-      this.debug('offers.getFinal', applicationId);
+  async getFinal(applicationId: string, options?: RequestOptions): Promise<OffersResponse> {
+    return this.execute(async (request) => {
+      this.debug('offers.getFinal', { applicationId });
 
-      const response = await this.api.getFinalOffers({ applicationId });
+      const response = await this.api.getFinalOffers({ applicationId }, request);
       // Response is AxiosResponse<EncryptedOffersResponse>
       return unwrapResponse(response);
-    }, 'offers.getFinal');
+    }, 'offers.getFinal', options);
   }
 
   /**
@@ -154,10 +161,13 @@ export class OffersResource extends BaseResource {
    */
   async acceptFinal(
     offerId: string,
-    params: FinalOfferAcceptParams = {}
+    params: FinalOfferAcceptParams = {},
+    options?: IdempotentRequestOptions
   ): Promise<FinalOfferAcceptanceResponseData> {
-    return this.execute(async () => {
-      this.debug('offers.acceptFinal', offerId);
+    const requestOptions = await this.idempotent(options);
+
+    return this.execute(async (request) => {
+      this.debug('offers.acceptFinal', { offerId });
 
       const response = await this.api.acceptFinalOffer({
         offerId,
@@ -169,10 +179,46 @@ export class OffersResource extends BaseResource {
           borrowerWallet: params.borrowerWallet,
           requestedDisbursement: params.requestedDisbursement,
         },
-      });
+      }, request);
 
       // Response is AxiosResponse<FinalOfferAcceptanceResponse>
       return unwrapResponse(response);
-    }, 'offers.acceptFinal');
+    }, 'offers.acceptFinal', requestOptions);
+  }
+
+  /**
+   * Poll until prequalified offers arrive
+   *
+   * Resolves once at least `minLenders` lenders have returned offers.
+   *
+   * @param applicationId - The application to watch
+   * @param options - Polling options
+   * @param options.minLenders - Lenders with offers required before resolving (default: 1)
+   * @throws TimeoutError if too few lenders respond within `timeout`
+   *
+   * @example
+   * ```typescript
+   * const offers = await passage.offers.waitForPrequalified(applicationId, {
+   *   minLenders: 2,
+   *   timeout: 120000,
+   * });
+   * ```
+   */
+  async waitForPrequalified(
+    applicationId: string,
+    options: PollOptions<OffersResponse> & { minLenders?: number } = {}
+  ): Promise<OffersResponse> {
+    const { minLenders = 1, ...pollOptions } = options;
+    this.debug('offers.waitForPrequalified', { applicationId, minLenders });
+
+    return poll(
+      () => this.getPrequalified(applicationId, { signal: pollOptions.signal }),
+      (response) => lendersWithOffers(response) >= minLenders,
+      pollOptions
+    );
   }
 }
+
+function lendersWithOffers(response: OffersResponse): number {
+  return (response.lenders ?? []).filter((group: LenderOffers) => group.offers.length > 0).length;
+}
@@ -1,8 +1,12 @@
 import type { SDXApi } from '@portola/passage';
 import type { SDXTokenResponse } from '@portola/passage';
 import type { ResolvedConfig } from '../config';
+import type { IdempotentRequestOptions, RequestOptions } from '../types';
 import { BaseResource, unwrapResponse } from './base';
-import axios from 'axios';
+import { recordResponse } from '../response';
+import { createHttpClient } from '../middleware';
+import { toReadableStream, type ByteStream } from '../streams';
+import type { AxiosInstance } from 'axios';
 
 /**
  * SDX upload token returned from the API
@@ -58,7 +62,21 @@ export interface SDXUploadParams {
   encryptedDocument: Buffer | ArrayBuffer | Uint8Array;
   /** Document type header */
   documentType?: SDXDocumentType;
-  /** Optional idempotency key */
+  /** Idempotency key (generated if omitted) */
+  idempotencyKey?: string;
+}
+
+/**
+ * Parameters for uploading a stream to SDX
+ */
+export interface SDXStreamUploadParams {
+  /** The SDX token obtained from getToken() */
+  token: SDXUploadToken;
+  /** The encrypted document, e.g. from `encryptStreamForSDX()` */
+  encryptedDocument: ByteStream;
+  /** Document type header */
+  documentType?: SDXDocumentType;
+  /** Idempotency key (generated if omitted) */
   idempotencyKey?: string;
 }
 
@@ -93,10 +111,16 @@ export interface StoreKYCHandleParams {
  */
 export class SDXResource extends BaseResource {
   private sdxApi: SDXApi;
+  private http: AxiosInstance;
 
-  constructor(sdxApi: SDXApi, config: ResolvedConfig) {
+  constructor(
+    sdxApi: SDXApi,
+    config: ResolvedConfig,
+    http: AxiosInstance = createHttpClient(config.middleware, config.transport)
+  ) {
     super(config);
     this.sdxApi = sdxApi;
+    this.http = http;
   }
 
   /**
@@ -116,9 +140,9 @@ export class SDXResource extends BaseResource {
    * console.log('Expires in:', token.expiresIn, 'seconds');
    * ```
    */
-  async getToken(params: SDXTokenParams): Promise<SDXUploadToken> {
-    return this.execute(async () => {
-      this.debug('sdx.getToken', params);
+  async getToken(params: SDXTokenParams, options?: RequestOptions): Promise<SDXUploadToken> {
+    return this.execute(async (request) => {
+      this.debug('sdx.getToken', { ...params });
 
       const response = await this.sdxApi.generateSDXToken({
         sDXTokenRequest: {
@@ -126,7 +150,7 @@ export class SDXResource extends BaseResource {
           action: params.action,
           documentType: params.documentType,
         },
-      });
+      }, request);
 
       // Response is AxiosResponse<SDXTokenResponse>
       const data = unwrapResponse(response);
@@ -136,7 +160,7 @@ export class SDXResource extends BaseResource {
         expiresIn: data.expiresIn,
         sdxUrl: data.sdxUrl,
       };
-    }, 'sdx.getToken');
+    }, 'sdx.getToken', options);
   }
 
   /**
@@ -170,8 +194,13 @@ export class SDXResource extends BaseResource {
    * console.log('Document handle:', result.documentHandle);
    * ```
    */
-  async upload(params: SDXUploadParams): Promise<SDXUploadResult> {
-    return this.execute(async () => {
+  async upload(params: SDXUploadParams, options?: IdempotentRequestOptions): Promise<SDXUploadResult> {
+    const requestOptions = await this.idempotent({
+      ...options,
+      idempotencyKey: options?.idempotencyKey ?? params.idempotencyKey,
+    });
+
+    return this.execute(async (request) => {
       this.debug('sdx.upload', { documentType: params.documentType });
 
       // Convert to Buffer/Uint8Array if needed
@@ -183,9 +212,10 @@ export class SDXResource extends BaseResource {
             : new Uint8Array(params.encryptedDocument);
 
       // Upload directly to SDX service using the token
-      // Note: We use axios directly here because SDX is a separate service
-      // with a dynamic base URL (obtained from the token response)
-      const response = await axios.post<{
+      // Note: SDX is a separate service with a dynamic base URL (obtained
+      // from the token response), so this bypasses the generated API client;
+      // the client's HTTP instance still runs middleware and the transport
+      const response = await this.http.post<{
         documentHandle: string;
         expiresAt: string;
         blobSize?: number;
@@ -194,26 +224,95 @@ export class SDXResource extends BaseResource {
         `${params.token.sdxUrl}/sdx/blobs`,
         documentBuffer,
         {
+          timeout: this.config.timeout,
+          ...request,
           headers: {
             Authorization: `Bearer ${params.token.sdxToken}`,
             'Content-Type': 'application/octet-stream',
             'Content-Length': documentBuffer.length.toString(),
             'X-Document-Type': params.documentType ?? 'other',
-            ...(params.idempotencyKey && {
-              'Idempotency-Key': params.idempotencyKey,
-            }),
+            ...request.headers,
           },
+        }
+      );
+
+      recordResponse(response);
+
+      return {
+        documentHandle: response.data.documentHandle,
+        expiresAt: response.data.expiresAt,
+        blobSize: response.data.blobSize,
+        duplicate: response.data.duplicate,
+      };
+    }, 'sdx.upload', requestOptions);
+  }
+
+  /**
+   * Upload an encrypted document to SDX as it is read
+   *
+   * Streams the request body instead of buffering it, so memory use stays
+   * constant for large documents. Encrypt with `encryptStreamForSDX()` from
+   * the crypto module. A stream can only be sent once, so the upload is
+   * never retried.
+   *
+   * @example
+   * ```typescript
+   * import { encryptStreamForSDX } from '@portola/passage-neobank/crypto';
+   * import fs from 'fs';
+   *
+   * const token = await passage.sdx.getToken({
+   *   applicationId: 'app_123',
+   *   action: 'upload',
+   *   documentType: 'kyc',
+   * });
+   *
+   * const result = await passage.sdx.uploadStream({
+   *   token,
+   *   encryptedDocument: encryptStreamForSDX(fs.createReadStream('./bank_statement.pdf'), lenderPublicKey),
+   *   documentType: 'kyc',
+   * });
+   * ```
+   */
+  async uploadStream(params: SDXStreamUploadParams, options?: IdempotentRequestOptions): Promise<SDXUploadResult> {
+    const requestOptions = await this.idempotent({
+      ...options,
+      idempotencyKey: options?.idempotencyKey ?? params.idempotencyKey,
+      maxRetries: 0,
+    });
+
+    return this.execute(async (request) => {
+      this.debug('sdx.uploadStream', { documentType: params.documentType });
+
+      // No Content-Length: the body is sent with chunked transfer encoding
+      const response = await this.http.post<{
+        documentHandle: string;
+        expiresAt: string;
+        blobSize?: number;
+        duplicate?: boolean;
+      }>(
+        `${params.token.sdxUrl}/sdx/blobs`,
+        params.encryptedDocument,
+        {
           timeout: this.config.timeout,
+          ...request,
+          headers: {
+            Authorization: `Bearer ${params.token.sdxToken}`,
+            'Content-Type': 'application/octet-stream',
+            'X-Document-Type': params.documentType ?? 'other',
+            ...request.headers,
+          },
         }
       );
 
+      recordResponse(response);
+
       return {
         documentHandle: response.data.documentHandle,
         expiresAt: response.data.expiresAt,
         blobSize: response.data.blobSize,
         duplicate: response.data.duplicate,
       };
-    }, 'sdx.upload');
+    }, 'sdx.uploadStream', requestOptions);
   }
 
   /**
@@ -235,13 +334,13 @@ export class SDXResource extends BaseResource {
     documentType?: SDXDocumentType;
     encryptedDocument: Buffer | ArrayBuffer | Uint8Array;
     idempotencyKey?: string;
-  }): Promise<SDXUploadResult> {
+  }, options?: RequestOptions): Promise<SDXUploadResult> {
     // Get upload token
     const token = await this.getToken({
       applicationId: params.applicationId,
       action: 'upload',
       documentType: params.documentType,
-    });
+    }, options);
 
     // Upload document
     return this.upload({
@@ -249,7 +348,39 @@ export class SDXResource extends BaseResource {
       encryptedDocument: params.encryptedDocument,
       documentType: params.documentType,
       idempotencyKey: params.idempotencyKey,
-    });
+    }, options);
+  }
+
+  /**
+   * Convenience method: Get token and upload a stream in one call
+   *
+   * @example
+   * ```typescript
+   * const result = await passage.sdx.uploadDocumentStream({
+   *   applicationId: 'app_123',
+   *   documentType: 'kyc',
+   *   encryptedDocument: encryptStreamForSDX(fs.createReadStream('./bank_statement.pdf'), lenderPublicKey),
+   * });
+   * ```
+   */
+  async uploadDocumentStream(params: {
+    applicationId: string;
+    documentType?: SDXDocumentType;
+    encryptedDocument: ByteStream;
+    idempotencyKey?: string;
+  }, options?: RequestOptions): Promise<SDXUploadResult> {
+    const token = await this.getToken({
+      applicationId: params.applicationId,
+      action: 'upload',
+      documentType: params.documentType,
+    }, options);
+
+    return this.uploadStream({
+      token,
+      encryptedDocument: params.encryptedDocument,
+      documentType: params.documentType,
+      idempotencyKey: params.idempotencyKey,
+    }, options);
   }
 
   /**
@@ -268,23 +399,67 @@ export class SDXResource extends BaseResource {
    * });
    * ```
    */
-  async download(params: SDXDownloadParams): Promise<Buffer> {
-    return this.execute(async () => {
-      this.debug('sdx.download', params.documentHandle);
+  async download(params: SDXDownloadParams, options?: RequestOptions): Promise<Buffer> {
+    return this.execute(async (request) => {
+      this.debug('sdx.download', { documentHandle: params.documentHandle });
 
-      const response = await axios.get<ArrayBuffer>(
+      const response = await this.http.get<ArrayBuffer>(
         `${params.token.sdxUrl}/sdx/blobs/${params.documentHandle}`,
         {
+          timeout: this.config.timeout,
+          ...request,
           headers: {
             Authorization: `Bearer ${params.token.sdxToken}`,
+            ...request.headers,
           },
           responseType: 'arraybuffer',
-          timeout: this.config.timeout,
         }
       );
 
+      recordResponse(response);
+
       return Buffer.from(response.data);
-    }, 'sdx.download');
+    }, 'sdx.download', options);
+  }
+
+  /**
+   * Download an encrypted document from SDX as a web `ReadableStream`
+   *
+   * The call resolves once the response headers arrive; the body is read
+   * as the stream is consumed. On Node.js, `Readable.fromWeb()` turns it
+   * into a `Readable`.
+   *
+   * @example
+   * ```typescript
+   * const encrypted = await passage.sdx.downloadStream({
+   *   token,
+   *   documentHandle: 'sdx_tok_abc123...',
+   * });
+   *
+   * await pipeline(decryptStreamFromSDX(encrypted, privateKey), fs.createWriteStream('./statement.pdf'));
+   * ```
+   */
+  async downloadStream(params: SDXDownloadParams, options?: RequestOptions): Promise<ReadableStream<Uint8Array>> {
+    return this.execute(async (request) => {
+      this.debug('sdx.downloadStream', { documentHandle: params.documentHandle });
+
+      const response = await this.http.get<ByteStream>(
+        `${params.token.sdxUrl}/sdx/blobs/${params.documentHandle}`,
+        {
+          timeout: this.config.timeout,
+          ...request,
+          headers: {
+            Authorization: `Bearer ${params.token.sdxToken}`,
+            ...request.headers,
+          },
+          responseType: 'stream',
+        }
+      );
+
+      recordResponse(response);
+
+      return toReadableStream(response.data);
+    }, 'sdx.downloadStream', options);
   }
 
   /**
@@ -298,22 +473,22 @@ export class SDXResource extends BaseResource {
    * });
    *
    * // Decrypt with your private key
-   * const plaintext = decryptDocument(encryptedDoc, privateKey);
+   * const plaintext = decryptDocumentFromSDX(encryptedDoc, privateKey);
    * ```
    */
   async downloadDocument(params: {
     applicationId: string;
     documentHandle: string;
-  }): Promise<Buffer> {
+  }, options?: RequestOptions): Promise<Buffer> {
     const token = await this.getToken({
       applicationId: params.applicationId,
       action: 'download',
-    });
+    }, options);
 
     return this.download({
       token,
       documentHandle: params.documentHandle,
-    });
+    }, options);
   }
 
   /**
@@ -339,13 +514,13 @@ export class SDXResource extends BaseResource {
    * });
    * ```
    */
-  async storeKYCHandle(params: StoreKYCHandleParams): Promise<{
+  async storeKYCHandle(params: StoreKYCHandleParams, options?: RequestOptions): Promise<{
     applicationId: string;
     kycDocumentHandle: string;
     kycSubmittedAt?: string;
   }> {
-    return this.execute(async () => {
-      this.debug('sdx.storeKYCHandle', params.applicationId);
+    return this.execute(async (request) => {
+      this.debug('sdx.storeKYCHandle', { applicationId: params.applicationId });
 
       const response = await this.sdxApi.storeKYCHandle({
         kYCHandleRequest: {
@@ -354,7 +529,7 @@ export class SDXResource extends BaseResource {
           documentType: params.documentType,
           metadata: params.metadata,
         },
-      });
+      }, request);
 
       // Response is AxiosResponse<KYCHandleResponse>
       const data = unwrapResponse(response);
@@ -365,6 +540,6 @@ export class SDXResource extends BaseResource {
         // Normalize null to undefined to match return type contract (?: string)
         kycSubmittedAt: data.kycSubmittedAt ?? undefined,
       };
-    }, 'sdx.storeKYCHandle');
+    }, 'sdx.storeKYCHandle', options);
   }
 }
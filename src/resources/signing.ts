@@ -5,7 +5,9 @@ import type {
   SigningSessionsListResponse,
 } from '@portola/passage';
 import type { ResolvedConfig } from '../config';
+import type { IdempotentRequestOptions, RequestOptions } from '../types';
 import { BaseResource, unwrapResponse } from './base';
+import { poll, type PollOptions } from '../poll';
 
 /**
  * Signing session data returned from the API
@@ -31,6 +33,8 @@ export interface SigningSession {
 export type SigningSessionStatus =
   import('@portola/passage').SigningSessionStatus;
 
+const TERMINAL_SIGNING_STATUSES: SigningSessionStatus[] = ['COMPLETED', 'FAILED', 'EXPIRED', 'CANCELLED'];
+
 /**
  * Parameters for creating a signing session
  */
@@ -69,10 +73,13 @@ export class SigningResource extends BaseResource {
    */
   async create(
     applicationId: string,
-    params: SigningSessionCreateParams
+    params: SigningSessionCreateParams,
+    options?: IdempotentRequestOptions
   ): Promise<SigningSession> {
-    return this.execute(async () => {
-      this.debug('signing.create', applicationId);
+    const requestOptions = await this.idempotent(options);
+
+    return this.execute(async (request) => {
+      this.debug('signing.create', { applicationId });
 
       const response = await this.api.createSigningSession({
         applicationId,
@@ -80,7 +87,7 @@ export class SigningResource extends BaseResource {
           borrowerEmail: params.borrowerEmail,
           borrowerName: params.borrowerName,
         },
-      });
+      }, request);
 
       // Response is AxiosResponse<SigningSessionCreateResponse>
       const data = unwrapResponse(response);
@@ -92,7 +99,7 @@ export class SigningResource extends BaseResource {
         signingUrl: data.signingUrl,
         expiresAt: data.expiresAt,
       };
-    }, 'signing.create');
+    }, 'signing.create', requestOptions);
   }
 
   /**
@@ -109,11 +116,11 @@ export class SigningResource extends BaseResource {
    * }
    * ```
    */
-  async getStatus(sessionId: string): Promise<SigningSession> {
-    return this.execute(async () => {
-      this.debug('signing.getStatus', sessionId);
+  async getStatus(sessionId: string, options?: RequestOptions): Promise<SigningSession> {
+    return this.execute(async (request) => {
+      this.debug('signing.getStatus', { sessionId });
 
-      const response = await this.api.getSigningSessionStatus({ sessionId });
+      const response = await this.api.getSigningSessionStatus({ sessionId }, request);
       // Response is AxiosResponse<SigningSessionStatusResponse>
       const data = unwrapResponse(response);
 
@@ -126,7 +133,7 @@ export class SigningResource extends BaseResource {
         completedAt: data.completedAt,
         documentHandle: data.signedDocHandle,
       };
-    }, 'signing.getStatus');
+    }, 'signing.getStatus', options);
   }
 
   /**
@@ -141,11 +148,11 @@ export class SigningResource extends BaseResource {
    * }
    * ```
    */
-  async list(applicationId: string): Promise<SigningSession[]> {
-    return this.execute(async () => {
-      this.debug('signing.list', applicationId);
+  async list(applicationId: string, options?: RequestOptions): Promise<SigningSession[]> {
+    return this.execute(async (request) => {
+      this.debug('signing.list', { applicationId });
 
-      const response = await this.api.getSigningSessionsByApplication({ applicationId });
+      const response = await this.api.getSigningSessionsByApplication({ applicationId }, request);
       // Response is AxiosResponse<SigningSessionsListResponse>
       const data = unwrapResponse(response);
 
@@ -161,6 +168,38 @@ export class SigningResource extends BaseResource {
         completedAt: session.completedAt,
         documentHandle: session.signedDocHandle,
       }));
-    }, 'signing.list');
+    }, 'signing.list', options);
+  }
+
+  /**
+   * Poll until a signing session finishes
+   *
+   * Resolves once the session reaches a terminal status (COMPLETED, FAILED,
+   * EXPIRED or CANCELLED); check `status` to see whether the borrower signed.
+   *
+   * @param sessionId - The signing session to watch
+   * @param options - Polling options (timeout, backoff, `signal`, `onPoll`)
+   * @throws TimeoutError if the session is still open after `timeout`
+   *
+   * @example
+   * ```typescript
+   * const session = await passage.signing.waitForCompletion('session_abc123');
+   *
+   * if (session.status === 'COMPLETED') {
+   *   console.log('Documents signed at:', session.completedAt);
+   * }
+   * ```
+   */
+  async waitForCompletion(
+    sessionId: string,
+    options?: PollOptions<SigningSession>
+  ): Promise<SigningSession> {
+    this.debug('signing.waitForCompletion', { sessionId });
+
+    return poll(
+      () => this.getStatus(sessionId, { signal: options?.signal }),
+      (session) => TERMINAL_SIGNING_STATUSES.includes(session.status),
+      options
+    );
   }
 }
@@ -8,12 +8,17 @@ import type {
   WalletChain,
 } from '@portola/passage';
 import type { ResolvedConfig } from '../config';
+import type { IdempotentRequestOptions, RequestOptions } from '../types';
 import { BaseResource, unwrapResponse } from './base';
+import { paginate, collect, hasMorePages, type PaginateOptions } from '../pagination';
+import { poll, type PollOptions } from '../poll';
 
 // Re-export types for convenience
 export type { WalletVerificationMethod, WalletVerificationStatus, Chain, WalletChain };
 // Note: WalletType is also exported but users can import from @portola/passage directly
 
+const TERMINAL_VERIFICATION_STATUSES: WalletVerificationStatus[] = ['VERIFIED', 'FAILED', 'EXPIRED'];
+
 /**
  * Wallet data returned from the API
  */
@@ -207,9 +212,11 @@ export class WalletsResource extends BaseResource {
    * });
    * ```
    */
-  async create(params: CreateWalletParams): Promise<Wallet> {
-    return this.execute(async () => {
-      this.debug('wallets.create', params.address);
+  async create(params: CreateWalletParams, options?: IdempotentRequestOptions): Promise<Wallet> {
+    const requestOptions = await this.idempotent(options);
+
+    return this.execute(async (request) => {
+      this.debug('wallets.create', { address: params.address });
 
       const response = await this.api.createWallet({
         createWalletRequest: {
@@ -220,11 +227,11 @@ export class WalletsResource extends BaseResource {
           label: params.label,
           metadata: params.metadata,
         },
-      });
+      }, request);
 
       const data = unwrapResponse(response);
       return this.mapWallet(data);
-    }, 'wallets.create');
+    }, 'wallets.create', requestOptions);
   }
 
   /**
@@ -236,14 +243,14 @@ export class WalletsResource extends BaseResource {
    * console.log(wallet.verified, wallet.verifiedByThisNeobank);
    * ```
    */
-  async get(walletId: string): Promise<Wallet> {
-    return this.execute(async () => {
-      this.debug('wallets.get', walletId);
+  async get(walletId: string, options?: RequestOptions): Promise<Wallet> {
+    return this.execute(async (request) => {
+      this.debug('wallets.get', { walletId });
 
-      const response = await this.api.getWallet({ walletId });
+      const response = await this.api.getWallet({ walletId }, request);
       const data = unwrapResponse(response);
       return this.mapWallet(data);
-    }, 'wallets.get');
+    }, 'wallets.get', options);
   }
 
   /**
@@ -258,12 +265,12 @@ export class WalletsResource extends BaseResource {
    * const { wallets } = await passage.wallets.list({ externalId: 'user_123' });
    * ```
    */
-  async list(params: ListWalletsParams = {}): Promise<{
+  async list(params: ListWalletsParams = {}, options?: RequestOptions): Promise<{
     wallets: Wallet[];
     pagination: { total: number; limit: number; offset: number };
   }> {
-    return this.execute(async () => {
-      this.debug('wallets.list', params);
+    return this.execute(async (request) => {
+      this.debug('wallets.list', { ...params });
 
       // API expects 'true' | 'false' string instead of boolean for verified filter
       const verifiedParam = params.verified === undefined
@@ -279,14 +286,53 @@ export class WalletsResource extends BaseResource {
         address: params.address,
         limit: params.limit,
         offset: params.offset,
-      });
+      }, request);
 
       const data = unwrapResponse(response);
       return {
         wallets: data.wallets.map((w: WalletResponseData) => this.mapWallet(w)),
         pagination: data.pagination,
       };
-    }, 'wallets.list');
+    }, 'wallets.list', options);
+  }
+
+  /**
+   * Iterate over every wallet matching the filters
+   *
+   * Requests pages of `params.limit` (default 50) as needed, starting at
+   * `params.offset`.
+   *
+   * @example
+   * ```typescript
+   * for await (const wallet of passage.wallets.iterate({ verified: false })) {
+   *   console.log(wallet.address);
+   * }
+   * ```
+   */
+  iterate(
+    params: ListWalletsParams = {},
+    options?: PaginateOptions & RequestOptions
+  ): AsyncIterableIterator<Wallet> {
+    const limit = params.limit ?? 50;
+    const start = params.offset ?? 0;
+
+    return paginate(async (index) => {
+      const offset = start + index * limit;
+      const { wallets, pagination } = await this.list({ ...params, limit, offset }, options);
+      return { items: wallets, hasMore: hasMorePages(pagination, offset, wallets.length) };
+    }, options);
+  }
+
+  /**
+   * List every wallet matching the filters
+   *
+   * @example
+   * ```typescript
+   * const wallets = await passage.wallets.listAll({ externalId: 'user_123' });
+   * ```
+   */
+  async listAll(params?: ListWalletsParams, options?: PaginateOptions & RequestOptions): Promise<Wallet[]> {
+    return collect(this.iterate(params, options));
   }
 
   /**
@@ -302,9 +348,9 @@ export class WalletsResource extends BaseResource {
    * });
    * ```
    */
-  async update(walletId: string, params: UpdateWalletParams): Promise<Wallet> {
-    return this.execute(async () => {
-      this.debug('wallets.update', walletId);
+  async update(walletId: string, params: UpdateWalletParams, options?: RequestOptions): Promise<Wallet> {
+    return this.execute(async (request) => {
+      this.debug('wallets.update', { walletId });
 
       const response = await this.api.updateWallet({
         walletId,
@@ -313,11 +359,11 @@ export class WalletsResource extends BaseResource {
           label: params.label,
           metadata: params.metadata,
         },
-      });
+      }, request);
 
       const data = unwrapResponse(response);
       return this.mapWallet(data);
-    }, 'wallets.update');
+    }, 'wallets.update', options);
   }
 
   /**
@@ -338,15 +384,16 @@ export class WalletsResource extends BaseResource {
    */
   async initiateVerification(
     walletId: string,
-    params: { method: WalletVerificationMethod }
+    params: { method: WalletVerificationMethod },
+    options?: RequestOptions
   ): Promise<VerificationChallenge> {
-    return this.execute(async () => {
-      this.debug('wallets.initiateVerification', walletId, params.method);
+    return this.execute(async (request) => {
+      this.debug('wallets.initiateVerification', { walletId, method: params.method });
 
       const response = await this.api.initiateVerification({
         walletId,
         initiateVerificationRequest: { method: params.method },
-      });
+      }, request);
 
       const data = unwrapResponse(response);
       return {
@@ -357,7 +404,7 @@ export class WalletsResource extends BaseResource {
         challenge: data.challenge,
         expiresAt: data.expiresAt,
       };
-    }, 'wallets.initiateVerification');
+    }, 'wallets.initiateVerification', options);
   }
 
   /**
@@ -379,15 +426,16 @@ export class WalletsResource extends BaseResource {
    */
   async submitProof(
     verificationId: string,
-    params: { signature: string }
+    params: { signature: string },
+    options?: RequestOptions
   ): Promise<VerificationResult> {
-    return this.execute(async () => {
-      this.debug('wallets.submitProof', verificationId);
+    return this.execute(async (request) => {
+      this.debug('wallets.submitProof', { verificationId });
 
       const response = await this.api.submitVerificationProof({
         verificationId,
         submitProofRequest: { signature: params.signature },
-      });
+      }, request);
 
       const data = unwrapResponse(response);
       return {
@@ -400,7 +448,7 @@ export class WalletsResource extends BaseResource {
           verificationMethod: data.wallet.verificationMethod,
         },
       };
-    }, 'wallets.submitProof');
+    }, 'wallets.submitProof', options);
   }
 
   /**
@@ -412,11 +460,11 @@ export class WalletsResource extends BaseResource {
    * console.log(verification.status);
    * ```
    */
-  async getVerification(verificationId: string): Promise<Verification> {
-    return this.execute(async () => {
-      this.debug('wallets.getVerification', verificationId);
+  async getVerification(verificationId: string, options?: RequestOptions): Promise<Verification> {
+    return this.execute(async (request) => {
+      this.debug('wallets.getVerification', { verificationId });
 
-      const response = await this.api.getVerificationStatus({ verificationId });
+      const response = await this.api.getVerificationStatus({ verificationId }, request);
       const data = unwrapResponse(response);
 
       return {
@@ -429,7 +477,7 @@ export class WalletsResource extends BaseResource {
         failedAt: data.failedAt,
         failureReason: data.failureReason,
       };
-    }, 'wallets.getVerification');
+    }, 'wallets.getVerification', options);
   }
 
   /**
@@ -442,13 +490,13 @@ export class WalletsResource extends BaseResource {
    * const { verifications } = await passage.wallets.listVerifications('wal_123');
    * ```
    */
-  async listVerifications(walletId: string): Promise<{
+  async listVerifications(walletId: string, options?: RequestOptions): Promise<{
     verifications: VerificationSummary[];
   }> {
-    return this.execute(async () => {
-      this.debug('wallets.listVerifications', walletId);
+    return this.execute(async (request) => {
+      this.debug('wallets.listVerifications', { walletId });
 
-      const response = await this.api.listWalletVerifications({ walletId });
+      const response = await this.api.listWalletVerifications({ walletId }, request);
       const data = unwrapResponse(response);
 
       return {
@@ -461,7 +509,7 @@ export class WalletsResource extends BaseResource {
           expiresAt: v.expiresAt,
         })),
       };
-    }, 'wallets.listVerifications');
+    }, 'wallets.listVerifications', options);
   }
 
   // =========================================================================
@@ -500,15 +548,15 @@ export class WalletsResource extends BaseResource {
    * }
    * ```
    */
-  async ensureVerified(params: CreateWalletParams): Promise<
+  async ensureVerified(params: CreateWalletParams, options?: RequestOptions): Promise<
     | { verified: true; wallet: Wallet; challenge: null }
     | { verified: false; wallet: Wallet; challenge: VerificationChallenge }
   > {
     return this.execute(async () => {
-      this.debug('wallets.ensureVerified', params.address);
+      this.debug('wallets.ensureVerified', { address: params.address });
 
       // 1. Create or get existing wallet
-      const wallet = await this.create(params);
+      const wallet = await this.create(params, options);
 
       // 2. If already verified by this neobank, return immediately
       if (wallet.verifiedByThisNeobank) {
@@ -518,10 +566,10 @@ export class WalletsResource extends BaseResource {
       // 3. Not verified - initiate verification and return challenge
       const challenge = await this.initiateVerification(wallet.id, {
         method: 'MESSAGE_SIGN',
-      });
+      }, options);
 
       return { verified: false, wallet, challenge };
-    }, 'wallets.ensureVerified');
+    }, 'wallets.ensureVerified', options);
   }
 
   /**
@@ -564,15 +612,16 @@ export class WalletsResource extends BaseResource {
    * ```
    */
   async verifyWithSignature(
-    params: CreateWalletParams & { signature: string }
+    params: CreateWalletParams & { signature: string },
+    options?: RequestOptions
   ): Promise<VerificationResult & { wallet: Wallet }> {
     return this.execute(async () => {
-      this.debug('wallets.verifyWithSignature', params.address);
+      this.debug('wallets.verifyWithSignature', { address: params.address });
 
       const { signature, ...walletParams } = params;
 
       // 1. Create or get existing wallet
-      const wallet = await this.create(walletParams);
+      const wallet = await this.create(walletParams, options);
 
       // 2. If already verified, return current state
       if (wallet.verifiedByThisNeobank) {
@@ -587,19 +636,19 @@ export class WalletsResource extends BaseResource {
       // 3. Initiate verification
       const challenge = await this.initiateVerification(wallet.id, {
         method: 'MESSAGE_SIGN',
-      });
+      }, options);
 
       // 4. Submit proof
-      const result = await this.submitProof(challenge.verificationId, { signature });
+      const result = await this.submitProof(challenge.verificationId, { signature }, options);
 
       // 5. Return result with updated wallet
-      const updatedWallet = await this.get(wallet.id);
+      const updatedWallet = await this.get(wallet.id, options);
 
       return {
         ...result,
         wallet: updatedWallet,
       };
-    }, 'wallets.verifyWithSignature');
+    }, 'wallets.verifyWithSignature', options);
   }
 
   // =========================================================================
@@ -638,14 +687,14 @@ export class WalletsResource extends BaseResource {
    * }
    * ```
    */
-  async initiateAOPPVerification(walletId: string): Promise<VerificationChallenge> {
-    return this.execute(async () => {
-      this.debug('wallets.initiateAOPPVerification', walletId);
+  async initiateAOPPVerification(walletId: string, options?: RequestOptions): Promise<VerificationChallenge> {
+    return this.execute(async (request) => {
+      this.debug('wallets.initiateAOPPVerification', { walletId });
 
       const response = await this.api.initiateVerification({
         walletId,
         initiateVerificationRequest: { method: 'AOPP' },
-      });
+      }, request);
 
       const data = unwrapResponse(response);
       return {
@@ -656,26 +705,25 @@ export class WalletsResource extends BaseResource {
         challenge: data.challenge,
         expiresAt: data.expiresAt,
       };
-    }, 'wallets.initiateAOPPVerification');
+    }, 'wallets.initiateAOPPVerification', options);
   }
 
   /**
    * Poll for AOPP verification completion
    *
    * Since AOPP callbacks go directly to the server (not through the frontend),
-   * this method polls the verification status until it completes, fails, or times out.
+   * this method polls the verification status until it is VERIFIED, FAILED or
+   * EXPIRED.
    *
    * @param verificationId - The verification ID from initiateAOPPVerification
-   * @param options - Polling options
-   * @param options.timeout - Max time to wait in ms (default: 600000 = 10 minutes)
-   * @param options.interval - Poll interval in ms (default: 2000 = 2 seconds)
-   * @param options.onPoll - Optional callback on each poll (for showing countdown)
+   * @param options - Polling options (timeout, backoff, `signal`, `onPoll`)
+   * @throws TimeoutError if the verification is still pending after `timeout`
    *
    * @example
    * ```typescript
    * const result = await passage.wallets.waitForAOPPVerification(verificationId, {
    *   timeout: 600000, // 10 minutes
-   *   interval: 2000,  // Check every 2 seconds
+   *   interval: 2000,  // First re-check after 2 seconds
    *   onPoll: (verification) => {
    *     console.log(`Status: ${verification.status}, expires: ${verification.expiresAt}`);
    *   },
@@ -684,41 +732,15 @@ export class WalletsResource extends BaseResource {
    */
   async waitForAOPPVerification(
     verificationId: string,
-    options: {
-      timeout?: number;
-      interval?: number;
-      onPoll?: (verification: Verification) => void;
-    } = {}
+    options?: PollOptions<Verification>
   ): Promise<Verification> {
-    const { timeout = 600000, interval = 2000, onPoll } = options;
-    const startTime = Date.now();
-
-    return this.execute(async () => {
-      this.debug('wallets.waitForAOPPVerification', verificationId);
-
-      while (Date.now() - startTime < timeout) {
-        const verification = await this.getVerification(verificationId);
-
-        if (onPoll) {
-          onPoll(verification);
-        }
-
-        // Terminal states - return immediately
-        if (
-          verification.status === 'VERIFIED' ||
-          verification.status === 'FAILED' ||
-          verification.status === 'EXPIRED'
-        ) {
-          return verification;
-        }
-
-        // Still pending - wait and poll again
-        await new Promise((resolve) => setTimeout(resolve, interval));
-      }
+    this.debug('wallets.waitForAOPPVerification', { verificationId });
 
-      // Timeout - fetch final status
-      return this.getVerification(verificationId);
-    }, 'wallets.waitForAOPPVerification');
+    return poll(
+      () => this.getVerification(verificationId, { signal: options?.signal }),
+      (verification) => TERMINAL_VERIFICATION_STATUSES.includes(verification.status),
+      options
+    );
   }
 
   /**
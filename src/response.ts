@@ -0,0 +1,141 @@
+import type { AxiosResponse } from 'axios';
+import { parseRetryAfter } from './errors';
+import { createAsyncContext } from './runtime';
+import { toHeaderRecord } from './transport';
+
+/**
+ * Rate limit state reported by the API
+ */
+export interface RateLimitInfo {
+  /** Requests allowed in the current window */
+  limit?: number;
+  /** Requests left in the current window */
+  remaining?: number;
+  /** When the window resets (Unix timestamp in seconds) */
+  reset?: number;
+}
+
+/**
+ * Metadata of a successful API response
+ */
+export interface ResponseMeta {
+  /** Request ID to quote to Passage support */
+  requestId?: string;
+  /** HTTP status code */
+  statusCode: number;
+  /** Response headers, with lowercase names */
+  headers: Record<string, string>;
+  /** Rate limit state, when the API sent rate limit headers */
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * A resource method's result together with its response metadata
+ */
+export interface WithResponse<T> extends ResponseMeta {
+  data: T;
+}
+
+type ResponseRecorder = (meta: ResponseMeta) => void;
+
+interface ResponseRecorders {
+  /** `captureResponses()` recorders, outermost first */
+  captures: readonly ResponseRecorder[];
+  /** Recorder of the innermost `captureOperationResponses()` call */
+  operation?: ResponseRecorder;
+}
+
+const recorders = createAsyncContext<ResponseRecorders>();
+
+/**
+ * Run `fn`, passing the metadata of each response it receives to `recorder`
+ *
+ * Nested captures all see the responses of the innermost call.
+ */
+export function captureResponses<T>(recorder: ResponseRecorder, fn: () => Promise<T>): Promise<T> {
+  const store = recorders.getStore();
+  return recorders.run({ captures: [...(store?.captures ?? []), recorder], operation: store?.operation }, fn);
+}
+
+/**
+ * Run one resource operation, passing the metadata of each response it
+ * receives to `recorder`
+ *
+ * Unlike `captureResponses()`, only the innermost operation is told about a
+ * response, so an operation composed of other operations doesn't report
+ * each response twice.
+ */
+export function captureOperationResponses<T>(recorder: ResponseRecorder, fn: () => Promise<T>): Promise<T> {
+  return recorders.run({ captures: recorders.getStore()?.captures ?? [], operation: recorder }, fn);
+}
+
+/**
+ * Report a received response to the enclosing captures
+ */
+export function recordResponse(response: AxiosResponse): void {
+  const store = recorders.getStore();
+  if (!store || (store.captures.length === 0 && !store.operation)) {
+    return;
+  }
+  const meta = toResponseMeta(response);
+  for (const recorder of store.captures) {
+    recorder(meta);
+  }
+  store.operation?.(meta);
+}
+
+/**
+ * Extract request ID, status, headers and rate limit state from a response
+ *
+ * The request ID comes from the response envelope, falling back to the
+ * `X-Request-Id` header.
+ */
+export function toResponseMeta(response: AxiosResponse): ResponseMeta {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(toHeaderRecord(response.headers))) {
+    headers[name.toLowerCase()] = value;
+  }
+  const envelope = response.data as { requestId?: unknown } | undefined;
+  const requestId =
+    envelope && typeof envelope === 'object' && typeof envelope.requestId === 'string'
+      ? envelope.requestId
+      : headers['x-request-id'];
+
+  return {
+    requestId,
+    statusCode: response.status,
+    headers,
+    rateLimit: parseRateLimit(headers),
+  };
+}
+
+/**
+ * Read `RateLimit-*` (IETF draft) or `X-RateLimit-*` headers
+ *
+ * `reset` accepts a delay in seconds or a Unix timestamp.
+ */
+export function parseRateLimit(headers: Record<string, string>, now: number = Date.now()): RateLimitInfo | undefined {
+  const limit = numberHeader(headers, 'limit');
+  const remaining = numberHeader(headers, 'remaining');
+  const reset = parseRetryAfter(
+    {
+      'ratelimit-reset': headers['ratelimit-reset'],
+      'x-ratelimit-reset': headers['x-ratelimit-reset'],
+    },
+    now
+  );
+
+  if (limit === undefined && remaining === undefined && reset === undefined) {
+    return undefined;
+  }
+  return { limit, remaining, reset };
+}
+
+function numberHeader(headers: Record<string, string>, name: string): number | undefined {
+  const raw = headers[`ratelimit-${name}`] ?? headers[`x-ratelimit-${name}`];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+  const value = Number(raw.split(/[,;]/)[0]);
+  return Number.isFinite(value) ? value : undefined;
+}
@@ -0,0 +1,175 @@
+import { CircuitOpenError, PassageError, RateLimitError } from './errors';
+
+/**
+ * How retry delays are randomized
+ *
+ * - `none`: exact exponential backoff (`baseDelay * 2^attempt`)
+ * - `full`: random delay between 0 and the exponential backoff
+ * - `equal`: half the exponential backoff plus a random half
+ * - `decorrelated`: random delay between `baseDelay` and 3x the previous delay
+ */
+export type RetryJitter = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * Retry behavior for a specific HTTP status code
+ */
+export interface RetryStatusRule {
+  /** Whether to retry responses with this status (default: true) */
+  retry?: boolean;
+  /**
+   * Max retries for this status (default: `maxRetries`); a per-call
+   * `RequestOptions.maxRetries` still caps it
+   */
+  maxRetries?: number;
+  /** Base delay for this status in ms (default: the policy's `baseDelay`) */
+  baseDelay?: number;
+}
+
+/**
+ * Retry policy for failed requests
+ *
+ * By default network errors, timeouts, 429s and 5xx responses are retried
+ * with full-jitter exponential backoff. Rate-limited responses wait at least
+ * as long as the API's `Retry-After` header asks.
+ */
+export interface RetryPolicy {
+  /**
+   * Delay before the first retry in ms; doubles with each retry
+   * @default 100
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound for a single backoff delay in ms
+   * @default 10000
+   */
+  maxDelay?: number;
+
+  /**
+   * Jitter strategy
+   * @default 'full'
+   */
+  jitter?: RetryJitter;
+
+  /**
+   * Give up once retrying would exceed this much time since the first
+   * attempt, in ms
+   * @default Infinity
+   */
+  maxElapsedTime?: number;
+
+  /**
+   * Longest `Retry-After` the SDK will wait, in ms; longer requests fail
+   * immediately with the `RateLimitError`
+   * @default 60000
+   */
+  maxRetryAfter?: number;
+
+  /**
+   * Per-status overrides; `false` disables retries for a status and `true`
+   * enables them (e.g. `{ 409: true }`)
+   */
+  statusRules?: Record<number, boolean | RetryStatusRule>;
+}
+
+/**
+ * Retry policy with all defaults applied
+ */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * Apply retry policy defaults
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): ResolvedRetryPolicy {
+  return {
+    baseDelay: policy.baseDelay ?? 100,
+    maxDelay: policy.maxDelay ?? 10000,
+    jitter: policy.jitter ?? 'full',
+    maxElapsedTime: policy.maxElapsedTime ?? Infinity,
+    maxRetryAfter: policy.maxRetryAfter ?? 60000,
+    statusRules: policy.statusRules ?? {},
+  };
+}
+
+/**
+ * Decide how long to wait before retrying a failed request
+ *
+ * @param policy - Resolved retry policy
+ * @param error - Error from the failed attempt
+ * @param attempt - Zero-based index of the failed attempt
+ * @param maxRetries - Retries allowed unless a status rule overrides it
+ * @param previousDelay - Delay before the failed attempt (for decorrelated jitter)
+ * @param callMaxRetries - Per-call limit (`RequestOptions.maxRetries`), which
+ *   status rules can lower but never raise
+ * @returns Delay in ms, or undefined if the request shouldn't be retried
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  error: PassageError,
+  attempt: number,
+  maxRetries: number,
+  previousDelay: number,
+  callMaxRetries?: number
+): number | undefined {
+  const rule = statusRule(policy, error.statusCode);
+  if (!(rule?.retry ?? isRetryableByDefault(error))) {
+    return undefined;
+  }
+  const limit =
+    callMaxRetries === undefined
+      ? rule?.maxRetries ?? maxRetries
+      : Math.min(rule?.maxRetries ?? callMaxRetries, callMaxRetries);
+  if (attempt >= limit) {
+    return undefined;
+  }
+
+  const baseDelay = rule?.baseDelay ?? policy.baseDelay;
+  let delay = backoff(policy, baseDelay, attempt, previousDelay);
+
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    if (error.retryAfterMs > policy.maxRetryAfter) {
+      return undefined;
+    }
+    delay = Math.max(delay, error.retryAfterMs);
+  }
+
+  return delay;
+}
+
+function statusRule(policy: ResolvedRetryPolicy, statusCode?: number): RetryStatusRule | undefined {
+  if (statusCode === undefined) {
+    return undefined;
+  }
+  const rule = policy.statusRules[statusCode];
+  return typeof rule === 'boolean' ? { retry: rule } : rule;
+}
+
+function isRetryableByDefault(error: PassageError): boolean {
+  if (error instanceof CircuitOpenError) {
+    return false;
+  }
+  // Client errors are final, except rate limiting
+  return !error.isClientError || error.statusCode === 429;
+}
+
+function backoff(
+  policy: ResolvedRetryPolicy,
+  baseDelay: number,
+  attempt: number,
+  previousDelay: number
+): number {
+  const exponential = Math.min(baseDelay * Math.pow(2, attempt), policy.maxDelay);
+
+  switch (policy.jitter) {
+    case 'none':
+      return exponential;
+    case 'full':
+      return Math.random() * exponential;
+    case 'equal':
+      return exponential / 2 + Math.random() * (exponential / 2);
+    case 'decorrelated': {
+      const upper = Math.max(previousDelay, baseDelay) * 3;
+      return Math.min(baseDelay + Math.random() * (upper - baseDelay), policy.maxDelay);
+    }
+  }
+}
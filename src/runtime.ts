@@ -0,0 +1,81 @@
+import { PassageError } from './errors';
+
+// Node.js built-ins are only loaded on demand here, so the core entry point
+// also bundles for edge runtimes (Cloudflare Workers, Vercel Edge)
+
+type AsyncHooks = typeof import('async_hooks');
+type NodeCrypto = typeof import('crypto');
+
+/**
+ * Request-scoped state carried across `await`s, like `AsyncLocalStorage`
+ */
+export interface AsyncContext<T> {
+  /** Run `fn` with `store` visible to `getStore()` */
+  run<R>(store: T, fn: () => Promise<R>): Promise<R>;
+  /** Store of the enclosing `run()` call */
+  getStore(): T | undefined;
+}
+
+let asyncLocalStorage: Promise<AsyncHooks['AsyncLocalStorage'] | undefined> | undefined;
+
+/**
+ * Create an async context backed by `AsyncLocalStorage`
+ *
+ * `AsyncLocalStorage` is looked up on first use: the global one on edge
+ * runtimes that provide it, otherwise Node's `async_hooks`. Where neither
+ * exists, `fn` runs without a context and `getStore()` returns `undefined`.
+ */
+export function createAsyncContext<T>(): AsyncContext<T> {
+  let storage: InstanceType<AsyncHooks['AsyncLocalStorage']> | null | undefined;
+
+  return {
+    async run(store, fn) {
+      if (storage === undefined) {
+        asyncLocalStorage ??= loadAsyncLocalStorage();
+        const AsyncLocalStorage = await asyncLocalStorage;
+        storage ??= AsyncLocalStorage ? new AsyncLocalStorage<T>() : null;
+      }
+      return storage ? storage.run(store, fn) : fn();
+    },
+    getStore() {
+      return storage?.getStore() as T | undefined;
+    },
+  };
+}
+
+/**
+ * A random RFC 4122 version 4 UUID
+ *
+ * Uses WebCrypto, falling back to Node's `crypto` module on Node 18, where
+ * `globalThis.crypto` isn't defined.
+ */
+export async function randomUUID(): Promise<string> {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+  const crypto = await nodeBuiltin<NodeCrypto>('crypto');
+  if (!crypto) {
+    throw new PassageError('No random UUID source: neither WebCrypto nor the Node.js crypto module is available');
+  }
+  return crypto.randomUUID();
+}
+
+/**
+ * Import a Node.js built-in module, or `undefined` where the runtime has none
+ *
+ * The specifier is built at runtime so bundlers targeting edge runtimes
+ * don't try to resolve it.
+ */
+export async function nodeBuiltin<T>(name: string): Promise<T | undefined> {
+  const specifier = `node:${name}`;
+  try {
+    return (await import(/* webpackIgnore: true */ /* @vite-ignore */ specifier)) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+async function loadAsyncLocalStorage(): Promise<AsyncHooks['AsyncLocalStorage'] | undefined> {
+  const global = (globalThis as { AsyncLocalStorage?: AsyncHooks['AsyncLocalStorage'] }).AsyncLocalStorage;
+  return global ?? (await nodeBuiltin<AsyncHooks>('async_hooks'))?.AsyncLocalStorage;
+}
@@ -0,0 +1,243 @@
+import type { WebhookEvent, WebhookEventType } from './webhooks/types';
+import { InvalidTransitionError } from './errors';
+
+/**
+ * Application statuses modelled by the state machine
+ *
+ * Mirrors the API's `ApplicationStatus`. Statuses the API adds later are
+ * treated as unknown: they never fail fast, and the API remains the
+ * source of truth for them.
+ */
+export type ApplicationLifecycleStatus =
+  | 'DRAFT'
+  | 'PENDING'
+  | 'ROUTED'
+  | 'OFFERS_READY'
+  | 'OFFER_ACCEPTED'
+  | 'APPROVED'
+  | 'FUNDED'
+  | 'REJECTED'
+  | 'DECLINED'
+  | 'CANCELLED'
+  | 'EXPIRED';
+
+/**
+ * Legal application status transitions
+ *
+ * Statuses with no outgoing transitions are terminal.
+ */
+export const APPLICATION_TRANSITIONS: Readonly<
+  Record<ApplicationLifecycleStatus, readonly ApplicationLifecycleStatus[]>
+> = {
+  DRAFT: ['PENDING', 'CANCELLED'],
+  PENDING: ['ROUTED', 'OFFERS_READY', 'REJECTED', 'CANCELLED', 'EXPIRED'],
+  ROUTED: ['OFFERS_READY', 'REJECTED', 'CANCELLED', 'EXPIRED'],
+  OFFERS_READY: ['OFFER_ACCEPTED', 'REJECTED', 'CANCELLED', 'EXPIRED'],
+  OFFER_ACCEPTED: ['APPROVED', 'DECLINED', 'CANCELLED', 'EXPIRED'],
+  APPROVED: ['FUNDED', 'DECLINED', 'CANCELLED'],
+  FUNDED: [],
+  REJECTED: [],
+  DECLINED: [],
+  CANCELLED: [],
+  EXPIRED: [],
+};
+
+/**
+ * Application status implied by each webhook event
+ *
+ * Events that don't change the application status are omitted.
+ */
+export const APPLICATION_EVENT_STATUS: Readonly<
+  Partial<Record<WebhookEventType, ApplicationLifecycleStatus>>
+> = {
+  'application.created': 'ROUTED',
+  'application.routed': 'ROUTED',
+  'offer.received': 'OFFERS_READY',
+  'prequal_offer.received': 'OFFERS_READY',
+  'offer.accepted': 'OFFER_ACCEPTED',
+  'prequal_offer.accepted': 'OFFER_ACCEPTED',
+  'final_offer.accepted': 'OFFER_ACCEPTED',
+  'application.approved': 'APPROVED',
+  'application.rejected': 'REJECTED',
+  'application.declined': 'DECLINED',
+  'funding.declined': 'DECLINED',
+  'funding.disbursed': 'FUNDED',
+  'loan.created': 'FUNDED',
+};
+
+/**
+ * Application lifecycle state machine
+ *
+ * Encodes the legal application status transitions so invalid updates fail
+ * fast on the client, and reduces webhook events into a current status.
+ *
+ * @example
+ * ```typescript
+ * import { ApplicationStateMachine } from '@portola/passage-neobank';
+ *
+ * const machine = new ApplicationStateMachine();
+ *
+ * machine.canTransition('FUNDED', 'PENDING'); // false
+ * machine.nextStates('OFFERS_READY'); // ['OFFER_ACCEPTED', 'REJECTED', 'CANCELLED', 'EXPIRED']
+ * machine.isTerminal('CANCELLED'); // true
+ *
+ * // Current status for your UI from received webhooks
+ * const status = machine.reduce(events, 'PENDING');
+ * ```
+ */
+export class ApplicationStateMachine {
+  private transitions: Readonly<Record<string, readonly string[]>>;
+  private eventStatus: Readonly<Partial<Record<string, string>>>;
+
+  /**
+   * @param transitions - Transition table (default: `APPLICATION_TRANSITIONS`)
+   * @param eventStatus - Status implied by each webhook event (default: `APPLICATION_EVENT_STATUS`)
+   */
+  constructor(
+    transitions: Readonly<Record<string, readonly string[]>> = APPLICATION_TRANSITIONS,
+    eventStatus: Readonly<Partial<Record<string, string>>> = APPLICATION_EVENT_STATUS
+  ) {
+    this.transitions = transitions;
+    this.eventStatus = eventStatus;
+  }
+
+  /**
+   * All statuses known to the state machine
+   */
+  get statuses(): string[] {
+    return Object.keys(this.transitions);
+  }
+
+  /**
+   * Check whether a status is known to the state machine
+   */
+  isKnownStatus(status: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.transitions, status);
+  }
+
+  /**
+   * Check whether `from` can move directly to `to`
+   *
+   * Returns false for unknown statuses.
+   */
+  canTransition(from: string, to: string): boolean {
+    return this.nextStates(from).includes(to);
+  }
+
+  /**
+   * Statuses reachable in one step from `status`
+   *
+   * Returns an empty array for terminal and unknown statuses.
+   */
+  nextStates(status: string): string[] {
+    return this.isKnownStatus(status) ? [...this.transitions[status]] : [];
+  }
+
+  /**
+   * Check whether `status` is terminal (known, with no outgoing transitions)
+   */
+  isTerminal(status: string): boolean {
+    return this.isKnownStatus(status) && this.transitions[status].length === 0;
+  }
+
+  /**
+   * Check whether `to` can be reached from `from` in one or more steps
+   */
+  canReach(from: string, to: string): boolean {
+    const visited = new Set<string>();
+    const queue = this.nextStates(from);
+
+    while (queue.length > 0) {
+      const status = queue.shift()!;
+      if (status === to) return true;
+      if (visited.has(status)) continue;
+      visited.add(status);
+      queue.push(...this.nextStates(status));
+    }
+
+    return false;
+  }
+
+  /**
+   * Throw if moving to `to` is known to be invalid
+   *
+   * Without `from`, only checks that some status can transition to `to`.
+   * Unknown statuses are allowed through so the API can decide.
+   *
+   * @throws InvalidTransitionError if the transition is invalid
+   */
+  assertTransition(from: string | undefined, to: string): void {
+    if (!this.isKnownStatus(to)) {
+      return;
+    }
+
+    if (from === undefined) {
+      const reachable = this.statuses.some((status) => this.canTransition(status, to));
+      if (!reachable) {
+        throw new InvalidTransitionError(undefined, to, []);
+      }
+      return;
+    }
+
+    if (this.isKnownStatus(from) && !this.canTransition(from, to)) {
+      throw new InvalidTransitionError(from, to, this.nextStates(from));
+    }
+  }
+
+  /**
+   * Status implied by a webhook event, if the event changes the status
+   */
+  statusForEvent(event: Pick<WebhookEvent, 'event'>): string | undefined {
+    return this.eventStatus[event.event];
+  }
+
+  /**
+   * Apply a webhook event to a status
+   *
+   * Moves forward when the event's status can be reached from `status`,
+   * even if intermediate events were missed. Stale events (e.g. an
+   * `offer.received` delivered after `loan.created`) are ignored.
+   *
+   * @param status - Current status, or undefined if not yet known
+   * @param event - Webhook event
+   * @returns The new status
+   */
+  apply(status: string | undefined, event: Pick<WebhookEvent, 'event'>): string | undefined {
+    const next = this.statusForEvent(event);
+
+    if (next === undefined || next === status) {
+      return status;
+    }
+    if (status === undefined || !this.isKnownStatus(status) || this.canReach(status, next)) {
+      return next;
+    }
+    return status;
+  }
+
+  /**
+   * Reduce webhook events into a current status
+   *
+   * Events are applied in the order given; sort by `timestamp` first if
+   * they may have been received out of order.
+   *
+   * @param events - Webhook events for one application
+   * @param initial - Status before the first event
+   * @returns The current status, or `initial` if no event changed it
+   *
+   * @example
+   * ```typescript
+   * const events = await db.webhookEvents.findMany({ applicationId, orderBy: 'timestamp' });
+   * const status = machine.reduce(events);
+   * ```
+   */
+  reduce(
+    events: Iterable<Pick<WebhookEvent, 'event'>>,
+    initial?: string
+  ): string | undefined {
+    let status = initial;
+    for (const event of events) {
+      status = this.apply(status, event);
+    }
+    return status;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * A stream of bytes: a Node.js `Readable`, a web `ReadableStream` or any
+ * async iterable of chunks
+ */
+export type ByteStream = AsyncIterable<Uint8Array | string> | ReadableStream<Uint8Array>;
+
+/**
+ * Bytes held in memory or read from a stream
+ */
+export type ByteSource = Buffer | Uint8Array | ArrayBuffer | ByteStream;
+
+/**
+ * Whether `value` is a stream (rather than bytes held in memory)
+ */
+export function isByteStream(value: unknown): value is ByteStream {
+  if (!value || typeof value !== 'object' || value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return false;
+  }
+  return Symbol.asyncIterator in value || typeof (value as ReadableStream).getReader === 'function';
+}
+
+/**
+ * Iterate over the bytes of `source` as Buffers
+ *
+ * Web streams are read through their reader so this works on runtimes
+ * where `ReadableStream` is not async iterable.
+ */
+export async function* readChunks(source: ByteSource): AsyncGenerator<Buffer> {
+  if (!isByteStream(source)) {
+    yield toBuffer(source);
+    return;
+  }
+
+  if (!isWebStream(source)) {
+    for await (const chunk of source) {
+      yield toBuffer(chunk);
+    }
+    return;
+  }
+
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield toBuffer(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read a whole stream into memory
+ */
+export async function readAll(source: ByteSource): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of readChunks(source)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Wrap a stream as a web `ReadableStream`, e.g. for a fetch request body
+ */
+export function toReadableStream(source: ByteStream): ReadableStream<Uint8Array> {
+  if (isWebStream(source)) {
+    return source;
+  }
+  const chunks = readChunks(source);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+function isWebStream(source: ByteStream): source is ReadableStream<Uint8Array> {
+  return !(Symbol.asyncIterator in source);
+}
+
+function toBuffer(chunk: Buffer | Uint8Array | ArrayBuffer | string): Buffer {
+  if (typeof chunk === 'string') {
+    return Buffer.from(chunk, 'utf-8');
+  }
+  if (Buffer.isBuffer(chunk)) {
+    return chunk;
+  }
+  return chunk instanceof ArrayBuffer
+    ? Buffer.from(chunk)
+    : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+}
@@ -0,0 +1,301 @@
+import { version } from '../package.json';
+import { PassageError, RateLimitError } from './errors';
+import { redact } from './logger';
+import type { PassageMiddleware } from './middleware';
+
+// Structural subsets of the @opentelemetry/api interfaces, so the SDK works
+// with any OpenTelemetry setup without depending on the package.
+
+/** Span attribute value */
+export type TelemetryAttributeValue = string | number | boolean;
+
+/** Span or metric attributes */
+export type TelemetryAttributes = Record<string, TelemetryAttributeValue | undefined>;
+
+/** Subset of an OpenTelemetry `Span` */
+export interface SpanLike {
+  setAttribute(key: string, value: TelemetryAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  addEvent(name: string, attributes?: TelemetryAttributes): unknown;
+  recordException(exception: Error): void;
+  spanContext(): { traceId: string; spanId: string; traceFlags: number };
+  end(): void;
+}
+
+/** Subset of an OpenTelemetry `Tracer` */
+export interface TracerLike {
+  startActiveSpan<F extends (span: SpanLike) => unknown>(
+    name: string,
+    options: { kind?: number; attributes?: TelemetryAttributes },
+    fn: F
+  ): ReturnType<F>;
+}
+
+/** Subset of an OpenTelemetry `TracerProvider` */
+export interface TracerProviderLike {
+  getTracer(name: string, version?: string): TracerLike;
+}
+
+/** Subset of an OpenTelemetry `Meter` */
+export interface MeterLike {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: TelemetryAttributes): void };
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: TelemetryAttributes): void };
+}
+
+/** Subset of an OpenTelemetry `MeterProvider` */
+export interface MeterProviderLike {
+  getMeter(name: string, version?: string): MeterLike;
+}
+
+/**
+ * OpenTelemetry instrumentation settings
+ *
+ * @example
+ * ```typescript
+ * import { trace, metrics } from '@opentelemetry/api';
+ *
+ * const passage = new Passage({
+ *   apiKey,
+ *   telemetry: {
+ *     tracerProvider: trace.getTracerProvider(),
+ *     meterProvider: metrics.getMeterProvider(),
+ *   },
+ * });
+ * ```
+ */
+export interface TelemetryConfig {
+  /** Creates a span per operation and a child span per HTTP attempt */
+  tracerProvider?: TracerProviderLike;
+  /** Records latency, retry and rate limit metrics */
+  meterProvider?: MeterProviderLike;
+  /**
+   * Send a W3C `traceparent` header with each request
+   * @default true
+   */
+  propagateTraceContext?: boolean;
+}
+
+// Values of the OpenTelemetry SpanKind and SpanStatusCode enums
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+const INSTRUMENTATION_NAME = '@portola/passage-neobank';
+
+/**
+ * Spans and metrics for SDK operations
+ */
+export class PassageTelemetry {
+  private readonly tracer?: TracerLike;
+  private readonly propagate: boolean;
+  private readonly operationDuration?: ReturnType<MeterLike['createHistogram']>;
+  private readonly requestDuration?: ReturnType<MeterLike['createHistogram']>;
+  private readonly retries?: ReturnType<MeterLike['createCounter']>;
+  private readonly rateLimits?: ReturnType<MeterLike['createCounter']>;
+
+  constructor(config: TelemetryConfig) {
+    this.tracer = config.tracerProvider?.getTracer(INSTRUMENTATION_NAME, version);
+    this.propagate = config.propagateTraceContext ?? true;
+
+    const meter = config.meterProvider?.getMeter(INSTRUMENTATION_NAME, version);
+    this.operationDuration = meter?.createHistogram('passage.client.operation.duration', {
+      description: 'Duration of SDK operations, including retries',
+      unit: 'ms',
+    });
+    this.requestDuration = meter?.createHistogram('passage.client.request.duration', {
+      description: 'Duration of individual HTTP requests',
+      unit: 'ms',
+    });
+    this.retries = meter?.createCounter('passage.client.retries', {
+      description: 'Retried SDK operation attempts',
+    });
+    this.rateLimits = meter?.createCounter('passage.client.rate_limits', {
+      description: 'Responses rejected with HTTP 429',
+    });
+  }
+
+  /**
+   * Run an operation (including its retries) inside an operation span
+   *
+   * `run` receives a callback to report each retry.
+   */
+  traceOperation<T>(
+    operation: string,
+    run: (onRetry: (error: PassageError, attempt: number, delay: number) => void) => Promise<T>
+  ): Promise<T> {
+    const started = Date.now();
+    let retryCount = 0;
+    let currentSpan: SpanLike | undefined;
+
+    const onRetry = (error: PassageError, attempt: number, delay: number) => {
+      retryCount++;
+      this.retries?.add(1, { 'passage.operation': operation, 'passage.error_code': error.errorCode });
+      currentSpan?.addEvent('retry', {
+        'passage.attempt': attempt,
+        'passage.retry_delay_ms': Math.round(delay),
+        'passage.error_code': error.errorCode,
+        'http.response.status_code': error.statusCode,
+      });
+    };
+
+    const finish = (span: SpanLike | undefined, error?: unknown) => {
+      const attributes: TelemetryAttributes = { 'passage.operation': operation };
+      if (error instanceof PassageError) {
+        attributes['passage.error_code'] = error.errorCode;
+        attributes['http.response.status_code'] = error.statusCode;
+      }
+      this.operationDuration?.record(Date.now() - started, {
+        ...attributes,
+        'passage.outcome': error ? 'error' : 'success',
+      });
+
+      if (span) {
+        span.setAttribute('passage.retry_count', retryCount);
+        setAttributes(span, attributes);
+        if (error instanceof PassageError && error.requestId) {
+          span.setAttribute('passage.request_id', error.requestId);
+        }
+        if (error) {
+          recordError(span, error);
+        } else {
+          span.setStatus({ code: STATUS_OK });
+        }
+        span.end();
+      }
+    };
+
+    const execute = async (span?: SpanLike) => {
+      currentSpan = span;
+      try {
+        const result = await run(onRetry);
+        finish(span);
+        return result;
+      } catch (error) {
+        finish(span, error);
+        throw error;
+      }
+    };
+
+    if (!this.tracer) {
+      return execute();
+    }
+    return this.tracer.startActiveSpan(
+      operation,
+      { kind: SPAN_KIND_INTERNAL, attributes: { 'passage.operation': operation } },
+      (span) => execute(span)
+    );
+  }
+
+  /**
+   * Middleware creating a client span per HTTP attempt, propagating trace
+   * context and counting rate limit hits
+   */
+  readonly middleware: PassageMiddleware = (request, next) => {
+    const started = Date.now();
+    const attributes: TelemetryAttributes = {
+      'passage.operation': request.operation,
+      'passage.attempt': request.attempt,
+      'http.request.method': request.method,
+      'url.full': spanUrl(request.url),
+    };
+
+    const send = async (span?: SpanLike) => {
+      if (span && this.propagate) {
+        const { traceId, spanId, traceFlags } = span.spanContext();
+        if (!/^0+$/.test(traceId)) {
+          request = {
+            ...request,
+            headers: {
+              ...request.headers,
+              traceparent: `00-${traceId}-${spanId}-${traceFlags.toString(16).padStart(2, '0')}`,
+            },
+          };
+        }
+      }
+
+      const metricAttributes = { 'passage.operation': request.operation, 'http.request.method': request.method };
+      try {
+        const response = await next(request);
+        this.requestDuration?.record(Date.now() - started, {
+          ...metricAttributes,
+          'http.response.status_code': response.status,
+        });
+        if (span) {
+          span.setAttribute('http.response.status_code', response.status);
+          const requestId = response.headers['x-request-id'];
+          if (requestId) {
+            span.setAttribute('passage.request_id', requestId);
+          }
+          span.setStatus({ code: STATUS_OK });
+        }
+        return response;
+      } catch (error) {
+        const passageError = error instanceof PassageError ? error : undefined;
+        this.requestDuration?.record(Date.now() - started, {
+          ...metricAttributes,
+          'http.response.status_code': passageError?.statusCode,
+          'passage.error_code': passageError?.errorCode,
+        });
+        if (error instanceof RateLimitError) {
+          this.rateLimits?.add(1, { 'passage.operation': request.operation });
+        }
+        if (span) {
+          if (passageError) {
+            setAttributes(span, {
+              'http.response.status_code': passageError.statusCode,
+              'passage.error_code': passageError.errorCode,
+              'passage.request_id': passageError.requestId,
+            });
+          }
+          recordError(span, error);
+        }
+        throw error;
+      } finally {
+        span?.end();
+      }
+    };
+
+    if (!this.tracer) {
+      return send();
+    }
+    return this.tracer.startActiveSpan(
+      `${request.operation ?? 'passage'} ${request.method}`,
+      { kind: SPAN_KIND_CLIENT, attributes },
+      (span) => send(span)
+    );
+  };
+}
+
+function setAttributes(span: SpanLike, attributes: TelemetryAttributes): void {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      span.setAttribute(key, value);
+    }
+  }
+}
+
+function recordError(span: SpanLike, error: unknown): void {
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({
+    code: STATUS_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Request URL for span attributes: the query string is dropped, since it
+ * can carry PII such as wallet addresses, and the rest is redacted like logs
+ */
+function spanUrl(url: string): string {
+  const end = url.search(/[?#]/);
+  return redact(end === -1 ? url : url.slice(0, end));
+}
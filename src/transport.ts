@@ -0,0 +1,342 @@
+import axios, { AxiosHeaders, type AxiosInstance } from 'axios';
+import { NetworkError, TimeoutError } from './errors';
+import type { PassageRequest, PassageResponse } from './middleware';
+import { nodeBuiltin } from './runtime';
+import { isByteStream, readChunks, toReadableStream, type ByteStream } from './streams';
+
+/**
+ * Sends an HTTP request over the network
+ *
+ * Runs after all middleware. A transport resolves with the response for
+ * any status code (the client turns non-2xx responses into the matching
+ * `PassageError`) and rejects only when no response was received,
+ * preferably with a `NetworkError` or `TimeoutError`.
+ *
+ * @example
+ * ```typescript
+ * const passage = new Passage({ apiKey, transport: fetchTransport() });
+ * ```
+ */
+export type PassageTransport = (request: PassageRequest) => Promise<PassageResponse>;
+
+/**
+ * Transport sending requests with axios (the default)
+ *
+ * @param instance - Axios instance to send with, e.g. one with a proxy agent
+ */
+export function axiosTransport(instance: AxiosInstance = axios.create()): PassageTransport {
+  return async (request) => {
+    const response = await instance.request({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      data: await toAxiosBody(request.body),
+      timeout: request.timeout,
+      signal: request.signal,
+      responseType: request.responseType ?? 'text',
+      // The body is already serialized and the response is parsed by the client
+      transformRequest: [(data) => data],
+      transformResponse: [(data) => data],
+      validateStatus: () => true,
+    });
+    return {
+      status: response.status,
+      headers: toHeaderRecord(response.headers),
+      body: response.data,
+    };
+  };
+}
+
+/**
+ * Transport sending requests with the Fetch API, for anywhere axios
+ * can't run, such as Cloudflare Workers and Vercel Edge
+ *
+ * For streamed responses the timeout covers waiting for the response
+ * headers, while the request signal can cancel the body until it has been
+ * read to the end or cancelled.
+ *
+ * @param fetchImpl - Fetch implementation
+ * @default globalThis.fetch
+ */
+export function fetchTransport(fetchImpl: typeof fetch = globalThis.fetch): PassageTransport {
+  if (typeof fetchImpl !== 'function') {
+    throw new Error('fetchTransport: no fetch implementation available');
+  }
+
+  return async (request) => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer =
+      request.timeout && request.timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, request.timeout)
+        : undefined;
+    const onAbort = () => controller.abort(request.signal?.reason);
+    if (request.signal?.aborted) {
+      onAbort();
+    }
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    const release = () => request.signal?.removeEventListener('abort', onAbort);
+    let streamingBody = false;
+
+    // fetch computes the length itself and rejects mismatches
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).filter(([name]) => name.toLowerCase() !== 'content-length')
+    );
+
+    try {
+      const streaming = isByteStream(request.body);
+      const response = await fetchImpl(request.url, {
+        method: request.method,
+        headers,
+        body: (streaming ? toReadableStream(request.body as ByteStream) : request.body) as RequestInit['body'],
+        signal: controller.signal,
+        // Required by fetch for stream bodies
+        ...(streaming ? { duplex: 'half' } : {}),
+      });
+      streamingBody = request.responseType === 'stream' && response.body !== null;
+      const body =
+        request.responseType === 'stream'
+          ? response.body
+            ? releaseOnEnd(response.body, release)
+            : new Uint8Array(0)
+          : request.responseType === 'arraybuffer'
+            ? await response.arrayBuffer()
+            : await response.text();
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name] = value;
+      });
+      return { status: response.status, headers: responseHeaders, body };
+    } catch (error) {
+      const cause = error instanceof Error ? error : undefined;
+      if (timedOut) {
+        throw new TimeoutError(`${request.method} ${request.url} timed out after ${request.timeout}ms`, cause);
+      }
+      throw new NetworkError(`${request.method} ${request.url} failed: ${cause?.message ?? String(error)}`, cause);
+    } finally {
+      clearTimeout(timer);
+      // A streamed body stays cancellable until it is consumed
+      if (!streamingBody) {
+        release();
+      }
+    }
+  };
+}
+
+/**
+ * Pass a response body through, calling `release` once it has been read
+ * to the end, failed or been cancelled
+ */
+function releaseOnEnd(body: ReadableStream<Uint8Array>, release: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      release();
+      await reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * A request and the response it received, as stored by `RecordingTransport`
+ *
+ * Streamed bodies can only be read once, by the client, so they are
+ * recorded as `STREAM_BODY_PLACEHOLDER`.
+ */
+export interface RecordedExchange {
+  request: Pick<PassageRequest, 'method' | 'url' | 'body'>;
+  response: PassageResponse;
+}
+
+/** Recorded in place of a streamed request or response body */
+export const STREAM_BODY_PLACEHOLDER = '[stream]';
+
+/**
+ * Reply for a mocked request: a response (objects in `body` other than
+ * binary data and streams are sent as JSON) or a function computing one
+ */
+export type MockReply =
+  | Partial<PassageResponse>
+  | ((request: PassageRequest) => Partial<PassageResponse> | Promise<Partial<PassageResponse>>);
+
+interface MockRoute {
+  method: string;
+  url: string | RegExp;
+  reply: MockReply;
+  once: boolean;
+}
+
+/**
+ * Transport answering requests from canned replies, for tests
+ *
+ * String URLs match the full URL or its end, ignoring the query string;
+ * regular expressions are tested against the full URL. Routes are tried
+ * in the order they were added.
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockTransport()
+ *   .reply('GET', '/applications/app_123', { body: { success: true, data: { id: 'app_123' } } })
+ *   .replyOnce('POST', '/applications', { status: 503 });
+ *
+ * const passage = new Passage({ apiKey: 'nb_test_123', transport: mock.transport });
+ * await passage.applications.get('app_123');
+ *
+ * expect(mock.requests[0].method).toBe('GET');
+ * ```
+ */
+export class MockTransport {
+  /** Every request received, in order */
+  readonly requests: PassageRequest[] = [];
+  private readonly routes: MockRoute[] = [];
+
+  /**
+   * Replay recorded exchanges, each answering one matching request
+   */
+  static fromRecording(exchanges: readonly RecordedExchange[]): MockTransport {
+    const mock = new MockTransport();
+    for (const { request, response } of exchanges) {
+      mock.replyOnce(request.method, request.url, response);
+    }
+    return mock;
+  }
+
+  /**
+   * Answer every matching request with `reply`
+   */
+  reply(method: string, url: string | RegExp, reply: MockReply): this {
+    this.routes.push({ method: method.toUpperCase(), url, reply, once: false });
+    return this;
+  }
+
+  /**
+   * Answer the next matching request with `reply`
+   */
+  replyOnce(method: string, url: string | RegExp, reply: MockReply): this {
+    this.routes.push({ method: method.toUpperCase(), url, reply, once: true });
+    return this;
+  }
+
+  /**
+   * The transport to pass to the client
+   */
+  readonly transport: PassageTransport = async (request) => {
+    this.requests.push(request);
+
+    const index = this.routes.findIndex((route) => route.method === request.method && matchesUrl(route.url, request.url));
+    if (index === -1) {
+      throw new Error(`MockTransport: no reply for ${request.method} ${request.url}`);
+    }
+    const route = this.routes[index];
+    if (route.once) {
+      this.routes.splice(index, 1);
+    }
+
+    const reply = typeof route.reply === 'function' ? await route.reply(request) : route.reply;
+    const body = reply.body;
+    const json = body !== undefined && typeof body === 'object' && !isBinary(body) && !isByteStream(body);
+    return {
+      status: reply.status ?? 200,
+      headers: { ...(json ? { 'content-type': 'application/json' } : {}), ...reply.headers },
+      body: json ? JSON.stringify(body) : body ?? '',
+    };
+  };
+}
+
+/**
+ * Transport recording every exchange of another transport, e.g. to save
+ * fixtures for `MockTransport.fromRecording()`
+ *
+ * Request headers are not recorded, so recordings never contain API keys,
+ * and streamed bodies are recorded as `STREAM_BODY_PLACEHOLDER`.
+ */
+export class RecordingTransport {
+  /** Exchanges so far, in order */
+  readonly exchanges: RecordedExchange[] = [];
+  private readonly inner: PassageTransport;
+
+  constructor(inner: PassageTransport = axiosTransport()) {
+    this.inner = inner;
+  }
+
+  /**
+   * The transport to pass to the client
+   */
+  readonly transport: PassageTransport = async (request) => {
+    const response = await this.inner(request);
+    this.exchanges.push({
+      request: { method: request.method, url: request.url, body: recordedBody(request.body) },
+      response: { ...response, body: recordedBody(response.body) },
+    });
+    return response;
+  };
+}
+
+/**
+ * Flatten axios or plain headers into a string record
+ */
+export function toHeaderRecord(headers: unknown): Record<string, string> {
+  const record: Record<string, string> = {};
+  const plain = headers instanceof AxiosHeaders ? headers.toJSON() : (headers as Record<string, unknown>) ?? {};
+  for (const [name, value] of Object.entries(plain)) {
+    if (value !== undefined && value !== null && value !== false) {
+      record[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return record;
+}
+
+function matchesUrl(pattern: string | RegExp, url: string): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(url);
+  }
+  const path = url.split('?')[0];
+  return url === pattern || path === pattern || path.endsWith(pattern);
+}
+
+function recordedBody(body: unknown): unknown {
+  return isByteStream(body) ? STREAM_BODY_PLACEHOLDER : body;
+}
+
+/**
+ * Convert a body to one axios can send
+ *
+ * axios' Node.js adapter only sends strings, Buffers, ArrayBuffers and Node
+ * streams, so other byte views become an ArrayBuffer and web streams or
+ * other async iterables a `Readable`. Elsewhere axios sends with fetch,
+ * which takes a web `ReadableStream`.
+ */
+async function toAxiosBody(body: unknown): Promise<unknown> {
+  if (ArrayBuffer.isView(body)) {
+    return typeof Buffer !== 'undefined' && Buffer.isBuffer(body)
+      ? body
+      : (body.buffer as ArrayBuffer).slice(body.byteOffset, body.byteOffset + body.byteLength);
+  }
+  if (!isByteStream(body) || typeof (body as { pipe?: unknown }).pipe === 'function') {
+    return body;
+  }
+  const stream = await nodeBuiltin<typeof import('stream')>('stream');
+  return stream ? stream.Readable.from(readChunks(body)) : toReadableStream(body);
+}
+
+function isBinary(value: unknown): boolean {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
@@ -10,6 +10,7 @@ import type {
   BorrowerWallet as BorrowerWalletType,
   HardPullConsent as HardPullConsentType,
 } from '@portola/passage';
+import type { RequestPriority } from './rate-limiter';
 
 // ============================================================================
 // Re-export types from generated SDK
@@ -105,6 +106,67 @@ export interface PaginationParams {
   offset?: number;
 }
 
+// ============================================================================
+// Request Options
+// ============================================================================
+
+/**
+ * Per-call options for requests that create or accept something
+ */
+export interface IdempotencyOptions {
+  /**
+   * Key sent as the `Idempotency-Key` header on every attempt of this call
+   *
+   * Generated automatically if omitted. Pass your own (e.g. derived from
+   * your order ID) to make retries across processes safe too.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Per-call options accepted as the last argument of every resource method
+ *
+ * @example
+ * ```typescript
+ * // Cancel the call when the borrower disconnects
+ * const controller = new AbortController();
+ * req.on('close', () => controller.abort());
+ *
+ * const offers = await passage.offers.getPrequalified('app_123', {
+ *   signal: controller.signal,
+ *   timeout: 5000,
+ *   maxRetries: 1,
+ *   headers: { 'X-Correlation-Id': correlationId },
+ * });
+ * ```
+ */
+export interface RequestOptions {
+  /** Cancels the call, including retries and backoff waits */
+  signal?: AbortSignal;
+  /** Timeout per attempt in milliseconds (overrides the client's `timeout`) */
+  timeout?: number;
+  /** Retry attempts (overrides the client's `maxRetries` and caps its `statusRules`) */
+  maxRetries?: number;
+  /** Extra headers to send */
+  headers?: Record<string, string>;
+  /**
+   * Queue lane when the client has a `rateLimit`
+   * @default 'interactive'
+   */
+  priority?: RequestPriority;
+}
+
+/**
+ * Per-call options of methods that create or accept something, which also
+ * take an `idempotencyKey`
+ *
+ * @example
+ * ```typescript
+ * await passage.applications.create(params, { idempotencyKey: `application-${order.id}`, timeout: 10000 });
+ * ```
+ */
+export interface IdempotentRequestOptions extends RequestOptions, IdempotencyOptions {}
+
 // ============================================================================
 // SDK Client Convenience Aliases
 // ============================================================================
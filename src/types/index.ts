@@ -24,6 +24,11 @@ export type {
   Pagination,
   PaginationParams,
 
+  // Request options
+  IdempotencyOptions,
+  RequestOptions,
+  IdempotentRequestOptions,
+
   // Applications
   Application,
   ApplicationListParams,
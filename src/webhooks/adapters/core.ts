@@ -0,0 +1,146 @@
+import type { WebhookHandler, ReceivedWebhookEvent } from '../handler';
+import type { WebhookRouter, WebhookDispatchResult } from '../router';
+import { WebhookSignatureError, WebhookDuplicateError } from '../handler';
+import { WebhookPayloadError } from '../validation';
+
+/**
+ * Name of the header carrying the webhook signature
+ */
+export const SIGNATURE_HEADER = 'x-passage-signature';
+
+/**
+ * Options shared by all framework adapters
+ */
+export interface WebhookAdapterOptions {
+  /** Handler used to verify signatures (and dedupe, if configured) */
+  handler: WebhookHandler;
+  /** Router that receives verified events */
+  router?: WebhookRouter;
+  /**
+   * Called for each verified, non-duplicate event after the router ran.
+   * Throwing responds with 500 so Passage redelivers the event.
+   */
+  onEvent?: (
+    received: ReceivedWebhookEvent,
+    dispatch?: WebhookDispatchResult
+  ) => void | Promise<void>;
+  /**
+   * Called when a request is rejected or a handler fails.
+   * Useful for logging; the response status is not affected.
+   */
+  onError?: (error: unknown, status: number) => void;
+}
+
+/**
+ * Framework-agnostic webhook response
+ */
+export interface WebhookAdapterResponse {
+  /** HTTP status code to respond with */
+  status: number;
+  /** JSON response body */
+  body: {
+    received: boolean;
+    duplicate?: boolean;
+    error?: string;
+  };
+}
+
+/**
+ * Raw request data extracted by a framework adapter
+ */
+export interface WebhookAdapterRequest {
+  /**
+   * Raw, unparsed request body (string, Buffer or Uint8Array).
+   * Anything else, such as an already-parsed JSON object, is rejected.
+   */
+  rawBody: unknown;
+  /** Value of the x-passage-signature header */
+  signature: string | string[] | null | undefined;
+}
+
+/**
+ * Verify, dedupe and dispatch a webhook request
+ *
+ * All adapters delegate here. Status codes:
+ * - 200: event processed, or duplicate already processed
+ * - 400: body missing, not valid JSON, or rejected by strict validation
+ * - 401: signature invalid (`WebhookSignatureError`)
+ * - 500: a handler failed; Passage will redeliver
+ */
+export async function processWebhookRequest(
+  options: WebhookAdapterOptions,
+  request: WebhookAdapterRequest
+): Promise<WebhookAdapterResponse> {
+  const reject = (error: unknown, status: number, message: string): WebhookAdapterResponse => {
+    options.onError?.(error, status);
+    return { status, body: { received: false, error: message } };
+  };
+
+  if (typeof request.rawBody !== 'string' && !isBytes(request.rawBody)) {
+    return reject(
+      new Error('Raw request body is not available'),
+      400,
+      'Raw request body is not available; disable JSON body parsing for this route'
+    );
+  }
+
+  const payload = typeof request.rawBody === 'string'
+    ? request.rawBody
+    : Buffer.from(request.rawBody).toString('utf-8');
+  const signature = Array.isArray(request.signature)
+    ? request.signature[0]
+    : request.signature;
+
+  let received: ReceivedWebhookEvent;
+  try {
+    received = await options.handler.receive(payload, signature ?? '');
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return reject(error, 401, error.message);
+    }
+    if (error instanceof WebhookDuplicateError) {
+      return { status: 200, body: { received: true, duplicate: true } };
+    }
+    if (error instanceof WebhookPayloadError) {
+      return reject(error, 400, error.message);
+    }
+    if (error instanceof SyntaxError) {
+      return reject(error, 400, 'Invalid JSON payload');
+    }
+    return reject(error, 500, 'Webhook processing failed');
+  }
+
+  if (received.duplicate) {
+    return { status: 200, body: { received: true, duplicate: true } };
+  }
+
+  try {
+    const dispatch = options.router
+      ? await options.router.dispatch(received.event)
+      : undefined;
+
+    if (dispatch && !dispatch.ok) {
+      const failed = dispatch.handlers.find((h) => !h.ok);
+      throw failed?.error ?? new Error('Webhook handler failed');
+    }
+
+    await options.onEvent?.(received, dispatch);
+  } catch (error) {
+    // Let Passage redeliver the event
+    try {
+      await options.handler.release(received.event, signature ?? undefined);
+    } catch (releaseError) {
+      options.onError?.(releaseError, 500);
+    }
+    return reject(error, 500, 'Webhook handler failed');
+  }
+
+  return { status: 200, body: { received: true } };
+}
+
+/**
+ * Check whether a value is a Buffer or Uint8Array
+ */
+function isBytes(value: unknown): value is Buffer | Uint8Array {
+  return value instanceof Uint8Array;
+}
@@ -0,0 +1,65 @@
+import type { IncomingMessage } from 'http';
+import {
+  processWebhookRequest,
+  SIGNATURE_HEADER,
+  type WebhookAdapterOptions,
+} from './core';
+import { readRawBody } from './node';
+
+/**
+ * Minimal Express request shape used by the middleware
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+  body?: unknown;
+}
+
+/**
+ * Minimal Express response shape used by the middleware
+ */
+export interface ExpressLikeResponse {
+  status(code: number): ExpressLikeResponse;
+  json(body: unknown): unknown;
+}
+
+/**
+ * Create Express middleware that verifies and dispatches Passage webhooks
+ *
+ * Mount it with `express.raw({ type: 'application/json' })` (or before any
+ * JSON body parser) so the raw body is available for signature verification.
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { createExpressMiddleware } from '@portola/passage-neobank/webhooks/adapters';
+ *
+ * const app = express();
+ *
+ * app.post(
+ *   '/webhooks/passage',
+ *   express.raw({ type: 'application/json' }),
+ *   createExpressMiddleware({ handler: webhooks, router })
+ * );
+ * ```
+ */
+export function createExpressMiddleware(
+  options: WebhookAdapterOptions
+): (req: ExpressLikeRequest, res: ExpressLikeResponse, next: (error?: unknown) => void) => Promise<void> {
+  return async (req, res, next) => {
+    try {
+      // No raw body parser ran (body-parser leaves `{}` when the content
+      // type didn't match), but the stream is unread, so read it ourselves
+      const hasRawBody = typeof req.body === 'string' || req.body instanceof Uint8Array;
+      const rawBody = !hasRawBody && req.readable && !req.readableEnded
+        ? await readRawBody(req)
+        : req.body;
+
+      const response = await processWebhookRequest(options, {
+        rawBody,
+        signature: req.headers[SIGNATURE_HEADER],
+      });
+      res.status(response.status).json(response.body);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import {
+  processWebhookRequest,
+  SIGNATURE_HEADER,
+  type WebhookAdapterOptions,
+} from './core';
+
+/**
+ * Minimal Fastify request shape used by the handler
+ */
+export interface FastifyLikeRequest {
+  body?: unknown;
+  /** Set by plugins such as fastify-raw-body */
+  rawBody?: string | Buffer;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Minimal Fastify reply shape used by the handler
+ */
+export interface FastifyLikeReply {
+  code(statusCode: number): FastifyLikeReply;
+  send(payload?: unknown): unknown;
+}
+
+/**
+ * Minimal Fastify instance shape used by the plugin
+ */
+export interface FastifyLikeInstance {
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: 'string' },
+    parser: (req: unknown, body: string, done: (err: Error | null, body?: unknown) => void) => void
+  ): void;
+  post(path: string, handler: (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown>): void;
+}
+
+/**
+ * Create a Fastify route handler that verifies and dispatches Passage webhooks
+ *
+ * Requires the raw body: either `request.rawBody` (fastify-raw-body) or a
+ * string body from a `parseAs: 'string'` content type parser. Use
+ * `passageWebhookPlugin` to set both up in an encapsulated context.
+ *
+ * @example
+ * ```typescript
+ * import { createFastifyHandler } from '@portola/passage-neobank/webhooks/adapters';
+ *
+ * fastify.post('/webhooks/passage', { config: { rawBody: true } },
+ *   createFastifyHandler({ handler: webhooks, router })
+ * );
+ * ```
+ */
+export function createFastifyHandler(
+  options: WebhookAdapterOptions
+): (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown> {
+  return async (request, reply) => {
+    const response = await processWebhookRequest(options, {
+      rawBody: request.rawBody ?? request.body,
+      signature: request.headers[SIGNATURE_HEADER],
+    });
+    return reply.code(response.status).send(response.body);
+  };
+}
+
+/**
+ * Fastify plugin registering a webhook route with a raw-body JSON parser
+ *
+ * The JSON parser only applies inside the plugin's encapsulated context,
+ * so other routes keep Fastify's default JSON parsing.
+ *
+ * @example
+ * ```typescript
+ * import { passageWebhookPlugin } from '@portola/passage-neobank/webhooks/adapters';
+ *
+ * await fastify.register(passageWebhookPlugin, {
+ *   path: '/webhooks/passage',
+ *   handler: webhooks,
+ *   router,
+ * });
+ * ```
+ */
+export async function passageWebhookPlugin(
+  fastify: FastifyLikeInstance,
+  options: WebhookAdapterOptions & { path?: string }
+): Promise<void> {
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (_req, body, done) => {
+    done(null, body);
+  });
+  fastify.post(options.path ?? '/webhooks/passage', createFastifyHandler(options));
+}
@@ -0,0 +1,55 @@
+import {
+  processWebhookRequest,
+  SIGNATURE_HEADER,
+  type WebhookAdapterOptions,
+} from './core';
+
+/**
+ * Create a handler for Fetch API `Request`/`Response` runtimes
+ *
+ * Works with Hono (`c.req.raw`), Bun, Deno and any framework exposing
+ * standard Request objects.
+ *
+ * @example Hono
+ * ```typescript
+ * import { Hono } from 'hono';
+ * import { createFetchHandler } from '@portola/passage-neobank/webhooks/adapters';
+ *
+ * const handleWebhook = createFetchHandler({ handler: webhooks, router });
+ *
+ * const app = new Hono();
+ * app.post('/webhooks/passage', (c) => handleWebhook(c.req.raw));
+ * ```
+ */
+export function createFetchHandler(
+  options: WebhookAdapterOptions
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const response = await processWebhookRequest(options, {
+      rawBody: await request.text(),
+      signature: request.headers.get(SIGNATURE_HEADER),
+    });
+
+    return new Response(JSON.stringify(response.body), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+/**
+ * Create a Next.js App Router route handler
+ *
+ * @example
+ * ```typescript
+ * // app/api/webhooks/passage/route.ts
+ * import { createNextRouteHandler } from '@portola/passage-neobank/webhooks/adapters';
+ *
+ * export const POST = createNextRouteHandler({ handler: webhooks, router });
+ * ```
+ */
+export function createNextRouteHandler(
+  options: WebhookAdapterOptions
+): (request: Request) => Promise<Response> {
+  return createFetchHandler(options);
+}
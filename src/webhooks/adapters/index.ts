@@ -0,0 +1,35 @@
+/**
+ * Framework adapters for Passage webhook endpoints
+ *
+ * Each adapter captures the raw body, verifies the signature with a
+ * `WebhookHandler`, dispatches to a `WebhookRouter` and maps the outcome
+ * to an HTTP status (200, 400, 401 or 500).
+ *
+ * @module webhooks/adapters
+ */
+
+export {
+  processWebhookRequest,
+  SIGNATURE_HEADER,
+  type WebhookAdapterOptions,
+  type WebhookAdapterRequest,
+  type WebhookAdapterResponse,
+} from './core';
+
+export { createNodeHandler, readRawBody, sendNodeResponse } from './node';
+
+export {
+  createExpressMiddleware,
+  type ExpressLikeRequest,
+  type ExpressLikeResponse,
+} from './express';
+
+export {
+  createFastifyHandler,
+  passageWebhookPlugin,
+  type FastifyLikeRequest,
+  type FastifyLikeReply,
+  type FastifyLikeInstance,
+} from './fastify';
+
+export { createFetchHandler, createNextRouteHandler } from './fetch';
@@ -0,0 +1,79 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  processWebhookRequest,
+  SIGNATURE_HEADER,
+  type WebhookAdapterOptions,
+  type WebhookAdapterResponse,
+} from './core';
+
+/**
+ * Read the full body of a Node.js request
+ */
+export function readRawBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer | string) => {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+    req.on('close', () => {
+      if (!req.readableEnded) {
+        reject(new Error('Request closed before the body was read'));
+      }
+    });
+  });
+}
+
+/**
+ * Write an adapter response to a Node.js ServerResponse
+ */
+export function sendNodeResponse(res: ServerResponse, response: WebhookAdapterResponse): void {
+  res.statusCode = response.status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(response.body));
+}
+
+/**
+ * Create a request listener for Node's built-in `http` module
+ *
+ * Also works for Next.js Pages Router API routes when body parsing is
+ * disabled (`export const config = { api: { bodyParser: false } }`).
+ * The returned promise never rejects: a request whose body can't be read
+ * (e.g. the client aborted) is answered with 400.
+ *
+ * @example
+ * ```typescript
+ * import http from 'http';
+ * import { createNodeHandler } from '@portola/passage-neobank/webhooks/adapters';
+ *
+ * const handleWebhook = createNodeHandler({ handler: webhooks, router });
+ *
+ * http.createServer((req, res) => {
+ *   if (req.method === 'POST' && req.url === '/webhooks/passage') {
+ *     return handleWebhook(req, res);
+ *   }
+ *   res.statusCode = 404;
+ *   res.end();
+ * }).listen(3000);
+ * ```
+ */
+export function createNodeHandler(
+  options: WebhookAdapterOptions
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    let rawBody: Buffer;
+    try {
+      rawBody = await readRawBody(req);
+    } catch (error) {
+      options.onError?.(error, 400);
+      sendNodeResponse(res, { status: 400, body: { received: false, error: 'Could not read request body' } });
+      return;
+    }
+    const response = await processWebhookRequest(options, {
+      rawBody,
+      signature: req.headers[SIGNATURE_HEADER],
+    });
+    sendNodeResponse(res, response);
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Storage backend for webhook deduplication
+ *
+ * Implementations must make `claim` atomic: when two deliveries of the same
+ * event race, exactly one claim may return `true`.
+ *
+ * @example Redis (ioredis)
+ * ```typescript
+ * const redisStore: WebhookDedupeStore = {
+ *   async claim(key, ttlSeconds) {
+ *     return (await redis.set(`passage:webhook:${key}`, '1', 'EX', ttlSeconds, 'NX')) === 'OK';
+ *   },
+ *   async release(key) {
+ *     await redis.del(`passage:webhook:${key}`);
+ *   },
+ * };
+ * ```
+ *
+ * @example SQL (unique constraint on key)
+ * ```typescript
+ * const sqlStore: WebhookDedupeStore = {
+ *   async claim(key, ttlSeconds) {
+ *     const { rowCount } = await db.query(
+ *       `INSERT INTO webhook_events (key, expires_at) VALUES ($1, now() + $2 * interval '1 second')
+ *        ON CONFLICT (key) DO UPDATE SET expires_at = EXCLUDED.expires_at
+ *        WHERE webhook_events.expires_at < now()`,
+ *       [key, ttlSeconds]
+ *     );
+ *     return rowCount === 1;
+ *   },
+ *   async release(key) {
+ *     await db.query('DELETE FROM webhook_events WHERE key = $1', [key]);
+ *   },
+ * };
+ * ```
+ */
+export interface WebhookDedupeStore {
+  /**
+   * Record a key if it has not been seen within its TTL
+   *
+   * @param key - Deduplication key (event ID or signature digest)
+   * @param ttlSeconds - How long the key should be remembered
+   * @returns true if the key was newly recorded, false if it is a duplicate
+   */
+  claim(key: string, ttlSeconds: number): boolean | Promise<boolean>;
+
+  /**
+   * Forget a key so a redelivery is processed again
+   *
+   * Called when handling an event failed and Passage should be allowed
+   * to redeliver it.
+   */
+  release(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for the in-memory dedupe store
+ */
+export interface InMemoryDedupeStoreOptions {
+  /**
+   * Maximum number of keys to remember; least recently claimed keys are
+   * evicted first
+   * @default 10000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory LRU dedupe store with per-key TTL
+ *
+ * Suitable for single-process deployments and tests. Use a shared store
+ * (Redis, SQL) when running multiple webhook workers.
+ *
+ * @example
+ * ```typescript
+ * import { WebhookHandler, InMemoryDedupeStore } from '@portola/passage-neobank/webhooks';
+ *
+ * const webhooks = new WebhookHandler({
+ *   secret: process.env.WEBHOOK_SECRET!,
+ *   dedupe: { store: new InMemoryDedupeStore({ maxEntries: 50000 }) },
+ * });
+ * ```
+ */
+export class InMemoryDedupeStore implements WebhookDedupeStore {
+  private readonly maxEntries: number;
+  // Map preserves insertion order, so the first key is the least recently claimed
+  private readonly entries = new Map<string, number>();
+
+  constructor(options: InMemoryDedupeStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10000;
+    if (this.maxEntries < 1) {
+      throw new Error('InMemoryDedupeStore: maxEntries must be at least 1');
+    }
+  }
+
+  claim(key: string, ttlSeconds: number): boolean {
+    const now = Date.now();
+    const expiresAt = this.entries.get(key);
+
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    // Re-insert to move the key to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, now + ttlSeconds * 1000);
+    this.evict(now);
+
+    return true;
+  }
+
+  release(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Number of keys currently remembered (including expired keys not yet evicted)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Forget all keys
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Drop expired keys from the head and enforce the size limit
+   */
+  private evict(now: number): void {
+    for (const [key, expiresAt] of this.entries) {
+      if (this.entries.size <= this.maxEntries && expiresAt > now) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
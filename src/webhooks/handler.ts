@@ -1,15 +1,94 @@
 import crypto from 'crypto';
 import type { WebhookEvent, WebhookEventType } from './types';
+import type { WebhookDedupeStore } from './dedupe';
+import type { WebhookValidationMode, WebhookValidationResult } from './validation';
+import { validateWebhookEvent, WebhookPayloadError } from './validation';
 import { PassageError } from '../errors';
 
 /**
- * Configuration for the webhook handler
+ * Deduplication settings for the webhook handler
  */
-export interface WebhookHandlerConfig {
+export interface WebhookDedupeConfig {
+  /** Store used to remember processed event IDs and signatures */
+  store: WebhookDedupeStore;
+  /**
+   * How long event IDs are remembered, in seconds.
+   * Should cover Passage's redelivery window.
+   * @default 86400 (24 hours)
+   */
+  ttl?: number;
+  /**
+   * What `receive()` does with duplicates:
+   * - 'reject': throw `WebhookDuplicateError`
+   * - 'flag': return the event with `duplicate: true`
+   * @default 'reject'
+   */
+  onDuplicate?: 'reject' | 'flag';
+}
+
+/**
+ * Webhook signing secret with optional metadata, for secret rotation
+ */
+export interface WebhookSecret {
   /** Webhook signing secret (starts with whsec_) */
   secret: string;
+  /** Label reported when this secret matches (e.g. 'current', '2024-Q3') */
+  id?: string;
+  /** When this secret stops being accepted (Date, ISO 8601 string or Unix ms) */
+  expiresAt?: Date | string | number;
+}
+
+/**
+ * Configuration for the webhook handler
+ */
+export interface WebhookHandlerConfig {
+  /**
+   * Webhook signing secret, or an ordered list of secrets during rotation.
+   *
+   * Secrets are tried in order; put the newest secret first. Expired
+   * secrets are skipped.
+   */
+  secret: string | Array<string | WebhookSecret>;
   /** Tolerance for timestamp validation in seconds (default: 300 = 5 minutes) */
   tolerance?: number;
+  /** Reject or flag redelivered and replayed events (used by `receive()`) */
+  dedupe?: WebhookDedupeConfig;
+  /**
+   * Validate event payloads against the SDK types:
+   * - 'strict': throw `WebhookPayloadError` on any issue or unknown field
+   * - 'lenient': report issues and unknown fields via `onValidationIssue`
+   * - 'off': no validation
+   * @default 'off'
+   */
+  validation?: WebhookValidationMode;
+  /** Called in 'lenient' mode when a payload has issues or unknown fields */
+  onValidationIssue?: (result: WebhookValidationResult, event: WebhookEvent) => void;
+}
+
+/**
+ * Result of a successful signature verification
+ */
+export interface WebhookVerificationResult {
+  /** Signature timestamp (Unix seconds) */
+  timestamp: number;
+  /** Index of the matching secret in the configured list */
+  secretIndex: number;
+  /** `id` of the matching secret, if one was configured */
+  secretId?: string;
+}
+
+/**
+ * Verified webhook event returned by `receive()`
+ */
+export interface ReceivedWebhookEvent<T = unknown> {
+  /** The verified, parsed event */
+  event: WebhookEvent<T>;
+  /** Which secret verified the signature */
+  verification: WebhookVerificationResult;
+  /** True if this event ID or signature was already processed (only with onDuplicate: 'flag') */
+  duplicate: boolean;
+  /** Payload validation result (unless validation is 'off') */
+  validation?: WebhookValidationResult;
 }
 
 /**
@@ -24,6 +103,22 @@ export class WebhookSignatureError extends PassageError {
   }
 }
 
+/**
+ * Error thrown when a webhook event has already been processed
+ */
+export class WebhookDuplicateError extends PassageError {
+  /** ID of the duplicate event */
+  readonly eventId: string;
+
+  constructor(eventId: string) {
+    super(`Webhook event ${eventId} has already been processed`, {
+      errorCode: 'WEBHOOK_DUPLICATE',
+    });
+    this.name = 'WebhookDuplicateError';
+    this.eventId = eventId;
+  }
+}
+
 /**
  * Webhook handler for verifying and parsing Passage webhooks
  *
@@ -63,15 +158,45 @@ export class WebhookSignatureError extends PassageError {
  * ```
  */
 export class WebhookHandler {
-  private secret: string;
+  private secrets: Array<{ secret: string; id?: string; expiresAt?: number }>;
   private tolerance: number;
+  private dedupe?: Required<WebhookDedupeConfig>;
+  private validation: WebhookValidationMode;
+  private onValidationIssue?: WebhookHandlerConfig['onValidationIssue'];
 
   constructor(config: WebhookHandlerConfig) {
-    if (!config.secret) {
+    const secrets = Array.isArray(config.secret) ? config.secret : [config.secret];
+    if (secrets.length === 0) {
       throw new Error('WebhookHandler: secret is required');
     }
-    this.secret = config.secret;
+
+    this.secrets = secrets.map((entry) => {
+      const normalized = typeof entry === 'string' ? { secret: entry } : entry;
+      if (!normalized.secret) {
+        throw new Error('WebhookHandler: secret is required');
+      }
+
+      let expiresAt: number | undefined;
+      if (normalized.expiresAt !== undefined) {
+        expiresAt = new Date(normalized.expiresAt).getTime();
+        if (Number.isNaN(expiresAt)) {
+          throw new Error('WebhookHandler: invalid secret expiresAt');
+        }
+      }
+
+      return { secret: normalized.secret, id: normalized.id, expiresAt };
+    });
     this.tolerance = config.tolerance ?? 300; // 5 minutes default
+    this.validation = config.validation ?? 'off';
+    this.onValidationIssue = config.onValidationIssue;
+
+    if (config.dedupe) {
+      this.dedupe = {
+        store: config.dedupe.store,
+        ttl: config.dedupe.ttl ?? 86400, // 24 hours default
+        onDuplicate: config.dedupe.onDuplicate ?? 'reject',
+      };
+    }
   }
 
   /**
@@ -81,30 +206,215 @@ export class WebhookHandler {
    * @param signature - Value of x-passage-signature header
    * @returns Parsed and verified webhook event
    * @throws WebhookSignatureError if signature is invalid
+   * @throws WebhookPayloadError if validation is 'strict' and the payload is invalid
    */
   constructEvent<T = unknown>(payload: string, signature: string): WebhookEvent<T> {
     this.verifySignature(payload, signature);
-    return JSON.parse(payload) as WebhookEvent<T>;
+    return this.parseEvent<T>(payload).event;
+  }
+
+  /**
+   * Like `constructEvent`, but verifies with WebCrypto (`crypto.subtle`)
+   * instead of Node's HMAC functions
+   *
+   * @param payload - Raw request body as string
+   * @param signature - Value of x-passage-signature header
+   * @returns Parsed and verified webhook event
+   * @throws WebhookSignatureError if signature is invalid
+   * @throws WebhookPayloadError if validation is 'strict' and the payload is invalid
+   */
+  async constructEventAsync<T = unknown>(payload: string, signature: string): Promise<WebhookEvent<T>> {
+    await this.verifySignatureAsync(payload, signature);
+    return this.parseEvent<T>(payload).event;
+  }
+
+  /**
+   * Verify signature, construct the event and check it against the dedupe store
+   *
+   * Both the event ID and the signature are recorded, so Passage redeliveries
+   * (same ID, new signature) and replayed requests (same signature) are caught.
+   * Without a `dedupe` config this behaves like `constructEventAsync`.
+   *
+   * If handling the event fails, call `release(event, signature)` so a
+   * redelivery is processed again.
+   *
+   * @param payload - Raw request body as string
+   * @param signature - Value of x-passage-signature header
+   * @returns The event and whether it is a duplicate
+   * @throws WebhookSignatureError if signature is invalid
+   * @throws WebhookDuplicateError if the event is a duplicate and onDuplicate is 'reject'
+   * @throws WebhookPayloadError if validation is 'strict' and the payload is invalid
+   *
+   * @example
+   * ```typescript
+   * const webhooks = new WebhookHandler({
+   *   secret: process.env.WEBHOOK_SECRET!,
+   *   dedupe: { store: new InMemoryDedupeStore(), onDuplicate: 'flag' },
+   * });
+   *
+   * const { event, duplicate } = await webhooks.receive(body, signature);
+   * if (duplicate) {
+   *   return new Response('OK', { status: 200 }); // Already processed
+   * }
+   *
+   * try {
+   *   await processEvent(event);
+   * } catch (error) {
+   *   await webhooks.release(event, signature);
+   *   throw error;
+   * }
+   * ```
+   */
+  async receive<T = unknown>(
+    payload: string,
+    signature: string
+  ): Promise<ReceivedWebhookEvent<T>> {
+    const verification = await this.verifySignatureAsync(payload, signature);
+    const { event, validation } = this.parseEvent<T>(payload);
+
+    if (!this.dedupe) {
+      return { event, verification, duplicate: false, validation };
+    }
+
+    const { store, ttl, onDuplicate } = this.dedupe;
+    const eventKey = this.eventKey(event.id);
+    const signatureKey = await this.signatureKey(signature);
+
+    // Signatures are only valid within the tolerance window, so they don't
+    // need to be remembered longer than that. The signature key still catches
+    // replays if the event key was evicted or configured with a short TTL.
+    const duplicate =
+      !(await store.claim(eventKey, ttl)) ||
+      !(await store.claim(signatureKey, this.tolerance * 2));
+
+    if (duplicate && onDuplicate === 'reject') {
+      throw new WebhookDuplicateError(event.id);
+    }
+
+    return { event, verification, duplicate, validation };
+  }
+
+  /**
+   * Forget a received event so a redelivery is processed again
+   *
+   * Call this when processing an event failed. Pass the signature header
+   * `receive()` was given too; otherwise the same signed request delivered
+   * again within the tolerance window is still taken for a replay. No-op
+   * without a `dedupe` config.
+   *
+   * @param event - The received event
+   * @param signature - Value of x-passage-signature header
+   */
+  async release(event: Pick<WebhookEvent, 'id'>, signature?: string): Promise<void> {
+    if (!this.dedupe) {
+      return;
+    }
+    await this.dedupe.store.release(this.eventKey(event.id));
+    if (signature) {
+      await this.dedupe.store.release(await this.signatureKey(signature));
+    }
   }
 
   /**
    * Verify webhook signature
    *
+   * The header may carry several `v1=` signatures (e.g. while Passage signs
+   * with both the old and new secret during rotation). Verification succeeds
+   * if any signature matches any active secret.
+   *
    * @param payload - Raw request body as string
    * @param signature - Value of x-passage-signature header
+   * @returns Timestamp and which secret matched
    * @throws WebhookSignatureError if signature is invalid
    */
-  verifySignature(payload: string, signature: string): void {
+  verifySignature(payload: string, signature: string): WebhookVerificationResult {
+    const { timestamp, signedPayload, signatures, secrets } = this.parseSignature(payload, signature);
+    const sigBuffers = signatures.map((sig) => Buffer.from(sig, 'hex'));
+
+    for (const { secret, id, index } of secrets) {
+      // Compute expected signature
+      const expectedSigBuffer = crypto
+        .createHmac('sha256', secret)
+        .update(signedPayload)
+        .digest();
+
+      // Timing-safe comparison
+      // Note: Must check buffer lengths first - timingSafeEqual throws if lengths differ
+      const matched = sigBuffers.some(
+        (sigBuffer) =>
+          sigBuffer.length === expectedSigBuffer.length &&
+          crypto.timingSafeEqual(sigBuffer, expectedSigBuffer)
+      );
+
+      if (matched) {
+        return { timestamp, secretIndex: index, secretId: id };
+      }
+    }
+
+    throw new WebhookSignatureError('Signature verification failed');
+  }
+
+  /**
+   * Verify webhook signature with WebCrypto (`crypto.subtle`)
+   *
+   * Same rules as `verifySignature`. `crypto.subtle.verify` compares in
+   * constant time.
+   *
+   * @param payload - Raw request body as string
+   * @param signature - Value of x-passage-signature header
+   * @returns Timestamp and which secret matched
+   * @throws WebhookSignatureError if signature is invalid
+   */
+  async verifySignatureAsync(payload: string, signature: string): Promise<WebhookVerificationResult> {
+    const { timestamp, signedPayload, signatures, secrets } = this.parseSignature(payload, signature);
+    const subtle = webCrypto();
+    const encoder = new TextEncoder();
+    const data = encoder.encode(signedPayload);
+    const sigBytes = signatures.map(hexToBytes).filter((bytes): bytes is Uint8Array => bytes !== undefined);
+
+    for (const { secret, id, index } of secrets) {
+      const key = await subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+
+      for (const bytes of sigBytes) {
+        if (await subtle.verify('HMAC', key, bytes, data)) {
+          return { timestamp, secretIndex: index, secretId: id };
+        }
+      }
+    }
+
+    throw new WebhookSignatureError('Signature verification failed');
+  }
+
+  /**
+   * Check the signature header's format and timestamp
+   *
+   * @returns The signed payload, the header's `v1` signatures and the secrets to try
+   */
+  private parseSignature(
+    payload: string,
+    signature: string
+  ): {
+    timestamp: number;
+    signedPayload: string;
+    signatures: string[];
+    secrets: Array<{ secret: string; id?: string; index: number }>;
+  } {
     if (!signature) {
       throw new WebhookSignatureError('Missing signature header');
     }
 
-    // Parse signature header: t=timestamp,v1=signature
-    const parts = signature.split(',');
+    // Parse signature header: t=timestamp,v1=signature[,v1=signature...]
+    const parts = signature.split(',').map((p) => p.trim());
     const timestamp = parts.find((p) => p.startsWith('t='))?.slice(2);
-    const sig = parts.find((p) => p.startsWith('v1='))?.slice(3);
+    const sigs = parts.filter((p) => p.startsWith('v1=')).map((p) => p.slice(3));
 
-    if (!timestamp || !sig) {
+    if (!timestamp || sigs.length === 0) {
       throw new WebhookSignatureError('Invalid signature format');
     }
 
@@ -116,30 +426,80 @@ export class WebhookHandler {
       throw new WebhookSignatureError('Timestamp outside tolerance window');
     }
 
-    // Compute expected signature
-    const signedPayload = `${timestamp}.${payload}`;
-    const expectedSig = crypto
-      .createHmac('sha256', this.secret)
-      .update(signedPayload)
-      .digest('hex');
-
-    // Timing-safe comparison
-    // Note: Must check buffer lengths first - timingSafeEqual throws if lengths differ
-    const sigBuffer = Buffer.from(sig, 'hex');
-    const expectedSigBuffer = Buffer.from(expectedSig, 'hex');
-
-    if (
-      sigBuffer.length !== expectedSigBuffer.length ||
-      !crypto.timingSafeEqual(sigBuffer, expectedSigBuffer)
-    ) {
-      throw new WebhookSignatureError('Signature verification failed');
+    const activeSecrets = this.activeSecrets();
+
+    if (activeSecrets.length === 0) {
+      throw new WebhookSignatureError('All webhook secrets have expired');
+    }
+
+    return {
+      timestamp: timestampNum,
+      signedPayload: `${timestamp}.${payload}`,
+      signatures: sigs,
+      secrets: activeSecrets,
+    };
+  }
+
+  /**
+   * Parse the payload and validate it according to the validation mode
+   */
+  private parseEvent<T>(payload: string): {
+    event: WebhookEvent<T>;
+    validation?: WebhookValidationResult;
+  } {
+    const event = JSON.parse(payload) as WebhookEvent<T>;
+
+    if (this.validation === 'off') {
+      return { event };
+    }
+
+    const validation = validateWebhookEvent(event);
+
+    if (this.validation === 'strict') {
+      const issues = [
+        ...validation.issues,
+        ...validation.unknownFields.map((path) => ({ path, message: 'Unknown field' })),
+      ];
+      if (issues.length > 0) {
+        throw new WebhookPayloadError(issues, event);
+      }
+    } else if (!validation.valid || validation.unknownFields.length > 0) {
+      this.onValidationIssue?.(validation, event);
     }
+
+    return { event, validation };
+  }
+
+  /**
+   * Secrets that have not expired, with their position in the configured list
+   */
+  private activeSecrets(): Array<{ secret: string; id?: string; index: number }> {
+    const now = Date.now();
+    return this.secrets
+      .map((entry, index) => ({ secret: entry.secret, id: entry.id, index, expiresAt: entry.expiresAt }))
+      .filter((entry) => entry.expiresAt === undefined || entry.expiresAt > now);
+  }
+
+  /**
+   * Dedupe key for an event ID
+   */
+  private eventKey(eventId: string): string {
+    return `event:${eventId}`;
+  }
+
+  /**
+   * Dedupe key for a signature header (hashed to keep keys short)
+   */
+  private async signatureKey(signature: string): Promise<string> {
+    const digest = await webCrypto().digest('SHA-256', new TextEncoder().encode(signature));
+    return `sig:${bytesToHex(new Uint8Array(digest))}`;
   }
 
   /**
    * Generate test headers for webhook testing
    *
    * Useful for writing unit tests for your webhook handlers.
+   * Signs with the first active secret.
    *
    * @param payload - The webhook payload to sign
    * @returns Object with x-passage-signature header value
@@ -171,12 +531,45 @@ export class WebhookHandler {
    * ```
    */
   generateTestHeaders(payload: string): { 'x-passage-signature': string } {
+    const [primary] = this.activeSecrets();
+    if (!primary) {
+      throw new Error('WebhookHandler: all webhook secrets have expired');
+    }
+
     const timestamp = Math.floor(Date.now() / 1000);
     const signedPayload = `${timestamp}.${payload}`;
-    const signature = crypto.createHmac('sha256', this.secret).update(signedPayload).digest('hex');
+    const signature = crypto.createHmac('sha256', primary.secret).update(signedPayload).digest('hex');
 
     return {
       'x-passage-signature': `t=${timestamp},v1=${signature}`,
     };
   }
 }
+
+/**
+ * The runtime's WebCrypto implementation
+ *
+ * Node 18 has no `crypto` global, only `require('crypto').webcrypto`.
+ */
+function webCrypto(): typeof globalThis.crypto.subtle {
+  const subtle = globalThis.crypto?.subtle ?? (crypto.webcrypto?.subtle as typeof globalThis.crypto.subtle | undefined);
+  if (!subtle) {
+    throw new Error('WebhookHandler: WebCrypto (crypto.subtle) is not available in this runtime');
+  }
+  return subtle;
+}
+
+function hexToBytes(hex: string): Uint8Array | undefined {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return undefined;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -7,6 +7,11 @@
 export type {
   WebhookEventType,
   WebhookEvent,
+  WebhookEventMap,
+  TypedWebhookEvent,
+  WebhookEventPattern,
+  WebhookEventPrefix,
+  WebhookEventTypesMatching,
   // Application events
   ApplicationCreatedData,
   ApplicationRoutedData,
@@ -57,4 +62,48 @@ export type {
   TestWebhookData,
 } from './types';
 
-export { WebhookHandler, WebhookSignatureError, type WebhookHandlerConfig } from './handler';
+export { WEBHOOK_EVENT_TYPES, isWebhookEventType } from './types';
+
+export {
+  WebhookHandler,
+  WebhookSignatureError,
+  WebhookDuplicateError,
+  type WebhookHandlerConfig,
+  type WebhookSecret,
+  type WebhookVerificationResult,
+  type WebhookDedupeConfig,
+  type ReceivedWebhookEvent,
+} from './handler';
+
+export {
+  validateWebhookEvent,
+  WebhookPayloadError,
+  type WebhookValidationMode,
+  type WebhookValidationIssue,
+  type WebhookValidationResult,
+} from './validation';
+
+export {
+  InMemoryDedupeStore,
+  type WebhookDedupeStore,
+  type InMemoryDedupeStoreOptions,
+} from './dedupe';
+
+export {
+  WebhookRouter,
+  type WebhookEventHandler,
+  type WebhookHandlerOutcome,
+  type WebhookDispatchResult,
+} from './router';
+
+export {
+  WebhookSimulator,
+  LOAN_LIFECYCLE_EVENTS,
+  type WebhookSimulatorConfig,
+  type WebhookSimulatorIds,
+  type WebhookSimulatorStep,
+  type WebhookSimulatorTarget,
+  type WebhookBuildOptions,
+  type SignedWebhookRequest,
+  type SimulatedWebhookDelivery,
+} from './simulator';
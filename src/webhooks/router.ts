@@ -0,0 +1,192 @@
+import type {
+  WebhookEvent,
+  WebhookEventPattern,
+  WebhookEventTypesMatching,
+  TypedWebhookEvent,
+} from './types';
+import { isWebhookEventType } from './types';
+
+/**
+ * Handler function for a webhook event
+ */
+export type WebhookEventHandler<E = WebhookEvent<unknown>> = (
+  event: E
+) => void | Promise<void>;
+
+/**
+ * Outcome of a single handler run during dispatch
+ */
+export interface WebhookHandlerOutcome {
+  /** Pattern the handler was registered with ('fallback' for the fallback handler) */
+  pattern: WebhookEventPattern | 'fallback';
+  /** Whether the handler completed without throwing */
+  ok: boolean;
+  /** Error thrown by the handler (if any) */
+  error?: unknown;
+}
+
+/**
+ * Result of dispatching a webhook event
+ */
+export interface WebhookDispatchResult {
+  /** The dispatched event */
+  event: WebhookEvent<unknown>;
+  /** Handlers that ran, in execution order */
+  handlers: WebhookHandlerOutcome[];
+  /** True if no registered handler matched and the fallback ran */
+  fallback: boolean;
+  /** True if every handler that ran completed without throwing */
+  ok: boolean;
+}
+
+interface Registration {
+  pattern: WebhookEventPattern;
+  handler: WebhookEventHandler<never>;
+}
+
+/**
+ * Check whether a pattern matches an event type
+ */
+function matchesPattern(pattern: WebhookEventPattern, eventType: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (pattern.endsWith('.*')) {
+    return eventType.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === eventType;
+}
+
+/**
+ * Typed dispatcher for verified webhook events
+ *
+ * Handlers are registered per event type (or wildcard pattern) and receive
+ * the event with `data` already narrowed to the matching interface, so no
+ * casts are needed.
+ *
+ * Handlers run sequentially in registration order. A throwing handler does
+ * not stop the remaining handlers; its error is reported in the result.
+ *
+ * @example
+ * ```typescript
+ * import { WebhookHandler, WebhookRouter } from '@portola/passage-neobank/webhooks';
+ *
+ * const webhooks = new WebhookHandler({ secret: process.env.WEBHOOK_SECRET! });
+ *
+ * const router = new WebhookRouter()
+ *   .on('loan.created', async (event) => {
+ *     await db.loans.insert({ id: event.data.loanId, principal: event.data.principal });
+ *   })
+ *   .on('funding.*', (event) => {
+ *     console.log(`Funding update for ${event.data.applicationId}: ${event.event}`);
+ *   })
+ *   .fallback((event) => {
+ *     console.warn('Unhandled webhook event:', event.event);
+ *   });
+ *
+ * const event = webhooks.constructEvent(body, signature);
+ * const result = await router.dispatch(event);
+ *
+ * if (!result.ok) {
+ *   // Respond with 5xx so Passage redelivers the event
+ * }
+ * ```
+ */
+export class WebhookRouter {
+  private registrations: Registration[] = [];
+  private fallbackHandler?: WebhookEventHandler<WebhookEvent<unknown>>;
+
+  /**
+   * Register a handler for an event type or wildcard pattern
+   *
+   * @param pattern - Exact event type, prefix wildcard (e.g. 'funding.*') or '*'
+   * @param handler - Handler receiving the typed event
+   */
+  on<P extends WebhookEventPattern>(
+    pattern: P,
+    handler: WebhookEventHandler<TypedWebhookEvent<WebhookEventTypesMatching<P>>>
+  ): this {
+    this.registrations.push({ pattern, handler: handler as WebhookEventHandler<never> });
+    return this;
+  }
+
+  /**
+   * Remove a previously registered handler
+   */
+  off<P extends WebhookEventPattern>(
+    pattern: P,
+    handler: WebhookEventHandler<TypedWebhookEvent<WebhookEventTypesMatching<P>>>
+  ): this {
+    this.registrations = this.registrations.filter(
+      (r) => !(r.pattern === pattern && r.handler === handler)
+    );
+    return this;
+  }
+
+  /**
+   * Register a fallback handler
+   *
+   * Runs when no registered handler matches the event, including event
+   * types this SDK version does not know about yet.
+   */
+  fallback(handler: WebhookEventHandler<WebhookEvent<unknown>>): this {
+    this.fallbackHandler = handler;
+    return this;
+  }
+
+  /**
+   * Check whether any handler (excluding the fallback) matches an event type
+   */
+  handles(eventType: string): boolean {
+    return this.registrations.some((r) => matchesPattern(r.pattern, eventType));
+  }
+
+  /**
+   * Dispatch a verified event to all matching handlers
+   *
+   * Unknown event types are only matched by '*' handlers and the fallback.
+   *
+   * @param event - Event returned by `WebhookHandler.constructEvent`
+   * @returns Which handlers ran and whether they succeeded
+   */
+  async dispatch(event: WebhookEvent<unknown>): Promise<WebhookDispatchResult> {
+    const known = isWebhookEventType(event.event);
+    const matching = this.registrations.filter(
+      (r) => (known || r.pattern === '*') && matchesPattern(r.pattern, event.event)
+    );
+
+    const handlers: WebhookHandlerOutcome[] = [];
+
+    for (const registration of matching) {
+      handlers.push(await this.run(registration.pattern, registration.handler, event));
+    }
+
+    const useFallback = matching.length === 0 && this.fallbackHandler !== undefined;
+    if (useFallback) {
+      handlers.push(await this.run('fallback', this.fallbackHandler!, event));
+    }
+
+    return {
+      event,
+      handlers,
+      fallback: useFallback,
+      ok: handlers.every((h) => h.ok),
+    };
+  }
+
+  /**
+   * Run a single handler, capturing any error
+   */
+  private async run(
+    pattern: WebhookHandlerOutcome['pattern'],
+    handler: WebhookEventHandler<never>,
+    event: WebhookEvent<unknown>
+  ): Promise<WebhookHandlerOutcome> {
+    try {
+      await (handler as WebhookEventHandler<WebhookEvent<unknown>>)(event);
+      return { pattern, ok: true };
+    } catch (error) {
+      return { pattern, ok: false, error };
+    }
+  }
+}
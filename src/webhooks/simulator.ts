@@ -0,0 +1,585 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import type { WebhookEventMap, WebhookEventType, TypedWebhookEvent } from './types';
+import { WebhookHandler } from './handler';
+import type { WebhookAdapterOptions } from './adapters/core';
+import { processWebhookRequest, SIGNATURE_HEADER } from './adapters/core';
+
+/**
+ * Resource IDs shared by every event a simulator builds, so a sequence of
+ * events describes one application
+ */
+export interface WebhookSimulatorIds {
+  applicationId: string;
+  lenderId: string;
+  offerId: string;
+  fundingId: string;
+  loanId: string;
+  walletId: string;
+  verificationId: string;
+}
+
+/**
+ * Configuration for the webhook simulator
+ */
+export interface WebhookSimulatorConfig {
+  /** Webhook signing secret (the one your handler verifies against) */
+  secret: string;
+  /** Override generated resource IDs */
+  ids?: Partial<WebhookSimulatorIds>;
+  /** Clock used for event timestamps (default: current time) */
+  now?: () => Date;
+}
+
+/**
+ * Options for building a single event
+ */
+export interface WebhookBuildOptions {
+  /** Event ID (default: random `evt_*`) */
+  id?: string;
+  /** Event timestamp (default: the simulator clock) */
+  timestamp?: Date;
+  /** Correlation ID for tracing */
+  correlationId?: string;
+}
+
+/**
+ * A signed webhook request, ready to send
+ */
+export interface SignedWebhookRequest {
+  /** Raw JSON body */
+  payload: string;
+  /** Request headers, including the signature */
+  headers: {
+    'content-type': 'application/json';
+    'x-passage-signature': string;
+  };
+}
+
+/**
+ * Where the simulator delivers events: a URL (HTTP POST) or adapter
+ * options (in-process, no server needed)
+ */
+export type WebhookSimulatorTarget = string | WebhookAdapterOptions;
+
+/**
+ * Result of delivering a simulated event
+ */
+export interface SimulatedWebhookDelivery {
+  /** The delivered event */
+  event: TypedWebhookEvent;
+  /** HTTP status code returned by the target */
+  status: number;
+  /** Response body returned by the target */
+  body: unknown;
+}
+
+/**
+ * A step in a scripted sequence: an event type, or a type with data overrides
+ */
+export type WebhookSimulatorStep =
+  | WebhookEventType
+  | { [K in WebhookEventType]: { type: K; data?: Partial<WebhookEventMap[K]> } }[WebhookEventType];
+
+/**
+ * Event types of a full lifecycle, from application to loan payoff
+ */
+export const LOAN_LIFECYCLE_EVENTS = [
+  'application.created',
+  'application.routed',
+  'prequal_offer.received',
+  'prequal_offer.accepted',
+  'final_offer.required',
+  'final_offer.received',
+  'final_offer.accepted',
+  'signing.ready',
+  'signing.completed',
+  'funding.required',
+  'funding.disbursing',
+  'funding.disbursed',
+  'loan.created',
+  'loan.repayment_address_ready',
+  'loan.repayment_received',
+  'loan.paid_off',
+] as const satisfies readonly WebhookEventType[];
+
+type DataFactory<K extends WebhookEventType> = (
+  ids: WebhookSimulatorIds,
+  at: string
+) => WebhookEventMap[K];
+
+const WALLET_ADDRESS = '0x71C7656EC7ab88b098defB751B7401B5f6d8976F';
+const TX_HASH = '0x9fc76417374aa880d4449a1f7f31ec597f00b1f6f3dd2d66f4c9c6c445836d8b';
+
+/**
+ * Realistic default data for every event type
+ */
+const defaults: { [K in WebhookEventType]: DataFactory<K> } = {
+  'application.created': (ids, at) => ({
+    applicationId: ids.applicationId,
+    productType: 'personal',
+    routedAt: at,
+  }),
+  'application.routed': (ids, at) => ({
+    applicationId: ids.applicationId,
+    lenderIds: [ids.lenderId],
+    routedAt: at,
+  }),
+  'application.approved': (ids, at) => ({
+    applicationId: ids.applicationId,
+    approvedAt: at,
+    status: 'APPROVED',
+    fundingAmount: '5000.00',
+  }),
+  'application.rejected': (ids, at) => ({
+    applicationId: ids.applicationId,
+    rejectedAt: at,
+    reason: 'Does not meet credit criteria',
+    status: 'REJECTED',
+  }),
+  'application.declined': (ids, at) => ({
+    applicationId: ids.applicationId,
+    lenderId: ids.lenderId,
+    declinedAt: at,
+  }),
+  'offer.received': (ids, at) => ({
+    applicationId: ids.applicationId,
+    offerId: ids.offerId,
+    lenderId: ids.lenderId,
+    loanAmount: '5000.00',
+    interestRate: '12.99',
+    monthlyPayment: '168.45',
+    termMonths: 36,
+    expiresAt: addDays(at, 30),
+  }),
+  'offer.accepted': (ids, at) => ({
+    applicationId: ids.applicationId,
+    offerId: ids.offerId,
+    lenderId: ids.lenderId,
+    acceptedAt: at,
+  }),
+  'offer.rejected': (ids, at) => ({
+    applicationId: ids.applicationId,
+    offerId: ids.offerId,
+    rejectedAt: at,
+    reason: 'Another offer was accepted',
+    status: 'REJECTED',
+    timestamp: at,
+  }),
+  'prequal_offer.received': (ids, at) => ({
+    applicationId: ids.applicationId,
+    lenderId: ids.lenderId,
+    offerCount: 2,
+    receivedAt: at,
+  }),
+  'prequal_offer.accepted': (ids, at) => ({
+    applicationId: ids.applicationId,
+    offerId: ids.offerId,
+    lenderId: ids.lenderId,
+    acceptedAt: at,
+  }),
+  'final_offer.received': (ids, at) => ({
+    applicationId: ids.applicationId,
+    lenderId: ids.lenderId,
+    offerCount: 1,
+    receivedAt: at,
+  }),
+  'final_offer.required': (ids, at) => ({
+    applicationId: ids.applicationId,
+    lenderId: ids.lenderId,
+    acceptedPrequalOfferId: ids.offerId,
+    hardPullConsentAt: at,
+  }),
+  'final_offer.accepted': (ids, at) => ({
+    applicationId: ids.applicationId,
+    offerId: ids.offerId,
+    lenderId: ids.lenderId,
+    acceptedAt: at,
+  }),
+  'esign.required': (ids, at) => ({
+    applicationId: ids.applicationId,
+    documentType: 'loan_agreement',
+    unsignedDocumentHandle: `sdx_unsigned_${ids.applicationId}`,
+    action: 'signature_required',
+    timestamp: at,
+  }),
+  'esign.completed': (ids, at) => ({
+    applicationId: ids.applicationId,
+    documentType: 'loan_agreement',
+    signedDocumentHandle: `sdx_signed_${ids.applicationId}`,
+    signatureStatus: 'completed',
+    timestamp: at,
+  }),
+  'signing.ready': (ids, at) => ({
+    applicationId: ids.applicationId,
+    sessionId: `sess_${ids.applicationId}`,
+    signingUrl: `https://sign.example.com/s/${ids.applicationId}`,
+    timestamp: at,
+  }),
+  'signing.completed': (ids, at) => ({
+    applicationId: ids.applicationId,
+    signedDocumentHandle: `sdx_signed_${ids.applicationId}`,
+    documentType: 'loan_agreement_signed',
+    timestamp: at,
+  }),
+  'kyc.attestation_available': (ids, at) => ({
+    applicationId: ids.applicationId,
+    documentType: 'kyc',
+    kycDocumentHandle: `sdx_kyc_${ids.applicationId}`,
+    documentsAvailable: true,
+    timestamp: at,
+  }),
+  'funding.initiated': (ids, at) => ({
+    applicationId: ids.applicationId,
+    offerId: ids.offerId,
+    fundingAmount: '5000.00',
+    initiatedAt: at,
+  }),
+  'funding.completed': (ids, at) => ({
+    applicationId: ids.applicationId,
+    offerId: ids.offerId,
+    fundingAmount: '5000.00',
+    completedAt: at,
+    transactionReference: TX_HASH,
+  }),
+  'funding.failed': (ids, at) => ({
+    applicationId: ids.applicationId,
+    offerId: ids.offerId,
+    failedAt: at,
+    reason: 'Transfer rejected',
+  }),
+  'funding.required': (ids, at) => ({
+    applicationId: ids.applicationId,
+    fundingId: ids.fundingId,
+    amount: '5000.00',
+    currency: 'USDC',
+    signedAt: at,
+  }),
+  'funding.disbursing': (ids, at) => ({
+    fundingId: ids.fundingId,
+    applicationId: ids.applicationId,
+    amount: '5000.00',
+    blockchain: 'base',
+    recipientAddress: WALLET_ADDRESS,
+    initiatedAt: at,
+  }),
+  'funding.disbursed': (ids, at) => ({
+    fundingId: ids.fundingId,
+    applicationId: ids.applicationId,
+    amount: '5000.00',
+    txHash: TX_HASH,
+    blockchain: 'base',
+    completedAt: at,
+  }),
+  'funding.declined': (ids) => ({
+    applicationId: ids.applicationId,
+    fundingId: ids.fundingId,
+    reason: 'Lender declined to fund',
+  }),
+  'funding.insufficient_balance': (ids) => ({
+    fundingId: ids.fundingId,
+    applicationId: ids.applicationId,
+    requiredAmount: '5000.00',
+    availableBalance: '1200.00',
+    currency: 'USDC',
+  }),
+  'loan.created': (ids, at) => ({
+    loanId: ids.loanId,
+    fundingId: ids.fundingId,
+    applicationId: ids.applicationId,
+    principal: '5000.00',
+    annualRate: '12.99',
+    termMonths: 36,
+    monthlyPayment: '168.45',
+    firstPaymentDue: addDays(at, 30),
+    maturityDate: addDays(at, 36 * 30),
+    repaymentAddress: null,
+    createdAt: at,
+  }),
+  'loan.creation_failed': (ids) => ({
+    fundingId: ids.fundingId,
+    applicationId: ids.applicationId,
+    reason: 'INTERNAL_ERROR',
+    message: 'Loan record could not be created',
+  }),
+  'loan.repayment_address_ready': (ids, at) => ({
+    loanId: ids.loanId,
+    applicationId: ids.applicationId,
+    repaymentAddress: WALLET_ADDRESS,
+    repaymentChain: 'base',
+    createdAt: at,
+  }),
+  'loan.repayment_received': (ids, at) => ({
+    loanId: ids.loanId,
+    repaymentId: `rep_${ids.loanId}`,
+    applicationId: ids.applicationId,
+    amount: '168.45',
+    currency: 'USDC',
+    principalPortion: '114.33',
+    interestPortion: '54.12',
+    balanceAfter: '4885.67',
+    depositTxHash: TX_HASH,
+    receivedAt: at,
+  }),
+  'loan.paid_off': (ids, at) => ({
+    loanId: ids.loanId,
+    applicationId: ids.applicationId,
+    totalPaid: '6064.20',
+    paidOffAt: at,
+  }),
+  'loan.status_changed': (ids, at) => ({
+    loanId: ids.loanId,
+    applicationId: ids.applicationId,
+    previousStatus: 'ACTIVE',
+    newStatus: 'DELINQUENT',
+    changedAt: at,
+  }),
+  'loan.infrastructure_failed': (ids) => ({
+    loanId: ids.loanId,
+    applicationId: ids.applicationId,
+    error: 'TIMEOUT',
+    message: 'Repayment address creation timed out',
+    retryCount: 3,
+  }),
+  'wallet.verification.initiated': (ids) => ({
+    verificationId: ids.verificationId,
+    walletId: ids.walletId,
+    walletAddress: WALLET_ADDRESS,
+    method: 'MESSAGE_SIGN',
+    status: 'PENDING',
+  }),
+  'wallet.verification.completed': (ids, at) => ({
+    verificationId: ids.verificationId,
+    walletId: ids.walletId,
+    walletAddress: WALLET_ADDRESS,
+    method: 'MESSAGE_SIGN',
+    status: 'VERIFIED',
+    completedAt: at,
+  }),
+  'wallet.verification.failed': (ids) => ({
+    verificationId: ids.verificationId,
+    walletId: ids.walletId,
+    walletAddress: WALLET_ADDRESS,
+    method: 'MESSAGE_SIGN',
+    status: 'FAILED',
+    failureReason: 'Signature does not match wallet address',
+  }),
+  'wallet.verification.expired': (ids) => ({
+    verificationId: ids.verificationId,
+    walletId: ids.walletId,
+    walletAddress: WALLET_ADDRESS,
+    method: 'MESSAGE_SIGN',
+    status: 'EXPIRED',
+  }),
+  'wallet.verification.revoked': (ids) => ({
+    verificationId: ids.verificationId,
+    walletId: ids.walletId,
+    walletAddress: WALLET_ADDRESS,
+    method: 'MESSAGE_SIGN',
+    status: 'FAILED',
+    reason: 'Wallet flagged by compliance',
+    revokedBy: 'admin@tryportola.com',
+  }),
+  test: (_ids, at) => ({
+    message: 'This is a test webhook from Passage',
+    timestamp: at,
+  }),
+};
+
+/**
+ * Local webhook simulator for integration tests
+ *
+ * Builds realistic, schema-valid events for every webhook event type,
+ * signs them with your webhook secret, and delivers them to a URL or
+ * in-process to a webhook adapter. All events from one simulator share
+ * the same application, loan and funding IDs; create a new simulator for
+ * each independent scenario.
+ *
+ * @example
+ * ```typescript
+ * import { WebhookSimulator } from '@portola/passage-neobank/webhooks';
+ *
+ * const simulator = new WebhookSimulator({ secret: 'whsec_test' });
+ *
+ * // Build a single event with overrides
+ * const event = simulator.build('funding.disbursed', { amount: '500' });
+ *
+ * // POST it to a local server
+ * await simulator.send('http://localhost:3000/webhooks', event);
+ *
+ * // Or run a full application → loan.paid_off lifecycle in-process
+ * const deliveries = await simulator.run({ handler, router }, simulator.lifecycle());
+ * ```
+ */
+export class WebhookSimulator {
+  /** Resource IDs used in built events */
+  readonly ids: WebhookSimulatorIds;
+  private signer: WebhookHandler;
+  private now: () => Date;
+
+  constructor(config: WebhookSimulatorConfig) {
+    this.signer = new WebhookHandler({ secret: config.secret });
+    this.now = config.now ?? (() => new Date());
+    this.ids = {
+      applicationId: randomId('app'),
+      lenderId: randomId('lender'),
+      offerId: randomId('offer'),
+      fundingId: randomId('fund'),
+      loanId: randomId('loan'),
+      walletId: randomId('wallet'),
+      verificationId: randomId('wver'),
+      ...config.ids,
+    };
+  }
+
+  /**
+   * Build an event with default data, merged with overrides
+   *
+   * @param type - Event type
+   * @param data - Fields to override in the default data
+   * @param options - Envelope options (ID, timestamp, correlation ID)
+   * @returns The event
+   *
+   * @example
+   * ```typescript
+   * const event = simulator.build('loan.status_changed', {
+   *   previousStatus: 'DELINQUENT',
+   *   newStatus: 'DEFAULTED',
+   * });
+   * ```
+   */
+  build<K extends WebhookEventType>(
+    type: K,
+    data?: Partial<WebhookEventMap[K]>,
+    options: WebhookBuildOptions = {}
+  ): TypedWebhookEvent<K> {
+    const at = (options.timestamp ?? this.now()).toISOString();
+    const factory = defaults[type] as DataFactory<K>;
+
+    const event = {
+      id: options.id ?? randomId('evt'),
+      event: type,
+      data: { ...factory(this.ids, at), ...data },
+      timestamp: at,
+      version: '1.0',
+      ...(options.correlationId && { correlationId: options.correlationId }),
+    };
+    return event as TypedWebhookEvent<K>;
+  }
+
+  /**
+   * Build a sequence of events with increasing timestamps
+   *
+   * @param steps - Event types, optionally with data overrides
+   * @param intervalMs - Time between events (default: 1000)
+   * @returns The events, in order
+   *
+   * @example
+   * ```typescript
+   * const events = simulator.sequence([
+   *   'funding.required',
+   *   { type: 'funding.failed', data: { reason: 'Wallet frozen' } },
+   * ]);
+   * ```
+   */
+  sequence(steps: WebhookSimulatorStep[], intervalMs = 1000): TypedWebhookEvent[] {
+    const start = this.now().getTime();
+
+    return steps.map((step, index) => {
+      const { type, data } = typeof step === 'string' ? { type: step, data: undefined } : step;
+      return this.build(type, data, { timestamp: new Date(start + index * intervalMs) });
+    });
+  }
+
+  /**
+   * Build the events of a full lifecycle, from `application.created` to
+   * `loan.paid_off`
+   *
+   * @see LOAN_LIFECYCLE_EVENTS
+   */
+  lifecycle(intervalMs = 1000): TypedWebhookEvent[] {
+    return this.sequence([...LOAN_LIFECYCLE_EVENTS], intervalMs);
+  }
+
+  /**
+   * Serialize and sign an event
+   *
+   * @param event - Event to sign
+   * @returns Raw payload and headers
+   */
+  sign(event: TypedWebhookEvent): SignedWebhookRequest {
+    const payload = JSON.stringify(event);
+    return {
+      payload,
+      headers: {
+        'content-type': 'application/json',
+        ...this.signer.generateTestHeaders(payload),
+      },
+    };
+  }
+
+  /**
+   * Sign and deliver an event
+   *
+   * @param target - URL to POST to, or adapter options to invoke in-process
+   * @param event - Event to deliver
+   * @returns Status and body returned by the target
+   */
+  async send(target: WebhookSimulatorTarget, event: TypedWebhookEvent): Promise<SimulatedWebhookDelivery> {
+    const { payload, headers } = this.sign(event);
+
+    if (typeof target === 'string') {
+      const response = await axios.post(target, payload, {
+        headers,
+        // Send the signed payload byte-for-byte
+        transformRequest: [(body) => body],
+        validateStatus: () => true,
+      });
+      return { event, status: response.status, body: response.data };
+    }
+
+    const response = await processWebhookRequest(target, {
+      rawBody: payload,
+      signature: headers[SIGNATURE_HEADER],
+    });
+    return { event, status: response.status, body: response.body };
+  }
+
+  /**
+   * Deliver events in order
+   *
+   * Stops at the first delivery that doesn't return a 2xx status, unless
+   * `continueOnFailure` is set.
+   *
+   * @param target - URL to POST to, or adapter options to invoke in-process
+   * @param events - Events to deliver
+   * @returns One delivery per event sent
+   */
+  async run(
+    target: WebhookSimulatorTarget,
+    events: TypedWebhookEvent[],
+    options: { continueOnFailure?: boolean } = {}
+  ): Promise<SimulatedWebhookDelivery[]> {
+    const deliveries: SimulatedWebhookDelivery[] = [];
+
+    for (const event of events) {
+      const delivery = await this.send(target, event);
+      deliveries.push(delivery);
+
+      const ok = delivery.status >= 200 && delivery.status < 300;
+      if (!ok && !options.continueOnFailure) {
+        break;
+      }
+    }
+
+    return deliveries;
+  }
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+function addDays(iso: string, days: number): string {
+  return new Date(new Date(iso).getTime() + days * 86400000).toISOString();
+}
@@ -54,6 +54,61 @@ export type WebhookEventType =
   // Test event
   | 'test';
 
+/**
+ * All webhook event types, in declaration order.
+ *
+ * Useful for runtime checks (e.g. `isWebhookEventType`) where the
+ * `WebhookEventType` union is not available.
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'application.created',
+  'application.routed',
+  'application.approved',
+  'application.rejected',
+  'application.declined',
+  'offer.received',
+  'offer.accepted',
+  'offer.rejected',
+  'prequal_offer.received',
+  'prequal_offer.accepted',
+  'final_offer.received',
+  'final_offer.required',
+  'final_offer.accepted',
+  'esign.required',
+  'esign.completed',
+  'signing.ready',
+  'signing.completed',
+  'kyc.attestation_available',
+  'funding.initiated',
+  'funding.completed',
+  'funding.failed',
+  'funding.required',
+  'funding.disbursing',
+  'funding.disbursed',
+  'funding.declined',
+  'funding.insufficient_balance',
+  'loan.created',
+  'loan.creation_failed',
+  'loan.repayment_address_ready',
+  'loan.repayment_received',
+  'loan.paid_off',
+  'loan.status_changed',
+  'loan.infrastructure_failed',
+  'wallet.verification.initiated',
+  'wallet.verification.completed',
+  'wallet.verification.failed',
+  'wallet.verification.expired',
+  'wallet.verification.revoked',
+  'test',
+] as const satisfies readonly WebhookEventType[];
+
+/**
+ * Check whether a string is a known webhook event type
+ */
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
+
 /**
  * Base webhook event structure
  */
@@ -548,3 +603,109 @@ export interface TestWebhookData {
   message: string;
   timestamp: string;
 }
+
+// ============================================================================
+// Typed Event Map
+// ============================================================================
+
+/**
+ * Maps each webhook event type to its data payload
+ *
+ * @example
+ * ```typescript
+ * type Data = WebhookEventMap['funding.disbursed']; // FundingDisbursedData
+ * ```
+ */
+export interface WebhookEventMap {
+  'application.created': ApplicationCreatedData;
+  'application.routed': ApplicationRoutedData;
+  'application.approved': ApplicationApprovedData;
+  'application.rejected': ApplicationRejectedData;
+  'application.declined': ApplicationDeclinedData;
+  'offer.received': OfferReceivedData;
+  'offer.accepted': OfferAcceptedData;
+  'offer.rejected': OfferRejectedData;
+  'prequal_offer.received': PrequalOfferReceivedData;
+  'prequal_offer.accepted': PrequalOfferAcceptedData;
+  'final_offer.received': FinalOfferReceivedData;
+  'final_offer.required': FinalOfferRequiredData;
+  'final_offer.accepted': FinalOfferAcceptedData;
+  'esign.required': ESignRequiredData;
+  'esign.completed': ESignCompletedData;
+  'signing.ready': SigningReadyData;
+  'signing.completed': SigningCompletedData;
+  'kyc.attestation_available': KYCAttestationAvailableData;
+  'funding.initiated': FundingInitiatedData;
+  'funding.completed': FundingCompletedData;
+  'funding.failed': FundingFailedData;
+  'funding.required': FundingRequiredData;
+  'funding.disbursing': FundingDisbursingData;
+  'funding.disbursed': FundingDisbursedData;
+  'funding.declined': FundingDeclinedData;
+  'funding.insufficient_balance': FundingInsufficientBalanceData;
+  'loan.created': LoanCreatedData;
+  'loan.creation_failed': LoanCreationFailedData;
+  'loan.repayment_address_ready': LoanRepaymentAddressReadyData;
+  'loan.repayment_received': LoanRepaymentReceivedData;
+  'loan.paid_off': LoanPaidOffData;
+  'loan.status_changed': LoanStatusChangedData;
+  'loan.infrastructure_failed': LoanInfrastructureFailedData;
+  'wallet.verification.initiated': WalletVerificationInitiatedData;
+  'wallet.verification.completed': WalletVerificationCompletedData;
+  'wallet.verification.failed': WalletVerificationFailedData;
+  'wallet.verification.expired': WalletVerificationExpiredData;
+  'wallet.verification.revoked': WalletVerificationRevokedData;
+  test: TestWebhookData;
+}
+
+/**
+ * Webhook event narrowed to a specific event type
+ *
+ * Distributes over unions, so `TypedWebhookEvent` (no argument) is a
+ * discriminated union on `event` that narrows `data` in a `switch`.
+ *
+ * @example
+ * ```typescript
+ * function handle(event: TypedWebhookEvent) {
+ *   switch (event.event) {
+ *     case 'funding.disbursed':
+ *       console.log(event.data.txHash); // FundingDisbursedData
+ *       break;
+ *   }
+ * }
+ * ```
+ */
+export type TypedWebhookEvent<K extends WebhookEventType = WebhookEventType> = {
+  [P in K]: WebhookEvent<WebhookEventMap[P]> & { event: P };
+}[K];
+
+/**
+ * Dotted prefixes of an event type, e.g. 'wallet' | 'wallet.verification'
+ */
+type EventPrefixes<T extends string> = T extends `${infer Head}.${infer Rest}`
+  ? Head | `${Head}.${EventPrefixes<Rest>}`
+  : never;
+
+/**
+ * Event type prefixes that can be used with wildcard patterns
+ */
+export type WebhookEventPrefix = EventPrefixes<WebhookEventType>;
+
+/**
+ * Pattern for matching webhook events: an exact type, a prefix wildcard
+ * such as `'funding.*'`, or `'*'` for every event
+ */
+export type WebhookEventPattern =
+  | WebhookEventType
+  | `${WebhookEventPrefix}.*`
+  | '*';
+
+/**
+ * Event types matched by a pattern
+ */
+export type WebhookEventTypesMatching<P extends WebhookEventPattern> =
+  P extends '*'
+    ? WebhookEventType
+    : P extends `${infer Prefix}.*`
+      ? Extract<WebhookEventType, `${Prefix}.${string}`>
+      : Extract<WebhookEventType, P>;
@@ -0,0 +1,490 @@
+import type { WebhookEventMap } from './types';
+import { isWebhookEventType } from './types';
+import { PassageError } from '../errors';
+
+/**
+ * How `WebhookHandler` validates event payloads
+ * - 'strict': throw `WebhookPayloadError` on any issue or unknown field
+ * - 'lenient': never throw; report issues and unknown fields
+ * - 'off': no validation
+ */
+export type WebhookValidationMode = 'strict' | 'lenient' | 'off';
+
+/**
+ * A single payload problem
+ */
+export interface WebhookValidationIssue {
+  /** Dotted path to the offending field, e.g. 'data.previousStatus' */
+  path: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of validating a webhook event
+ */
+export interface WebhookValidationResult {
+  /** True if there are no issues (unknown fields don't make an event invalid) */
+  valid: boolean;
+  /** Missing fields, wrong types and unexpected values */
+  issues: WebhookValidationIssue[];
+  /** Paths of fields not described by the SDK types, e.g. 'data.newField' */
+  unknownFields: string[];
+}
+
+/**
+ * Error thrown when a webhook payload does not match the SDK types
+ */
+export class WebhookPayloadError extends PassageError {
+  /** Problems found, including unknown fields */
+  readonly issues: WebhookValidationIssue[];
+  /** ID of the event, if present */
+  readonly eventId?: string;
+  /** Type of the event, if present */
+  readonly eventType?: string;
+
+  constructor(
+    issues: WebhookValidationIssue[],
+    event?: { id?: unknown; event?: unknown }
+  ) {
+    const paths = issues.map((issue) => issue.path).join(', ');
+    super(`Invalid webhook payload: ${paths}`, {
+      errorCode: 'WEBHOOK_PAYLOAD_INVALID',
+    });
+    this.name = 'WebhookPayloadError';
+    this.issues = issues;
+    this.eventId = typeof event?.id === 'string' ? event.id : undefined;
+    this.eventType = typeof event?.event === 'string' ? event.event : undefined;
+  }
+
+  /**
+   * Paths of all offending fields
+   */
+  get paths(): string[] {
+    return this.issues.map((issue) => issue.path);
+  }
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'string[]';
+
+interface FieldRule {
+  type: FieldType;
+  /** Allowed values, for string literal unions */
+  values?: readonly (string | boolean)[];
+  optional?: boolean;
+  nullable?: boolean;
+}
+
+/**
+ * One rule per property of T, so adding a field to a data interface
+ * without updating its schema fails to compile
+ */
+type Schema<T> = { [P in keyof T]-?: FieldRule };
+
+const string: FieldRule = { type: 'string' };
+const number: FieldRule = { type: 'number' };
+const object: FieldRule = { type: 'object' };
+const stringArray: FieldRule = { type: 'string[]' };
+
+function optional(rule: FieldRule): FieldRule {
+  return { ...rule, optional: true };
+}
+
+function nullable(rule: FieldRule): FieldRule {
+  return { ...rule, nullable: true };
+}
+
+function oneOf(...values: string[]): FieldRule {
+  return { type: 'string', values };
+}
+
+const LOAN_STATUS = oneOf('ACTIVE', 'PAID_OFF', 'DELINQUENT', 'DEFAULTED', 'CLOSED');
+const WALLET_VERIFICATION_METHOD = oneOf('MESSAGE_SIGN', 'MICRO_DEPOSIT', 'AOPP');
+const WALLET_VERIFICATION_STATUS = oneOf(
+  'PENDING',
+  'AWAITING_CONFIRMATION',
+  'VERIFIED',
+  'FAILED',
+  'EXPIRED'
+);
+
+const walletVerificationBase = {
+  verificationId: string,
+  walletId: string,
+  walletAddress: string,
+  method: WALLET_VERIFICATION_METHOD,
+  status: WALLET_VERIFICATION_STATUS,
+};
+
+const envelopeSchema = {
+  id: string,
+  event: string,
+  data: object,
+  timestamp: string,
+  version: optional(string),
+  correlationId: optional(string),
+};
+
+const dataSchemas: { [K in keyof WebhookEventMap]: Schema<WebhookEventMap[K]> } = {
+  'application.created': {
+    applicationId: string,
+    productType: string,
+    routedAt: string,
+    metadata: optional(object),
+  },
+  'application.routed': {
+    applicationId: string,
+    lenderIds: stringArray,
+    routedAt: string,
+  },
+  'application.approved': {
+    applicationId: string,
+    approvedAt: string,
+    status: oneOf('APPROVED'),
+    fundingAmount: optional(string),
+  },
+  'application.rejected': {
+    applicationId: string,
+    rejectedAt: string,
+    reason: optional(string),
+    status: oneOf('REJECTED'),
+  },
+  'application.declined': {
+    applicationId: string,
+    lenderId: string,
+    declinedAt: string,
+  },
+  'offer.received': {
+    applicationId: string,
+    offerId: string,
+    lenderId: string,
+    loanAmount: string,
+    interestRate: string,
+    monthlyPayment: string,
+    termMonths: optional(number),
+    expiresAt: string,
+  },
+  'offer.accepted': {
+    applicationId: string,
+    offerId: string,
+    lenderId: string,
+    acceptedAt: string,
+  },
+  'offer.rejected': {
+    applicationId: string,
+    offerId: optional(string),
+    rejectedAt: string,
+    reason: optional(string),
+    status: oneOf('REJECTED'),
+    timestamp: string,
+  },
+  'prequal_offer.received': {
+    applicationId: string,
+    lenderId: string,
+    offerCount: number,
+    receivedAt: string,
+  },
+  'prequal_offer.accepted': {
+    applicationId: string,
+    offerId: string,
+    lenderId: string,
+    acceptedAt: string,
+  },
+  'final_offer.received': {
+    applicationId: string,
+    lenderId: string,
+    offerCount: number,
+    receivedAt: string,
+  },
+  'final_offer.required': {
+    applicationId: string,
+    lenderId: string,
+    acceptedPrequalOfferId: string,
+    hardPullConsentAt: string,
+  },
+  'final_offer.accepted': {
+    applicationId: string,
+    offerId: string,
+    lenderId: string,
+    acceptedAt: string,
+  },
+  'esign.required': {
+    applicationId: string,
+    documentType: string,
+    unsignedDocumentHandle: string,
+    action: oneOf('signature_required'),
+    timestamp: string,
+  },
+  'esign.completed': {
+    applicationId: string,
+    documentType: string,
+    signedDocumentHandle: string,
+    signatureStatus: oneOf('completed'),
+    timestamp: string,
+  },
+  'signing.ready': {
+    applicationId: string,
+    sessionId: string,
+    signingUrl: string,
+    timestamp: string,
+  },
+  'signing.completed': {
+    applicationId: string,
+    signedDocumentHandle: string,
+    documentType: oneOf('loan_agreement_signed'),
+    timestamp: string,
+  },
+  'kyc.attestation_available': {
+    applicationId: string,
+    documentType: oneOf('kyc'),
+    kycDocumentHandle: optional(string),
+    proofDocumentHandle: optional(string),
+    documentsAvailable: { type: 'boolean', values: [true] },
+    timestamp: string,
+  },
+  'funding.initiated': {
+    applicationId: string,
+    offerId: optional(string),
+    fundingAmount: string,
+    initiatedAt: string,
+    estimatedCompletionDate: optional(string),
+  },
+  'funding.completed': {
+    applicationId: string,
+    offerId: optional(string),
+    fundingAmount: string,
+    completedAt: string,
+    transactionReference: optional(string),
+  },
+  'funding.failed': {
+    applicationId: string,
+    offerId: optional(string),
+    failedAt: string,
+    reason: string,
+    errorCode: optional(string),
+  },
+  'funding.required': {
+    applicationId: string,
+    fundingId: string,
+    amount: string,
+    currency: string,
+    signedAt: optional(nullable(string)),
+  },
+  'funding.disbursing': {
+    fundingId: string,
+    applicationId: string,
+    amount: string,
+    blockchain: optional(nullable(string)),
+    recipientAddress: optional(nullable(string)),
+    initiatedAt: optional(nullable(string)),
+    bridgeTransferId: optional(nullable(string)),
+  },
+  'funding.disbursed': {
+    fundingId: string,
+    applicationId: string,
+    amount: string,
+    txHash: optional(nullable(string)),
+    blockchain: optional(nullable(string)),
+    completedAt: optional(nullable(string)),
+  },
+  'funding.declined': {
+    applicationId: string,
+    fundingId: string,
+    reason: optional(string),
+  },
+  'funding.insufficient_balance': {
+    fundingId: string,
+    applicationId: string,
+    requiredAmount: string,
+    availableBalance: string,
+    currency: string,
+  },
+  'loan.created': {
+    loanId: string,
+    fundingId: string,
+    applicationId: string,
+    principal: string,
+    annualRate: string,
+    termMonths: number,
+    monthlyPayment: string,
+    firstPaymentDue: string,
+    maturityDate: string,
+    repaymentAddress: nullable(string),
+    createdAt: string,
+  },
+  'loan.creation_failed': {
+    fundingId: string,
+    applicationId: string,
+    reason: string,
+    message: string,
+  },
+  'loan.repayment_address_ready': {
+    loanId: string,
+    applicationId: string,
+    repaymentAddress: string,
+    repaymentChain: string,
+    createdAt: string,
+  },
+  'loan.repayment_received': {
+    loanId: string,
+    repaymentId: string,
+    applicationId: string,
+    amount: string,
+    currency: optional(string),
+    principalPortion: optional(nullable(string)),
+    interestPortion: optional(nullable(string)),
+    balanceAfter: optional(nullable(string)),
+    depositTxHash: nullable(string),
+    receivedAt: string,
+  },
+  'loan.paid_off': {
+    loanId: string,
+    applicationId: string,
+    totalPaid: optional(string),
+    paidOffAt: string,
+  },
+  'loan.status_changed': {
+    loanId: string,
+    applicationId: string,
+    previousStatus: LOAN_STATUS,
+    newStatus: LOAN_STATUS,
+    changedAt: string,
+  },
+  'loan.infrastructure_failed': {
+    loanId: string,
+    applicationId: string,
+    error: nullable(string),
+    message: string,
+    retryCount: optional(number),
+  },
+  'wallet.verification.initiated': walletVerificationBase,
+  'wallet.verification.completed': {
+    ...walletVerificationBase,
+    completedAt: string,
+  },
+  'wallet.verification.failed': {
+    ...walletVerificationBase,
+    failureReason: string,
+  },
+  'wallet.verification.expired': walletVerificationBase,
+  'wallet.verification.revoked': {
+    ...walletVerificationBase,
+    reason: string,
+    revokedBy: string,
+  },
+  test: {
+    message: string,
+    timestamp: string,
+  },
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a parsed webhook event against the SDK's event types
+ *
+ * Checks the event envelope and, for known event types, every field of
+ * `data`: presence, type, nullability and literal values (e.g.
+ * `LoanStatusChangedData.previousStatus`). Fields the SDK doesn't know
+ * about are listed in `unknownFields` without making the event invalid.
+ *
+ * @param event - Parsed webhook payload
+ * @returns Issues and unknown fields
+ *
+ * @example
+ * ```typescript
+ * const result = validateWebhookEvent(JSON.parse(body));
+ * if (!result.valid) {
+ *   console.warn('Webhook contract drift:', result.issues);
+ * }
+ * ```
+ */
+export function validateWebhookEvent(event: unknown): WebhookValidationResult {
+  const issues: WebhookValidationIssue[] = [];
+  const unknownFields: string[] = [];
+
+  if (!isPlainObject(event)) {
+    issues.push({ path: '(root)', message: `Expected object, received ${describe(event)}` });
+    return { valid: false, issues, unknownFields };
+  }
+
+  checkObject(event, envelopeSchema, '', issues, unknownFields);
+
+  const type = event.event;
+  if (typeof type === 'string') {
+    if (!isWebhookEventType(type)) {
+      issues.push({ path: 'event', message: `Unknown event type '${type}'` });
+    } else if (isPlainObject(event.data)) {
+      checkObject(event.data, dataSchemas[type], 'data.', issues, unknownFields);
+    }
+  }
+
+  return { valid: issues.length === 0, issues, unknownFields };
+}
+
+function checkObject(
+  value: Record<string, unknown>,
+  schema: Record<string, FieldRule>,
+  prefix: string,
+  issues: WebhookValidationIssue[],
+  unknownFields: string[]
+): void {
+  for (const [key, rule] of Object.entries(schema)) {
+    const issue = checkField(value[key], rule, key in value);
+    if (issue) {
+      issues.push({ path: prefix + key, message: issue });
+    }
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!(key in schema)) {
+      unknownFields.push(prefix + key);
+    }
+  }
+}
+
+/**
+ * Check a single field, returning a message if it is invalid
+ */
+function checkField(value: unknown, rule: FieldRule, present: boolean): string | undefined {
+  if (!present || value === undefined) {
+    return rule.optional ? undefined : 'Required field is missing';
+  }
+  if (value === null) {
+    return rule.nullable ? undefined : 'Expected non-null value';
+  }
+
+  const matchesType =
+    rule.type === 'string[]'
+      ? Array.isArray(value) && value.every((item) => typeof item === 'string')
+      : rule.type === 'object'
+        ? isPlainObject(value)
+        : typeof value === rule.type;
+
+  if (!matchesType) {
+    return `Expected ${rule.type}, received ${describe(value)}`;
+  }
+
+  if (rule.values && !rule.values.includes(value as string | boolean)) {
+    const expected = rule.values.map((v) => JSON.stringify(v)).join(' | ');
+    return `Expected ${expected}, received ${JSON.stringify(value)}`;
+  }
+
+  return undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
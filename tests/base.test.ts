@@ -1,7 +1,9 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import type { AxiosResponse } from 'axios';
-import { unwrapResponse, unwrapPaginatedResponse } from '../src/resources/base';
-import { PassageError } from '../src/errors';
+import { BaseResource, unwrapResponse, unwrapPaginatedResponse } from '../src/resources/base';
+import { PassageError, NotFoundError, RateLimitError } from '../src/errors';
+import { resolveConfig, type PassageClientConfig } from '../src/config';
+import type { IdempotentRequestOptions } from '../src/types';
 
 // Helper to create mock AxiosResponse
 function mockResponse<T>(data: T, status = 200): AxiosResponse<T> {
@@ -152,3 +154,174 @@ describe('base resource helpers', () => {
     });
   });
 });
+
+describe('BaseResource.execute', () => {
+  class TestResource extends BaseResource {
+    run<T>(operation: () => Promise<T>): Promise<T> {
+      return this.execute(operation, 'test.run');
+    }
+
+    runWith<T>(operation: (request: object) => Promise<T>, options: IdempotentRequestOptions): Promise<T> {
+      return this.execute(operation, 'test.run', options);
+    }
+  }
+
+  function resource(config: PassageClientConfig = { apiKey: 'nb_test_abc123xyz789' }) {
+    return new TestResource(resolveConfig(config));
+  }
+
+  function axiosError(status: number, headers: Record<string, string> = {}) {
+    return Object.assign(new Error(`Request failed with status code ${status}`), {
+      isAxiosError: true,
+      response: { status, data: { message: `HTTP ${status}` }, headers },
+    });
+  }
+
+  it('should retry server errors', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(axiosError(503))
+      .mockResolvedValue('ok');
+
+    await expect(resource({ apiKey: 'nb_test_abc123xyz789', retry: { baseDelay: 1 } }).run(operation)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry client errors', async () => {
+    const operation = vi.fn().mockRejectedValue(axiosError(404));
+
+    await expect(resource().run(operation)).rejects.toBeInstanceOf(NotFoundError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honor Retry-After on 429', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(axiosError(429, { 'retry-after': '1' }))
+      .mockResolvedValue('ok');
+    const started = Date.now();
+
+    await resource({ apiKey: 'nb_test_abc123xyz789', retry: { baseDelay: 1 } }).run(operation);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+  });
+
+  it('should fail immediately when Retry-After exceeds maxRetryAfter', async () => {
+    const operation = vi.fn().mockRejectedValue(axiosError(429, { 'retry-after': '3600' }));
+
+    const error = (await resource().run(operation).catch((e) => e)) as RateLimitError;
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBeGreaterThan(3500000);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop at maxElapsedTime', async () => {
+    const operation = vi.fn().mockRejectedValue(axiosError(500));
+
+    await expect(
+      resource({
+        apiKey: 'nb_test_abc123xyz789',
+        maxRetries: 10,
+        retry: { baseDelay: 20, jitter: 'none', maxElapsedTime: 50 },
+      }).run(operation)
+    ).rejects.toMatchObject({ statusCode: 500 });
+    // 20ms + 40ms would exceed 50ms
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log retries with structured fields', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const operation = vi.fn()
+      .mockRejectedValueOnce(axiosError(503))
+      .mockResolvedValue('ok');
+
+    await resource({ apiKey: 'nb_test_abc123xyz789', retry: { baseDelay: 1 }, logger }).run(operation);
+
+    expect(logger.info).toHaveBeenCalledWith('Retrying operation', expect.objectContaining({
+      operation: 'test.run',
+      attempt: 1,
+      statusCode: 503,
+      delayMs: expect.any(Number),
+    }));
+    expect(logger.debug).not.toHaveBeenCalled();
+  });
+
+  it('should log completion at debug level', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    await resource({ apiKey: 'nb_test_abc123xyz789', logger, logLevel: 'debug' }).run(async () => 'ok');
+
+    expect(logger.debug).toHaveBeenCalledWith('Operation completed', {
+      operation: 'test.run',
+      attempts: 1,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  describe('request options', () => {
+    it('should override maxRetries per call', async () => {
+      const operation = vi.fn().mockRejectedValue(axiosError(503));
+
+      await expect(
+        resource({ apiKey: 'nb_test_abc123xyz789', retry: { baseDelay: 1 } }).runWith(operation, { maxRetries: 0 })
+      ).rejects.toMatchObject({ statusCode: 503 });
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap status rules with the per-call maxRetries', async () => {
+      const operation = vi.fn().mockRejectedValue(axiosError(503));
+      const passage = resource({
+        apiKey: 'nb_test_abc123xyz789',
+        retry: { baseDelay: 1, statusRules: { 503: { maxRetries: 6, baseDelay: 1 } } },
+      });
+
+      await expect(passage.runWith(operation, { maxRetries: 0 })).rejects.toMatchObject({ statusCode: 503 });
+      expect(operation).toHaveBeenCalledTimes(1);
+
+      await expect(passage.runWith(operation, { maxRetries: 2 })).rejects.toMatchObject({ statusCode: 503 });
+      expect(operation).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not start when already aborted', async () => {
+      const operation = vi.fn().mockResolvedValue('ok');
+      const controller = new AbortController();
+      controller.abort(new Error('borrower left'));
+
+      await expect(resource().runWith(operation, { signal: controller.signal })).rejects.toThrow('borrower left');
+      expect(operation).not.toHaveBeenCalled();
+    });
+
+    it('should not retry a cancelled request', async () => {
+      const controller = new AbortController();
+      const operation = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' });
+      });
+
+      const error = (await resource().runWith(operation, { signal: controller.signal }).catch((e) => e)) as Error;
+
+      expect(error.name).toBe('AbortError');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting between retries when aborted', async () => {
+      const controller = new AbortController();
+      const operation = vi.fn().mockRejectedValue(axiosError(503));
+      const started = Date.now();
+
+      const pending = resource({ apiKey: 'nb_test_abc123xyz789', retry: { baseDelay: 5000, jitter: 'none' } })
+        .runWith(operation, { signal: controller.signal });
+      setTimeout(() => controller.abort(new Error('stop')), 20);
+
+      await expect(pending).rejects.toThrow('stop');
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('should pass the request config to the operation', async () => {
+      const operation = vi.fn().mockResolvedValue('ok');
+
+      await resource().runWith(operation, { timeout: 100, headers: { 'X-Test': '1' }, idempotencyKey: 'ignored' });
+
+      expect(operation).toHaveBeenCalledWith({ timeout: 100, headers: { 'X-Test': '1' } });
+    });
+  });
+});
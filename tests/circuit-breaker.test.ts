@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker, type CircuitStateChange } from '../src/circuit-breaker';
+import { CircuitOpenError, NetworkError, NotFoundError, PassageError, TimeoutError } from '../src/errors';
+import type { PassageRequest } from '../src/middleware';
+
+const serverError = () => new PassageError('Internal error', { statusCode: 500 });
+const fail = (error: unknown = serverError()) => () => Promise.reject(error);
+const succeed = () => Promise.resolve('ok');
+
+async function settle(promise: Promise<unknown>): Promise<void> {
+  await promise.catch(() => undefined);
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function tripped(config: ConstructorParameters<typeof CircuitBreaker>[0] = {}) {
+    const changes: CircuitStateChange[] = [];
+    const breaker = new CircuitBreaker({ minimumRequests: 4, cooldownMs: 1000, ...config });
+    breaker.onStateChange((change) => changes.push(change));
+    return { breaker, changes };
+  }
+
+  it('should stay closed below the minimum number of requests', async () => {
+    const { breaker } = tripped();
+
+    for (let i = 0; i < 3; i++) {
+      await settle(breaker.execute('applications.get', fail()));
+    }
+
+    expect(breaker.state('applications')).toBe('closed');
+  });
+
+  it('should open at the failure rate threshold and fail fast', async () => {
+    const { breaker, changes } = tripped();
+    await breaker.execute('applications.get', succeed);
+    await breaker.execute('applications.get', succeed);
+    await settle(breaker.execute('applications.get', fail()));
+    expect(breaker.state('applications')).toBe('closed');
+
+    await settle(breaker.execute('applications.create', fail()));
+
+    expect(breaker.state('applications')).toBe('open');
+    expect(changes).toEqual([{ group: 'applications', from: 'closed', to: 'open', failureRate: 0.5 }]);
+
+    const fn = vi.fn(succeed);
+    const error = await breaker.execute('applications.list', fn).catch((e) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ group: 'applications', errorCode: 'CIRCUIT_OPEN', retryAt: 1_700_000_001_000 });
+    expect(error.isRetryable).toBe(false);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should keep a circuit per operation group', async () => {
+    const { breaker } = tripped();
+    for (let i = 0; i < 4; i++) {
+      await settle(breaker.execute('offers.getPrequalified', fail()));
+    }
+
+    expect(breaker.state('offers')).toBe('open');
+    await expect(breaker.execute('applications.get', succeed)).resolves.toBe('ok');
+  });
+
+  it('should use a custom grouping', async () => {
+    const { breaker } = tripped({ groupBy: () => 'passage' });
+    for (let i = 0; i < 4; i++) {
+      await settle(breaker.execute(`resource${i}.get`, fail()));
+    }
+
+    expect(breaker.state('passage')).toBe('open');
+  });
+
+  it('should only count outages as failures by default', async () => {
+    const { breaker } = tripped();
+    for (let i = 0; i < 4; i++) {
+      await settle(breaker.execute('applications.get', fail(new NotFoundError('Not found'))));
+    }
+    expect(breaker.state('applications')).toBe('closed');
+
+    await settle(breaker.execute('applications.get', fail(new NetworkError())));
+    await settle(breaker.execute('applications.get', fail(new TimeoutError())));
+    await settle(breaker.execute('applications.get', fail(serverError())));
+    await settle(breaker.execute('applications.get', fail(serverError())));
+
+    expect(breaker.state('applications')).toBe('open');
+  });
+
+  it('should forget outcomes outside the window', async () => {
+    const { breaker } = tripped({ windowMs: 10000 });
+    for (let i = 0; i < 3; i++) {
+      await settle(breaker.execute('applications.get', fail()));
+    }
+
+    vi.advanceTimersByTime(10000);
+    await settle(breaker.execute('applications.get', fail()));
+
+    expect(breaker.state('applications')).toBe('closed');
+  });
+
+  it('should close after a successful trial request once cooled down', async () => {
+    const { breaker, changes } = tripped();
+    for (let i = 0; i < 4; i++) {
+      await settle(breaker.execute('applications.get', fail()));
+    }
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state('applications')).toBe('half-open');
+
+    await expect(breaker.execute('applications.get', succeed)).resolves.toBe('ok');
+    expect(breaker.state('applications')).toBe('closed');
+    expect(changes.map(({ to }) => to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the trial request fails', async () => {
+    const { breaker } = tripped();
+    for (let i = 0; i < 4; i++) {
+      await settle(breaker.execute('applications.get', fail()));
+    }
+
+    vi.advanceTimersByTime(1000);
+    await settle(breaker.execute('applications.get', fail()));
+
+    expect(breaker.state('applications')).toBe('open');
+    await expect(breaker.execute('applications.get', succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('should limit concurrent trial requests while half-open', async () => {
+    const { breaker } = tripped();
+    for (let i = 0; i < 4; i++) {
+      await settle(breaker.execute('applications.get', fail()));
+    }
+    vi.advanceTimersByTime(1000);
+
+    let release!: () => void;
+    const trial = breaker.execute('applications.get', () => new Promise<void>((resolve) => (release = resolve)));
+
+    await expect(breaker.execute('applications.get', succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+    release();
+    await trial;
+    expect(breaker.state('applications')).toBe('closed');
+  });
+
+  it('should not count requests admitted before the circuit opened as trials', async () => {
+    const { breaker } = tripped();
+    let release!: () => void;
+    const early = breaker.execute('applications.get', () => new Promise<void>((resolve) => (release = resolve)));
+    for (let i = 0; i < 4; i++) {
+      await settle(breaker.execute('applications.get', fail()));
+    }
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state('applications')).toBe('half-open');
+
+    release();
+    await early;
+
+    expect(breaker.state('applications')).toBe('half-open');
+    await expect(breaker.execute('applications.get', succeed)).resolves.toBe('ok');
+    expect(breaker.state('applications')).toBe('closed');
+  });
+
+  it('should reset circuits', async () => {
+    const { breaker, changes } = tripped();
+    for (let i = 0; i < 4; i++) {
+      await settle(breaker.execute('applications.get', fail()));
+    }
+
+    breaker.reset();
+
+    expect(breaker.state('applications')).toBe('closed');
+    expect(changes.map(({ to }) => to)).toEqual(['open', 'closed']);
+  });
+
+  it('should stop notifying removed listeners and ignore listener errors', async () => {
+    const onStateChange = vi.fn(() => {
+      throw new Error('listener bug');
+    });
+    const breaker = new CircuitBreaker({ minimumRequests: 1, onStateChange });
+    const listener = vi.fn();
+    const unsubscribe = breaker.onStateChange(listener);
+    unsubscribe();
+
+    await expect(breaker.execute('applications.get', fail())).rejects.toThrow('Internal error');
+
+    expect(onStateChange).toHaveBeenCalledTimes(1);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should route middleware requests by operation', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1 });
+    const request: PassageRequest = {
+      method: 'GET',
+      url: 'https://api.test/offers',
+      headers: {},
+      operation: 'offers.getPrequalified',
+      attempt: 1,
+      priority: 'interactive',
+    };
+
+    await settle(breaker.middleware(request, fail()));
+
+    expect(breaker.state('offers')).toBe('open');
+    await expect(breaker.middleware(request, vi.fn())).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApplicationsApi, SDXApi, WalletsApi } from '@portola/passage';
 import { Passage } from '../src/client';
 import type { PassageClientConfig } from '../src/config';
+import type { PassageMiddleware } from '../src/middleware';
 
 // Mock the passage-sdk module
 vi.mock('@portola/passage', () => ({
@@ -81,6 +83,140 @@ describe('Passage client', () => {
     });
   });
 
+  describe('middleware', () => {
+    it('should give every API client the same middleware-aware axios instance', () => {
+      new Passage({ apiKey: validTestKey });
+
+      const applicationsHttp = vi.mocked(ApplicationsApi).mock.calls[0][2];
+      expect(applicationsHttp).toBeDefined();
+      expect(vi.mocked(SDXApi).mock.calls[0][2]).toBe(applicationsHttp);
+    });
+
+    it('should register middleware from config and use()', () => {
+      const first: PassageMiddleware = (request, next) => next(request);
+      const second: PassageMiddleware = (request, next) => next(request);
+      const config: PassageClientConfig = { apiKey: validTestKey, middleware: [first] };
+      const client = new Passage(config);
+
+      expect(client.use(second)).toBe(client);
+      expect(client.getConfig().middleware).toEqual([first, second]);
+      expect(config.middleware).toEqual([first]);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should report limiter stats when rateLimit is configured', () => {
+      expect(new Passage({ apiKey: validTestKey }).rateLimit).toBeUndefined();
+
+      const client = new Passage({ apiKey: validTestKey, rateLimit: { requestsPerSecond: 5, maxConcurrency: 2 } });
+
+      expect(client.rateLimit).toMatchObject({ queued: 0, active: 0, tokens: 5, requestsPerSecond: 5 });
+    });
+  });
+
+  describe('response metadata', () => {
+    function mockGetApplication(requestId?: string) {
+      const getApplication = vi.fn().mockResolvedValue({
+        data: { success: true, data: { id: 'app_123' }, requestId },
+        status: 200,
+        headers: {
+          'x-request-id': 'req_header',
+          'x-ratelimit-limit': '100',
+          'x-ratelimit-remaining': '99',
+          'x-ratelimit-reset': '1700000000',
+        },
+      });
+      vi.mocked(ApplicationsApi).mockImplementationOnce(() => ({ getApplication }) as unknown as ApplicationsApi);
+    }
+
+    it('should return data with response metadata from withResponse()', async () => {
+      mockGetApplication('req_envelope');
+      const client = new Passage({ apiKey: validTestKey });
+
+      const result = await client.withResponse((passage) => passage.applications.get('app_123'));
+
+      expect(result).toMatchObject({
+        data: { id: 'app_123' },
+        requestId: 'req_envelope',
+        statusCode: 200,
+        headers: { 'x-request-id': 'req_header' },
+        rateLimit: { limit: 100, remaining: 99, reset: 1700000000 },
+      });
+    });
+
+    it('should fall back to the X-Request-Id header', async () => {
+      mockGetApplication();
+      const client = new Passage({ apiKey: validTestKey });
+
+      const { requestId } = await client.withResponse((passage) => passage.applications.get('app_123'));
+
+      expect(requestId).toBe('req_header');
+    });
+
+    it('should throw when the call made no request', async () => {
+      const client = new Passage({ apiKey: validTestKey });
+
+      await expect(client.withResponse(async () => 'cached')).rejects.toMatchObject({ errorCode: 'NO_RESPONSE' });
+    });
+
+    it('should track lastResponse and call onResponse', async () => {
+      mockGetApplication('req_envelope');
+      const onResponse = vi.fn();
+      const client = new Passage({ apiKey: validTestKey, onResponse });
+
+      expect(client.lastResponse).toBeUndefined();
+      await client.applications.get('app_123');
+
+      expect(client.lastResponse?.requestId).toBe('req_envelope');
+      expect(onResponse).toHaveBeenCalledWith(client.lastResponse, 'applications.get');
+    });
+
+    it('should not record failure envelopes as the last response', async () => {
+      mockGetApplication('req_ok');
+      const getApplication = vi.fn().mockResolvedValue({
+        data: { success: false, data: null, message: 'Application not found', requestId: 'req_failed' },
+        status: 200,
+        headers: {},
+      });
+      vi.mocked(ApplicationsApi).mockImplementationOnce(() => ({ getApplication }) as unknown as ApplicationsApi);
+      const onResponse = vi.fn();
+      const first = new Passage({ apiKey: validTestKey, onResponse });
+      const second = new Passage({ apiKey: validTestKey, onResponse });
+
+      await first.applications.get('app_123');
+      await expect(second.applications.get('app_123')).rejects.toThrow('Application not found');
+
+      expect(second.lastResponse).toBeUndefined();
+      expect(onResponse).toHaveBeenCalledTimes(1);
+      expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({ requestId: 'req_ok' }), 'applications.get');
+    });
+
+    it('should report each response once from composite methods', async () => {
+      const createWallet = vi.fn().mockResolvedValue({
+        data: {
+          success: true,
+          data: { id: 'wallet_1', address: '0xabc', verified: true, verifiedByThisNeobank: true, createdAt: '' },
+          requestId: 'req_wallet',
+        },
+        status: 201,
+        headers: {},
+      });
+      vi.mocked(WalletsApi).mockImplementationOnce(() => ({ createWallet }) as unknown as WalletsApi);
+      const onResponse = vi.fn();
+      const client = new Passage({ apiKey: validTestKey, onResponse });
+
+      const { requestId } = await client.withResponse((passage) =>
+        passage.wallets.ensureVerified({ address: '0xabc', chain: 'ethereum' } as Parameters<
+          typeof passage.wallets.ensureVerified
+        >[0])
+      );
+
+      expect(requestId).toBe('req_wallet');
+      expect(onResponse).toHaveBeenCalledTimes(1);
+      expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({ requestId: 'req_wallet' }), 'wallets.create');
+    });
+  });
+
   describe('getConfig', () => {
     it('should return resolved configuration', () => {
       const client = new Passage({
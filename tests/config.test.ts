@@ -1,6 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { resolveBaseUrl, resolveConfig } from '../src/config';
 import type { PassageClientConfig } from '../src/config';
+import { RateLimiter } from '../src/rate-limiter';
+import { CircuitBreaker } from '../src/circuit-breaker';
 
 describe('config', () => {
   describe('resolveBaseUrl', () => {
@@ -50,6 +52,7 @@ describe('config', () => {
       expect(resolved.baseUrl).toBe('https://api.tryportola.com/api/v1');
       expect(resolved.timeout).toBe(30000);
       expect(resolved.maxRetries).toBe(3);
+      expect(resolved.retry.jitter).toBe('full');
       expect(resolved.debug).toBe(false);
     });
 
@@ -98,4 +101,79 @@ describe('config', () => {
       expect(config).not.toHaveProperty('baseUrl');
     });
   });
+
+  describe('logging', () => {
+    const sink = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+    it('should be silent by default', () => {
+      const { logger, middleware } = resolveConfig({ apiKey: 'nb_test_123' });
+
+      expect(logger.isEnabled('error')).toBe(false);
+      expect(middleware).toEqual([]);
+    });
+
+    it('should default to info with a custom logger', () => {
+      const { logger } = resolveConfig({ apiKey: 'nb_test_123', logger: sink() });
+
+      expect(logger.isEnabled('info')).toBe(true);
+      expect(logger.isEnabled('debug')).toBe(false);
+    });
+
+    it('should log debug and HTTP requests in debug mode', () => {
+      const { logger, middleware } = resolveConfig({ apiKey: 'nb_test_123', logger: sink(), debug: true });
+
+      expect(logger.isEnabled('debug')).toBe(true);
+      expect(middleware).toEqual([logger.middleware]);
+    });
+
+    it('should prefer an explicit logLevel', () => {
+      const { logger } = resolveConfig({ apiKey: 'nb_test_123', debug: true, logLevel: 'warn' });
+
+      expect(logger.isEnabled('info')).toBe(false);
+      expect(logger.isEnabled('warn')).toBe(true);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should not limit by default', () => {
+      expect(resolveConfig({ apiKey: 'nb_test_123' }).rateLimiter).toBeUndefined();
+    });
+
+    it('should run the limiter inside the logger, before custom middleware', () => {
+      const custom = vi.fn();
+      const { rateLimiter, logger, middleware } = resolveConfig({
+        apiKey: 'nb_test_123',
+        debug: true,
+        middleware: [custom],
+        rateLimit: { requestsPerSecond: 5 },
+      });
+
+      expect(rateLimiter).toBeInstanceOf(RateLimiter);
+      expect(middleware).toEqual([logger.middleware, rateLimiter!.middleware, custom]);
+    });
+
+    it('should reuse a shared limiter instance', () => {
+      const limiter = new RateLimiter({ maxConcurrency: 2 });
+
+      expect(resolveConfig({ apiKey: 'nb_test_123', rateLimit: limiter }).rateLimiter).toBe(limiter);
+      expect(resolveConfig({ apiKey: 'nb_test_456', rateLimit: limiter }).rateLimiter).toBe(limiter);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should be off by default', () => {
+      expect(resolveConfig({ apiKey: 'nb_test_123' }).circuitBreaker).toBeUndefined();
+    });
+
+    it('should fail fast before requests queue in the limiter', () => {
+      const breaker = new CircuitBreaker();
+      const { rateLimiter, middleware } = resolveConfig({
+        apiKey: 'nb_test_123',
+        rateLimit: { maxConcurrency: 4 },
+        circuitBreaker: breaker,
+      });
+
+      expect(middleware).toEqual([breaker.middleware, rateLimiter!.middleware]);
+    });
+  });
 });
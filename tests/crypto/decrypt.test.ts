@@ -1,10 +1,13 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import crypto from 'crypto';
-import { hybridEncrypt } from '../../src/crypto/encrypt';
+import { hybridEncrypt, encryptDocumentForSDX } from '../../src/crypto/encrypt';
 import {
   hybridDecrypt,
   decryptOfferDetails,
   decryptOffers,
+  parseSDXEnvelope,
+  decryptDocumentFromSDX,
+  SDXDecryptionError,
 } from '../../src/crypto/decrypt';
 import type { HybridEncryptedPayload } from '../../src/crypto/types';
 
@@ -310,4 +313,88 @@ describe('crypto/decrypt', () => {
       expect(results[0].error).toBeUndefined(); // Not an error, just unverified
     });
   });
+
+  describe('SDX documents', () => {
+    const document = Buffer.from('%PDF-1.7 signed loan agreement');
+
+    function envelope(metadata: unknown, ciphertext = Buffer.from('ciphertext')): Buffer {
+      const json = Buffer.from(JSON.stringify(metadata));
+      const header = Buffer.alloc(4);
+      header.writeUInt32BE(json.length, 0);
+      return Buffer.concat([header, json, ciphertext]);
+    }
+
+    function reason(fn: () => unknown): string | undefined {
+      try {
+        fn();
+      } catch (error) {
+        expect(error).toBeInstanceOf(SDXDecryptionError);
+        return (error as SDXDecryptionError).reason;
+      }
+      return undefined;
+    }
+
+    it('should round-trip documents encrypted with encryptDocumentForSDX', () => {
+      const encrypted = encryptDocumentForSDX(document, testKeyPair.publicKey);
+
+      expect(decryptDocumentFromSDX(encrypted, testKeyPair.privateKey)).toEqual(document);
+      expect(decryptDocumentFromSDX(new Uint8Array(encrypted), testKeyPair.privateKey)).toEqual(document);
+    });
+
+    it('should parse the envelope without decrypting', () => {
+      const encrypted = encryptDocumentForSDX(document, testKeyPair.publicKey);
+
+      const parsed = parseSDXEnvelope(encrypted);
+
+      expect(parsed.metadataLength).toBe(encrypted.readUInt32BE(0));
+      expect(parsed.iv).toHaveLength(12);
+      expect(parsed.authTag).toHaveLength(16);
+      expect(parsed.encryptedKey).toHaveLength(256);
+      expect(parsed.ciphertext).toHaveLength(document.length);
+      expect(Object.keys(parsed.metadata)).toEqual(['encryptedKey', 'iv', 'authTag']);
+    });
+
+    it('should reject truncated headers', () => {
+      expect(reason(() => parseSDXEnvelope(Buffer.from([0, 0])))).toBe('INVALID_HEADER');
+      expect(reason(() => parseSDXEnvelope(Buffer.from([0, 0, 0, 0, 1])))).toBe('INVALID_HEADER');
+      expect(reason(() => parseSDXEnvelope(Buffer.from([0, 0, 1, 0, 1, 2])))).toBe('INVALID_HEADER');
+    });
+
+    it('should reject invalid metadata', () => {
+      const valid = { encryptedKey: 'AAAA', iv: Buffer.alloc(12).toString('base64'), authTag: Buffer.alloc(16).toString('base64') };
+      const notJson = Buffer.concat([Buffer.from([0, 0, 0, 3]), Buffer.from('{x}')]);
+
+      expect(reason(() => parseSDXEnvelope(notJson))).toBe('INVALID_METADATA');
+      expect(reason(() => parseSDXEnvelope(envelope(['array'])))).toBe('INVALID_METADATA');
+      expect(reason(() => parseSDXEnvelope(envelope({ ...valid, encryptedKey: undefined })))).toBe('INVALID_METADATA');
+      expect(reason(() => parseSDXEnvelope(envelope({ ...valid, iv: 'not base64!' })))).toBe('INVALID_METADATA');
+      expect(reason(() => parseSDXEnvelope(envelope({ ...valid, authTag: 'AAAA' })))).toBe('INVALID_METADATA');
+      expect(parseSDXEnvelope(envelope(valid)).ciphertext.toString()).toBe('ciphertext');
+    });
+
+    it('should report a document encrypted for another key', () => {
+      const other = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+      const encrypted = encryptDocumentForSDX(document, other.publicKey);
+
+      expect(reason(() => decryptDocumentFromSDX(encrypted, testKeyPair.privateKey))).toBe('KEY_DECRYPTION_FAILED');
+    });
+
+    it('should detect tampered ciphertext', () => {
+      const encrypted = encryptDocumentForSDX(document, testKeyPair.publicKey);
+      encrypted[encrypted.length - 1] ^= 0xff;
+
+      expect(reason(() => decryptDocumentFromSDX(encrypted, testKeyPair.privateKey))).toBe('AUTHENTICATION_FAILED');
+    });
+
+    it('should use typed error codes', () => {
+      const error = new SDXDecryptionError('AUTHENTICATION_FAILED', 'tampered');
+
+      expect(error.errorCode).toBe('SDX_AUTHENTICATION_FAILED');
+      expect(error.name).toBe('SDXDecryptionError');
+    });
+  });
 });
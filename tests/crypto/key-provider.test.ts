@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileKeyProvider,
+  KmsKeyProvider,
+  LocalKms,
+  PemKeyProvider,
+  isKeyProvider,
+} from '../../src/crypto/key-provider';
+import { hybridEncrypt, encryptDocumentForSDX } from '../../src/crypto/encrypt';
+import {
+  hybridDecrypt,
+  decryptOfferDetails,
+  decryptOffers,
+  decryptDocumentFromSDX,
+  SDXDecryptionError,
+} from '../../src/crypto/decrypt';
+import { decryptStreamFromSDX, encryptStreamForSDX } from '../../src/crypto/stream';
+import { readAll } from '../../src/streams';
+
+describe('crypto/key-provider', () => {
+  let keyPair: { publicKey: string; privateKey: string };
+  let directory: string;
+
+  const wrap = (aesKey: Buffer, publicKey = keyPair.publicKey) =>
+    crypto.publicEncrypt({ key: publicKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' }, aesKey);
+
+  beforeAll(() => {
+    keyPair = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'passage-keys-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('PemKeyProvider', () => {
+    it('should unwrap keys', async () => {
+      const aesKey = crypto.randomBytes(32);
+
+      await expect(new PemKeyProvider(keyPair.privateKey).unwrapKey(wrap(aesKey))).resolves.toEqual(aesKey);
+    });
+
+    it('should reject malformed and non-RSA keys up front', () => {
+      const ec = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+      });
+
+      expect(() => new PemKeyProvider('not a key')).toThrow('PemKeyProvider: could not load the private key');
+      expect(() => new PemKeyProvider(ec.privateKey)).toThrow('expected an RSA private key, got ec');
+    });
+  });
+
+  describe('FileKeyProvider', () => {
+    const passphrase = 'correct horse battery staple';
+    let file: string;
+
+    beforeAll(() => {
+      file = path.join(directory, 'neobank.pem');
+      const encrypted = crypto
+        .createPrivateKey(keyPair.privateKey)
+        .export({ type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase });
+      fs.writeFileSync(file, encrypted);
+    });
+
+    it('should load an encrypted PEM file once', async () => {
+      const fetchPassphrase = vi.fn(async () => passphrase);
+      const provider = new FileKeyProvider({ path: file, passphrase: fetchPassphrase, keyId: 'neobank-1' });
+      const aesKey = crypto.randomBytes(32);
+
+      await expect(provider.unwrapKey(wrap(aesKey))).resolves.toEqual(aesKey);
+      await expect(provider.unwrapKey(wrap(aesKey))).resolves.toEqual(aesKey);
+      expect(fetchPassphrase).toHaveBeenCalledTimes(1);
+      expect(provider.keyId).toBe('neobank-1');
+    });
+
+    it('should report a wrong passphrase and retry on the next call', async () => {
+      const fetchPassphrase = vi.fn().mockResolvedValueOnce('wrong').mockResolvedValueOnce(passphrase);
+      const provider = new FileKeyProvider({ path: file, passphrase: fetchPassphrase });
+      const aesKey = crypto.randomBytes(32);
+
+      await expect(provider.unwrapKey(wrap(aesKey))).rejects.toThrow('wrong passphrase?');
+      await expect(provider.unwrapKey(wrap(aesKey))).resolves.toEqual(aesKey);
+    });
+  });
+
+  describe('LocalKms', () => {
+    it('should create keys and decrypt through a key provider', async () => {
+      const kms = new LocalKms();
+      const publicKey = await kms.createKey('neobank-2024');
+      const aesKey = crypto.randomBytes(32);
+
+      const provider = kms.keyProvider('neobank-2024');
+
+      expect(provider.keyId).toBe('neobank-2024');
+      await expect(provider.unwrapKey(wrap(aesKey, publicKey))).resolves.toEqual(aesKey);
+      await expect(kms.getPublicKey('neobank-2024')).resolves.toBe(publicKey);
+    });
+
+    it('should import keys and reject unknown or duplicate IDs', async () => {
+      const kms = new LocalKms();
+      kms.importKey('imported', keyPair.privateKey);
+
+      await expect(kms.decrypt('imported', wrap(Buffer.alloc(32, 1)))).resolves.toEqual(Buffer.alloc(32, 1));
+      expect(() => kms.importKey('imported', keyPair.privateKey)).toThrow('key imported already exists');
+      expect(() => kms.keyProvider('missing')).toThrow('LocalKms: no key missing');
+    });
+  });
+
+  it('should adapt a KMS decrypt call', async () => {
+    const decrypt = vi.fn(async () => new Uint8Array([1, 2, 3]));
+    const provider = new KmsKeyProvider({ keyId: 'arn:aws:kms:key/1', decrypt });
+
+    await expect(provider.unwrapKey(Buffer.from('wrapped'))).resolves.toEqual(Buffer.from([1, 2, 3]));
+    expect(decrypt).toHaveBeenCalledWith(Buffer.from('wrapped'));
+    expect(isKeyProvider(provider)).toBe(true);
+    expect(isKeyProvider(keyPair.privateKey)).toBe(false);
+  });
+
+  describe('decrypting with a provider', () => {
+    it('should decrypt hybrid payloads and offers', async () => {
+      const provider = new PemKeyProvider(keyPair.privateKey);
+      const details = JSON.stringify({ apr: '9.99', interestRate: '9.5', term: 36, monthlyPayment: '320.00' });
+      const encrypted = JSON.stringify(hybridEncrypt(details, keyPair.publicKey));
+      const checksum = crypto.createHash('sha256').update(encrypted).digest('hex');
+
+      await expect(hybridDecrypt(encrypted, provider)).resolves.toBe(details);
+      await expect(decryptOfferDetails(encrypted, checksum, provider)).resolves.toMatchObject({
+        data: { apr: '9.99' },
+        verified: true,
+      });
+
+      const results = await decryptOffers(
+        [
+          { encryptedOfferDetailsNeobank: encrypted, checksumSha256: checksum },
+          { encryptedOfferDetailsNeobank: '{bad', checksumSha256: checksum },
+        ],
+        provider
+      );
+      expect(results[0]).toMatchObject({ details: { apr: '9.99' }, verified: true });
+      expect(results[1]).toMatchObject({ details: null, verified: false, error: 'Invalid encrypted payload: malformed JSON' });
+    });
+
+    it('should reject malformed payloads instead of throwing', async () => {
+      const result = hybridDecrypt('{bad', new PemKeyProvider(keyPair.privateKey));
+
+      await expect(result).rejects.toThrow('malformed JSON');
+    });
+
+    it('should decrypt SDX documents and streams', async () => {
+      const provider = new PemKeyProvider(keyPair.privateKey);
+      const document = Buffer.from('%PDF-1.7 bank statement');
+
+      await expect(decryptDocumentFromSDX(encryptDocumentForSDX(document, keyPair.publicKey), provider)).resolves.toEqual(
+        document
+      );
+      expect(
+        await readAll(decryptStreamFromSDX(encryptStreamForSDX(document, keyPair.publicKey), provider))
+      ).toEqual(document);
+    });
+
+    it('should report provider failures as KEY_DECRYPTION_FAILED', async () => {
+      const provider = new KmsKeyProvider({ decrypt: () => Promise.reject(new Error('AccessDeniedException')) });
+
+      const error = await decryptDocumentFromSDX(encryptDocumentForSDX(Buffer.from('x'), keyPair.publicKey), provider).catch(
+        (e) => e
+      );
+
+      expect(error).toBeInstanceOf(SDXDecryptionError);
+      expect(error.reason).toBe('KEY_DECRYPTION_FAILED');
+      expect(error.cause.message).toBe('AccessDeniedException');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import crypto from 'crypto';
+import { Keyring } from '../../src/crypto/keyring';
+import { KmsKeyProvider, PemKeyProvider, keyFingerprint } from '../../src/crypto/key-provider';
+import { hybridEncrypt, encryptDocumentForSDX } from '../../src/crypto/encrypt';
+import { decryptOfferDetails, decryptOffers, decryptDocumentFromSDX } from '../../src/crypto/decrypt';
+
+type KeyPair = { publicKey: string; privateKey: string };
+
+function generateKeyPair(): KeyPair {
+  return crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+}
+
+function encryptOffer(publicKey: string, keyId?: string) {
+  const details = JSON.stringify({ apr: '9.99', interestRate: '9.5', term: 36, monthlyPayment: '320.00' });
+  const encrypted = JSON.stringify(hybridEncrypt(details, publicKey, { keyId }));
+  return {
+    encryptedOfferDetailsNeobank: encrypted,
+    checksumSha256: crypto.createHash('sha256').update(encrypted).digest('hex'),
+  };
+}
+
+describe('crypto/keyring', () => {
+  let current: KeyPair;
+  let previous: KeyPair;
+
+  beforeAll(() => {
+    current = generateKeyPair();
+    previous = generateKeyPair();
+  });
+
+  it('should fingerprint both halves of a key pair alike', () => {
+    const fingerprint = keyFingerprint(current.publicKey);
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyFingerprint(current.privateKey)).toBe(fingerprint);
+    expect(keyFingerprint(previous.publicKey)).not.toBe(fingerprint);
+  });
+
+  it('should only embed a keyId when given one', () => {
+    expect(hybridEncrypt('x', current.publicKey, { keyId: 'neobank-2025' }).keyId).toBe('neobank-2025');
+    expect(hybridEncrypt('x', current.publicKey)).not.toHaveProperty('keyId');
+  });
+
+  it('should default PEM keyIds to their fingerprint', () => {
+    const keyring = new Keyring({
+      keys: [{ privateKey: current.privateKey }, { privateKey: previous.privateKey, retired: true }],
+    });
+
+    expect(keyring.keyId).toBe(keyFingerprint(current.publicKey));
+    expect(keyring.keyIds).toEqual([keyFingerprint(current.publicKey), keyFingerprint(previous.publicKey)]);
+  });
+
+  it('should select the key named by the payload', async () => {
+    const decrypt = vi.fn(async () => Buffer.alloc(32));
+    const keyring = new Keyring({
+      keys: [
+        { privateKey: new KmsKeyProvider({ keyId: 'kms-key', decrypt }) },
+        { keyId: 'old', privateKey: previous.privateKey, retired: true },
+      ],
+      onRetiredKeyUsed: () => {},
+    });
+    const offer = encryptOffer(previous.publicKey, 'old');
+
+    const result = await decryptOfferDetails(offer.encryptedOfferDetailsNeobank, offer.checksumSha256, keyring);
+
+    expect(result).toMatchObject({ data: { apr: '9.99' }, verified: true, keyId: 'old' });
+    expect(decrypt).not.toHaveBeenCalled();
+  });
+
+  it('should try active keys, then retired ones, and report retired keys in use', async () => {
+    const onRetiredKeyUsed = vi.fn();
+    const keyring = new Keyring({
+      keys: [
+        { keyId: 'old', privateKey: previous.privateKey, retired: true },
+        { keyId: 'new', privateKey: current.privateKey },
+      ],
+      onRetiredKeyUsed,
+    });
+
+    const results = await decryptOffers(
+      [encryptOffer(current.publicKey), encryptOffer(previous.publicKey), encryptOffer(previous.publicKey, 'unknown')],
+      keyring
+    );
+
+    expect(results.map((result) => result.keyId)).toEqual(['new', 'old', 'old']);
+    expect(onRetiredKeyUsed).toHaveBeenCalledTimes(2);
+    expect(onRetiredKeyUsed).toHaveBeenCalledWith({ keyId: 'old' });
+  });
+
+  it('should warn the logger once per retired key', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const consoleWarn = vi.spyOn(console, 'warn');
+    const keys = [
+      { keyId: 'new', privateKey: current.privateKey },
+      { keyId: 'old', privateKey: previous.privateKey, retired: true },
+    ];
+    const offer = encryptOffer(previous.publicKey);
+
+    await decryptOffers([offer, offer], new Keyring({ keys, logger }));
+    await decryptOffers([offer], new Keyring({ keys }));
+
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Retired key old'), { keyId: 'old' });
+    expect(consoleWarn).not.toHaveBeenCalled();
+    consoleWarn.mockRestore();
+  });
+
+  it('should report every key tried when none can decrypt', async () => {
+    const keyring = new Keyring({ keys: [{ keyId: 'new', privateKey: current.privateKey }] });
+    const [result] = await decryptOffers([encryptOffer(previous.publicKey)], keyring);
+
+    expect(result.details).toBeNull();
+    expect(result.error).toContain('Keyring: no key could decrypt (tried new)');
+  });
+
+  it('should decrypt SDX documents across a rotation', async () => {
+    const keyring = new Keyring({
+      keys: [
+        { keyId: 'new', privateKey: new PemKeyProvider(current.privateKey) },
+        { keyId: 'old', privateKey: previous.privateKey, retired: true },
+      ],
+      onRetiredKeyUsed: () => {},
+    });
+    const document = Buffer.from('%PDF-1.7 signed agreement');
+
+    await expect(decryptDocumentFromSDX(encryptDocumentForSDX(document, previous.publicKey), keyring)).resolves.toEqual(
+      document
+    );
+  });
+
+  it('should validate its keys', () => {
+    const provider = new KmsKeyProvider({ decrypt: async () => Buffer.alloc(32) });
+
+    expect(() => new Keyring({ keys: [] })).toThrow('at least one key');
+    expect(() => new Keyring({ keys: [{ privateKey: provider }] })).toThrow('keys[0] needs a keyId');
+    expect(
+      () =>
+        new Keyring({
+          keys: [
+            { keyId: 'a', privateKey: current.privateKey },
+            { keyId: 'a', privateKey: previous.privateKey },
+          ],
+        })
+    ).toThrow('duplicate keyId a');
+    expect(() => new Keyring({ keys: [{ privateKey: current.privateKey, retired: true }] })).toThrow(
+      'every key is retired'
+    );
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import crypto from 'crypto';
+import {
+  InMemoryLenderKeyPinStore,
+  InvalidPublicKeyError,
+  LenderKeyChangedError,
+  LenderKeyPins,
+  validatePublicKey,
+} from '../../src/crypto/lender-keys';
+import { keyFingerprint } from '../../src/crypto/key-provider';
+import { encryptPII, encryptPIIForLenders, encryptDocumentForSDX } from '../../src/crypto/encrypt';
+import { encryptStreamForSDX } from '../../src/crypto/stream';
+
+function rsaPublicKey(modulusLength: number): string {
+  return crypto.generateKeyPairSync('rsa', {
+    modulusLength,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  }).publicKey;
+}
+
+function invalidReason(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(InvalidPublicKeyError);
+    return (error as InvalidPublicKeyError).reason;
+  }
+  return undefined;
+}
+
+describe('crypto/lender-keys', () => {
+  let lenderKey: string;
+  let rotatedKey: string;
+
+  beforeAll(() => {
+    lenderKey = rsaPublicKey(2048);
+    rotatedKey = rsaPublicKey(2048);
+  });
+
+  describe('validatePublicKey', () => {
+    it('should return the fingerprint and size of an RSA key', () => {
+      expect(validatePublicKey(lenderKey)).toEqual({
+        fingerprint: keyFingerprint(lenderKey),
+        modulusLength: 2048,
+      });
+    });
+
+    it('should reject keys that are not SPKI PEM', () => {
+      const privateKey = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'pkcs1', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+      const garbled = lenderKey.replace(/\n[A-Za-z0-9+/]{10}/, '\nAAAAAAAAAA');
+
+      expect(invalidReason(() => validatePublicKey('not a key'))).toBe('MALFORMED');
+      expect(invalidReason(() => validatePublicKey(privateKey.privateKey))).toBe('MALFORMED');
+      expect(invalidReason(() => validatePublicKey(privateKey.publicKey))).toBe('MALFORMED');
+      expect(invalidReason(() => validatePublicKey(garbled))).toBe('MALFORMED');
+    });
+
+    it('should reject non-RSA and short keys', () => {
+      const ec = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+
+      expect(invalidReason(() => validatePublicKey(ec.publicKey))).toBe('NOT_RSA');
+      expect(invalidReason(() => validatePublicKey(rsaPublicKey(1024)))).toBe('TOO_SHORT');
+      expect(() => validatePublicKey(lenderKey, { lenderId: 'lender_1', minModulusLength: 3072 })).toThrow(
+        'Public key of lender lender_1 is 2048 bits, at least 3072 required'
+      );
+    });
+  });
+
+  describe('encrypting for lenders', () => {
+    it('should validate lender keys before encrypting', () => {
+      const error = (() => {
+        try {
+          encryptPIIForLenders(
+            [
+              { lenderId: 'lender_1', publicKey: lenderKey },
+              { lenderId: 'lender_2', publicKey: 'not a key' },
+            ],
+            { ssn: '123-45-6789' }
+          );
+        } catch (e) {
+          return e as InvalidPublicKeyError;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(InvalidPublicKeyError);
+      expect(error?.lenderId).toBe('lender_2');
+      expect(() => encryptPII('lender_1', lenderKey, {}, { minModulusLength: 3072 })).toThrow(InvalidPublicKeyError);
+      expect(() => encryptDocumentForSDX(Buffer.from('x'), 'not a key')).toThrow(InvalidPublicKeyError);
+      expect(() => encryptStreamForSDX(Buffer.from('x'), 'not a key')).toThrow(InvalidPublicKeyError);
+    });
+
+    it('should pin keys on first use and reject changed keys', async () => {
+      const pins = new LenderKeyPins();
+      const lenders = [{ lenderId: 'lender_1', publicKey: lenderKey }];
+
+      await expect(encryptPIIForLenders(lenders, { ssn: '123-45-6789' }, { pins })).resolves.toHaveLength(1);
+
+      const error = await encryptPIIForLenders([{ lenderId: 'lender_1', publicKey: rotatedKey }], {}, { pins }).catch(
+        (e) => e
+      );
+      expect(error).toBeInstanceOf(LenderKeyChangedError);
+      expect(error).toMatchObject({
+        errorCode: 'LENDER_KEY_CHANGED',
+        lenderId: 'lender_1',
+        pinnedFingerprint: keyFingerprint(lenderKey),
+        fingerprint: keyFingerprint(rotatedKey),
+      });
+    });
+
+    it('should accept a change once approved', async () => {
+      const store = new InMemoryLenderKeyPinStore();
+      const pins = new LenderKeyPins({ store });
+      await pins.verify('lender_1', lenderKey);
+
+      const colons = keyFingerprint(rotatedKey).toUpperCase().match(/../g)!.join(':');
+      await pins.approve('lender_1', colons);
+
+      await expect(pins.verify('lender_1', rotatedKey)).resolves.toMatchObject({ fingerprint: keyFingerprint(rotatedKey) });
+      expect(store.get('lender_1')).toBe(keyFingerprint(rotatedKey));
+      await expect(pins.approve('lender_1', 'abc')).rejects.toThrow('not a SHA-256 fingerprint');
+    });
+
+    it('should let onKeyChange approve or reject changes', async () => {
+      const onKeyChange = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+      const pins = new LenderKeyPins({ onKeyChange });
+      await pins.verify('lender_1', lenderKey);
+
+      await expect(pins.verify('lender_1', rotatedKey)).rejects.toThrow(LenderKeyChangedError);
+      await expect(pins.verify('lender_1', rotatedKey)).resolves.toBeDefined();
+      expect(onKeyChange).toHaveBeenCalledWith({
+        lenderId: 'lender_1',
+        pinnedFingerprint: keyFingerprint(lenderKey),
+        fingerprint: keyFingerprint(rotatedKey),
+      });
+    });
+
+    it('should reject unpinned lenders without trust on first use', async () => {
+      const pins = new LenderKeyPins({ trustOnFirstUse: false });
+
+      await expect(pins.verify('lender_1', lenderKey)).rejects.toThrow('Public key of lender lender_1');
+
+      await pins.approve('lender_1', keyFingerprint(lenderKey));
+      await expect(pins.verify('lender_1', lenderKey)).resolves.toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import crypto from 'crypto';
+import { Readable, Writable } from 'stream';
+import type { SDXApi } from '@portola/passage';
+import { SDXResource } from '../../src/resources/sdx';
+import { downloadAndDecrypt, downloadAndDecryptTo } from '../../src/crypto/sdx';
+import { resolveConfig } from '../../src/config';
+import { MockTransport } from '../../src/transport';
+import { encryptDocumentForSDX } from '../../src/crypto/encrypt';
+import { SDXDecryptionError } from '../../src/crypto/decrypt';
+import { encryptStreamForSDX } from '../../src/crypto/stream';
+import { readAll } from '../../src/streams';
+
+describe('SDX download helpers', () => {
+  let keyPair: { publicKey: string; privateKey: string };
+
+  beforeAll(() => {
+    keyPair = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+  });
+
+  const token = { sdxToken: 'tok', expiresIn: 600, sdxUrl: 'https://sdx.example.com' };
+
+  function resource(blob: Uint8Array | Readable) {
+    const api = {
+      generateSDXToken: vi.fn().mockResolvedValue({
+        data: { success: true, data: token },
+      }),
+    };
+    const mock = new MockTransport().reply('GET', '/sdx/blobs/doc_signed', { body: blob });
+    const sdx = new SDXResource(
+      api as unknown as SDXApi,
+      resolveConfig({ apiKey: 'nb_test_abc123xyz789', transport: mock.transport })
+    );
+    return { api, mock, sdx };
+  }
+
+  describe('downloadAndDecrypt', () => {
+    it('should download and decrypt a signed document', async () => {
+      const agreement = Buffer.from('%PDF-1.7 loan agreement');
+      const { api, mock, sdx } = resource(encryptDocumentForSDX(agreement, keyPair.publicKey));
+
+      const document = await downloadAndDecrypt(sdx, {
+        applicationId: 'app_123',
+        documentHandle: 'doc_signed',
+        privateKey: keyPair.privateKey,
+      });
+
+      expect(document).toEqual(agreement);
+      expect(api.generateSDXToken.mock.calls[0][0]).toEqual({
+        sDXTokenRequest: { applicationId: 'app_123', action: 'download', documentType: undefined },
+      });
+      expect(mock.requests[0]).toMatchObject({ responseType: 'arraybuffer', headers: { Authorization: 'Bearer tok' } });
+    });
+
+    it('should reject a tampered document', async () => {
+      const encrypted = encryptDocumentForSDX(Buffer.from('agreement'), keyPair.publicKey);
+      encrypted[encrypted.length - 1] ^= 0xff;
+      const { sdx } = resource(encrypted);
+
+      await expect(
+        downloadAndDecrypt(sdx, { applicationId: 'app_123', documentHandle: 'doc_signed', privateKey: keyPair.privateKey })
+      ).rejects.toBeInstanceOf(SDXDecryptionError);
+    });
+  });
+
+  describe('downloadAndDecryptTo', () => {
+    it('should decrypt the download into a writable stream', async () => {
+      const statement = crypto.randomBytes(5000);
+      const encrypted = await readAll(encryptStreamForSDX(statement, keyPair.publicKey, { chunkSize: 1024 }));
+      const { mock, sdx } = resource(Readable.from([encrypted.subarray(0, 2000), encrypted.subarray(2000)]));
+      const written: Buffer[] = [];
+      const destination = new Writable({
+        write(chunk, _encoding, callback) {
+          written.push(chunk);
+          callback();
+        },
+      });
+
+      await downloadAndDecryptTo(
+        sdx,
+        { applicationId: 'app_123', documentHandle: 'doc_signed', privateKey: keyPair.privateKey },
+        destination
+      );
+
+      expect(Buffer.concat(written)).toEqual(statement);
+      expect(written.length).toBeGreaterThan(1);
+      expect(mock.requests[0].responseType).toBe('stream');
+    });
+
+    it('should write to web streams', async () => {
+      const { sdx } = resource(encryptDocumentForSDX(Buffer.from('agreement'), keyPair.publicKey));
+      const written: Uint8Array[] = [];
+
+      await downloadAndDecryptTo(
+        sdx,
+        { applicationId: 'app_123', documentHandle: 'doc_signed', privateKey: keyPair.privateKey },
+        new WritableStream<Uint8Array>({ write: (chunk) => void written.push(chunk) })
+      );
+
+      expect(Buffer.concat(written).toString()).toBe('agreement');
+    });
+
+    it('should fail on a truncated download', async () => {
+      const encrypted = await readAll(encryptStreamForSDX(crypto.randomBytes(5000), keyPair.publicKey, { chunkSize: 1024 }));
+      const { sdx } = resource(encrypted.subarray(0, encrypted.length - 100));
+
+      await expect(
+        downloadAndDecryptTo(
+          sdx,
+          { applicationId: 'app_123', documentHandle: 'doc_signed', privateKey: keyPair.privateKey },
+          new Writable({ write: (_chunk, _encoding, callback) => callback() })
+        )
+      ).rejects.toMatchObject({ reason: 'TRUNCATED' });
+    });
+  });
+
+  it('should decrypt chunked documents downloaded in full', async () => {
+    const encrypted = await readAll(encryptStreamForSDX(Buffer.from('agreement'), keyPair.publicKey));
+    const { sdx } = resource(encrypted);
+
+    const document = await downloadAndDecrypt(sdx, {
+      applicationId: 'app_123',
+      documentHandle: 'doc_signed',
+      privateKey: keyPair.privateKey,
+    });
+
+    expect(document.toString()).toBe('agreement');
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { encryptStreamForSDX, decryptStreamFromSDX } from '../../src/crypto/stream';
+import { encryptDocumentForSDX } from '../../src/crypto/encrypt';
+import { decryptDocumentFromSDX, parseSDXEnvelope, SDXDecryptionError } from '../../src/crypto/decrypt';
+import { readAll } from '../../src/streams';
+
+async function* pieces(buffer: Buffer, size: number): AsyncGenerator<Buffer> {
+  for (let offset = 0; offset < buffer.length; offset += size) {
+    yield buffer.subarray(offset, offset + size);
+  }
+}
+
+async function reason(stream: Readable): Promise<string | undefined> {
+  const error = await readAll(stream).then(
+    () => undefined,
+    (e) => e
+  );
+  if (error) {
+    expect(error).toBeInstanceOf(SDXDecryptionError);
+  }
+  return error?.reason;
+}
+
+describe('crypto/stream', () => {
+  let keyPair: { publicKey: string; privateKey: string };
+  const document = crypto.randomBytes(1000);
+
+  beforeAll(() => {
+    keyPair = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+  });
+
+  /** Encrypted envelope of a 12-byte document: header then three 25-byte frames */
+  async function threeFrames(): Promise<{ envelope: Buffer; headerLength: number }> {
+    const envelope = await readAll(encryptStreamForSDX(Buffer.from('abcdefghijkl'), keyPair.publicKey, { chunkSize: 4 }));
+    return { envelope, headerLength: envelope.length - 3 * 25 };
+  }
+
+  describe('encryptStreamForSDX', () => {
+    it('should round-trip a stream in chunked frames', async () => {
+      const encrypted = await readAll(
+        encryptStreamForSDX(Readable.from(pieces(document, 333)), keyPair.publicKey, { chunkSize: 128 })
+      );
+
+      expect(encrypted.subarray(0, 4)).toEqual(Buffer.from('SDX\x02', 'latin1'));
+      expect(await readAll(decryptStreamFromSDX(Readable.from(pieces(encrypted, 50)), keyPair.privateKey))).toEqual(document);
+      expect(decryptDocumentFromSDX(encrypted, keyPair.privateKey)).toEqual(document);
+    });
+
+    it('should read web streams and async iterables', async () => {
+      const web = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new Uint8Array(document.subarray(0, 600)));
+          controller.enqueue(new Uint8Array(document.subarray(600)));
+          controller.close();
+        },
+      });
+
+      const fromWeb = await readAll(encryptStreamForSDX(web, keyPair.publicKey));
+      const fromIterable = await readAll(encryptStreamForSDX(pieces(document, 10), keyPair.publicKey));
+
+      expect(decryptDocumentFromSDX(fromWeb, keyPair.privateKey)).toEqual(document);
+      expect(decryptDocumentFromSDX(fromIterable, keyPair.privateKey)).toEqual(document);
+    });
+
+    it('should encrypt empty documents and exact multiples of the chunk size', async () => {
+      const empty = await readAll(encryptStreamForSDX(Buffer.alloc(0), keyPair.publicKey));
+      const { envelope } = await threeFrames();
+
+      expect(decryptDocumentFromSDX(empty, keyPair.privateKey)).toHaveLength(0);
+      expect(decryptDocumentFromSDX(envelope, keyPair.privateKey).toString()).toBe('abcdefghijkl');
+    });
+
+    it('should emit frames before the source ends', async () => {
+      let release!: () => void;
+      const blocked = new Promise<void>((resolve) => (release = resolve));
+      async function* source() {
+        yield Buffer.alloc(300, 1);
+        await blocked;
+        yield Buffer.alloc(10, 2);
+      }
+
+      const output = encryptStreamForSDX(source(), keyPair.publicKey, { chunkSize: 100 })[Symbol.asyncIterator]();
+      await output.next();
+      const frame: Buffer = (await output.next()).value;
+
+      expect(frame.readUInt8(0)).toBe(0);
+      expect(frame.readUInt32BE(1)).toBe(100);
+      release();
+    });
+
+    it('should validate the chunk size', () => {
+      expect(() => encryptStreamForSDX(document, keyPair.publicKey, { chunkSize: 0 })).toThrow('chunkSize');
+      expect(() => encryptStreamForSDX(document, keyPair.publicKey, { chunkSize: 32 * 1024 * 1024 })).toThrow('chunkSize');
+    });
+  });
+
+  describe('decryptStreamFromSDX', () => {
+    it('should stream single-part envelopes', async () => {
+      const encrypted = encryptDocumentForSDX(document, keyPair.publicKey);
+
+      const decrypted = await readAll(decryptStreamFromSDX(pieces(encrypted, 7), keyPair.privateKey));
+
+      expect(decrypted).toEqual(document);
+    });
+
+    it('should fail single-part envelopes with a bad tag at the end', async () => {
+      const encrypted = encryptDocumentForSDX(document, keyPair.publicKey);
+      encrypted[encrypted.length - 1] ^= 0xff;
+
+      expect(await reason(decryptStreamFromSDX(encrypted, keyPair.privateKey))).toBe('AUTHENTICATION_FAILED');
+    });
+
+    it('should detect truncation', async () => {
+      const { envelope, headerLength } = await threeFrames();
+
+      expect(await reason(decryptStreamFromSDX(envelope.subarray(0, envelope.length - 25), keyPair.privateKey))).toBe(
+        'TRUNCATED'
+      );
+      expect(await reason(decryptStreamFromSDX(envelope.subarray(0, headerLength + 10), keyPair.privateKey))).toBe(
+        'TRUNCATED'
+      );
+      expect(() => decryptDocumentFromSDX(envelope.subarray(0, envelope.length - 25), keyPair.privateKey)).toThrow(
+        SDXDecryptionError
+      );
+    });
+
+    it('should detect reordered and tampered frames', async () => {
+      const { envelope, headerLength } = await threeFrames();
+      const frame = (index: number) => envelope.subarray(headerLength + 25 * index, headerLength + 25 * (index + 1));
+      const swapped = Buffer.concat([envelope.subarray(0, headerLength), frame(1), frame(0), frame(2)]);
+      const tampered = Buffer.from(envelope);
+      tampered[headerLength + 25 + 6] ^= 0x01;
+
+      expect(await reason(decryptStreamFromSDX(swapped, keyPair.privateKey))).toBe('AUTHENTICATION_FAILED');
+      expect(await reason(decryptStreamFromSDX(tampered, keyPair.privateKey))).toBe('AUTHENTICATION_FAILED');
+    });
+
+    it('should not accept a frame falsely marked final', async () => {
+      const { envelope, headerLength } = await threeFrames();
+      const cut = Buffer.from(envelope.subarray(0, headerLength + 25));
+      cut[headerLength] = 0x01;
+
+      expect(await reason(decryptStreamFromSDX(cut, keyPair.privateKey))).toBe('AUTHENTICATION_FAILED');
+    });
+
+    it('should reject data after the final frame and oversized frames', async () => {
+      const { envelope, headerLength } = await threeFrames();
+      const oversized = Buffer.from(envelope);
+      oversized.writeUInt32BE(5, headerLength + 1);
+
+      expect(await reason(decryptStreamFromSDX(Buffer.concat([envelope, Buffer.from([0])]), keyPair.privateKey))).toBe(
+        'INVALID_HEADER'
+      );
+      expect(await reason(decryptStreamFromSDX(oversized, keyPair.privateKey))).toBe('INVALID_HEADER');
+    });
+
+    it('should report a document encrypted for another key', async () => {
+      const other = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+
+      const encrypted = encryptStreamForSDX(document, other.publicKey);
+
+      expect(await reason(decryptStreamFromSDX(encrypted, keyPair.privateKey))).toBe('KEY_DECRYPTION_FAILED');
+    });
+
+    it('should not parse chunked envelopes as single-part', async () => {
+      const { envelope } = await threeFrames();
+
+      expect(() => parseSDXEnvelope(envelope)).toThrow('SDX envelope is chunked');
+    });
+  });
+});
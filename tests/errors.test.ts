@@ -9,7 +9,9 @@ import {
   ConflictError,
   NetworkError,
   TimeoutError,
+  InvalidTransitionError,
   createErrorFromResponse,
+  parseRetryAfter,
 } from '../src/errors';
 
 describe('errors', () => {
@@ -224,6 +226,38 @@ describe('errors', () => {
       const error = new RateLimitError();
       expect(error.isRetryable).toBe(true);
     });
+
+    it('should report milliseconds until retry', () => {
+      expect(new RateLimitError().retryAfterMs).toBeUndefined();
+      expect(new RateLimitError('Too many requests', Math.floor(Date.now() / 1000) - 10).retryAfterMs).toBe(0);
+      expect(
+        new RateLimitError('Too many requests', Math.floor(Date.now() / 1000) + 60).retryAfterMs
+      ).toBeGreaterThan(59000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    const now = Date.UTC(2024, 0, 15, 10, 30, 0);
+    const nowSeconds = now / 1000;
+
+    it('should parse delay seconds', () => {
+      expect(parseRetryAfter({ 'retry-after': '120' }, now)).toBe(nowSeconds + 120);
+    });
+
+    it('should parse HTTP dates', () => {
+      expect(parseRetryAfter({ 'Retry-After': 'Mon, 15 Jan 2024 10:31:00 GMT' }, now)).toBe(nowSeconds + 60);
+    });
+
+    it('should fall back to rate limit reset headers', () => {
+      expect(parseRetryAfter({ 'ratelimit-reset': '5' }, now)).toBe(nowSeconds + 5);
+      expect(parseRetryAfter({ 'x-ratelimit-reset': String(nowSeconds + 30) }, now)).toBe(nowSeconds + 30);
+    });
+
+    it('should ignore missing or invalid headers', () => {
+      expect(parseRetryAfter(undefined, now)).toBeUndefined();
+      expect(parseRetryAfter({}, now)).toBeUndefined();
+      expect(parseRetryAfter({ 'retry-after': 'soon', 'x-ratelimit-reset': '' }, now)).toBeUndefined();
+    });
   });
 
   describe('ConflictError', () => {
@@ -235,6 +269,26 @@ describe('errors', () => {
     });
   });
 
+  describe('InvalidTransitionError', () => {
+    it('should have status 409 and INVALID_TRANSITION code', () => {
+      const error = new InvalidTransitionError('OFFERS_READY', 'FUNDED', ['OFFER_ACCEPTED', 'CANCELLED']);
+      expect(error.statusCode).toBe(409);
+      expect(error.errorCode).toBe('INVALID_TRANSITION');
+      expect(error.name).toBe('InvalidTransitionError');
+      expect(error.isRetryable).toBe(false);
+      expect(error.message).toBe(
+        'Cannot transition application from OFFERS_READY to FUNDED (allowed: OFFER_ACCEPTED, CANCELLED)'
+      );
+    });
+
+    it('should describe terminal statuses', () => {
+      const error = new InvalidTransitionError('FUNDED', 'PENDING', []);
+      expect(error.message).toContain('FUNDED is terminal');
+      expect(error.from).toBe('FUNDED');
+      expect(error.to).toBe('PENDING');
+    });
+  });
+
   describe('NetworkError', () => {
     it('should have NETWORK_ERROR code and default message', () => {
       const error = new NetworkError();
@@ -317,6 +371,13 @@ describe('errors', () => {
       expect(error).toBeInstanceOf(RateLimitError);
     });
 
+    it('should read Retry-After into RateLimitError', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const error = createErrorFromResponse(429, { message: 'Too many requests' }, { 'Retry-After': '30' });
+      expect((error as RateLimitError).retryAfter).toBeGreaterThanOrEqual(now + 30);
+      expect((error as RateLimitError).retryAfter).toBeLessThanOrEqual(now + 31);
+    });
+
     it('should create generic PassageError for other status codes', () => {
       const error = createErrorFromResponse(500, { message: 'Internal error' });
       expect(error).toBeInstanceOf(PassageError);
@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import { LoanFlow, type LoanFlowClient, type LoanFlowInput, type LoanFlowProgressEvent } from '../../src/flows/loan-flow';
+import { InMemoryCheckpointStore, LOAN_FLOW_STEPS } from '../../src/flows/checkpoint';
+import { hybridEncrypt } from '../../src/crypto/encrypt';
+import { PemKeyProvider, keyFingerprint } from '../../src/crypto/key-provider';
+import { LenderKeyChangedError, LenderKeyPins } from '../../src/crypto/lender-keys';
+import { TimeoutError, PassageError } from '../../src/errors';
+
+describe('LoanFlow', () => {
+  let neobankKeys: { publicKey: string; privateKey: string };
+  let lenderKeys: { publicKey: string; privateKey: string };
+
+  beforeAll(() => {
+    const generate = () =>
+      crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+    neobankKeys = generate();
+    lenderKeys = generate();
+  });
+
+  function encryptedOffer(offerId: string, apr: string) {
+    const encrypted = JSON.stringify(hybridEncrypt(
+      JSON.stringify({ apr, interestRate: apr, term: 36, monthlyPayment: '168.45' }),
+      neobankKeys.publicKey
+    ));
+    return {
+      offerId,
+      encryptedOfferDetailsNeobank: encrypted,
+      checksumSha256: crypto.createHash('sha256').update(encrypted, 'utf8').digest('hex'),
+    };
+  }
+
+  const input: LoanFlowInput = {
+    productType: 'personal' as LoanFlowInput['productType'],
+    stateCode: 'CA',
+    pii: { firstName: 'Jane', lastName: 'Doe' },
+    borrower: { email: 'jane@example.com', name: 'Jane Doe' },
+    hardPullConsent: {
+      consented: true,
+      consentedAt: '2024-01-15T10:30:00Z',
+    } as LoanFlowInput['hardPullConsent'],
+  };
+
+  let client: {
+    lenders: { list: ReturnType<typeof vi.fn> };
+    applications: { create: ReturnType<typeof vi.fn> };
+    offers: {
+      getPrequalified: ReturnType<typeof vi.fn>;
+      acceptPrequal: ReturnType<typeof vi.fn>;
+      getFinal: ReturnType<typeof vi.fn>;
+      acceptFinal: ReturnType<typeof vi.fn>;
+    };
+    signing: { create: ReturnType<typeof vi.fn>; getStatus: ReturnType<typeof vi.fn> };
+    loans: { getByApplication: ReturnType<typeof vi.fn>; get: ReturnType<typeof vi.fn> };
+  };
+
+  beforeEach(() => {
+    const loan = { id: 'loan_123', applicationId: 'app_123' };
+    client = {
+      lenders: {
+        list: vi.fn().mockResolvedValue([{ lenderId: 'lender_1', publicKey: lenderKeys.publicKey }]),
+      },
+      applications: { create: vi.fn().mockResolvedValue({ id: 'app_123' }) },
+      offers: {
+        getPrequalified: vi.fn().mockResolvedValue({
+          lenders: [{
+            lenderId: 'lender_1',
+            lenderName: 'Lender One',
+            offers: [encryptedOffer('offer_high', '15.99'), encryptedOffer('offer_low', '9.99')],
+          }],
+        }),
+        acceptPrequal: vi.fn().mockResolvedValue({}),
+        getFinal: vi.fn().mockResolvedValue({
+          lenders: [{ lenderId: 'lender_1', offers: [encryptedOffer('final_1', '9.49')] }],
+        }),
+        acceptFinal: vi.fn().mockResolvedValue({}),
+      },
+      signing: {
+        create: vi.fn().mockResolvedValue({ sessionId: 'sess_1', signingUrl: 'https://sign.example.com/1' }),
+        getStatus: vi.fn().mockResolvedValue({ sessionId: 'sess_1', status: 'COMPLETED' }),
+      },
+      loans: {
+        getByApplication: vi.fn().mockResolvedValue(loan),
+        get: vi.fn().mockResolvedValue(loan),
+      },
+    };
+  });
+
+  function createFlow(overrides: Partial<ConstructorParameters<typeof LoanFlow>[1]> = {}) {
+    return new LoanFlow(client as unknown as LoanFlowClient, {
+      flowId: 'user_1',
+      privateKey: neobankKeys.privateKey,
+      pollInterval: 5,
+      ...overrides,
+    });
+  }
+
+  it('should drive the flow from PII to a funded loan', async () => {
+    const flow = createFlow();
+
+    const { loan, checkpoint } = await flow.run(input);
+
+    expect(loan.id).toBe('loan_123');
+    expect(checkpoint).toMatchObject({
+      flowId: 'user_1',
+      completedSteps: [...LOAN_FLOW_STEPS],
+      lenderIds: ['lender_1'],
+      applicationId: 'app_123',
+      prequalOfferId: 'offer_low',
+      finalOfferId: 'final_1',
+      signingSessionId: 'sess_1',
+      signingUrl: 'https://sign.example.com/1',
+      loanId: 'loan_123',
+    });
+    expect(client.offers.acceptPrequal).toHaveBeenCalledWith('offer_low', expect.objectContaining({
+      hardPullConsent: input.hardPullConsent,
+      borrowerEmail: 'jane@example.com',
+    }), { idempotencyKey: expect.stringMatching(/:acceptPrequal$/) });
+    expect(client.offers.acceptFinal).toHaveBeenCalledWith('final_1', expect.any(Object), expect.any(Object));
+    expect(client.signing.create).toHaveBeenCalledWith('app_123', {
+      borrowerEmail: 'jane@example.com',
+      borrowerName: 'Jane Doe',
+    }, { idempotencyKey: expect.stringMatching(/:signing$/) });
+  });
+
+  it('should decrypt offers with a key provider', async () => {
+    const keyProvider = new PemKeyProvider(neobankKeys.privateKey);
+    const unwrapKey = vi.spyOn(keyProvider, 'unwrapKey');
+
+    const { checkpoint } = await createFlow({ privateKey: keyProvider }).run(input);
+
+    expect(checkpoint.prequalOfferId).toBe('offer_low');
+    expect(unwrapKey).toHaveBeenCalled();
+  });
+
+  it('should encrypt PII for each lender', async () => {
+    await createFlow().run(input);
+
+    const [{ encryptedPayloads }] = client.applications.create.mock.calls[0];
+    expect(encryptedPayloads).toHaveLength(1);
+    expect(encryptedPayloads[0].lenderId).toBe('lender_1');
+    expect(JSON.stringify(encryptedPayloads)).not.toContain('Jane');
+  });
+
+  it('should refuse to encrypt PII for a lender whose key changed', async () => {
+    const lenderKeyPins = new LenderKeyPins({ trustOnFirstUse: false });
+    await lenderKeyPins.approve('lender_1', keyFingerprint(neobankKeys.publicKey));
+
+    await expect(createFlow({ lenderKeyPins }).run(input)).rejects.toThrow(LenderKeyChangedError);
+    expect(client.applications.create).not.toHaveBeenCalled();
+  });
+
+  it('should never save PII in checkpoints', async () => {
+    const store = new InMemoryCheckpointStore();
+    await createFlow({ store }).run(input);
+
+    expect(JSON.stringify(store.load('user_1'))).not.toContain('Jane');
+  });
+
+  it('should use a custom offer selector', async () => {
+    const selectOffer = vi.fn((offers: Array<{ offerId: string }>) => offers[0].offerId);
+
+    const { checkpoint } = await createFlow({ selectOffer }).run(input);
+
+    expect(checkpoint.prequalOfferId).toBe('offer_high');
+    expect(selectOffer).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ offerId: 'offer_high', lenderName: 'Lender One', details: expect.objectContaining({ apr: '15.99' }) }),
+        expect.objectContaining({ offerId: 'offer_low' }),
+      ],
+      'prequal'
+    );
+  });
+
+  it('should reject selections that are not offered', async () => {
+    await expect(createFlow({ selectOffer: () => 'offer_unknown' }).run(input)).rejects.toThrow(
+      'selected offer offer_unknown is not one of the prequal offers'
+    );
+  });
+
+  it('should poll until offers arrive', async () => {
+    const offers = await client.offers.getPrequalified();
+    client.offers.getPrequalified
+      .mockReset()
+      .mockResolvedValueOnce({ lenders: [] })
+      .mockResolvedValueOnce({ lenders: [{ lenderId: 'lender_1', offers: [] }] })
+      .mockResolvedValue(offers);
+    const events: LoanFlowProgressEvent[] = [];
+
+    await createFlow({ onProgress: (event) => events.push(event) }).run(input);
+
+    expect(client.offers.getPrequalified).toHaveBeenCalledTimes(3);
+    expect(events.filter((e) => e.type === 'waiting' && e.step === 'prequalOffers')).toHaveLength(2);
+  });
+
+  it('should wake early on matching webhooks', async () => {
+    client.loans.getByApplication
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({ id: 'loan_123' });
+    const flow = createFlow({
+      pollInterval: 60000,
+      onProgress: (event) => {
+        if (event.type === 'waiting') {
+          flow.handleWebhook({ event: 'signing.completed', data: { applicationId: 'app_123' } });
+          flow.handleWebhook({ event: 'loan.created', data: { applicationId: 'app_other' } });
+          setTimeout(() => flow.handleWebhook({ event: 'loan.created', data: { applicationId: 'app_123' } }), 5);
+        }
+      },
+    });
+
+    const started = Date.now();
+    await flow.run(input);
+
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(client.loans.getByApplication).toHaveBeenCalledTimes(2);
+  });
+
+  it('should time out', async () => {
+    client.signing.getStatus.mockResolvedValue({ sessionId: 'sess_1', status: 'PENDING' });
+
+    await expect(createFlow({ timeout: 20 }).run(input)).rejects.toThrow(TimeoutError);
+  });
+
+  it('should fail when signing fails', async () => {
+    client.signing.getStatus.mockResolvedValue({ sessionId: 'sess_1', status: 'EXPIRED' });
+
+    await expect(createFlow().run(input)).rejects.toMatchObject({ errorCode: 'SIGNING_FAILED' });
+  });
+
+  it('should fail when no offers can be verified', async () => {
+    const offer = encryptedOffer('offer_1', '9.99');
+    client.offers.getPrequalified.mockResolvedValue({
+      lenders: [{ lenderId: 'lender_1', offers: [{ ...offer, checksumSha256: 'tampered' }] }],
+    });
+
+    await expect(createFlow().run(input)).rejects.toMatchObject({ errorCode: 'NO_VERIFIED_OFFERS' });
+  });
+
+  it('should fail when no lenders are available', async () => {
+    client.lenders.list.mockResolvedValue([]);
+
+    const error = await createFlow().run(input).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PassageError);
+    expect(error.errorCode).toBe('NO_LENDERS');
+  });
+
+  it('should resume from the last checkpoint', async () => {
+    const store = new InMemoryCheckpointStore();
+    client.offers.acceptFinal.mockRejectedValueOnce(new Error('network down'));
+
+    await expect(createFlow({ store }).run(input)).rejects.toThrow('network down');
+    expect(store.load('user_1')?.completedSteps).toEqual([
+      'lenders',
+      'application',
+      'prequalOffers',
+      'acceptPrequal',
+      'finalOffers',
+    ]);
+
+    const events: LoanFlowProgressEvent[] = [];
+    const resumed = createFlow({ store, onProgress: (event) => events.push(event) });
+    const { checkpoint } = await resumed.run({ ...input, pii: undefined });
+
+    expect(checkpoint.completedSteps).toEqual([...LOAN_FLOW_STEPS]);
+    expect(client.applications.create).toHaveBeenCalledTimes(1);
+    expect(client.offers.acceptPrequal).toHaveBeenCalledTimes(1);
+    expect(client.offers.acceptFinal).toHaveBeenCalledTimes(2);
+    expect(events.filter((e) => e.type === 'step_skipped').map((e) => e.step)).toEqual([
+      'lenders',
+      'application',
+      'prequalOffers',
+      'acceptPrequal',
+      'finalOffers',
+    ]);
+  });
+
+  it('should repeat a step with the same idempotency key after a crash before saving', async () => {
+    const store = new InMemoryCheckpointStore();
+    const save = store.save.bind(store);
+    vi.spyOn(store, 'save').mockImplementation((checkpoint) => {
+      if (checkpoint.completedSteps.at(-1) === 'application' && client.applications.create.mock.calls.length === 1) {
+        throw new Error('process crashed');
+      }
+      save(checkpoint);
+    });
+
+    await expect(createFlow({ store }).run(input)).rejects.toThrow('process crashed');
+    await createFlow({ store }).run(input);
+
+    const [first, second] = client.applications.create.mock.calls;
+    expect(second[1].idempotencyKey).toBe(first[1].idempotencyKey);
+    expect(first[1].idempotencyKey).toMatch(/^loan-flow:user_1:.+:application$/);
+    expect(client.signing.create.mock.calls[0][2].idempotencyKey).toMatch(/:signing$/);
+  });
+
+  it('should fetch the loan when resuming a completed flow', async () => {
+    const store = new InMemoryCheckpointStore();
+    await createFlow({ store }).run(input);
+
+    const { loan } = await createFlow({ store }).run(input);
+
+    expect(loan.id).toBe('loan_123');
+    expect(client.loans.get).toHaveBeenCalledWith('loan_123');
+  });
+
+  it('should start over after reset', async () => {
+    const store = new InMemoryCheckpointStore();
+    const flow = createFlow({ store });
+    await flow.run(input);
+
+    await flow.reset();
+
+    expect(flow.checkpoint).toBeUndefined();
+    expect(store.load('user_1')).toBeUndefined();
+
+    await flow.run(input);
+    const [first, second] = client.applications.create.mock.calls;
+    expect(second[1].idempotencyKey).not.toBe(first[1].idempotencyKey);
+  });
+
+  it('should require pii to create the application', async () => {
+    await expect(createFlow().run({ ...input, pii: undefined })).rejects.toThrow('pii is required');
+  });
+
+  it('should validate config', () => {
+    expect(() => createFlow({ flowId: '' })).toThrow('flowId is required');
+    expect(() => createFlow({ privateKey: '' })).toThrow('privateKey is required');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Logger, pinoLogger, redact, consoleLogger } from '../src/logger';
+import { NotFoundError } from '../src/errors';
+import type { PassageRequest } from '../src/middleware';
+
+function sink() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('redact', () => {
+  it('should mask sensitive fields by name', () => {
+    expect(
+      redact({
+        applicationId: 'app_123',
+        ssn: '123456789',
+        email_address: 'jane@example.com',
+        borrower: { firstName: 'Jane', dateOfBirth: '1990-01-01', state: 'CA' },
+        apiKey: 'abc',
+        Authorization: 'Basic xyz',
+      })
+    ).toEqual({
+      applicationId: 'app_123',
+      ssn: '[REDACTED]',
+      email_address: '[REDACTED]',
+      borrower: { firstName: '[REDACTED]', dateOfBirth: '[REDACTED]', state: 'CA' },
+      apiKey: '[REDACTED]',
+      Authorization: '[REDACTED]',
+    });
+  });
+
+  it('should mask encrypted blobs and binary data', () => {
+    expect(
+      redact({
+        encryptedPayloads: [{ lenderId: 'lender_1', encryptedPayload: 'abc' }],
+        document: Buffer.from('secret'),
+      })
+    ).toEqual({
+      encryptedPayloads: '[REDACTED:encrypted]',
+      document: '[REDACTED:binary 6 bytes]',
+    });
+  });
+
+  it('should mask PII patterns inside strings', () => {
+    const wallet = '0x' + 'ab12'.repeat(10);
+    const blob = Buffer.alloc(64, 7).toString('base64').replace(/^.{4}/, 'Ab1/');
+
+    expect(
+      redact({
+        note: `jane@example.com paid from ${wallet}, SSN 123-45-6789`,
+        url: 'https://api.tryportola.com/api/v1/applications/app_123/offers/prequalified',
+        header: 'Bearer eyJhbGciOi.payload.sig',
+        key: 'using nb_live_abc123xyz789',
+        blob,
+      })
+    ).toEqual({
+      note: '[REDACTED:email] paid from [REDACTED:wallet], SSN [REDACTED:ssn]',
+      url: 'https://api.tryportola.com/api/v1/applications/app_123/offers/prequalified',
+      header: 'Bearer [REDACTED]',
+      key: 'using nb_live_[REDACTED]',
+      blob: '[REDACTED:encrypted]',
+    });
+  });
+
+  it('should serialize errors without their stack', () => {
+    const error = new NotFoundError('No application for jane@example.com', { requestId: 'req_1' });
+
+    expect(redact({ error })).toEqual({
+      error: {
+        name: 'NotFoundError',
+        message: 'No application for [REDACTED:email]',
+        errorCode: 'NOT_FOUND',
+        statusCode: 404,
+        requestId: 'req_1',
+      },
+    });
+  });
+
+  it('should handle cycles and extra keys', () => {
+    const value: Record<string, unknown> = { externalId: 'user-42' };
+    value.self = value;
+
+    expect(redact(value, ['external_id'])).toEqual({ externalId: '[REDACTED]', self: '[Truncated]' });
+  });
+
+  it('should not mutate the input', () => {
+    const input = { email: 'jane@example.com' };
+
+    redact(input);
+
+    expect(input.email).toBe('jane@example.com');
+  });
+});
+
+describe('Logger', () => {
+  it('should filter by level', () => {
+    const target = sink();
+    const logger = new Logger(target, 'warn');
+
+    logger.debug('a');
+    logger.info('b');
+    logger.warn('c');
+    logger.error('d');
+
+    expect(target.debug).not.toHaveBeenCalled();
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.warn).toHaveBeenCalledWith('c', undefined);
+    expect(target.error).toHaveBeenCalledWith('d', undefined);
+  });
+
+  it('should write nothing when silent', () => {
+    const target = sink();
+
+    new Logger(target, 'silent').error('x');
+
+    expect(target.error).not.toHaveBeenCalled();
+  });
+
+  it('should redact fields before writing', () => {
+    const target = sink();
+
+    new Logger(target, 'debug').debug('wallets.create', { address: '0xabc' });
+
+    expect(target.debug).toHaveBeenCalledWith('wallets.create', { address: '[REDACTED]' });
+  });
+
+  it('should swallow logger failures', () => {
+    const target = sink();
+    target.info.mockImplementation(() => {
+      throw new Error('disk full');
+    });
+
+    expect(() => new Logger(target, 'info').info('x')).not.toThrow();
+  });
+
+  it('should log HTTP attempts from its middleware', async () => {
+    const target = sink();
+    const logger = new Logger(target, 'debug');
+    const request: PassageRequest = {
+      method: 'GET',
+      url: 'https://api.example.com/wallets?address=0x' + 'ab'.repeat(20),
+      headers: { Authorization: 'Bearer secret' },
+      operation: 'wallets.list',
+      attempt: 2,
+      priority: 'interactive',
+    };
+
+    await logger.middleware(request, async () => ({ status: 200, headers: { 'x-request-id': 'req_9' }, body: '' }));
+    await logger
+      .middleware(request, async () => {
+        throw new NotFoundError('Not found', { requestId: 'req_10' });
+      })
+      .catch(() => {});
+
+    expect(target.debug).toHaveBeenNthCalledWith(1, 'HTTP request completed', {
+      operation: 'wallets.list',
+      attempt: 2,
+      method: 'GET',
+      url: 'https://api.example.com/wallets?address=[REDACTED:wallet]',
+      status: 200,
+      requestId: 'req_9',
+      durationMs: expect.any(Number),
+    });
+    expect(target.debug).toHaveBeenNthCalledWith(2, 'HTTP request failed', expect.objectContaining({
+      status: 404,
+      errorCode: 'NOT_FOUND',
+      requestId: 'req_10',
+    }));
+  });
+});
+
+describe('pinoLogger', () => {
+  it('should pass fields before the message', () => {
+    const pino = sink();
+
+    pinoLogger(pino).info('Retrying operation', { attempt: 1 });
+    pinoLogger(pino).warn('No fields');
+
+    expect(pino.info).toHaveBeenCalledWith({ attempt: 1 }, 'Retrying operation');
+    expect(pino.warn).toHaveBeenCalledWith({}, 'No fields');
+  });
+});
+
+describe('consoleLogger', () => {
+  it('should prefix messages', () => {
+    const spy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    consoleLogger.warn('Careful', { attempt: 1 });
+    consoleLogger.warn('Bare', {});
+
+    expect(spy).toHaveBeenNthCalledWith(1, '[Passage] Careful', { attempt: 1 });
+    expect(spy).toHaveBeenNthCalledWith(2, '[Passage] Bare');
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { Readable } from 'stream';
+import type { AddressInfo } from 'net';
+import type { SDXApi } from '@portola/passage';
+import { createHttpClient, runInRequestContext, type PassageMiddleware, type PassageRequest } from '../src/middleware';
+import { NotFoundError, RateLimitError, PassageError } from '../src/errors';
+import { SDXResource } from '../src/resources/sdx';
+import { resolveConfig } from '../src/config';
+
+describe('middleware', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const received: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string }> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers, body });
+        if (req.url?.startsWith('/missing')) {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'NOT_FOUND', message: 'Application not found' }));
+        } else if (req.url?.startsWith('/sdx/blobs')) {
+          res.writeHead(201, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ documentHandle: 'doc_1', expiresAt: '2024-01-16T00:00:00Z', blobSize: body.length }));
+        } else if (req.url?.startsWith('/limited')) {
+          res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '30' });
+          res.end(JSON.stringify({ message: 'Slow down' }));
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json', 'X-Request-Id': 'req_1' });
+          res.end(JSON.stringify({ success: true, data: { echo: body } }));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should pass requests through without middleware', async () => {
+    const client = createHttpClient([]);
+
+    const response = await client.post(`${baseUrl}/ok`, { amount: 100 });
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ success: true, data: { echo: '{"amount":100}' } });
+    expect(response.headers['x-request-id']).toBe('req_1');
+  });
+
+  it('should run middleware in order around the request', async () => {
+    const calls: string[] = [];
+    const middleware: PassageMiddleware[] = [
+      async (request, next) => {
+        calls.push('outer:before');
+        const response = await next(request);
+        calls.push('outer:after');
+        return response;
+      },
+      async (request, next) => {
+        calls.push('inner:before');
+        const response = await next(request);
+        calls.push('inner:after');
+        return response;
+      },
+    ];
+
+    await createHttpClient(middleware).get(`${baseUrl}/ok`);
+
+    expect(calls).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after']);
+  });
+
+  it('should let middleware change requests and responses', async () => {
+    const client = createHttpClient([
+      async (request, next) => {
+        const response = await next({ ...request, headers: { ...request.headers, traceparent: '00-abc-def-01' } });
+        return { ...response, headers: { ...response.headers, 'x-traced': 'yes' } };
+      },
+    ]);
+
+    const response = await client.get(`${baseUrl}/ok?page=2`, { headers: { 'X-Custom': '1' } });
+
+    const sent = received[received.length - 1];
+    expect(sent.url).toBe('/ok?page=2');
+    expect(sent.headers.traceparent).toBe('00-abc-def-01');
+    expect(sent.headers['x-custom']).toBe('1');
+    expect(response.headers['x-traced']).toBe('yes');
+  });
+
+  it('should expose the method, url, body, operation and attempt', async () => {
+    let seen: PassageRequest | undefined;
+    const client = createHttpClient([
+      async (request, next) => {
+        seen = request;
+        return next(request);
+      },
+    ]);
+
+    await runInRequestContext({ operation: 'applications.create', attempt: 2 }, () =>
+      client.post(`${baseUrl}/ok`, { productType: 'personal' })
+    );
+
+    expect(seen).toMatchObject({
+      method: 'POST',
+      url: `${baseUrl}/ok`,
+      body: '{"productType":"personal"}',
+      operation: 'applications.create',
+      attempt: 2,
+    });
+  });
+
+  it('should default to attempt 1 outside SDK operations', async () => {
+    let seen: PassageRequest | undefined;
+    const client = createHttpClient([
+      async (request, next) => {
+        seen = request;
+        return next(request);
+      },
+    ]);
+
+    await client.get(`${baseUrl}/ok`);
+
+    expect(seen?.operation).toBeUndefined();
+    expect(seen?.attempt).toBe(1);
+  });
+
+  it('should reject with PassageErrors that middleware can observe', async () => {
+    const errors: unknown[] = [];
+    const client = createHttpClient([
+      async (request, next) => {
+        try {
+          return await next(request);
+        } catch (error) {
+          errors.push(error);
+          throw error;
+        }
+      },
+    ]);
+
+    await expect(client.get(`${baseUrl}/missing`)).rejects.toBeInstanceOf(NotFoundError);
+    await expect(client.get(`${baseUrl}/limited`)).rejects.toBeInstanceOf(RateLimitError);
+
+    expect(errors[0]).toBeInstanceOf(NotFoundError);
+    expect((errors[1] as RateLimitError).retryAfter).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it('should convert network failures', async () => {
+    const client = createHttpClient([]);
+
+    const error = await runInRequestContext({ operation: 'loans.get', attempt: 1 }, () =>
+      client.get('http://127.0.0.1:1/unreachable')
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PassageError);
+    expect(error.message).toContain('loans.get failed');
+  });
+
+  it('should let middleware answer without sending', async () => {
+    const count = received.length;
+    const client = createHttpClient([
+      async () => ({ status: 200, headers: { 'content-type': 'application/json' }, body: '{"cached":true}' }),
+    ]);
+
+    const response = await client.get(`${baseUrl}/ok`);
+
+    expect(response.data).toEqual({ cached: true });
+    expect(received).toHaveLength(count);
+  });
+
+  it('should apply middleware added after the client was created', async () => {
+    const middleware: PassageMiddleware[] = [];
+    const client = createHttpClient(middleware);
+    let called = false;
+
+    middleware.push(async (request, next) => {
+      called = true;
+      return next(request);
+    });
+    await client.get(`${baseUrl}/ok`);
+
+    expect(called).toBe(true);
+  });
+
+  it('should run for raw SDX requests', async () => {
+    let seen: PassageRequest | undefined;
+    const client = createHttpClient([
+      async (request) => {
+        seen = request;
+        return { status: 200, headers: {}, body: { documentHandle: 'doc_1', expiresAt: '2024-01-16T00:00:00Z' } };
+      },
+    ]);
+    const sdx = new SDXResource({} as SDXApi, resolveConfig({ apiKey: 'nb_test_abc123xyz789' }), client);
+
+    const result = await sdx.upload({
+      token: { sdxToken: 'tok', sdxUrl: 'https://sdx.example.com', expiresIn: 600 },
+      encryptedDocument: Buffer.from('encrypted'),
+      documentType: 'kyc',
+    });
+
+    expect(result.documentHandle).toBe('doc_1');
+    expect(seen).toMatchObject({
+      method: 'POST',
+      url: 'https://sdx.example.com/sdx/blobs',
+      operation: 'sdx.upload',
+      attempt: 1,
+    });
+    expect(seen?.headers['Idempotency-Key']).toEqual(expect.any(String));
+  });
+
+  describe('with the default axios transport', () => {
+    const token = () => ({ sdxToken: 'tok', sdxUrl: baseUrl, expiresIn: 600 });
+    const sdx = () => new SDXResource({} as SDXApi, resolveConfig({ apiKey: 'nb_test_abc123xyz789' }));
+
+    beforeEach(() => {
+      received.length = 0;
+    });
+
+    async function* chunks() {
+      yield Buffer.from('encrypted ');
+      yield Buffer.from('document');
+    }
+
+    it.each([
+      ['a Node.js Readable', () => Readable.from(chunks())],
+      [
+        'a web ReadableStream',
+        () =>
+          new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('encrypted '));
+              controller.enqueue(new TextEncoder().encode('document'));
+              controller.close();
+            },
+          }),
+      ],
+      ['an async iterable', () => chunks()],
+    ])('should upload %s', async (_name, body) => {
+      const result = await sdx().uploadStream({ token: token(), encryptedDocument: body() });
+
+      expect(result.blobSize).toBe('encrypted document'.length);
+      expect(received[0]).toMatchObject({ url: '/sdx/blobs', body: 'encrypted document' });
+      expect(received[0].headers['transfer-encoding']).toBe('chunked');
+    });
+
+    it('should upload byte arrays that are views into a larger buffer', async () => {
+      const bytes = new TextEncoder().encode('xxencrypted documentxx');
+
+      await sdx().upload({ token: token(), encryptedDocument: bytes.subarray(2, bytes.length - 2) });
+
+      expect(received[0].body).toBe('encrypted document');
+    });
+
+    it('should send plain objects as JSON', async () => {
+      const response = await createHttpClient([]).post(`${baseUrl}/ok`, { amount: 100 });
+
+      expect(response.data).toEqual({ success: true, data: { echo: '{"amount":100}' } });
+      expect(received[0].headers['content-type']).toBe('application/json');
+    });
+  });
+});
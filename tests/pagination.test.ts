@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { paginate, collect, hasMorePages, type Page } from '../src/pagination';
+
+function pages(total: number, pageSize: number) {
+  return vi.fn(async (index: number): Promise<Page<number>> => {
+    const start = index * pageSize;
+    const items = Array.from({ length: Math.max(0, Math.min(pageSize, total - start)) }, (_, i) => start + i);
+    return { items, hasMore: start + items.length < total };
+  });
+}
+
+describe('paginate', () => {
+  it('should yield items across pages', async () => {
+    const fetchPage = pages(7, 3);
+
+    const items = await collect(paginate(fetchPage));
+
+    expect(items).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(fetchPage.mock.calls.map(([index]) => index)).toEqual([0, 1, 2]);
+  });
+
+  it('should stop at an empty page', async () => {
+    const fetchPage = vi.fn()
+      .mockResolvedValueOnce({ items: [1, 2], hasMore: true })
+      .mockResolvedValueOnce({ items: [], hasMore: true });
+
+    expect(await collect(paginate(fetchPage))).toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fetch pages lazily', async () => {
+    const fetchPage = pages(10, 2);
+
+    for await (const item of paginate(fetchPage)) {
+      if (item === 2) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cap the number of items', async () => {
+    const fetchPage = pages(100, 10);
+
+    const items = await collect(paginate(fetchPage, { maxItems: 15 }));
+
+    expect(items).toHaveLength(15);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should prefetch up to the concurrency limit', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const inner = pages(20, 2);
+    const fetchPage = vi.fn(async (index: number) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+      return inner(index);
+    });
+
+    const items = await collect(paginate(fetchPage, { concurrency: 3 }));
+
+    expect(items).toEqual(Array.from({ length: 20 }, (_, i) => i));
+    expect(maxActive).toBe(3);
+  });
+
+  it('should ignore failures of pages prefetched past the end', async () => {
+    const fetchPage = vi.fn(async (index: number) => {
+      if (index > 0) throw new Error('out of range');
+      return { items: [1], hasMore: false };
+    });
+
+    expect(await collect(paginate(fetchPage, { concurrency: 3 }))).toEqual([1]);
+  });
+
+  it('should propagate page errors', async () => {
+    const fetchPage = vi.fn()
+      .mockResolvedValueOnce({ items: [1], hasMore: true })
+      .mockRejectedValueOnce(new Error('boom'));
+
+    await expect(collect(paginate(fetchPage))).rejects.toThrow('boom');
+  });
+
+  it('should stop when aborted', async () => {
+    const controller = new AbortController();
+    const fetchPage = pages(10, 2);
+    const seen: number[] = [];
+
+    const iterate = async () => {
+      for await (const item of paginate(fetchPage, { signal: controller.signal })) {
+        seen.push(item);
+        if (item === 2) controller.abort(new Error('cancelled'));
+      }
+    };
+
+    await expect(iterate()).rejects.toThrow('cancelled');
+    expect(seen).toEqual([0, 1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject invalid concurrency', async () => {
+    await expect(collect(paginate(pages(1, 1), { concurrency: 0 }))).rejects.toThrow(
+      'concurrency must be at least 1'
+    );
+  });
+});
+
+describe('hasMorePages', () => {
+  it('should prefer hasMore', () => {
+    expect(hasMorePages({ hasMore: false, total: 100 }, 0, 10)).toBe(false);
+    expect(hasMorePages({ hasMore: true }, 0, 10)).toBe(true);
+  });
+
+  it('should fall back to total', () => {
+    expect(hasMorePages({ total: 25 }, 10, 10)).toBe(true);
+    expect(hasMorePages({ total: 20 }, 10, 10)).toBe(false);
+    expect(hasMorePages(undefined, 0, 10)).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { poll } from '../src/poll';
+import { TimeoutError } from '../src/errors';
+
+describe('poll', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should resolve with the first value that satisfies the condition', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce('PENDING')
+      .mockResolvedValueOnce('PENDING')
+      .mockResolvedValue('DONE');
+
+    const result = await poll(fetch, (value) => value === 'DONE', { interval: 1 });
+
+    expect(result).toBe('DONE');
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not wait when the first value satisfies the condition', async () => {
+    const onWait = vi.fn();
+
+    await poll(async () => 1, () => true, { onWait });
+
+    expect(onWait).not.toHaveBeenCalled();
+  });
+
+  it('should call onPoll with each value and attempt', async () => {
+    const onPoll = vi.fn();
+    let count = 0;
+
+    await poll(async () => ++count, (value) => value === 3, { interval: 1, onPoll });
+
+    expect(onPoll.mock.calls).toEqual([[1, 1], [2, 2], [3, 3]]);
+  });
+
+  it('should throw TimeoutError when the condition is never met', async () => {
+    await expect(
+      poll(async () => false, Boolean, { timeout: 20, interval: 5 })
+    ).rejects.toThrow(TimeoutError);
+  });
+
+  it('should back off up to maxInterval with jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const timeout = vi.spyOn(globalThis, 'setTimeout');
+    let count = 0;
+
+    await poll(async () => ++count, (value) => value === 5, {
+      interval: 2,
+      backoff: 2,
+      maxInterval: 10,
+      jitter: 0.5,
+    });
+
+    const delays = timeout.mock.calls.map(([, ms]) => ms);
+    expect(delays).toEqual([3, 6, 12, 15]);
+  });
+
+  it('should stop when aborted', async () => {
+    const controller = new AbortController();
+    const fetch = vi.fn().mockResolvedValue(false);
+    const reason = new Error('stopped');
+
+    const promise = poll(fetch, Boolean, {
+      interval: 60000,
+      signal: controller.signal,
+      onWait: () => controller.abort(reason),
+    });
+
+    await expect(promise).rejects.toBe(reason);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not poll with an already aborted signal', async () => {
+    const fetch = vi.fn();
+
+    const error = (await poll(fetch, Boolean, { signal: AbortSignal.abort() }).catch((e) => e)) as Error;
+
+    expect(error.name).toBe('AbortError');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should wake early', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(false)
+      .mockResolvedValue(true);
+    const started = Date.now();
+
+    await poll(fetch, Boolean, { interval: 60000, onWait: (wake) => setTimeout(wake, 1) });
+
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should propagate errors from fetch and isDone', async () => {
+    await expect(poll(() => Promise.reject(new Error('boom')), Boolean)).rejects.toThrow('boom');
+    await expect(
+      poll(async () => 1, () => {
+        throw new Error('bad state');
+      })
+    ).rejects.toThrow('bad state');
+  });
+});
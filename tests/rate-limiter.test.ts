@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter } from '../src/rate-limiter';
+import { RateLimitError } from '../src/errors';
+import type { PassageRequest, PassageResponse } from '../src/middleware';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+function request(overrides: Partial<PassageRequest> = {}): PassageRequest {
+  return { method: 'GET', url: 'https://api.test/applications', headers: {}, attempt: 1, priority: 'interactive', ...overrides };
+}
+
+function response(headers: Record<string, string> = {}): PassageResponse {
+  return { status: 200, headers, body: '{}' };
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pass requests straight through without limits', async () => {
+    const limiter = new RateLimiter();
+
+    await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok');
+    expect(limiter.stats()).toMatchObject({ queued: 0, active: 0, requestsPerSecond: Infinity });
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow('requestsPerSecond must be positive');
+    expect(() => new RateLimiter({ maxConcurrency: 0 })).toThrow();
+  });
+
+  it('should send a burst, then pace requests at the configured rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 2 });
+    const started: number[] = [];
+
+    const calls = Array.from({ length: 4 }, () => limiter.schedule(async () => started.push(Date.now())));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(2);
+    expect(limiter.stats().queued).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toHaveLength(4);
+
+    await Promise.all(calls);
+    expect(started.map((t) => t - started[0])).toEqual([0, 0, 500, 1000]);
+  });
+
+  it('should cap requests in flight', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    let running = 0;
+
+    const calls = gates.map((gate) =>
+      limiter.schedule(async () => {
+        running++;
+        await gate.promise;
+        running--;
+      })
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(running).toBe(2);
+    expect(limiter.stats()).toMatchObject({ active: 2, queued: 1 });
+
+    gates[0].resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(running).toBe(2);
+    expect(limiter.stats()).toMatchObject({ active: 2, queued: 0 });
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await Promise.all(calls);
+    expect(limiter.stats().active).toBe(0);
+  });
+
+  it('should release the slot when the request fails', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+
+    await expect(limiter.schedule(async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.schedule(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('should send interactive requests before queued batch requests', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const gate = deferred();
+    const order: string[] = [];
+
+    const first = limiter.schedule(() => gate.promise);
+    const calls = [
+      limiter.schedule(async () => order.push('batch 1'), { priority: 'batch' }),
+      limiter.schedule(async () => order.push('batch 2'), { priority: 'batch' }),
+      limiter.schedule(async () => order.push('interactive')),
+    ];
+    expect(limiter.stats().queuedByPriority).toEqual({ interactive: 1, batch: 2 });
+
+    gate.resolve();
+    await Promise.all([first, ...calls]);
+    expect(order).toEqual(['interactive', 'batch 1', 'batch 2']);
+  });
+
+  it('should drop a queued request when its signal aborts', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const gate = deferred();
+    const controller = new AbortController();
+    const fn = vi.fn(async () => 'never');
+
+    const first = limiter.schedule(() => gate.promise);
+    const queued = limiter.schedule(fn, { signal: controller.signal });
+    controller.abort(new Error('cancelled'));
+
+    await expect(queued).rejects.toThrow('cancelled');
+    expect(limiter.stats().queued).toBe(0);
+    gate.resolve();
+    await first;
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  describe('middleware', () => {
+    it('should schedule requests in their priority lane', async () => {
+      const limiter = new RateLimiter({ maxConcurrency: 1 });
+      const gate = deferred();
+      const order: string[] = [];
+      const next = vi.fn(async (req: PassageRequest) => {
+        order.push(req.url);
+        return response();
+      });
+
+      const first = limiter.schedule(() => gate.promise);
+      const calls = [
+        limiter.middleware(request({ url: 'batch', priority: 'batch' }), next),
+        limiter.middleware(request({ url: 'interactive' }), next),
+      ];
+      gate.resolve();
+      await Promise.all([first, ...calls]);
+
+      expect(order).toEqual(['interactive', 'batch']);
+    });
+
+    it('should halve the rate and pause after a 429', async () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 10 });
+      const next = vi.fn().mockRejectedValue(new RateLimitError('Slow down', Date.now() / 1000 + 5));
+
+      await expect(limiter.middleware(request(), next)).rejects.toBeInstanceOf(RateLimitError);
+
+      expect(limiter.stats()).toMatchObject({ requestsPerSecond: 5, pausedUntil: 1_700_000_005_000 });
+
+      const started = vi.fn();
+      const call = limiter.schedule(async () => started());
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(started).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1);
+      await call;
+      expect(started).toHaveBeenCalled();
+    });
+
+    it('should not drop below a tenth of the configured rate and recover on success', async () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 100 });
+      for (let i = 0; i < 6; i++) {
+        limiter.onRateLimited(new RateLimitError());
+      }
+      expect(limiter.stats().requestsPerSecond).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(100_000);
+      await limiter.middleware(request(), async () => response());
+      expect(limiter.stats().requestsPerSecond).toBe(1.5);
+    });
+
+    it('should pause until the window resets when no requests remain', async () => {
+      const limiter = new RateLimiter();
+
+      await limiter.middleware(request(), async () =>
+        response({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '30' })
+      );
+
+      expect(limiter.stats().pausedUntil).toBe(1_700_000_030_000);
+    });
+
+    it('should not adapt when adaptive is disabled', async () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 10, adaptive: false });
+
+      limiter.onRateLimited(new RateLimitError('Slow down', Date.now() / 1000 + 5));
+
+      expect(limiter.stats()).toMatchObject({ requestsPerSecond: 10, pausedUntil: undefined });
+    });
+  });
+});
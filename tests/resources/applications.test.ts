@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ApplicationsApi } from '@portola/passage';
+import { ApplicationsResource } from '../../src/resources/applications';
+import { resolveConfig } from '../../src/config';
+import { InvalidTransitionError } from '../../src/errors';
+import type { ApplicationCreateParams } from '../../src/types';
+
+describe('ApplicationsResource', () => {
+  let api: {
+    updateApplicationStatus: ReturnType<typeof vi.fn>;
+    getApplication: ReturnType<typeof vi.fn>;
+    listApplications: ReturnType<typeof vi.fn>;
+    submitApplication: ReturnType<typeof vi.fn>;
+  };
+  let applications: ApplicationsResource;
+
+  beforeEach(() => {
+    api = {
+      updateApplicationStatus: vi.fn().mockResolvedValue({
+        data: { success: true, data: { id: 'app_123', status: 'CANCELLED' } },
+      }),
+      getApplication: vi.fn(),
+      listApplications: vi.fn(),
+      submitApplication: vi.fn(),
+    };
+    applications = new ApplicationsResource(
+      api as unknown as ApplicationsApi,
+      resolveConfig({ apiKey: 'nb_test_abc123xyz789' })
+    );
+  });
+
+  describe('create', () => {
+    const params = { productType: 'personal', encryptedPayloads: [] } as unknown as ApplicationCreateParams;
+
+    it('should send the same Idempotency-Key on every retry', async () => {
+      const networkError = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      api.submitApplication
+        .mockRejectedValueOnce(networkError)
+        .mockResolvedValue({ data: { success: true, data: { id: 'app_123' } } });
+      const resource = new ApplicationsResource(
+        api as unknown as ApplicationsApi,
+        resolveConfig({ apiKey: 'nb_test_abc123xyz789', retry: { baseDelay: 1 } })
+      );
+
+      await resource.create(params);
+
+      const [first, second] = api.submitApplication.mock.calls.map(([, options]) => options.headers['Idempotency-Key']);
+      expect(first).toMatch(/^[0-9a-f-]{36}$/);
+      expect(second).toBe(first);
+    });
+
+    it('should generate a new key per call', async () => {
+      api.submitApplication.mockResolvedValue({ data: { success: true, data: { id: 'app_123' } } });
+
+      await applications.create(params);
+      await applications.create(params);
+
+      const [first, second] = api.submitApplication.mock.calls.map(([, options]) => options.headers['Idempotency-Key']);
+      expect(second).not.toBe(first);
+    });
+
+    it('should use a caller-provided key', async () => {
+      api.submitApplication.mockResolvedValue({ data: { success: true, data: { id: 'app_123' } } });
+
+      await applications.create(params, { idempotencyKey: 'order-42' });
+
+      expect(api.submitApplication).toHaveBeenCalledWith(expect.any(Object), {
+        headers: { 'Idempotency-Key': 'order-42' },
+      });
+    });
+  });
+
+  describe('request options', () => {
+    it('should pass signal, timeout and headers to the API call', async () => {
+      api.getApplication.mockResolvedValue({ data: { success: true, data: { id: 'app_123' } } });
+      const controller = new AbortController();
+
+      await applications.get('app_123', {
+        signal: controller.signal,
+        timeout: 5000,
+        headers: { 'X-Correlation-Id': 'corr_1' },
+      });
+
+      expect(api.getApplication).toHaveBeenCalledWith(
+        { applicationId: 'app_123' },
+        { signal: controller.signal, timeout: 5000, headers: { 'X-Correlation-Id': 'corr_1' } }
+      );
+    });
+
+    it('should merge headers with the Idempotency-Key', async () => {
+      api.submitApplication.mockResolvedValue({ data: { success: true, data: { id: 'app_123' } } });
+
+      await applications.create({ productType: 'personal', encryptedPayloads: [] } as unknown as ApplicationCreateParams, {
+        idempotencyKey: 'order-42',
+        headers: { 'X-Correlation-Id': 'corr_1' },
+      });
+
+      expect(api.submitApplication).toHaveBeenCalledWith(expect.any(Object), {
+        headers: { 'X-Correlation-Id': 'corr_1', 'Idempotency-Key': 'order-42' },
+      });
+    });
+
+    it('should forward options when paginating', async () => {
+      api.listApplications.mockResolvedValue({
+        data: { success: true, data: { applications: [{ id: 'app_1' }] } },
+      });
+
+      await applications.listAll({}, { timeout: 1000 });
+
+      expect(api.listApplications).toHaveBeenCalledWith(expect.any(Object), { timeout: 1000 });
+    });
+  });
+
+  describe('updateStatus', () => {
+    it('should send valid transitions', async () => {
+      const result = await applications.updateStatus('app_123', 'CANCELLED', {
+        currentStatus: 'OFFERS_READY',
+      });
+
+      expect(result).toEqual({ id: 'app_123', status: 'CANCELLED' });
+      expect(api.updateApplicationStatus).toHaveBeenCalledWith({
+        applicationId: 'app_123',
+        applicationStatusUpdateRequest: { status: 'CANCELLED' },
+      }, {});
+    });
+
+    it('should fail fast on invalid transitions', async () => {
+      await expect(
+        applications.updateStatus('app_123', 'PENDING', { currentStatus: 'FUNDED' })
+      ).rejects.toThrow(InvalidTransitionError);
+      expect(api.updateApplicationStatus).not.toHaveBeenCalled();
+    });
+
+    it('should leave the decision to the API without a current status', async () => {
+      await applications.updateStatus('app_123', 'CANCELLED');
+
+      expect(api.updateApplicationStatus).toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should fail fast for terminal applications', async () => {
+      await expect(
+        applications.cancel('app_123', { currentStatus: 'FUNDED' })
+      ).rejects.toThrow('FUNDED is terminal');
+      expect(api.updateApplicationStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('waitForStatus', () => {
+    function respondWith(...statuses: string[]) {
+      for (const status of statuses) {
+        api.getApplication.mockResolvedValueOnce({
+          data: { success: true, data: { id: 'app_123', status } },
+        });
+      }
+    }
+
+    it('should poll until a target status is reached', async () => {
+      respondWith('PENDING', 'ROUTED', 'OFFERS_READY');
+      const onPoll = vi.fn();
+
+      const application = await applications.waitForStatus('app_123', ['OFFERS_READY', 'DECLINED'], {
+        interval: 1,
+        onPoll,
+      });
+
+      expect(application.status).toBe('OFFERS_READY');
+      expect(onPoll).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fail fast on other terminal statuses', async () => {
+      respondWith('PENDING', 'REJECTED');
+
+      await expect(
+        applications.waitForStatus('app_123', 'FUNDED', { interval: 1 })
+      ).rejects.toMatchObject({ errorCode: 'STATUS_UNREACHABLE' });
+      expect(api.getApplication).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('iterate', () => {
+    const ids = Array.from({ length: 5 }, (_, i) => `app_${i}`);
+
+    beforeEach(() => {
+      api.listApplications.mockImplementation(async ({ limit, page = 1 }: { limit: number; page?: number }) => {
+        const start = (page - 1) * limit;
+        return {
+          data: {
+            success: true,
+            data: {
+              applications: ids.slice(start, start + limit).map((id) => ({ id })),
+              pagination: { total: ids.length, limit, offset: start, hasMore: start + limit < ids.length },
+            },
+          },
+        };
+      });
+    });
+
+    it('should request page numbers', async () => {
+      const all = await applications.listAll({ limit: 2, status: 'PENDING' });
+
+      expect(all.map((app) => app.id)).toEqual(ids);
+      expect(api.listApplications.mock.calls.map(([request]) => request.page)).toEqual([undefined, 2, 3]);
+      expect(api.listApplications).toHaveBeenCalledWith(expect.objectContaining({ status: 'PENDING', limit: 2 }), {});
+    });
+
+    it('should start mid-page at an unaligned offset', async () => {
+      const all = await applications.listAll({ limit: 2, offset: 3 });
+
+      expect(all.map((app) => app.id)).toEqual(['app_3', 'app_4']);
+      expect(api.listApplications.mock.calls.map(([request]) => request.page)).toEqual([2, 3]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ApplicationsApi, LoansApi } from '@portola/passage';
+import { LoansResource } from '../../src/resources/loans';
+import { resolveConfig } from '../../src/config';
+
+describe('LoansResource', () => {
+  let api: { listLoans: ReturnType<typeof vi.fn>; listLoanRepayments: ReturnType<typeof vi.fn> };
+  let applicationsApi: { getLoanByApplication: ReturnType<typeof vi.fn> };
+  let loans: LoansResource;
+
+  beforeEach(() => {
+    api = { listLoans: vi.fn(), listLoanRepayments: vi.fn() };
+    applicationsApi = { getLoanByApplication: vi.fn() };
+    loans = new LoansResource(
+      api as unknown as LoansApi,
+      applicationsApi as unknown as ApplicationsApi,
+      resolveConfig({ apiKey: 'nb_test_abc123xyz789' })
+    );
+  });
+
+  describe('waitForLoan', () => {
+    it('should poll until the loan exists', async () => {
+      const notFound = Object.assign(new Error('Not found'), { response: { status: 404, data: {} } });
+      applicationsApi.getLoanByApplication
+        .mockRejectedValueOnce(notFound)
+        .mockRejectedValueOnce(notFound)
+        .mockResolvedValue({ data: { success: true, data: { id: 'loan_123' } } });
+      const onPoll = vi.fn();
+
+      const loan = await loans.waitForLoan('app_123', { interval: 1, onPoll });
+
+      expect(loan.id).toBe('loan_123');
+      expect(onPoll.mock.calls.map(([value]) => value)).toEqual([null, null, { id: 'loan_123' }]);
+    });
+
+    it('should stop when aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('shutting down'));
+
+      await expect(
+        loans.waitForLoan('app_123', { signal: controller.signal })
+      ).rejects.toThrow('shutting down');
+      expect(applicationsApi.getLoanByApplication).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('iterate', () => {
+    it('should page through loans by offset', async () => {
+      api.listLoans.mockImplementation(async ({ limit, offset }: { limit: number; offset: number }) => ({
+        data: {
+          success: true,
+          data: {
+            loans: Array.from({ length: Math.min(limit, 5 - offset) }, (_, i) => ({ id: `loan_${offset + i}` })),
+            pagination: { total: 5, limit, offset, hasMore: offset + limit < 5 },
+          },
+        },
+      }));
+
+      const ids: string[] = [];
+      for await (const loan of loans.iterate({ limit: 2, externalId: 'user_1' })) {
+        ids.push(loan.id);
+      }
+
+      expect(ids).toEqual(['loan_0', 'loan_1', 'loan_2', 'loan_3', 'loan_4']);
+      expect(api.listLoans.mock.calls.map(([request]) => request.offset)).toEqual([0, 2, 4]);
+      expect(api.listLoans).toHaveBeenCalledWith(expect.objectContaining({ externalId: 'user_1' }), {});
+    });
+
+    it('should page through repayments', async () => {
+      api.listLoanRepayments
+        .mockResolvedValueOnce({
+          data: { success: true, data: { repayments: [{ id: 'rep_1' }, { id: 'rep_2' }], pagination: { total: 3 } } },
+        })
+        .mockResolvedValueOnce({
+          data: { success: true, data: { repayments: [{ id: 'rep_3' }], pagination: { total: 3 } } },
+        });
+
+      const repayments = await loans.listAllRepayments('loan_123', { limit: 2 });
+
+      expect(repayments).toHaveLength(3);
+      expect(api.listLoanRepayments).toHaveBeenLastCalledWith(
+        expect.objectContaining({ loanId: 'loan_123', limit: 2, offset: 2 }),
+        {}
+      );
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OffersApi } from '@portola/passage';
+import { OffersResource } from '../../src/resources/offers';
+import { resolveConfig } from '../../src/config';
+import { TimeoutError } from '../../src/errors';
+import type { PrequalAcceptParams } from '../../src/types';
+
+describe('OffersResource', () => {
+  let api: {
+    getPrequalOffers: ReturnType<typeof vi.fn>;
+    acceptPrequalOffer: ReturnType<typeof vi.fn>;
+    acceptFinalOffer: ReturnType<typeof vi.fn>;
+  };
+  let offers: OffersResource;
+
+  function respondWith(...lenders: Array<Array<{ lenderId: string; offers: unknown[] }>>) {
+    for (const groups of lenders) {
+      api.getPrequalOffers.mockResolvedValueOnce({
+        data: { success: true, data: { applicationId: 'app_123', lenders: groups } },
+      });
+    }
+  }
+
+  beforeEach(() => {
+    api = {
+      getPrequalOffers: vi.fn(),
+      acceptPrequalOffer: vi.fn().mockResolvedValue({ data: { success: true, data: {} } }),
+      acceptFinalOffer: vi.fn().mockResolvedValue({ data: { success: true, data: {} } }),
+    };
+    offers = new OffersResource(
+      api as unknown as OffersApi,
+      resolveConfig({ apiKey: 'nb_test_abc123xyz789' })
+    );
+  });
+
+  describe('waitForPrequalified', () => {
+    it('should resolve once a lender has offers', async () => {
+      respondWith([], [{ lenderId: 'lender_1', offers: [{ offerId: 'offer_1' }] }]);
+
+      const response = await offers.waitForPrequalified('app_123', { interval: 1 });
+
+      expect(response.lenders).toHaveLength(1);
+      expect(api.getPrequalOffers).toHaveBeenCalledWith({ applicationId: 'app_123' }, {});
+      expect(api.getPrequalOffers).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait for minLenders lenders with offers', async () => {
+      respondWith(
+        [{ lenderId: 'lender_1', offers: [{ offerId: 'offer_1' }] }, { lenderId: 'lender_2', offers: [] }],
+        [{ lenderId: 'lender_1', offers: [{ offerId: 'offer_1' }] }, { lenderId: 'lender_2', offers: [{ offerId: 'offer_2' }] }]
+      );
+
+      const response = await offers.waitForPrequalified('app_123', { minLenders: 2, interval: 1 });
+
+      expect(response.lenders[1].offers).toHaveLength(1);
+      expect(api.getPrequalOffers).toHaveBeenCalledTimes(2);
+    });
+
+    it('should time out', async () => {
+      api.getPrequalOffers.mockResolvedValue({
+        data: { success: true, data: { applicationId: 'app_123', lenders: [] } },
+      });
+
+      await expect(
+        offers.waitForPrequalified('app_123', { interval: 1, timeout: 10 })
+      ).rejects.toThrow(TimeoutError);
+    });
+  });
+
+  describe('accepting offers', () => {
+    it('should send an Idempotency-Key', async () => {
+      await offers.acceptPrequal('offer_1', {} as PrequalAcceptParams);
+      await offers.acceptFinal('final_1', {}, { idempotencyKey: 'accept-final_1' });
+
+      expect(api.acceptPrequalOffer.mock.calls[0][1].headers['Idempotency-Key']).toEqual(expect.any(String));
+      expect(api.acceptFinalOffer.mock.calls[0][1]).toEqual({ headers: { 'Idempotency-Key': 'accept-final_1' } });
+    });
+  });
+});
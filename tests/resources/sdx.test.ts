@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import type { SDXApi } from '@portola/passage';
+import { SDXResource } from '../../src/resources/sdx';
+import { resolveConfig } from '../../src/config';
+import { MockTransport } from '../../src/transport';
+import { encryptStreamForSDX } from '../../src/crypto/stream';
+import { readAll } from '../../src/streams';
+
+describe('SDXResource', () => {
+  let keyPair: { publicKey: string; privateKey: string };
+
+  beforeAll(() => {
+    keyPair = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+  });
+
+  const token = { sdxToken: 'tok', expiresIn: 600, sdxUrl: 'https://sdx.example.com' };
+
+  function resource(blob: Uint8Array | Readable) {
+    const api = {
+      generateSDXToken: vi.fn().mockResolvedValue({
+        data: { success: true, data: token },
+      }),
+    };
+    const mock = new MockTransport().reply('GET', '/sdx/blobs/doc_signed', { body: blob });
+    const sdx = new SDXResource(
+      api as unknown as SDXApi,
+      resolveConfig({ apiKey: 'nb_test_abc123xyz789', transport: mock.transport })
+    );
+    return { api, mock, sdx };
+  }
+
+  describe('downloadStream', () => {
+    it('should return the body as a web stream', async () => {
+      const { mock, sdx } = resource(Readable.from([Buffer.from('encrypted '), Buffer.from('document')]));
+
+      const stream = await sdx.downloadStream({ token, documentHandle: 'doc_signed' });
+
+      expect(stream).toBeInstanceOf(ReadableStream);
+      expect((await readAll(stream)).toString()).toBe('encrypted document');
+      expect(mock.requests[0].responseType).toBe('stream');
+    });
+  });
+
+  describe('uploadStream', () => {
+    it('should stream the encrypted document without a length', async () => {
+      const statement = crypto.randomBytes(5000);
+      const { mock, sdx } = resource(new Uint8Array());
+      mock.reply('POST', '/sdx/blobs', async (request) => ({
+        status: 201,
+        body: { documentHandle: 'doc_1', expiresAt: '2024-01-16T00:00:00Z', blobSize: (await readAll(request.body as Readable)).length },
+      }));
+
+      const result = await sdx.uploadStream({
+        token,
+        encryptedDocument: encryptStreamForSDX(Readable.from([statement]), keyPair.publicKey, { chunkSize: 1024 }),
+        documentType: 'kyc',
+      });
+
+      expect(result).toMatchObject({ documentHandle: 'doc_1', blobSize: expect.any(Number) });
+      expect(mock.requests[0].headers).toMatchObject({ 'X-Document-Type': 'kyc', 'Idempotency-Key': expect.any(String) });
+      expect(mock.requests[0].headers).not.toHaveProperty('Content-Length');
+    });
+
+    it('should not retry a consumed stream', async () => {
+      const { mock, sdx } = resource(new Uint8Array());
+      mock.reply('POST', '/sdx/blobs', { status: 503 });
+
+      await expect(
+        sdx.uploadStream({ token, encryptedDocument: Readable.from([Buffer.from('x')]) }, { maxRetries: 3 })
+      ).rejects.toMatchObject({ statusCode: 503 });
+      expect(mock.requests).toHaveLength(1);
+    });
+  });
+});
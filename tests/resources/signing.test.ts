@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SigningApi } from '@portola/passage';
+import { SigningResource } from '../../src/resources/signing';
+import { resolveConfig } from '../../src/config';
+
+describe('SigningResource', () => {
+  let api: { getSigningSessionStatus: ReturnType<typeof vi.fn>; createSigningSession: ReturnType<typeof vi.fn> };
+  let signing: SigningResource;
+
+  function respondWith(...statuses: string[]) {
+    for (const status of statuses) {
+      api.getSigningSessionStatus.mockResolvedValueOnce({
+        data: { success: true, data: { sessionId: 'sess_1', applicationId: 'app_123', status } },
+      });
+    }
+  }
+
+  beforeEach(() => {
+    api = {
+      getSigningSessionStatus: vi.fn(),
+      createSigningSession: vi.fn().mockResolvedValue({
+        data: { success: true, data: { sessionId: 'sess_1', applicationId: 'app_123', status: 'PENDING' } },
+      }),
+    };
+    signing = new SigningResource(
+      api as unknown as SigningApi,
+      resolveConfig({ apiKey: 'nb_test_abc123xyz789' })
+    );
+  });
+
+  describe('create', () => {
+    it('should send an Idempotency-Key', async () => {
+      await signing.create('app_123', { borrowerEmail: 'jane@example.com', borrowerName: 'Jane Doe' }, {
+        idempotencyKey: 'sign-app_123',
+      });
+
+      expect(api.createSigningSession.mock.calls[0][1]).toEqual({ headers: { 'Idempotency-Key': 'sign-app_123' } });
+    });
+  });
+
+  describe('waitForCompletion', () => {
+    it('should poll until the session completes', async () => {
+      respondWith('PENDING', 'IN_PROGRESS', 'COMPLETED');
+
+      const session = await signing.waitForCompletion('sess_1', { interval: 1 });
+
+      expect(session.status).toBe('COMPLETED');
+      expect(api.getSigningSessionStatus).toHaveBeenCalledTimes(3);
+    });
+
+    it('should resolve with sessions that end without signing', async () => {
+      respondWith('ACTIVE', 'EXPIRED');
+
+      const session = await signing.waitForCompletion('sess_1', { interval: 1 });
+
+      expect(session.status).toBe('EXPIRED');
+    });
+  });
+});
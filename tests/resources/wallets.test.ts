@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { WalletsApi } from '@portola/passage';
+import { WalletsResource, type CreateWalletParams } from '../../src/resources/wallets';
+import { resolveConfig } from '../../src/config';
+
+describe('WalletsResource', () => {
+  let api: {
+    listWallets: ReturnType<typeof vi.fn>;
+    createWallet: ReturnType<typeof vi.fn>;
+    getVerificationStatus: ReturnType<typeof vi.fn>;
+  };
+  let wallets: WalletsResource;
+
+  function verification(status: string) {
+    return {
+      data: { success: true, data: { id: 'ver_1', walletId: 'wal_1', method: 'AOPP', status, expiresAt: null } },
+    };
+  }
+
+  beforeEach(() => {
+    api = { listWallets: vi.fn(), createWallet: vi.fn(), getVerificationStatus: vi.fn() };
+    wallets = new WalletsResource(
+      api as unknown as WalletsApi,
+      resolveConfig({ apiKey: 'nb_test_abc123xyz789' })
+    );
+  });
+
+  describe('create', () => {
+    it('should send the same Idempotency-Key on every retry', async () => {
+      api.createWallet
+        .mockRejectedValueOnce(Object.assign(new Error('Bad gateway'), { response: { status: 502, data: {} } }))
+        .mockResolvedValue({
+          data: {
+            success: true,
+            data: { id: 'wal_1', address: '0xabc', chain: 'base', type: 'EOA', verified: false, verifiedByThisNeobank: false, createdAt: '2024-01-15T10:30:00Z' },
+          },
+        });
+      const resource = new WalletsResource(
+        api as unknown as WalletsApi,
+        resolveConfig({ apiKey: 'nb_test_abc123xyz789', retry: { baseDelay: 1 } })
+      );
+
+      await resource.create({ address: '0xabc', chain: 'base' } as CreateWalletParams);
+
+      const keys = api.createWallet.mock.calls.map(([, options]) => options.headers['Idempotency-Key']);
+      expect(keys).toHaveLength(2);
+      expect(keys[1]).toBe(keys[0]);
+    });
+  });
+
+  describe('iterate', () => {
+    beforeEach(() => {
+      api.listWallets.mockImplementation(async ({ limit, offset }: { limit: number; offset: number }) => ({
+        data: {
+          success: true,
+          data: {
+            wallets: Array.from({ length: Math.max(0, Math.min(limit, 3 - offset)) }, (_, i) => ({
+              id: `wal_${offset + i}`,
+              address: '0xabc',
+              chain: 'base',
+              type: 'EOA',
+              verified: true,
+              verifiedByThisNeobank: true,
+              createdAt: '2024-01-15T10:30:00Z',
+            })),
+            // Wallet pagination has no hasMore; the total decides
+            pagination: { total: 3, limit, offset },
+          },
+        },
+      }));
+    });
+
+    it('should page through wallets using the total', async () => {
+      const all = await wallets.listAll({ verified: true, limit: 2 });
+
+      expect(all.map((wallet) => wallet.id)).toEqual(['wal_0', 'wal_1', 'wal_2']);
+      expect(api.listWallets).toHaveBeenCalledTimes(2);
+      expect(api.listWallets).toHaveBeenCalledWith(expect.objectContaining({ verified: 'true', offset: 2 }), {});
+    });
+
+    it('should respect maxItems', async () => {
+      const all = await wallets.listAll({ limit: 2 }, { maxItems: 1 });
+
+      expect(all).toHaveLength(1);
+      expect(api.listWallets).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('waitForAOPPVerification', () => {
+    it('should poll until the verification ends', async () => {
+      api.getVerificationStatus
+        .mockResolvedValueOnce(verification('PENDING'))
+        .mockResolvedValueOnce(verification('VERIFIED'));
+      const onPoll = vi.fn();
+
+      const result = await wallets.waitForAOPPVerification('ver_1', { interval: 1, onPoll });
+
+      expect(result.status).toBe('VERIFIED');
+      expect(onPoll).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry a failed poll without restarting the wait', async () => {
+      const resource = new WalletsResource(
+        api as unknown as WalletsApi,
+        resolveConfig({ apiKey: 'nb_test_abc123xyz789', retry: { baseDelay: 1 } })
+      );
+      api.getVerificationStatus
+        .mockResolvedValueOnce(verification('PENDING'))
+        .mockRejectedValueOnce(Object.assign(new Error('Bad gateway'), { response: { status: 502, data: {} } }))
+        .mockResolvedValueOnce(verification('FAILED'));
+      const onPoll = vi.fn();
+
+      const result = await resource.waitForAOPPVerification('ver_1', { interval: 1, onPoll });
+
+      expect(result.status).toBe('FAILED');
+      expect(api.getVerificationStatus).toHaveBeenCalledTimes(3);
+      expect(onPoll).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop waiting when aborted', async () => {
+      api.getVerificationStatus.mockResolvedValue(verification('PENDING'));
+      const controller = new AbortController();
+      const reason = new Error('user closed the dialog');
+
+      const result = wallets.waitForAOPPVerification('ver_1', {
+        interval: 60000,
+        signal: controller.signal,
+        onPoll: () => setTimeout(() => controller.abort(reason), 1),
+      });
+
+      await expect(result).rejects.toBe(reason);
+      expect(api.getVerificationStatus).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { AxiosResponse } from 'axios';
+import { captureResponses, parseRateLimit, recordResponse, toResponseMeta, type ResponseMeta } from '../src/response';
+
+function response(data: unknown, headers: Record<string, string> = {}, status = 200): AxiosResponse {
+  return { data, status, statusText: 'OK', headers, config: {} as any };
+}
+
+describe('parseRateLimit', () => {
+  const now = 1_700_000_000_000;
+
+  it('should read X-RateLimit headers', () => {
+    expect(
+      parseRateLimit({ 'x-ratelimit-limit': '100', 'x-ratelimit-remaining': '7', 'x-ratelimit-reset': '1700000060' }, now)
+    ).toEqual({ limit: 100, remaining: 7, reset: 1700000060 });
+  });
+
+  it('should read IETF RateLimit headers with a relative reset', () => {
+    expect(parseRateLimit({ 'ratelimit-limit': '50', 'ratelimit-remaining': '0', 'ratelimit-reset': '30' }, now)).toEqual({
+      limit: 50,
+      remaining: 0,
+      reset: 1700000030,
+    });
+  });
+
+  it('should take the first value of a policy list', () => {
+    expect(parseRateLimit({ 'ratelimit-limit': '100, 100;w=60' }, now)).toEqual({
+      limit: 100,
+      remaining: undefined,
+      reset: undefined,
+    });
+  });
+
+  it('should return undefined without rate limit headers', () => {
+    expect(parseRateLimit({ 'content-type': 'application/json' }, now)).toBeUndefined();
+  });
+});
+
+describe('toResponseMeta', () => {
+  it('should prefer the envelope request ID and lowercase headers', () => {
+    expect(toResponseMeta(response({ success: true, requestId: 'req_1' }, { 'X-Request-Id': 'req_2' }, 201))).toEqual({
+      requestId: 'req_1',
+      statusCode: 201,
+      headers: { 'x-request-id': 'req_2' },
+      rateLimit: undefined,
+    });
+  });
+
+  it('should use the header for non-envelope bodies', () => {
+    expect(toResponseMeta(response(new ArrayBuffer(4), { 'x-request-id': 'req_2' })).requestId).toBe('req_2');
+  });
+});
+
+describe('captureResponses', () => {
+  it('should report responses to every enclosing capture', async () => {
+    const outer: ResponseMeta[] = [];
+    const inner: ResponseMeta[] = [];
+
+    await captureResponses(
+      (meta) => outer.push(meta),
+      async () => {
+        recordResponse(response({ requestId: 'req_1' }));
+        await captureResponses(
+          (meta) => inner.push(meta),
+          async () => recordResponse(response({ requestId: 'req_2' }))
+        );
+      }
+    );
+
+    expect(outer.map((meta) => meta.requestId)).toEqual(['req_1', 'req_2']);
+    expect(inner.map((meta) => meta.requestId)).toEqual(['req_2']);
+  });
+
+  it('should ignore responses outside a capture', () => {
+    expect(() => recordResponse(response({}))).not.toThrow();
+  });
+});
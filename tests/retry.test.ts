@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getRetryDelay, resolveRetryPolicy } from '../src/retry';
+import { PassageError, RateLimitError, NetworkError, NotFoundError, CircuitOpenError } from '../src/errors';
+
+describe('retry policy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const serverError = new PassageError('Internal error', { statusCode: 500 });
+
+  describe('resolveRetryPolicy', () => {
+    it('should apply defaults', () => {
+      expect(resolveRetryPolicy()).toEqual({
+        baseDelay: 100,
+        maxDelay: 10000,
+        jitter: 'full',
+        maxElapsedTime: Infinity,
+        maxRetryAfter: 60000,
+        statusRules: {},
+      });
+    });
+
+    it('should preserve explicit values', () => {
+      const policy = resolveRetryPolicy({ baseDelay: 500, jitter: 'none', statusRules: { 500: false } });
+
+      expect(policy.baseDelay).toBe(500);
+      expect(policy.jitter).toBe('none');
+      expect(policy.statusRules).toEqual({ 500: false });
+      expect(policy.maxDelay).toBe(10000);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially up to maxDelay', () => {
+      const policy = resolveRetryPolicy({ jitter: 'none', maxDelay: 500 });
+
+      expect([0, 1, 2, 3].map((attempt) => getRetryDelay(policy, serverError, attempt, 5, 0))).toEqual([
+        100, 200, 400, 500,
+      ]);
+    });
+
+    it('should apply full and equal jitter', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(getRetryDelay(resolveRetryPolicy({ jitter: 'full' }), serverError, 2, 5, 0)).toBe(200);
+      expect(getRetryDelay(resolveRetryPolicy({ jitter: 'equal' }), serverError, 2, 5, 0)).toBe(300);
+    });
+
+    it('should apply decorrelated jitter from the previous delay', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+      const policy = resolveRetryPolicy({ jitter: 'decorrelated', maxDelay: 5000 });
+
+      expect(getRetryDelay(policy, serverError, 0, 5, 0)).toBe(300);
+      expect(getRetryDelay(policy, serverError, 1, 5, 300)).toBe(900);
+      expect(getRetryDelay(policy, serverError, 2, 5, 4000)).toBe(5000);
+    });
+
+    it('should stop after maxRetries', () => {
+      const policy = resolveRetryPolicy();
+
+      expect(getRetryDelay(policy, serverError, 2, 3, 0)).toBeDefined();
+      expect(getRetryDelay(policy, serverError, 3, 3, 0)).toBeUndefined();
+    });
+
+    it('should retry network errors and 429s but not other client errors', () => {
+      const policy = resolveRetryPolicy();
+
+      expect(getRetryDelay(policy, new NetworkError(), 0, 3, 0)).toBeDefined();
+      expect(getRetryDelay(policy, new RateLimitError(), 0, 3, 0)).toBeDefined();
+      expect(getRetryDelay(policy, new NotFoundError('Not found'), 0, 3, 0)).toBeUndefined();
+    });
+
+    it('should not retry an open circuit', () => {
+      const policy = resolveRetryPolicy();
+
+      expect(getRetryDelay(policy, new CircuitOpenError('applications', Date.now() + 1000), 0, 3, 0)).toBeUndefined();
+    });
+
+    it('should apply per-status rules', () => {
+      const policy = resolveRetryPolicy({
+        jitter: 'none',
+        statusRules: { 500: false, 404: true, 503: { maxRetries: 6, baseDelay: 1000 } },
+      });
+      const unavailable = new PassageError('Unavailable', { statusCode: 503 });
+
+      expect(getRetryDelay(policy, serverError, 0, 3, 0)).toBeUndefined();
+      expect(getRetryDelay(policy, new NotFoundError('Not found'), 0, 3, 0)).toBe(100);
+      expect(getRetryDelay(policy, unavailable, 5, 3, 0)).toBe(10000);
+      expect(getRetryDelay(policy, unavailable, 6, 3, 0)).toBeUndefined();
+    });
+
+    it('should let a per-call maxRetries cap status rules', () => {
+      const policy = resolveRetryPolicy({ statusRules: { 503: { maxRetries: 6 }, 409: true } });
+      const unavailable = new PassageError('Unavailable', { statusCode: 503 });
+      const conflict = new PassageError('Conflict', { statusCode: 409 });
+
+      expect(getRetryDelay(policy, unavailable, 0, 3, 0, 0)).toBeUndefined();
+      expect(getRetryDelay(policy, conflict, 0, 3, 0, 0)).toBeUndefined();
+      expect(getRetryDelay(policy, unavailable, 1, 3, 0, 2)).toBeDefined();
+      expect(getRetryDelay(policy, unavailable, 2, 3, 0, 2)).toBeUndefined();
+      expect(getRetryDelay(policy, unavailable, 5, 3, 0, 10)).toBeDefined();
+      expect(getRetryDelay(policy, unavailable, 6, 3, 0, 10)).toBeUndefined();
+    });
+
+    it('should wait at least until Retry-After', () => {
+      const policy = resolveRetryPolicy({ jitter: 'none' });
+      const error = new RateLimitError('Too many requests', Math.floor(Date.now() / 1000) + 5);
+
+      const delay = getRetryDelay(policy, error, 0, 3, 0)!;
+
+      expect(delay).toBeGreaterThan(4000);
+      expect(delay).toBeLessThanOrEqual(5000);
+    });
+
+    it('should give up when Retry-After exceeds maxRetryAfter', () => {
+      const policy = resolveRetryPolicy({ maxRetryAfter: 1000 });
+      const error = new RateLimitError('Too many requests', Math.floor(Date.now() / 1000) + 60);
+
+      expect(getRetryDelay(policy, error, 0, 3, 0)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createAsyncContext, nodeBuiltin, randomUUID } from '../src/runtime';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('createAsyncContext', () => {
+  it('should carry the store across awaits', async () => {
+    const context = createAsyncContext<string>();
+
+    const seen = await context.run('outer', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return context.getStore();
+    });
+
+    expect(seen).toBe('outer');
+    expect(context.getStore()).toBeUndefined();
+  });
+
+  it('should keep concurrent and nested runs apart', async () => {
+    const context = createAsyncContext<string>();
+
+    const [a, b] = await Promise.all([
+      context.run('a', async () => {
+        const inner = await context.run('inner', async () => context.getStore());
+        return [context.getStore(), inner];
+      }),
+      context.run('b', async () => context.getStore()),
+    ]);
+
+    expect(a).toEqual(['a', 'inner']);
+    expect(b).toBe('b');
+  });
+});
+
+describe('randomUUID', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return a version 4 UUID', async () => {
+    const first = await randomUUID();
+
+    expect(first).toMatch(UUID);
+    expect(await randomUUID()).not.toBe(first);
+  });
+
+  it('should fall back to the Node.js crypto module without WebCrypto', async () => {
+    vi.stubGlobal('crypto', undefined);
+
+    expect(await randomUUID()).toMatch(UUID);
+  });
+});
+
+describe('nodeBuiltin', () => {
+  it('should return undefined for modules the runtime lacks', async () => {
+    expect(await nodeBuiltin('no-such-module')).toBeUndefined();
+    expect(await nodeBuiltin<typeof import('os')>('os')).toHaveProperty('platform');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ApplicationStateMachine,
+  APPLICATION_TRANSITIONS,
+} from '../src/state-machine';
+import { InvalidTransitionError } from '../src/errors';
+
+describe('ApplicationStateMachine', () => {
+  const machine = new ApplicationStateMachine();
+
+  describe('canTransition', () => {
+    it('should allow legal transitions', () => {
+      expect(machine.canTransition('DRAFT', 'PENDING')).toBe(true);
+      expect(machine.canTransition('OFFERS_READY', 'OFFER_ACCEPTED')).toBe(true);
+      expect(machine.canTransition('APPROVED', 'FUNDED')).toBe(true);
+    });
+
+    it('should reject illegal transitions', () => {
+      expect(machine.canTransition('FUNDED', 'PENDING')).toBe(false);
+      expect(machine.canTransition('PENDING', 'FUNDED')).toBe(false);
+      expect(machine.canTransition('CANCELLED', 'CANCELLED')).toBe(false);
+    });
+
+    it('should return false for unknown statuses', () => {
+      expect(machine.canTransition('ARCHIVED', 'PENDING')).toBe(false);
+    });
+  });
+
+  describe('nextStates', () => {
+    it('should list statuses reachable in one step', () => {
+      expect(machine.nextStates('DRAFT')).toEqual(['PENDING', 'CANCELLED']);
+    });
+
+    it('should return a copy', () => {
+      machine.nextStates('DRAFT').push('FUNDED');
+      expect(APPLICATION_TRANSITIONS.DRAFT).toEqual(['PENDING', 'CANCELLED']);
+    });
+
+    it('should be empty for terminal and unknown statuses', () => {
+      expect(machine.nextStates('FUNDED')).toEqual([]);
+      expect(machine.nextStates('ARCHIVED')).toEqual([]);
+    });
+  });
+
+  describe('isTerminal', () => {
+    it.each(['FUNDED', 'REJECTED', 'DECLINED', 'CANCELLED', 'EXPIRED'])('should treat %s as terminal', (status) => {
+      expect(machine.isTerminal(status)).toBe(true);
+    });
+
+    it('should not treat active or unknown statuses as terminal', () => {
+      expect(machine.isTerminal('PENDING')).toBe(false);
+      expect(machine.isTerminal('ARCHIVED')).toBe(false);
+    });
+  });
+
+  describe('canReach', () => {
+    it('should follow multi-step paths', () => {
+      expect(machine.canReach('PENDING', 'FUNDED')).toBe(true);
+      expect(machine.canReach('FUNDED', 'PENDING')).toBe(false);
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('should throw InvalidTransitionError for illegal transitions', () => {
+      expect(() => machine.assertTransition('FUNDED', 'PENDING')).toThrow(InvalidTransitionError);
+    });
+
+    it('should include the allowed statuses', () => {
+      try {
+        machine.assertTransition('DRAFT', 'FUNDED');
+        expect.fail('Expected InvalidTransitionError');
+      } catch (error) {
+        expect((error as InvalidTransitionError).allowed).toEqual(['PENDING', 'CANCELLED']);
+      }
+    });
+
+    it('should reject statuses no transition leads to when the current status is unknown', () => {
+      expect(() => machine.assertTransition(undefined, 'DRAFT')).toThrow(InvalidTransitionError);
+      expect(() => machine.assertTransition(undefined, 'CANCELLED')).not.toThrow();
+    });
+
+    it('should allow unknown statuses through', () => {
+      expect(() => machine.assertTransition('ARCHIVED', 'PENDING')).not.toThrow();
+      expect(() => machine.assertTransition('FUNDED', 'ARCHIVED')).not.toThrow();
+    });
+  });
+
+  describe('reduce', () => {
+    it('should reduce a webhook stream into the current status', () => {
+      const events = [
+        { event: 'application.created' },
+        { event: 'prequal_offer.received' },
+        { event: 'prequal_offer.accepted' },
+        { event: 'signing.completed' },
+        { event: 'application.approved' },
+        { event: 'funding.disbursed' },
+      ] as const;
+
+      expect(machine.reduce(events)).toBe('FUNDED');
+    });
+
+    it('should start from the initial status', () => {
+      expect(machine.reduce([{ event: 'test' }], 'PENDING')).toBe('PENDING');
+      expect(machine.reduce([], 'DRAFT')).toBe('DRAFT');
+    });
+
+    it('should skip over missed events', () => {
+      expect(machine.reduce([{ event: 'loan.created' }], 'PENDING')).toBe('FUNDED');
+    });
+
+    it('should ignore stale events', () => {
+      expect(machine.reduce([{ event: 'loan.created' }, { event: 'offer.received' }])).toBe('FUNDED');
+      expect(machine.reduce([{ event: 'application.rejected' }, { event: 'loan.created' }])).toBe('REJECTED');
+    });
+  });
+
+  describe('custom transitions', () => {
+    it('should use the provided table', () => {
+      const custom = new ApplicationStateMachine({ OPEN: ['CLOSED'], CLOSED: [] }, {});
+
+      expect(custom.statuses).toEqual(['OPEN', 'CLOSED']);
+      expect(custom.canTransition('OPEN', 'CLOSED')).toBe(true);
+      expect(custom.isTerminal('CLOSED')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AsyncLocalStorage } from 'async_hooks';
+import { BaseResource } from '../src/resources/base';
+import { resolveConfig, type ResolvedConfig } from '../src/config';
+import { createHttpClient, type PassageMiddleware, type PassageRequest } from '../src/middleware';
+import { createErrorFromResponse } from '../src/errors';
+import type {
+  MeterProviderLike,
+  SpanLike,
+  TelemetryAttributes,
+  TracerProviderLike,
+} from '../src/telemetry';
+
+interface FakeSpan extends SpanLike {
+  name: string;
+  kind?: number;
+  parent?: FakeSpan;
+  attributes: TelemetryAttributes;
+  events: Array<{ name: string; attributes?: TelemetryAttributes }>;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+  id: string;
+}
+
+function fakeTracerProvider(spans: FakeSpan[]): TracerProviderLike {
+  const active = new AsyncLocalStorage<FakeSpan>();
+  return {
+    getTracer: () => ({
+      startActiveSpan(name, options, fn) {
+        const id = (spans.length + 1).toString(16).padStart(16, '0');
+        const span: FakeSpan = {
+          name,
+          kind: options.kind,
+          parent: active.getStore(),
+          attributes: { ...options.attributes },
+          events: [],
+          exceptions: [],
+          ended: false,
+          id,
+          setAttribute(key, value) {
+            span.attributes[key] = value;
+          },
+          setStatus(status) {
+            span.status = status;
+          },
+          addEvent(eventName, attributes) {
+            span.events.push({ name: eventName, attributes });
+          },
+          recordException(exception) {
+            span.exceptions.push(exception);
+          },
+          spanContext: () => ({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: id, traceFlags: 1 }),
+          end() {
+            span.ended = true;
+          },
+        };
+        spans.push(span);
+        return active.run(span, () => fn(span)) as ReturnType<typeof fn>;
+      },
+    }),
+  };
+}
+
+function fakeMeterProvider(recorded: Array<{ name: string; value: number; attributes?: TelemetryAttributes }>): MeterProviderLike {
+  const instrument = (name: string) => ({
+    add: (value: number, attributes?: TelemetryAttributes) => recorded.push({ name, value, attributes }),
+    record: (value: number, attributes?: TelemetryAttributes) => recorded.push({ name, value, attributes }),
+  });
+  return {
+    getMeter: () => ({
+      createCounter: instrument,
+      createHistogram: instrument,
+    }),
+  };
+}
+
+class TestResource extends BaseResource {
+  private http;
+
+  constructor(config: ResolvedConfig) {
+    super(config);
+    this.http = createHttpClient(config.middleware);
+  }
+
+  get(path: string) {
+    return this.execute(async () => (await this.http.get(`https://api.example.com${path}`)).data, 'test.get');
+  }
+}
+
+describe('telemetry', () => {
+  let spans: FakeSpan[];
+  let metrics: Array<{ name: string; value: number; attributes?: TelemetryAttributes }>;
+  let sent: PassageRequest[];
+  let responses: Array<number | { status: number; headers?: Record<string, string> }>;
+
+  const responder: PassageMiddleware = async (request) => {
+    sent.push(request);
+    const next = responses.shift() ?? 200;
+    const { status, headers = {} } = typeof next === 'number' ? { status: next } : next;
+    if (status >= 400) {
+      throw createErrorFromResponse(status, { message: 'failed', requestId: `req_${sent.length}` }, headers);
+    }
+    return { status, headers: { 'x-request-id': `req_${sent.length}`, ...headers }, body: '{"ok":true}' };
+  };
+
+  function resource(telemetry: Parameters<typeof resolveConfig>[0]['telemetry']) {
+    return new TestResource(
+      resolveConfig({
+        apiKey: 'nb_test_abc123xyz789',
+        retry: { baseDelay: 1 },
+        middleware: [responder],
+        telemetry,
+      })
+    );
+  }
+
+  beforeEach(() => {
+    spans = [];
+    metrics = [];
+    sent = [];
+    responses = [];
+  });
+
+  it('should create an operation span with a child span per attempt', async () => {
+    responses = [503, 200];
+
+    await resource({ tracerProvider: fakeTracerProvider(spans) }).get('/thing');
+
+    const [operation, first, second] = spans;
+    expect(operation).toMatchObject({ name: 'test.get', kind: 0, ended: true, status: { code: 1 } });
+    expect(operation.attributes['passage.retry_count']).toBe(1);
+    expect(operation.events).toEqual([
+      { name: 'retry', attributes: expect.objectContaining({ 'passage.attempt': 1, 'http.response.status_code': 503 }) },
+    ]);
+
+    expect(first).toMatchObject({ name: 'test.get GET', kind: 2, parent: operation, status: { code: 2 } });
+    expect(first.attributes).toMatchObject({
+      'passage.attempt': 1,
+      'http.response.status_code': 503,
+      'passage.request_id': 'req_1',
+      'url.full': 'https://api.example.com/thing',
+    });
+    expect(second).toMatchObject({ parent: operation, status: { code: 1 } });
+    expect(second.attributes).toMatchObject({ 'passage.attempt': 2, 'http.response.status_code': 200, 'passage.request_id': 'req_2' });
+  });
+
+  it('should keep query strings and PII out of the url attribute', async () => {
+    await resource({ tracerProvider: fakeTracerProvider(spans) }).get(
+      '/wallets/0x52908400098527886E0F7030069857D2E4169EE7/verifications?address=0x52908400098527886E0F7030069857D2E4169EE7'
+    );
+
+    expect(spans[1].attributes['url.full']).toBe('https://api.example.com/wallets/[REDACTED:wallet]/verifications');
+  });
+
+  it('should propagate the attempt span as traceparent', async () => {
+    await resource({ tracerProvider: fakeTracerProvider(spans) }).get('/thing');
+
+    expect(sent[0].headers.traceparent).toBe(`00-4bf92f3577b34da6a3ce929d0e0e4736-${spans[1].id}-01`);
+  });
+
+  it('should not propagate when disabled', async () => {
+    await resource({ tracerProvider: fakeTracerProvider(spans), propagateTraceContext: false }).get('/thing');
+
+    expect(sent[0].headers.traceparent).toBeUndefined();
+  });
+
+  it('should record errors on the operation span', async () => {
+    responses = [404];
+
+    await expect(resource({ tracerProvider: fakeTracerProvider(spans) }).get('/missing')).rejects.toThrow();
+
+    const [operation] = spans;
+    expect(operation.status?.code).toBe(2);
+    expect(operation.exceptions).toHaveLength(1);
+    expect(operation.attributes).toMatchObject({
+      'passage.error_code': 'NOT_FOUND',
+      'http.response.status_code': 404,
+      'passage.request_id': 'req_1',
+      'passage.retry_count': 0,
+    });
+  });
+
+  it('should record latency, retry and rate limit metrics', async () => {
+    responses = [429, 200];
+
+    await resource({ meterProvider: fakeMeterProvider(metrics) }).get('/thing');
+
+    const names = metrics.map((metric) => metric.name);
+    expect(names.filter((name) => name === 'passage.client.request.duration')).toHaveLength(2);
+    expect(metrics).toContainEqual({
+      name: 'passage.client.rate_limits',
+      value: 1,
+      attributes: { 'passage.operation': 'test.get' },
+    });
+    expect(metrics).toContainEqual(expect.objectContaining({
+      name: 'passage.client.retries',
+      value: 1,
+      attributes: expect.objectContaining({ 'passage.error_code': 'RATE_LIMIT_EXCEEDED' }),
+    }));
+    expect(metrics).toContainEqual(expect.objectContaining({
+      name: 'passage.client.operation.duration',
+      attributes: expect.objectContaining({ 'passage.operation': 'test.get', 'passage.outcome': 'success' }),
+    }));
+  });
+
+  it('should be off without providers', async () => {
+    const config = resolveConfig({ apiKey: 'nb_test_abc123xyz789', middleware: [responder] });
+
+    expect(config.telemetry).toBeUndefined();
+    expect(config.middleware).toEqual([responder]);
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SDXApi } from '@portola/passage';
+import {
+  fetchTransport,
+  MockTransport,
+  RecordingTransport,
+  STREAM_BODY_PLACEHOLDER,
+  type PassageTransport,
+} from '../src/transport';
+import { Readable } from 'stream';
+import { createHttpClient, runInRequestContext, type PassageRequest } from '../src/middleware';
+import { readAll } from '../src/streams';
+import { NetworkError, NotFoundError, PassageError, RateLimitError, TimeoutError } from '../src/errors';
+import { SDXResource } from '../src/resources/sdx';
+import { resolveConfig } from '../src/config';
+
+function request(overrides: Partial<PassageRequest> = {}): PassageRequest {
+  return {
+    method: 'GET',
+    url: 'https://api.test/applications/app_1',
+    headers: {},
+    attempt: 1,
+    priority: 'interactive',
+    ...overrides,
+  };
+}
+
+describe('fetchTransport', () => {
+  it('should send the request and read the response as text', async () => {
+    const fetchImpl = vi.fn(async () =>
+      new Response('{"success":true}', { status: 201, headers: { 'X-Request-Id': 'req_1' } })
+    );
+
+    const response = await fetchTransport(fetchImpl)(
+      request({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': '2' },
+        body: '{}',
+      })
+    );
+
+    expect(response).toEqual({
+      status: 201,
+      headers: expect.objectContaining({ 'x-request-id': 'req_1' }),
+      body: '{"success":true}',
+    });
+    expect(fetchImpl).toHaveBeenCalledWith('https://api.test/applications/app_1', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('should read binary responses', async () => {
+    const fetchImpl = vi.fn(async () => new Response(new Uint8Array([1, 2, 3])));
+
+    const response = await fetchTransport(fetchImpl)(request({ responseType: 'arraybuffer' }));
+
+    expect(new Uint8Array(response.body as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('should stream request and response bodies', async () => {
+    let sent: RequestInit | undefined;
+    const fetchImpl = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      sent = init;
+      return new Response(new Uint8Array([4, 5]));
+    });
+
+    const response = await fetchTransport(fetchImpl)(
+      request({ method: 'POST', body: Readable.from([Buffer.from('a'), Buffer.from('b')]), responseType: 'stream' })
+    );
+
+    expect(sent).toMatchObject({ duplex: 'half', body: expect.any(ReadableStream) });
+    expect((await readAll(sent!.body as ReadableStream<Uint8Array>)).toString()).toBe('ab');
+    expect(await readAll(response.body as ReadableStream<Uint8Array>)).toEqual(Buffer.from([4, 5]));
+  });
+
+  it('should return error statuses instead of throwing', async () => {
+    const fetchImpl = vi.fn(async () => new Response('{"error":"NOT_FOUND"}', { status: 404 }));
+
+    await expect(fetchTransport(fetchImpl)(request())).resolves.toMatchObject({ status: 404 });
+  });
+
+  it('should fail with NetworkError when no response arrives', async () => {
+    const fetchImpl = vi.fn(async () => Promise.reject(new TypeError('fetch failed')));
+
+    const error = await fetchTransport(fetchImpl)(request()).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toContain('fetch failed');
+  });
+
+  it('should fail with TimeoutError after the request timeout', async () => {
+    const fetchImpl = vi.fn(
+      (_url: string | URL | Request, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+
+    await expect(fetchTransport(fetchImpl)(request({ timeout: 10 }))).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('should abort with the request signal', async () => {
+    const controller = new AbortController();
+    let seen: AbortSignal | undefined;
+    const fetchImpl = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      seen = init?.signal ?? undefined;
+      return new Response('');
+    });
+    controller.abort(new Error('cancelled'));
+
+    await fetchTransport(fetchImpl)(request({ signal: controller.signal }));
+
+    expect(seen?.aborted).toBe(true);
+  });
+
+  it('should let the request signal cancel a streamed body', async () => {
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+    // Like fetch, error the body when the request is aborted
+    const fetchImpl = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      const body = new ReadableStream<Uint8Array>({
+        start(stream) {
+          stream.enqueue(new Uint8Array([1]));
+          init?.signal?.addEventListener('abort', () => stream.error(init.signal!.reason));
+        },
+      });
+      return new Response(body);
+    });
+
+    const response = await fetchTransport(fetchImpl)(
+      request({ responseType: 'stream', timeout: 5, signal: controller.signal })
+    );
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+
+    expect((await reader.read()).value).toEqual(new Uint8Array([1]));
+    // The timeout only covers the headers
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    controller.abort(reason);
+    await expect(reader.read()).rejects.toBe(reason);
+  });
+
+  it('should stop listening to the request signal once a streamed body ends', async () => {
+    const controller = new AbortController();
+    let seen: AbortSignal | undefined;
+    const fetchImpl = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      seen = init?.signal ?? undefined;
+      return new Response(new Uint8Array([1, 2]));
+    });
+
+    const response = await fetchTransport(fetchImpl)(request({ responseType: 'stream', signal: controller.signal }));
+    expect(await readAll(response.body as ReadableStream<Uint8Array>)).toEqual(Buffer.from([1, 2]));
+    controller.abort();
+
+    expect(seen?.aborted).toBe(false);
+  });
+});
+
+describe('MockTransport', () => {
+  it('should answer matching requests and record them', async () => {
+    const mock = new MockTransport()
+      .reply('GET', '/applications/app_1', { body: { success: true, data: { id: 'app_1' } } })
+      .reply('get', /\/lenders/, { body: 'plain', headers: { 'x-custom': '1' } });
+
+    await expect(mock.transport(request({ url: 'https://api.test/applications/app_1?expand=1' }))).resolves.toEqual({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: '{"success":true,"data":{"id":"app_1"}}',
+    });
+    await expect(mock.transport(request({ url: 'https://api.test/lenders' }))).resolves.toEqual({
+      status: 200,
+      headers: { 'x-custom': '1' },
+      body: 'plain',
+    });
+    expect(mock.requests.map((r) => r.url)).toEqual([
+      'https://api.test/applications/app_1?expand=1',
+      'https://api.test/lenders',
+    ]);
+  });
+
+  it('should use one-time replies before falling through', async () => {
+    const mock = new MockTransport()
+      .replyOnce('GET', '/applications/app_1', { status: 503 })
+      .reply('GET', '/applications/app_1', (req) => ({ body: { attempt: req.attempt } }));
+
+    expect((await mock.transport(request())).status).toBe(503);
+    expect((await mock.transport(request({ attempt: 2 }))).body).toBe('{"attempt":2}');
+  });
+
+  it('should throw for unmatched requests', async () => {
+    await expect(new MockTransport().transport(request({ method: 'DELETE' }))).rejects.toThrow(
+      'MockTransport: no reply for DELETE https://api.test/applications/app_1'
+    );
+  });
+
+  it('should replay a recording', async () => {
+    const inner: PassageTransport = async (req) => ({ status: 200, headers: {}, body: `echo ${req.url}` });
+    const recorder = new RecordingTransport(inner);
+    await recorder.transport(request({ headers: { 'X-API-Key': 'nb_test_secret' } }));
+
+    expect(recorder.exchanges).toEqual([
+      {
+        request: { method: 'GET', url: 'https://api.test/applications/app_1', body: undefined },
+        response: { status: 200, headers: {}, body: 'echo https://api.test/applications/app_1' },
+      },
+    ]);
+    expect(JSON.stringify(recorder.exchanges)).not.toContain('nb_test_secret');
+
+    const replay = MockTransport.fromRecording(recorder.exchanges);
+    await expect(replay.transport(request())).resolves.toMatchObject({ body: 'echo https://api.test/applications/app_1' });
+    await expect(replay.transport(request())).rejects.toThrow('no reply');
+  });
+
+  it('should record streamed bodies as a placeholder', async () => {
+    const inner: PassageTransport = async (req) => {
+      const uploaded = await readAll(req.body as AsyncIterable<Uint8Array>);
+      return { status: 200, headers: {}, body: Readable.from([uploaded]) };
+    };
+    const recorder = new RecordingTransport(inner);
+
+    const response = await recorder.transport(
+      request({ method: 'POST', body: Readable.from([Buffer.from('document')]), responseType: 'stream' })
+    );
+
+    expect((await readAll(response.body as AsyncIterable<Uint8Array>)).toString()).toBe('document');
+    expect(recorder.exchanges[0]).toMatchObject({
+      request: { body: STREAM_BODY_PLACEHOLDER },
+      response: { body: STREAM_BODY_PLACEHOLDER },
+    });
+  });
+});
+
+describe('transport error conversion', () => {
+  it('should convert error statuses from any transport', async () => {
+    const mock = new MockTransport()
+      .reply('GET', '/missing', { status: 404, body: { error: 'NOT_FOUND', message: 'Application not found' } })
+      .reply('GET', '/limited', { status: 429, headers: { 'retry-after': '30' }, body: '' })
+      .reply('GET', '/binary', { status: 500, body: new TextEncoder().encode('{"message":"Storage down"}') });
+    const http = createHttpClient([], mock.transport);
+
+    const notFound = await http.get('https://api.test/missing').catch((e) => e);
+    expect(notFound).toBeInstanceOf(NotFoundError);
+    expect(notFound.message).toBe('Application not found');
+
+    const limited = await http.get('https://api.test/limited').catch((e) => e);
+    expect(limited).toBeInstanceOf(RateLimitError);
+    expect(limited.retryAfter).toBeGreaterThan(Date.now() / 1000);
+
+    const serverError = await http.get('https://api.test/binary', { responseType: 'arraybuffer' }).catch((e) => e);
+    expect(serverError).toMatchObject({ statusCode: 500, message: 'Storage down' });
+  });
+
+  it('should read the error body of streamed responses', async () => {
+    const mock = new MockTransport().reply('GET', '/blob', {
+      status: 404,
+      body: Readable.from([Buffer.from('{"message":"Document '), Buffer.from('expired"}')]),
+    });
+    const http = createHttpClient([], mock.transport);
+
+    const error = await http.get('https://api.test/blob', { responseType: 'stream' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Document expired');
+  });
+
+  it('should wrap transport failures with the operation name', async () => {
+    const http = createHttpClient([], new MockTransport().transport);
+
+    const error = await runInRequestContext({ operation: 'loans.get', attempt: 1 }, () =>
+      http.get('https://api.test/loans/loan_1')
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PassageError);
+    expect(error.message).toContain('loans.get failed: MockTransport: no reply');
+  });
+
+  it('should pass the timeout and response type to the transport', async () => {
+    const mock = new MockTransport().reply('GET', '/blob', { body: new Uint8Array([7]) });
+    const http = createHttpClient([], mock.transport);
+
+    const response = await http.get('https://api.test/blob', { timeout: 1234, responseType: 'arraybuffer' });
+
+    expect(mock.requests[0]).toMatchObject({ timeout: 1234, responseType: 'arraybuffer' });
+    expect(response.data).toEqual(new Uint8Array([7]));
+  });
+
+  it('should send SDX requests through the configured transport', async () => {
+    const mock = new MockTransport().reply('POST', 'https://sdx.example.com/sdx/blobs', {
+      status: 201,
+      body: { documentHandle: 'doc_1', expiresAt: '2024-01-16T00:00:00Z' },
+    });
+    const sdx = new SDXResource({} as SDXApi, resolveConfig({ apiKey: 'nb_test_abc123xyz789', transport: mock.transport }));
+
+    const result = await sdx.upload({
+      token: { sdxToken: 'tok', sdxUrl: 'https://sdx.example.com', expiresIn: 600 },
+      encryptedDocument: Buffer.from('encrypted'),
+    });
+
+    expect(result.documentHandle).toBe('doc_1');
+    expect(mock.requests[0].headers.Authorization).toBe('Bearer tok');
+  });
+});
@@ -0,0 +1,423 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { WebhookHandler } from '../../src/webhooks/handler';
+import { WebhookRouter } from '../../src/webhooks/router';
+import { InMemoryDedupeStore } from '../../src/webhooks/dedupe';
+import {
+  processWebhookRequest,
+  createNodeHandler,
+  createExpressMiddleware,
+  createFastifyHandler,
+  passageWebhookPlugin,
+  createFetchHandler,
+  createNextRouteHandler,
+} from '../../src/webhooks/adapters';
+import type {
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+  FastifyLikeReply,
+} from '../../src/webhooks/adapters';
+
+const TEST_SECRET = 'whsec_test_secret_key_12345';
+
+function makePayload(id = 'evt_123'): string {
+  return JSON.stringify({
+    id,
+    event: 'loan.created',
+    data: { loanId: 'loan_123', applicationId: 'app_123' },
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+  });
+}
+
+describe('webhooks/adapters', () => {
+  let handler: WebhookHandler;
+
+  beforeEach(() => {
+    handler = new WebhookHandler({ secret: TEST_SECRET });
+  });
+
+  function sign(payload: string): string {
+    return handler.generateTestHeaders(payload)['x-passage-signature'];
+  }
+
+  describe('processWebhookRequest', () => {
+    it('should dispatch verified events and respond 200', async () => {
+      const onLoanCreated = vi.fn();
+      const router = new WebhookRouter().on('loan.created', onLoanCreated);
+      const payload = makePayload();
+
+      const response = await processWebhookRequest(
+        { handler, router },
+        { rawBody: payload, signature: sign(payload) }
+      );
+
+      expect(response).toEqual({ status: 200, body: { received: true } });
+      expect(onLoanCreated).toHaveBeenCalledWith(expect.objectContaining({ id: 'evt_123' }));
+    });
+
+    it('should accept Buffer bodies and array headers', async () => {
+      const payload = makePayload();
+
+      const response = await processWebhookRequest(
+        { handler },
+        { rawBody: Buffer.from(payload), signature: [sign(payload)] }
+      );
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should respond 401 for invalid signatures', async () => {
+      const onError = vi.fn();
+      const payload = makePayload();
+
+      const response = await processWebhookRequest(
+        { handler, onError },
+        { rawBody: payload, signature: 't=1,v1=abc' }
+      );
+
+      expect(response.status).toBe(401);
+      expect(response.body.received).toBe(false);
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), 401);
+    });
+
+    it('should respond 401 for missing signatures', async () => {
+      const response = await processWebhookRequest(
+        { handler },
+        { rawBody: makePayload(), signature: undefined }
+      );
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Missing signature header');
+    });
+
+    it('should respond 400 when the body was already parsed', async () => {
+      const payload = makePayload();
+
+      const response = await processWebhookRequest(
+        { handler },
+        { rawBody: JSON.parse(payload), signature: sign(payload) }
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Raw request body is not available');
+    });
+
+    it('should respond 400 for invalid JSON', async () => {
+      const payload = '{not json';
+
+      const response = await processWebhookRequest(
+        { handler },
+        { rawBody: payload, signature: sign(payload) }
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should respond 500 and release the event when a handler fails', async () => {
+      const store = new InMemoryDedupeStore();
+      const dedupeHandler = new WebhookHandler({ secret: TEST_SECRET, dedupe: { store } });
+      const router = new WebhookRouter().on('loan.created', () => {
+        throw new Error('database unavailable');
+      });
+      const payload = makePayload();
+
+      const response = await processWebhookRequest(
+        { handler: dedupeHandler, router },
+        { rawBody: payload, signature: sign(payload) }
+      );
+
+      expect(response.status).toBe(500);
+      expect(store.claim('event:evt_123', 60)).toBe(true); // Released for redelivery
+    });
+
+    it('should process the same signed request again after a failure', async () => {
+      const dedupeHandler = new WebhookHandler({ secret: TEST_SECRET, dedupe: { store: new InMemoryDedupeStore() } });
+      const onEvent = vi.fn().mockRejectedValueOnce(new Error('database unavailable'));
+      const payload = makePayload();
+      const request = { rawBody: payload, signature: sign(payload) };
+
+      const failed = await processWebhookRequest({ handler: dedupeHandler, onEvent }, request);
+      const retried = await processWebhookRequest({ handler: dedupeHandler, onEvent }, request);
+
+      expect(failed.status).toBe(500);
+      expect(retried.status).toBe(200);
+      expect(onEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should respond 500 when onEvent throws', async () => {
+      const payload = makePayload();
+
+      const response = await processWebhookRequest(
+        {
+          handler,
+          onEvent: () => {
+            throw new Error('failed');
+          },
+        },
+        { rawBody: payload, signature: sign(payload) }
+      );
+
+      expect(response.status).toBe(500);
+    });
+
+    it('should acknowledge duplicates without dispatching', async () => {
+      const dedupeHandler = new WebhookHandler({
+        secret: TEST_SECRET,
+        dedupe: { store: new InMemoryDedupeStore() },
+      });
+      const onLoanCreated = vi.fn();
+      const router = new WebhookRouter().on('loan.created', onLoanCreated);
+      const payload = makePayload();
+      const signature = sign(payload);
+
+      await processWebhookRequest({ handler: dedupeHandler, router }, { rawBody: payload, signature });
+      const response = await processWebhookRequest(
+        { handler: dedupeHandler, router },
+        { rawBody: payload, signature }
+      );
+
+      expect(response).toEqual({ status: 200, body: { received: true, duplicate: true } });
+      expect(onLoanCreated).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass the received event and dispatch result to onEvent', async () => {
+      const onEvent = vi.fn();
+      const router = new WebhookRouter().on('*', vi.fn());
+      const payload = makePayload();
+
+      await processWebhookRequest(
+        { handler, router, onEvent },
+        { rawBody: payload, signature: sign(payload) }
+      );
+
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ duplicate: false, event: expect.objectContaining({ id: 'evt_123' }) }),
+        expect.objectContaining({ ok: true })
+      );
+    });
+  });
+
+  describe('createNodeHandler', () => {
+    let server: http.Server;
+    let url: string;
+
+    beforeEach(async () => {
+      const handleWebhook = createNodeHandler({ handler });
+      server = http.createServer((req, res) => {
+        void handleWebhook(req, res);
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should respond 200 for valid webhooks', async () => {
+      const payload = makePayload();
+
+      const response = await fetch(url, {
+        method: 'POST',
+        body: payload,
+        headers: { 'Content-Type': 'application/json', 'x-passage-signature': sign(payload) },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ received: true });
+    });
+
+    it('should respond 401 for invalid signatures', async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        body: makePayload(),
+        headers: { 'x-passage-signature': 't=1,v1=abc' },
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should respond 400 instead of rejecting when the request is aborted mid-body', async () => {
+      const onError = vi.fn();
+      const handleWebhook = createNodeHandler({ handler, onError });
+      let handled!: Promise<void>;
+      const received = new Promise<void>((resolve) => {
+        server.removeAllListeners('request');
+        server.on('request', (req, res) => {
+          handled = handleWebhook(req, res);
+          req.once('data', () => resolve());
+        });
+      });
+
+      const request = http.request(url, { method: 'POST', headers: { 'Content-Length': '1000' } });
+      request.on('error', () => {});
+      request.write('{"id":');
+      await received;
+      request.destroy();
+
+      await expect(handled).resolves.toBeUndefined();
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), 400);
+    });
+  });
+
+  describe('createExpressMiddleware', () => {
+    function mockResponse() {
+      const res = {
+        statusCode: 0,
+        body: undefined as unknown,
+        status: vi.fn((code: number): ExpressLikeResponse => {
+          res.statusCode = code;
+          return res;
+        }),
+        json: vi.fn((body: unknown) => {
+          res.body = body;
+        }),
+      };
+      return res;
+    }
+
+    function mockRequest(payload: string, signature: string, body?: unknown): ExpressLikeRequest {
+      const req = Readable.from([Buffer.from(payload)]) as unknown as ExpressLikeRequest;
+      req.headers = { 'x-passage-signature': signature };
+      req.body = body;
+      return req;
+    }
+
+    it('should verify raw Buffer bodies from express.raw()', async () => {
+      const payload = makePayload();
+      const req = mockRequest(payload, sign(payload), Buffer.from(payload));
+      req.resume(); // Simulate a consumed stream
+      const res = mockResponse();
+
+      await createExpressMiddleware({ handler })(req, res, vi.fn());
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toEqual({ received: true });
+    });
+
+    it('should read the body stream when no body parser ran', async () => {
+      const payload = makePayload();
+      const res = mockResponse();
+
+      await createExpressMiddleware({ handler })(mockRequest(payload, sign(payload), {}), res, vi.fn());
+
+      expect(res.statusCode).toBe(200);
+    });
+
+    it('should respond 401 for invalid signatures', async () => {
+      const payload = makePayload();
+      const res = mockResponse();
+
+      await createExpressMiddleware({ handler })(mockRequest(payload, 'bad'), res, vi.fn());
+
+      expect(res.statusCode).toBe(401);
+    });
+
+    it('should forward unexpected errors to next', async () => {
+      const payload = makePayload();
+      const res = mockResponse();
+      res.status.mockImplementation(() => {
+        throw new Error('response already sent');
+      });
+      const next = vi.fn();
+
+      await createExpressMiddleware({ handler })(mockRequest(payload, sign(payload)), res, next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(Error));
+    });
+  });
+
+  describe('createFastifyHandler', () => {
+    function mockReply() {
+      const reply = {
+        statusCode: 0,
+        payload: undefined as unknown,
+        code: vi.fn((statusCode: number): FastifyLikeReply => {
+          reply.statusCode = statusCode;
+          return reply as unknown as FastifyLikeReply;
+        }),
+        send: vi.fn((payload: unknown): unknown => {
+          reply.payload = payload;
+          return reply;
+        }),
+      };
+      return reply;
+    }
+
+    it('should use rawBody when available', async () => {
+      const payload = makePayload();
+      const reply = mockReply();
+
+      await createFastifyHandler({ handler })(
+        { rawBody: payload, body: JSON.parse(payload), headers: { 'x-passage-signature': sign(payload) } },
+        reply
+      );
+
+      expect(reply.statusCode).toBe(200);
+      expect(reply.payload).toEqual({ received: true });
+    });
+
+    it('should use string bodies', async () => {
+      const payload = makePayload();
+      const reply = mockReply();
+
+      await createFastifyHandler({ handler })(
+        { body: payload, headers: { 'x-passage-signature': sign(payload) } },
+        reply
+      );
+
+      expect(reply.statusCode).toBe(200);
+    });
+
+    it('should register a raw JSON parser and route via the plugin', async () => {
+      const addContentTypeParser = vi.fn();
+      const post = vi.fn();
+
+      await passageWebhookPlugin({ addContentTypeParser, post }, { handler, path: '/hooks' });
+
+      expect(addContentTypeParser).toHaveBeenCalledWith(
+        'application/json',
+        { parseAs: 'string' },
+        expect.any(Function)
+      );
+      expect(post).toHaveBeenCalledWith('/hooks', expect.any(Function));
+
+      const parser = addContentTypeParser.mock.calls[0][2];
+      const done = vi.fn();
+      parser({}, '{"a":1}', done);
+      expect(done).toHaveBeenCalledWith(null, '{"a":1}');
+    });
+  });
+
+  describe('createFetchHandler', () => {
+    it('should handle Fetch API requests', async () => {
+      const payload = makePayload();
+      const request = new Request('http://localhost/webhooks', {
+        method: 'POST',
+        body: payload,
+        headers: { 'x-passage-signature': sign(payload) },
+      });
+
+      const response = await createFetchHandler({ handler })(request);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('application/json');
+      expect(await response.json()).toEqual({ received: true });
+    });
+
+    it('should respond 401 for invalid signatures', async () => {
+      const request = new Request('http://localhost/webhooks', {
+        method: 'POST',
+        body: makePayload(),
+        headers: { 'x-passage-signature': 't=1,v1=abc' },
+      });
+
+      const response = await createNextRouteHandler({ handler })(request);
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryDedupeStore } from '../../src/webhooks/dedupe';
+import type { WebhookDedupeStore } from '../../src/webhooks/dedupe';
+import { WebhookHandler, WebhookDuplicateError } from '../../src/webhooks/handler';
+
+const TEST_SECRET = 'whsec_test_secret_key_12345';
+
+function makePayload(id: string): string {
+  return JSON.stringify({
+    id,
+    event: 'loan.repayment_received',
+    data: { loanId: 'loan_123', amount: '250.00' },
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+  });
+}
+
+describe('webhooks/dedupe', () => {
+  describe('InMemoryDedupeStore', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should claim new keys and reject repeated keys', () => {
+      const store = new InMemoryDedupeStore();
+
+      expect(store.claim('evt_1', 60)).toBe(true);
+      expect(store.claim('evt_1', 60)).toBe(false);
+      expect(store.claim('evt_2', 60)).toBe(true);
+    });
+
+    it('should allow keys again after their TTL expires', () => {
+      vi.useFakeTimers();
+      const store = new InMemoryDedupeStore();
+
+      store.claim('evt_1', 60);
+      vi.advanceTimersByTime(59_000);
+      expect(store.claim('evt_1', 60)).toBe(false);
+
+      vi.advanceTimersByTime(2_000);
+      expect(store.claim('evt_1', 60)).toBe(true);
+    });
+
+    it('should evict least recently claimed keys beyond maxEntries', () => {
+      const store = new InMemoryDedupeStore({ maxEntries: 2 });
+
+      store.claim('evt_1', 60);
+      store.claim('evt_2', 60);
+      store.claim('evt_3', 60);
+
+      expect(store.size).toBe(2);
+      expect(store.claim('evt_1', 60)).toBe(true); // evicted, so treated as new
+      expect(store.claim('evt_3', 60)).toBe(false);
+    });
+
+    it('should release keys', () => {
+      const store = new InMemoryDedupeStore();
+
+      store.claim('evt_1', 60);
+      store.release('evt_1');
+
+      expect(store.claim('evt_1', 60)).toBe(true);
+    });
+
+    it('should clear all keys', () => {
+      const store = new InMemoryDedupeStore();
+
+      store.claim('evt_1', 60);
+      store.clear();
+
+      expect(store.size).toBe(0);
+    });
+
+    it('should throw for invalid maxEntries', () => {
+      expect(() => new InMemoryDedupeStore({ maxEntries: 0 })).toThrow('maxEntries');
+    });
+  });
+
+  describe('WebhookHandler.receive', () => {
+    let store: InMemoryDedupeStore;
+
+    beforeEach(() => {
+      store = new InMemoryDedupeStore();
+    });
+
+    it('should return events without dedupe config', async () => {
+      const handler = new WebhookHandler({ secret: TEST_SECRET });
+      const payload = makePayload('evt_1');
+      const signature = handler.generateTestHeaders(payload)['x-passage-signature'];
+
+      const first = await handler.receive(payload, signature);
+      const second = await handler.receive(payload, signature);
+
+      expect(first.duplicate).toBe(false);
+      expect(second.duplicate).toBe(false);
+      expect(first.event.id).toBe('evt_1');
+    });
+
+    it('should reject duplicate event IDs by default', async () => {
+      const handler = new WebhookHandler({ secret: TEST_SECRET, dedupe: { store } });
+      const payload = makePayload('evt_1');
+      const signature = handler.generateTestHeaders(payload)['x-passage-signature'];
+
+      await handler.receive(payload, signature);
+
+      await expect(handler.receive(payload, signature)).rejects.toThrow(WebhookDuplicateError);
+      await expect(handler.receive(payload, signature)).rejects.toMatchObject({
+        eventId: 'evt_1',
+        errorCode: 'WEBHOOK_DUPLICATE',
+      });
+    });
+
+    it('should catch redeliveries with a new signature', async () => {
+      vi.useFakeTimers();
+      const handler = new WebhookHandler({
+        secret: TEST_SECRET,
+        dedupe: { store, onDuplicate: 'flag' },
+      });
+      const payload = makePayload('evt_1');
+
+      const firstSignature = handler.generateTestHeaders(payload)['x-passage-signature'];
+      vi.advanceTimersByTime(30_000);
+      const redeliverySignature = handler.generateTestHeaders(payload)['x-passage-signature'];
+
+      expect(redeliverySignature).not.toBe(firstSignature);
+      expect((await handler.receive(payload, firstSignature)).duplicate).toBe(false);
+      expect((await handler.receive(payload, redeliverySignature)).duplicate).toBe(true);
+      vi.useRealTimers();
+    });
+
+    it('should flag duplicates when onDuplicate is flag', async () => {
+      const handler = new WebhookHandler({
+        secret: TEST_SECRET,
+        dedupe: { store, onDuplicate: 'flag' },
+      });
+      const payload = makePayload('evt_1');
+      const signature = handler.generateTestHeaders(payload)['x-passage-signature'];
+
+      const first = await handler.receive(payload, signature);
+      const second = await handler.receive(payload, signature);
+
+      expect(first.duplicate).toBe(false);
+      expect(second.duplicate).toBe(true);
+      expect(second.event.id).toBe('evt_1');
+    });
+
+    it('should process an event again after release', async () => {
+      const handler = new WebhookHandler({
+        secret: TEST_SECRET,
+        dedupe: { store, onDuplicate: 'flag' },
+      });
+      const payload = makePayload('evt_1');
+
+      const { event } = await handler.receive(
+        payload,
+        handler.generateTestHeaders(payload)['x-passage-signature']
+      );
+      await handler.release(event);
+
+      // Redelivery arrives with a fresh signature
+      vi.useFakeTimers();
+      vi.advanceTimersByTime(5_000);
+      const redelivery = await handler.receive(
+        payload,
+        handler.generateTestHeaders(payload)['x-passage-signature']
+      );
+      vi.useRealTimers();
+
+      expect(redelivery.duplicate).toBe(false);
+    });
+
+    it('should use the configured TTL for event keys', async () => {
+      const claim = vi.fn().mockResolvedValue(true);
+      const customStore: WebhookDedupeStore = { claim, release: vi.fn() };
+      const handler = new WebhookHandler({
+        secret: TEST_SECRET,
+        dedupe: { store: customStore, ttl: 3600 },
+      });
+      const payload = makePayload('evt_1');
+
+      await handler.receive(payload, handler.generateTestHeaders(payload)['x-passage-signature']);
+
+      expect(claim).toHaveBeenCalledWith('event:evt_1', 3600);
+      expect(claim).toHaveBeenCalledWith(expect.stringMatching(/^sig:[a-f0-9]{64}$/), 600);
+    });
+
+    it('should not consult the store for invalid signatures', async () => {
+      const claim = vi.fn();
+      const handler = new WebhookHandler({
+        secret: TEST_SECRET,
+        dedupe: { store: { claim, release: vi.fn() } },
+      });
+
+      await expect(handler.receive(makePayload('evt_1'), 'invalid')).rejects.toThrow(
+        'Invalid signature format'
+      );
+      expect(claim).not.toHaveBeenCalled();
+    });
+  });
+});
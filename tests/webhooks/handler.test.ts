@@ -173,6 +173,66 @@ describe('webhooks/handler', () => {
     });
   });
 
+  describe('WebCrypto verification', () => {
+    let handler: WebhookHandler;
+
+    beforeEach(() => {
+      handler = new WebhookHandler({ secret: [{ secret: 'whsec_other' }, { secret: TEST_SECRET, id: 'current' }] });
+    });
+
+    it('should verify valid signatures like verifySignature', async () => {
+      const payload = JSON.stringify({ event: 'test', data: {} });
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = createSignature(payload, timestamp, TEST_SECRET);
+
+      await expect(handler.verifySignatureAsync(payload, signature)).resolves.toEqual(
+        handler.verifySignature(payload, signature)
+      );
+      await expect(handler.verifySignatureAsync(payload, signature)).resolves.toEqual({
+        timestamp,
+        secretIndex: 1,
+        secretId: 'current',
+      });
+    });
+
+    it('should reject tampered payloads, bad hex and stale timestamps', async () => {
+      const payload = JSON.stringify({ amount: 100 });
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = createSignature(payload, timestamp, TEST_SECRET);
+
+      await expect(handler.verifySignatureAsync(JSON.stringify({ amount: 999 }), signature)).rejects.toThrow(
+        'Signature verification failed'
+      );
+      await expect(handler.verifySignatureAsync(payload, `t=${timestamp},v1=zz`)).rejects.toThrow(
+        'Signature verification failed'
+      );
+      await expect(
+        handler.verifySignatureAsync(payload, createSignature(payload, timestamp - 301, TEST_SECRET))
+      ).rejects.toThrow('Timestamp outside tolerance');
+    });
+
+    it('should construct events', async () => {
+      const payload = JSON.stringify({ id: 'evt_1', event: 'loan.funded', data: { loanId: 'loan_1' }, timestamp: '' });
+      const signature = createSignature(payload, Math.floor(Date.now() / 1000), TEST_SECRET);
+
+      const event = await handler.constructEventAsync<{ loanId: string }>(payload, signature);
+
+      expect(event.data.loanId).toBe('loan_1');
+    });
+
+    it('should fall back to node:crypto webcrypto without a crypto global (Node 18)', async () => {
+      const payload = JSON.stringify({ id: 'evt_2', event: 'loan.funded', data: {}, timestamp: '' });
+      const signature = createSignature(payload, Math.floor(Date.now() / 1000), TEST_SECRET);
+      vi.stubGlobal('crypto', undefined);
+
+      try {
+        await expect(handler.receive(payload, signature)).resolves.toMatchObject({ event: { id: 'evt_2' } });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
   describe('generateTestHeaders', () => {
     let handler: WebhookHandler;
 
@@ -245,6 +305,126 @@ describe('webhooks/handler', () => {
     });
   });
 
+  describe('secret rotation', () => {
+    const OLD_SECRET = 'whsec_old_secret';
+    const NEW_SECRET = 'whsec_new_secret';
+
+    it('should accept signatures from any configured secret', () => {
+      const handler = new WebhookHandler({ secret: [NEW_SECRET, OLD_SECRET] });
+      const payload = JSON.stringify({ test: true });
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      expect(handler.verifySignature(payload, createSignature(payload, timestamp, NEW_SECRET))).toEqual({
+        timestamp,
+        secretIndex: 0,
+        secretId: undefined,
+      });
+      expect(handler.verifySignature(payload, createSignature(payload, timestamp, OLD_SECRET)).secretIndex).toBe(1);
+    });
+
+    it('should report the id of the matching secret', () => {
+      const handler = new WebhookHandler({
+        secret: [
+          { secret: NEW_SECRET, id: 'current' },
+          { secret: OLD_SECRET, id: 'previous' },
+        ],
+      });
+      const payload = JSON.stringify({ test: true });
+      const signature = createSignature(payload, Math.floor(Date.now() / 1000), OLD_SECRET);
+
+      expect(handler.verifySignature(payload, signature).secretId).toBe('previous');
+    });
+
+    it('should reject signatures from expired secrets', () => {
+      const handler = new WebhookHandler({
+        secret: [
+          NEW_SECRET,
+          { secret: OLD_SECRET, expiresAt: new Date(Date.now() - 1000) },
+        ],
+      });
+      const payload = JSON.stringify({ test: true });
+      const signature = createSignature(payload, Math.floor(Date.now() / 1000), OLD_SECRET);
+
+      expect(() => handler.verifySignature(payload, signature)).toThrow('Signature verification failed');
+    });
+
+    it('should accept secrets with a future expiry', () => {
+      const handler = new WebhookHandler({
+        secret: [{ secret: OLD_SECRET, expiresAt: Date.now() + 60_000 }],
+      });
+      const payload = JSON.stringify({ test: true });
+      const signature = createSignature(payload, Math.floor(Date.now() / 1000), OLD_SECRET);
+
+      expect(() => handler.verifySignature(payload, signature)).not.toThrow();
+    });
+
+    it('should throw when all secrets have expired', () => {
+      const handler = new WebhookHandler({
+        secret: [{ secret: OLD_SECRET, expiresAt: '2020-01-01T00:00:00Z' }],
+      });
+      const payload = JSON.stringify({ test: true });
+      const signature = createSignature(payload, Math.floor(Date.now() / 1000), OLD_SECRET);
+
+      expect(() => handler.verifySignature(payload, signature)).toThrow('All webhook secrets have expired');
+    });
+
+    it('should accept headers with multiple v1 signatures', () => {
+      const handler = new WebhookHandler({ secret: NEW_SECRET });
+      const payload = JSON.stringify({ test: true });
+      const timestamp = Math.floor(Date.now() / 1000);
+      const oldSig = createSignature(payload, timestamp, OLD_SECRET).split(',')[1];
+      const newSig = createSignature(payload, timestamp, NEW_SECRET).split(',')[1];
+
+      expect(() => handler.verifySignature(payload, `t=${timestamp},${oldSig},${newSig}`)).not.toThrow();
+      expect(() => handler.verifySignature(payload, `t=${timestamp}, ${oldSig}, ${newSig}`)).not.toThrow();
+    });
+
+    it('should reject headers where no v1 signature matches', () => {
+      const handler = new WebhookHandler({ secret: NEW_SECRET });
+      const payload = JSON.stringify({ test: true });
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      expect(() =>
+        handler.verifySignature(payload, `t=${timestamp},v1=${'a'.repeat(64)},v1=abc`)
+      ).toThrow('Signature verification failed');
+    });
+
+    it('should sign test headers with the first active secret', () => {
+      const handler = new WebhookHandler({
+        secret: [{ secret: 'whsec_expired', expiresAt: 0 }, NEW_SECRET],
+      });
+      const payload = JSON.stringify({ test: true });
+
+      const headers = handler.generateTestHeaders(payload);
+      const verifier = new WebhookHandler({ secret: NEW_SECRET });
+
+      expect(() => verifier.verifySignature(payload, headers['x-passage-signature'])).not.toThrow();
+    });
+
+    it('should report the matching secret from receive', async () => {
+      const handler = new WebhookHandler({
+        secret: [{ secret: NEW_SECRET, id: 'new' }, { secret: OLD_SECRET, id: 'old' }],
+      });
+      const payload = JSON.stringify({ id: 'evt_1', event: 'test', data: {}, timestamp: '' });
+      const signature = createSignature(payload, Math.floor(Date.now() / 1000), OLD_SECRET);
+
+      const { verification } = await handler.receive(payload, signature);
+
+      expect(verification.secretId).toBe('old');
+    });
+
+    it('should throw for an empty secret list', () => {
+      expect(() => new WebhookHandler({ secret: [] })).toThrow('secret is required');
+      expect(() => new WebhookHandler({ secret: [NEW_SECRET, ''] })).toThrow('secret is required');
+    });
+
+    it('should throw for an invalid expiry', () => {
+      expect(
+        () => new WebhookHandler({ secret: [{ secret: NEW_SECRET, expiresAt: 'not a date' }] })
+      ).toThrow('invalid secret expiresAt');
+    });
+  });
+
   describe('WebhookSignatureError', () => {
     it('should be instanceof PassageError', () => {
       const error = new WebhookSignatureError('test message');
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, expectTypeOf } from 'vitest';
+import { WebhookRouter } from '../../src/webhooks/router';
+import {
+  WEBHOOK_EVENT_TYPES,
+  isWebhookEventType,
+} from '../../src/webhooks/types';
+import type {
+  WebhookEvent,
+  FundingDisbursedData,
+  LoanCreatedData,
+  TypedWebhookEvent,
+} from '../../src/webhooks/types';
+
+function makeEvent<T>(event: string, data: T): WebhookEvent<T> {
+  return {
+    id: `evt_${event}`,
+    event: event as WebhookEvent['event'],
+    data,
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+  };
+}
+
+describe('webhooks/router', () => {
+  describe('isWebhookEventType', () => {
+    it('should recognize every known event type', () => {
+      for (const type of WEBHOOK_EVENT_TYPES) {
+        expect(isWebhookEventType(type)).toBe(true);
+      }
+    });
+
+    it('should reject unknown event types', () => {
+      expect(isWebhookEventType('loan.funded')).toBe(false);
+      expect(isWebhookEventType('')).toBe(false);
+    });
+  });
+
+  describe('on', () => {
+    it('should dispatch to exact event handlers with typed data', async () => {
+      const handler = vi.fn((event: TypedWebhookEvent<'loan.created'>) => {
+        expectTypeOf(event.data).toEqualTypeOf<LoanCreatedData>();
+      });
+      const router = new WebhookRouter().on('loan.created', handler);
+
+      const event = makeEvent('loan.created', { loanId: 'loan_123' });
+      const result = await router.dispatch(event);
+
+      expect(handler).toHaveBeenCalledWith(event);
+      expect(result.ok).toBe(true);
+      expect(result.fallback).toBe(false);
+      expect(result.handlers).toEqual([{ pattern: 'loan.created', ok: true }]);
+    });
+
+    it('should not dispatch to handlers for other event types', async () => {
+      const handler = vi.fn();
+      const router = new WebhookRouter().on('loan.created', handler);
+
+      const result = await router.dispatch(makeEvent('loan.paid_off', {}));
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(result.handlers).toEqual([]);
+    });
+
+    it('should dispatch prefix wildcard handlers', async () => {
+      const seen: string[] = [];
+      const router = new WebhookRouter().on('funding.*', (event) => {
+        seen.push(event.event);
+        if (event.event === 'funding.disbursed') {
+          expectTypeOf(event.data).toEqualTypeOf<FundingDisbursedData>();
+        }
+      });
+
+      await router.dispatch(makeEvent('funding.disbursed', { txHash: '0xabc' }));
+      await router.dispatch(makeEvent('funding.failed', { reason: 'timeout' }));
+      await router.dispatch(makeEvent('loan.created', {}));
+
+      expect(seen).toEqual(['funding.disbursed', 'funding.failed']);
+    });
+
+    it('should support multi-segment prefixes', async () => {
+      const handler = vi.fn();
+      const router = new WebhookRouter().on('wallet.verification.*', handler);
+
+      await router.dispatch(makeEvent('wallet.verification.completed', {}));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dispatch catch-all handlers for every event', async () => {
+      const handler = vi.fn();
+      const router = new WebhookRouter().on('*', handler);
+
+      await router.dispatch(makeEvent('test', {}));
+      await router.dispatch(makeEvent('some.future_event', {}));
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run handlers sequentially in registration order', async () => {
+      const calls: string[] = [];
+      const router = new WebhookRouter()
+        .on('*', async () => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          calls.push('all');
+        })
+        .on('loan.created', () => {
+          calls.push('exact');
+        })
+        .on('loan.*', () => {
+          calls.push('prefix');
+        });
+
+      const result = await router.dispatch(makeEvent('loan.created', {}));
+
+      expect(calls).toEqual(['all', 'exact', 'prefix']);
+      expect(result.handlers.map((h) => h.pattern)).toEqual(['*', 'loan.created', 'loan.*']);
+    });
+  });
+
+  describe('off', () => {
+    it('should remove a registered handler', async () => {
+      const handler = vi.fn();
+      const router = new WebhookRouter().on('test', handler).off('test', handler);
+
+      await router.dispatch(makeEvent('test', {}));
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fallback', () => {
+    it('should run fallback when no handler matches', async () => {
+      const fallback = vi.fn();
+      const router = new WebhookRouter().on('loan.created', vi.fn()).fallback(fallback);
+
+      const result = await router.dispatch(makeEvent('loan.paid_off', {}));
+
+      expect(fallback).toHaveBeenCalledTimes(1);
+      expect(result.fallback).toBe(true);
+      expect(result.handlers).toEqual([{ pattern: 'fallback', ok: true }]);
+    });
+
+    it('should run fallback for unknown event types even if a prefix matches', async () => {
+      const prefixHandler = vi.fn();
+      const fallback = vi.fn();
+      const router = new WebhookRouter().on('loan.*', prefixHandler).fallback(fallback);
+
+      await router.dispatch(makeEvent('loan.restructured', {}));
+
+      expect(prefixHandler).not.toHaveBeenCalled();
+      expect(fallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not run fallback when a handler matched', async () => {
+      const fallback = vi.fn();
+      const router = new WebhookRouter().on('test', vi.fn()).fallback(fallback);
+
+      await router.dispatch(makeEvent('test', {}));
+
+      expect(fallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispatch errors', () => {
+    it('should report handler errors without stopping other handlers', async () => {
+      const error = new Error('database unavailable');
+      const second = vi.fn();
+      const router = new WebhookRouter()
+        .on('test', () => {
+          throw error;
+        })
+        .on('*', second);
+
+      const result = await router.dispatch(makeEvent('test', {}));
+
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(result.ok).toBe(false);
+      expect(result.handlers).toEqual([
+        { pattern: 'test', ok: false, error },
+        { pattern: '*', ok: true },
+      ]);
+    });
+
+    it('should capture rejected async handlers', async () => {
+      const router = new WebhookRouter().on('test', async () => {
+        throw new Error('async failure');
+      });
+
+      const result = await router.dispatch(makeEvent('test', {}));
+
+      expect(result.ok).toBe(false);
+      expect((result.handlers[0].error as Error).message).toBe('async failure');
+    });
+  });
+
+  describe('handles', () => {
+    it('should report whether any handler matches', () => {
+      const router = new WebhookRouter().on('funding.*', vi.fn());
+
+      expect(router.handles('funding.disbursed')).toBe(true);
+      expect(router.handles('loan.created')).toBe(false);
+    });
+  });
+});
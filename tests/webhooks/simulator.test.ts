@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { WebhookSimulator, LOAN_LIFECYCLE_EVENTS } from '../../src/webhooks/simulator';
+import { WebhookHandler } from '../../src/webhooks/handler';
+import { WebhookRouter } from '../../src/webhooks/router';
+import { WEBHOOK_EVENT_TYPES } from '../../src/webhooks/types';
+import { validateWebhookEvent } from '../../src/webhooks/validation';
+import { createNodeHandler } from '../../src/webhooks/adapters';
+
+const TEST_SECRET = 'whsec_test_secret_key_12345';
+
+describe('WebhookSimulator', () => {
+  let simulator: WebhookSimulator;
+  let handler: WebhookHandler;
+
+  beforeEach(() => {
+    simulator = new WebhookSimulator({ secret: TEST_SECRET });
+    handler = new WebhookHandler({ secret: TEST_SECRET, validation: 'strict' });
+  });
+
+  describe('build', () => {
+    it.each(WEBHOOK_EVENT_TYPES)('should build a schema-valid %s event', (type) => {
+      const result = validateWebhookEvent(simulator.build(type));
+
+      expect(result).toEqual({ valid: true, issues: [], unknownFields: [] });
+    });
+
+    it('should apply data overrides', () => {
+      const event = simulator.build('funding.disbursed', { amount: '500' });
+
+      expect(event.event).toBe('funding.disbursed');
+      expect(event.data.amount).toBe('500');
+      expect(event.data.fundingId).toBe(simulator.ids.fundingId);
+    });
+
+    it('should apply envelope options', () => {
+      const timestamp = new Date('2024-01-15T10:30:00Z');
+
+      const event = simulator.build('test', undefined, {
+        id: 'evt_fixed',
+        timestamp,
+        correlationId: 'corr_1',
+      });
+
+      expect(event).toMatchObject({
+        id: 'evt_fixed',
+        timestamp: '2024-01-15T10:30:00.000Z',
+        correlationId: 'corr_1',
+      });
+    });
+
+    it('should use configured IDs and clock', () => {
+      const fixed = new WebhookSimulator({
+        secret: TEST_SECRET,
+        ids: { applicationId: 'app_fixed' },
+        now: () => new Date('2024-01-15T10:30:00Z'),
+      });
+
+      const event = fixed.build('application.created');
+
+      expect(event.data.applicationId).toBe('app_fixed');
+      expect(event.timestamp).toBe('2024-01-15T10:30:00.000Z');
+    });
+
+    it('should generate unique event IDs', () => {
+      expect(simulator.build('test').id).not.toBe(simulator.build('test').id);
+    });
+  });
+
+  describe('sequence', () => {
+    it('should build events with increasing timestamps and shared IDs', () => {
+      const events = simulator.sequence([
+        'funding.required',
+        { type: 'funding.failed', data: { reason: 'Wallet frozen' } },
+      ]);
+
+      expect(events.map((e) => e.event)).toEqual(['funding.required', 'funding.failed']);
+      expect(Date.parse(events[1].timestamp) - Date.parse(events[0].timestamp)).toBe(1000);
+      expect(events[1].data).toMatchObject({
+        applicationId: simulator.ids.applicationId,
+        reason: 'Wallet frozen',
+      });
+    });
+
+    it('should build a full lifecycle', () => {
+      const events = simulator.lifecycle();
+
+      expect(events.map((e) => e.event)).toEqual([...LOAN_LIFECYCLE_EVENTS]);
+      expect(events[0].event).toBe('application.created');
+      expect(events[events.length - 1].event).toBe('loan.paid_off');
+    });
+  });
+
+  describe('sign', () => {
+    it('should produce payloads the handler verifies', () => {
+      const event = simulator.build('loan.created');
+
+      const { payload, headers } = simulator.sign(event);
+
+      expect(headers['content-type']).toBe('application/json');
+      expect(handler.constructEvent(payload, headers['x-passage-signature'])).toEqual(event);
+    });
+  });
+
+  describe('send in-process', () => {
+    it('should deliver events to adapter options', async () => {
+      const onDisbursed = vi.fn();
+      const router = new WebhookRouter().on('funding.disbursed', onDisbursed);
+
+      const delivery = await simulator.send(
+        { handler, router },
+        simulator.build('funding.disbursed', { amount: '500' })
+      );
+
+      expect(delivery.status).toBe(200);
+      expect(onDisbursed).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ amount: '500' }) })
+      );
+    });
+
+    it('should run a lifecycle in order', async () => {
+      const seen: string[] = [];
+      const router = new WebhookRouter().on('*', (event) => {
+        seen.push(event.event);
+      });
+
+      const deliveries = await simulator.run({ handler, router }, simulator.lifecycle());
+
+      expect(deliveries.every((d) => d.status === 200)).toBe(true);
+      expect(seen).toEqual([...LOAN_LIFECYCLE_EVENTS]);
+    });
+
+    it('should stop at the first failed delivery', async () => {
+      const router = new WebhookRouter().on('prequal_offer.received', () => {
+        throw new Error('boom');
+      });
+
+      const deliveries = await simulator.run({ handler, router }, simulator.lifecycle());
+
+      expect(deliveries).toHaveLength(3);
+      expect(deliveries[2].status).toBe(500);
+    });
+
+    it('should continue on failure when requested', async () => {
+      const wrongSecret = new WebhookHandler({ secret: 'whsec_other' });
+
+      const deliveries = await simulator.run(
+        { handler: wrongSecret },
+        simulator.sequence(['test', 'test']),
+        { continueOnFailure: true }
+      );
+
+      expect(deliveries.map((d) => d.status)).toEqual([401, 401]);
+    });
+  });
+
+  describe('send over HTTP', () => {
+    let server: http.Server;
+    let url: string;
+    const received: string[] = [];
+
+    beforeEach(async () => {
+      const router = new WebhookRouter().on('*', (event) => {
+        received.push(event.event);
+      });
+      const handleWebhook = createNodeHandler({ handler, router });
+      server = http.createServer((req, res) => {
+        void handleWebhook(req, res);
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should POST signed events to a URL', async () => {
+      const delivery = await simulator.send(url, simulator.build('loan.paid_off'));
+
+      expect(delivery.status).toBe(200);
+      expect(delivery.body).toEqual({ received: true });
+      expect(received).toContain('loan.paid_off');
+    });
+  });
+});
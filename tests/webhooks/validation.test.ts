@@ -0,0 +1,227 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateWebhookEvent,
+  WebhookPayloadError,
+} from '../../src/webhooks/validation';
+import { WebhookHandler } from '../../src/webhooks/handler';
+import { processWebhookRequest } from '../../src/webhooks/adapters';
+import { PassageError } from '../../src/errors';
+
+const TEST_SECRET = 'whsec_test_secret_key_12345';
+
+function makeEvent(event: string, data: Record<string, unknown>) {
+  return {
+    id: 'evt_123',
+    event,
+    data,
+    timestamp: '2024-01-15T10:30:00Z',
+    version: '1.0',
+  };
+}
+
+const loanStatusChanged = {
+  loanId: 'loan_123',
+  applicationId: 'app_123',
+  previousStatus: 'ACTIVE',
+  newStatus: 'DELINQUENT',
+  changedAt: '2024-01-15T10:30:00Z',
+};
+
+const fundingDisbursed = {
+  fundingId: 'fund_123',
+  applicationId: 'app_123',
+  amount: '5000.00',
+  txHash: '0xabc',
+};
+
+describe('validateWebhookEvent', () => {
+  it('should accept valid events', () => {
+    const result = validateWebhookEvent(makeEvent('loan.status_changed', loanStatusChanged));
+
+    expect(result).toEqual({ valid: true, issues: [], unknownFields: [] });
+  });
+
+  it('should accept optional fields that are absent and nullable fields that are null', () => {
+    const result = validateWebhookEvent(
+      makeEvent('funding.disbursed', { ...fundingDisbursed, txHash: null })
+    );
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report invalid enum values', () => {
+    const result = validateWebhookEvent(
+      makeEvent('loan.status_changed', { ...loanStatusChanged, previousStatus: 'LATE' })
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      { path: 'data.previousStatus', message: expect.stringContaining('received "LATE"') },
+    ]);
+  });
+
+  it('should report missing required fields', () => {
+    const { loanId: _loanId, ...data } = loanStatusChanged;
+
+    const result = validateWebhookEvent(makeEvent('loan.status_changed', data));
+
+    expect(result.issues).toEqual([{ path: 'data.loanId', message: 'Required field is missing' }]);
+  });
+
+  it('should report wrong types', () => {
+    const result = validateWebhookEvent(
+      makeEvent('funding.disbursed', { ...fundingDisbursed, txHash: 42 })
+    );
+
+    expect(result.issues).toEqual([
+      { path: 'data.txHash', message: 'Expected string, received number' },
+    ]);
+  });
+
+  it('should report unexpected nulls', () => {
+    const result = validateWebhookEvent(
+      makeEvent('funding.disbursed', { ...fundingDisbursed, amount: null })
+    );
+
+    expect(result.issues[0].path).toBe('data.amount');
+  });
+
+  it('should validate string arrays', () => {
+    const result = validateWebhookEvent(
+      makeEvent('application.routed', {
+        applicationId: 'app_123',
+        lenderIds: ['lender_1', 2],
+        routedAt: '2024-01-15T10:30:00Z',
+      })
+    );
+
+    expect(result.issues.map((i) => i.path)).toEqual(['data.lenderIds']);
+  });
+
+  it('should list unknown fields without invalidating the event', () => {
+    const result = validateWebhookEvent({
+      ...makeEvent('funding.disbursed', { ...fundingDisbursed, gasUsed: '21000' }),
+      region: 'us',
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.unknownFields).toEqual(['region', 'data.gasUsed']);
+  });
+
+  it('should validate the envelope', () => {
+    const result = validateWebhookEvent({ event: 'test', data: 'hello' });
+
+    expect(result.issues.map((i) => i.path)).toEqual(['id', 'data', 'timestamp']);
+  });
+
+  it('should report unknown event types', () => {
+    const result = validateWebhookEvent(makeEvent('loan.refinanced', {}));
+
+    expect(result.issues).toEqual([
+      { path: 'event', message: "Unknown event type 'loan.refinanced'" },
+    ]);
+  });
+
+  it('should reject non-object payloads', () => {
+    expect(validateWebhookEvent([]).issues[0]).toEqual({
+      path: '(root)',
+      message: 'Expected object, received array',
+    });
+  });
+});
+
+describe('WebhookHandler validation', () => {
+  function signed(handler: WebhookHandler, event: unknown) {
+    const payload = JSON.stringify(event);
+    return { payload, signature: handler.generateTestHeaders(payload)['x-passage-signature'] };
+  }
+
+  it('should not validate by default', () => {
+    const handler = new WebhookHandler({ secret: TEST_SECRET });
+    const { payload, signature } = signed(handler, makeEvent('loan.status_changed', {}));
+
+    expect(() => handler.constructEvent(payload, signature)).not.toThrow();
+  });
+
+  it('should throw WebhookPayloadError in strict mode', () => {
+    const handler = new WebhookHandler({ secret: TEST_SECRET, validation: 'strict' });
+    const { payload, signature } = signed(
+      handler,
+      makeEvent('loan.status_changed', { ...loanStatusChanged, previousStatus: 'LATE' })
+    );
+
+    try {
+      handler.constructEvent(payload, signature);
+      expect.fail('Expected WebhookPayloadError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(WebhookPayloadError);
+      expect(error).toBeInstanceOf(PassageError);
+      const payloadError = error as WebhookPayloadError;
+      expect(payloadError.errorCode).toBe('WEBHOOK_PAYLOAD_INVALID');
+      expect(payloadError.paths).toEqual(['data.previousStatus']);
+      expect(payloadError.eventId).toBe('evt_123');
+      expect(payloadError.eventType).toBe('loan.status_changed');
+    }
+  });
+
+  it('should treat unknown fields as errors in strict mode', async () => {
+    const handler = new WebhookHandler({ secret: TEST_SECRET, validation: 'strict' });
+    const { payload, signature } = signed(
+      handler,
+      makeEvent('funding.disbursed', { ...fundingDisbursed, gasUsed: '21000' })
+    );
+
+    await expect(handler.receive(payload, signature)).rejects.toMatchObject({
+      issues: [{ path: 'data.gasUsed', message: 'Unknown field' }],
+    });
+  });
+
+  it('should report issues without throwing in lenient mode', async () => {
+    const onValidationIssue = vi.fn();
+    const handler = new WebhookHandler({
+      secret: TEST_SECRET,
+      validation: 'lenient',
+      onValidationIssue,
+    });
+    const { payload, signature } = signed(
+      handler,
+      makeEvent('funding.disbursed', { ...fundingDisbursed, gasUsed: '21000' })
+    );
+
+    const received = await handler.receive(payload, signature);
+
+    expect(received.validation).toEqual({
+      valid: true,
+      issues: [],
+      unknownFields: ['data.gasUsed'],
+    });
+    expect(onValidationIssue).toHaveBeenCalledWith(
+      received.validation,
+      expect.objectContaining({ id: 'evt_123' })
+    );
+  });
+
+  it('should not call onValidationIssue for clean payloads', () => {
+    const onValidationIssue = vi.fn();
+    const handler = new WebhookHandler({
+      secret: TEST_SECRET,
+      validation: 'lenient',
+      onValidationIssue,
+    });
+    const { payload, signature } = signed(handler, makeEvent('funding.disbursed', fundingDisbursed));
+
+    handler.constructEvent(payload, signature);
+
+    expect(onValidationIssue).not.toHaveBeenCalled();
+  });
+
+  it('should respond 400 from adapters in strict mode', async () => {
+    const handler = new WebhookHandler({ secret: TEST_SECRET, validation: 'strict' });
+    const { payload, signature } = signed(handler, makeEvent('loan.status_changed', {}));
+
+    const response = await processWebhookRequest({ handler }, { rawBody: payload, signature });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('data.loanId');
+  });
+});
@@ -5,7 +5,9 @@ export default defineConfig({
     index: 'src/index.ts',
     'types/index': 'src/types/index.ts',
     'crypto/index': 'src/crypto/index.ts',
+    'flows/index': 'src/flows/index.ts',
     'webhooks/index': 'src/webhooks/index.ts',
+    'webhooks/adapters/index': 'src/webhooks/adapters/index.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,